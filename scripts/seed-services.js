@@ -61,6 +61,7 @@ const SERVICES = [
       'Full synthetic or conventional oil change with new filter. Includes 20-point inspection and fluid top-off.',
     basePrice: 8900,      // $89
     durationMins: 45,
+    maintenanceTypes: ['oil_change'],
     isActive: true,
     sortOrder: 10,
   },
@@ -71,6 +72,7 @@ const SERVICES = [
       'Front or rear brake pad replacement with rotor inspection. Parts and labor included. OEM-quality pads.',
     basePrice: 22900,     // $229
     durationMins: 90,
+    maintenanceTypes: ['brake_inspection'],
     isActive: true,
     sortOrder: 20,
   },
@@ -91,6 +93,7 @@ const SERVICES = [
       'Rotate all four tires to even out tread wear and balance for a smoother ride.',
     basePrice: 6900,      // $69
     durationMins: 60,
+    maintenanceTypes: ['tire_rotation'],
     isActive: true,
     sortOrder: 40,
   },
@@ -101,6 +104,7 @@ const SERVICES = [
       'Engine and cabin air filter inspection and replacement. Improves fuel efficiency and air quality.',
     basePrice: 4900,      // $49
     durationMins: 20,
+    maintenanceTypes: ['air_filter', 'cabin_filter'],
     isActive: true,
     sortOrder: 50,
   },
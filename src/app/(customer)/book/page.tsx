@@ -1,12 +1,16 @@
 'use client';
 
 import { useState, useEffect, Suspense } from 'react';
+import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
 import { getAllActiveServices } from '@/services/serviceService';
 import { getVehiclesByOwner } from '@/services/vehicleService';
+import { cancelBooking } from '@/services/bookingService';
+import { getPaymentMethods, authorizeBookingPayment } from '@/services/paymentMethodService';
+import { getStripeClient } from '@/lib/stripe/stripeClient';
 import { formatPrice, formatDuration } from '@/lib/formatters';
-import type { Service, Vehicle, BookingTimeWindow } from '@/types';
+import type { Service, Vehicle, BookingTimeWindow, SavedPaymentMethod } from '@/types';
 
 // ─── Step indicator ──────────────────────────────────────────────────────────
 
@@ -407,6 +411,16 @@ function Step4Confirm({
   error: string;
 }) {
   const [notes, setNotes] = useState('');
+  const [card, setCard] = useState<SavedPaymentMethod | null>(null);
+  const [cardLoading, setCardLoading] = useState(true);
+
+  // The booking is authorized against the saved default card
+  useEffect(() => {
+    getPaymentMethods()
+      .then((methods) => setCard(methods.find((m) => m.isDefault) ?? null))
+      .catch(console.error)
+      .finally(() => setCardLoading(false));
+  }, []);
 
   /** Format "2026-03-15" → "Mar 15, 2026" without timezone shift. */
   function formatLocalDate(dateStr: string): string {
@@ -459,8 +473,24 @@ function Step4Confirm({
         <p className="text-[10px] text-text-muted text-right">{notes.length}/500</p>
       </div>
 
+      {/* Payment — saved default card */}
+      <div className="bg-surface-raised border border-surface-border rounded-xl px-4 py-3 flex items-center justify-between gap-4">
+        <span className="text-xs text-text-muted shrink-0">Payment</span>
+        {cardLoading ? (
+          <span className="h-4 w-28 bg-surface-border rounded animate-pulse" />
+        ) : card ? (
+          <span className="text-sm text-text-primary">
+            {card.brand.charAt(0).toUpperCase() + card.brand.slice(1)} •••• {card.last4}
+          </span>
+        ) : (
+          <Link href="/payment-methods" className="text-sm text-brand font-medium">
+            Add a card
+          </Link>
+        )}
+      </div>
+
       <p className="text-xs text-text-muted text-center">
-        Payment is collected after the service is complete.
+        Your card is authorized shortly before the appointment and charged after the service is complete.
       </p>
 
       {error && (
@@ -471,7 +501,7 @@ function Step4Confirm({
 
       <button
         onClick={() => onConfirm(notes)}
-        disabled={loading}
+        disabled={loading || cardLoading || !card}
         className="w-full py-3 bg-brand text-surface-base rounded-xl font-semibold disabled:opacity-60 flex items-center justify-center gap-2"
       >
         {loading ? (
@@ -581,6 +611,28 @@ function BookForm() {
         throw new Error(data?.message || data?.error || 'Booking failed');
       }
 
+      // Hold the server-priced total on the saved card — nothing to authorize
+      // when a subscription covers the booking (50¢ is Stripe's minimum charge).
+      // A booking without a hold is cancelled so it is not dispatched unpaid.
+      if (data.totalPrice >= 50) {
+        try {
+          const auth = await authorizeBookingPayment(data.bookingId, data.totalPrice);
+          if (auth.status === 'requires_action' && auth.clientSecret) {
+            const stripe = await getStripeClient();
+            const result = await stripe?.handleNextAction({ clientSecret: auth.clientSecret });
+            if (!stripe || result?.error) {
+              throw new Error(result?.error?.message ?? 'Card verification failed');
+            }
+          }
+        } catch (err) {
+          await cancelBooking(data.bookingId, user.uid).catch((cancelErr) =>
+            console.error('[book] cancel after failed authorization:', cancelErr)
+          );
+          const reason = err instanceof Error ? err.message : 'Card authorization failed';
+          throw new Error(`Your card could not be authorized, so the booking was not placed: ${reason}`);
+        }
+      }
+
       setCreatedBookingId(data.bookingId);
     } catch (err: unknown) {
       setConfirmError(err instanceof Error ? err.message : 'Something went wrong');
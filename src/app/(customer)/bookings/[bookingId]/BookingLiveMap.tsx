@@ -6,14 +6,16 @@
  * Features:
  *  - Tech marker (white dot, teal stroke) — updated imperatively on GPS ticks
  *  - Destination marker (gold pin) — static service address
- *  - Route polyline — teal line following actual roads via DirectionsService
- *  - Auto-center — map fits to route bounds on load; no re-centering on GPS ticks
+ *  - Route polyline — teal line from job.route, computed server-side on each
+ *    location update (lib/jobs/eta.ts) so every viewer sees the same route
+ *  - Auto-center — map fits to the first route drawn; no re-centering on GPS ticks
  *
  * Architecture:
  *  - All map objects are held in refs so GPS updates never cause a React re-render
  *    or a map flicker (same pattern as LiveMap in /jobs/[jobId]/LiveMap.tsx)
- *  - DirectionsService is called exactly once (guarded by routeFetchedRef)
- *  - If tech location arrives after the map has loaded, the marker + route are
+ *  - The polyline is redrawn only when the stored route changes (re-route,
+ *    or the straight-line estimate moving with the technician)
+ *  - If tech location arrives after the map has loaded, the marker is
  *    created in the GPS-update useEffect rather than onMapLoad
  *
  * Dynamically imported (SSR disabled) by the parent booking detail page.
@@ -22,10 +24,11 @@
 import { useEffect, useRef, useState } from 'react';
 import { GoogleMap, useJsApiLoader } from '@react-google-maps/api';
 import { MAPS_API_KEY, MAPS_LIBRARIES, DARK_MAP_OPTIONS } from '@/lib/maps/googleMaps';
+import { decodePolyline } from '@/lib/maps/polyline';
 
 // ─── DEBUG ─── Remove before shipping ─────────────────────────────────────────
 // Mirrors the flag in the parent page.tsx.
-// Shows a status badge over the map: "OK — route drawn" or "FAILED: REQUEST_DENIED"
+// Shows a status badge over the map: "OK — route drawn" or "waiting…"
 const DEBUG_MAP = true;
 // ──────────────────────────────────────────────────────────────────────────────
 
@@ -34,6 +37,7 @@ interface BookingLiveMapProps {
   techLng: number | null;
   destLat: number;
   destLng: number;
+  routePolyline: string | null;
 }
 
 const MAP_CONTAINER_STYLE = { width: '100%', height: '100%' };
@@ -73,7 +77,7 @@ function destIcon(): google.maps.Symbol {
 
 // ─── Component ────────────────────────────────────────────────────────────
 
-export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: BookingLiveMapProps) {
+export default function BookingLiveMap({ techLat, techLng, destLat, destLng, routePolyline }: BookingLiveMapProps) {
   const { isLoaded, loadError } = useJsApiLoader({
     googleMapsApiKey: MAPS_API_KEY,
     libraries: MAPS_LIBRARIES,
@@ -83,10 +87,10 @@ export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: B
   const techMarkerRef    = useRef<google.maps.Marker | null>(null);
   const destMarkerRef    = useRef<google.maps.Marker | null>(null);
   const routePolylineRef = useRef<google.maps.Polyline | null>(null);
-  const routeFetchedRef  = useRef(false);
+  const routeFittedRef   = useRef(false);
 
-  // DEBUG: tracks the DirectionsService response status — remove with DEBUG_MAP
-  const [directionsStatus, setDirectionsStatus] = useState<string | null>(null);
+  // DEBUG: tracks whether a route has been drawn — remove with DEBUG_MAP
+  const [routeStatus, setRouteStatus] = useState<string | null>(null);
 
   const hasTechLocation = techLat !== null && techLng !== null;
   const hasDestLocation = destLat !== 0 || destLng !== 0;
@@ -97,55 +101,40 @@ export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: B
     ? { lat: destLat, lng: destLng }
     : DEFAULT_CENTER;
 
-  // ── Route fetcher ─────────────────────────────────────────────────────
+  // ── Route drawer ──────────────────────────────────────────────────
   //
-  // Called at most once per component mount. Draws a teal Polyline along
-  // real roads and fits the map to the route bounding box.
-  // Falls back to a simple 2-point fitBounds if Directions fails.
-
-  function fetchRoute(map: google.maps.Map, originLat: number, originLng: number) {
-    if (routeFetchedRef.current || !hasDestLocation) return;
-    routeFetchedRef.current = true;
-
-    const service = new google.maps.DirectionsService();
-    service.route(
-      {
-        origin:      { lat: originLat, lng: originLng },
-        destination: { lat: destLat,   lng: destLng   },
-        travelMode:  google.maps.TravelMode.DRIVING,
-      },
-      (result, status) => {
-        if (status === 'OK' && result) {
-          // Draw polyline along the route path
-          routePolylineRef.current?.setMap(null);
-          routePolylineRef.current = new google.maps.Polyline({
-            path:         result.routes[0].overview_path,
-            map,
-            strokeColor:   '#00E5B4',
-            strokeOpacity: 0.75,
-            strokeWeight:  3,
-            geodesic:      true,
-          });
-          // Fit map to the route bounding box
-          map.fitBounds(result.routes[0].bounds, { top: 40, right: 32, bottom: 56, left: 32 });
-          // DEBUG ─────────────────────────────────────────────────────────────
-          if (DEBUG_MAP) setDirectionsStatus('OK — route drawn');
-          // ───────────────────────────────────────────────────────────────────
-        } else {
-          // Always log Directions errors — REQUEST_DENIED means the API key
-          // doesn't have Directions API enabled or is restricted too tightly.
-          console.error('[BookingLiveMap] DirectionsService error:', status);
-          // DEBUG ─────────────────────────────────────────────────────────────
-          if (DEBUG_MAP) setDirectionsStatus(`FAILED: ${status}`);
-          // ───────────────────────────────────────────────────────────────────
-          // Fallback: manual 2-point fitBounds
-          const bounds = new google.maps.LatLngBounds();
-          bounds.extend({ lat: originLat, lng: originLng });
-          bounds.extend({ lat: destLat,   lng: destLng   });
-          map.fitBounds(bounds, { top: 32, right: 32, bottom: 32, left: 32 });
-        }
-      },
-    );
+  // Replaces the teal Polyline with the stored route. The map fits to the
+  // first route drawn; later re-routes leave the viewport alone.
+  // Falls back to a simple 2-point fitBounds while no route is stored.
+
+  function drawRoute(map: google.maps.Map) {
+    routePolylineRef.current?.setMap(null);
+    routePolylineRef.current = null;
+
+    const path = routePolyline ? decodePolyline(routePolyline) : [];
+    if (path.length >= 2) {
+      routePolylineRef.current = new google.maps.Polyline({
+        path,
+        map,
+        strokeColor:   '#00E5B4',
+        strokeOpacity: 0.75,
+        strokeWeight:  3,
+        geodesic:      true,
+      });
+      // DEBUG ─────────────────────────────────────────────────────────────
+      if (DEBUG_MAP) setRouteStatus('OK — route drawn');
+      // ───────────────────────────────────────────────────────────────────
+    }
+
+    if (routeFittedRef.current || !hasDestLocation) return;
+    const bounds = new google.maps.LatLngBounds();
+    path.forEach((point) => bounds.extend(point));
+    if (hasTechLocation) bounds.extend({ lat: techLat!, lng: techLng! });
+    bounds.extend({ lat: destLat, lng: destLng });
+    if (path.length >= 2 || hasTechLocation) {
+      map.fitBounds(bounds, { top: 40, right: 32, bottom: 56, left: 32 });
+      routeFittedRef.current = path.length >= 2;
+    }
   }
 
   // ── Map load ──────────────────────────────────────────────────────────
@@ -172,8 +161,8 @@ export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: B
         title: 'Technician',
         icon:  techIcon(),
       });
-      fetchRoute(map, techLat!, techLng!);
     }
+    drawRoute(map);
   }
 
   // ── GPS update effect ─────────────────────────────────────────────────
@@ -182,8 +171,7 @@ export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: B
   //
   // Fast path (marker already exists): call setPosition() — no re-render.
   //
-  // Slow path (tech location arrived after map load): create the marker
-  // and kick off the one-time route fetch.
+  // Slow path (tech location arrived after map load): create the marker.
 
   useEffect(() => {
     if (techLat === null || techLng === null) return;
@@ -199,11 +187,19 @@ export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: B
         title: 'Technician',
         icon:  techIcon(),
       });
-      fetchRoute(mapRef.current, techLat, techLng);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [techLat, techLng]);
 
+  // ── Route update effect ───────────────────────────────────────────────
+  //
+  // Runs when the server stores a new route for the job.
+
+  useEffect(() => {
+    if (mapRef.current) drawRoute(mapRef.current);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routePolyline]);
+
   // ── Render ────────────────────────────────────────────────────────────
 
   if (loadError) {
@@ -231,18 +227,15 @@ export default function BookingLiveMap({ techLat, techLng, destLat, destLng }: B
         options={COMPACT_MAP_OPTIONS}
         onLoad={onMapLoad}
       />
-      {/* DEBUG: DirectionsService status badge — remove with DEBUG_MAP ──── */}
+      {/* DEBUG: route status badge — remove with DEBUG_MAP ───────────────── */}
       {DEBUG_MAP && (
         <div className="absolute top-1.5 left-1.5 z-10 font-mono text-[9px] px-1.5 py-0.5 rounded
           bg-black/70 border border-white/20 leading-tight pointer-events-none">
-          {directionsStatus === null && (
-            <span className="text-yellow-300">directions: waiting…</span>
-          )}
-          {directionsStatus?.startsWith('OK') && (
-            <span className="text-green-400">{directionsStatus}</span>
+          {routeStatus === null && (
+            <span className="text-yellow-300">route: waiting…</span>
           )}
-          {directionsStatus?.startsWith('FAILED') && (
-            <span className="text-red-400">{directionsStatus}</span>
+          {routeStatus?.startsWith('OK') && (
+            <span className="text-green-400">{routeStatus}</span>
           )}
           <span className="text-white/40 ml-1">
             dest:{destLat ? destLat.toFixed(4) : 'MISSING'},{destLng ? destLng.toFixed(4) : 'MISSING'}
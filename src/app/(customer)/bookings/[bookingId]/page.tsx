@@ -7,11 +7,18 @@ import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
 import { useChat } from '@/hooks/useChat';
 import { useLiveJob } from '@/hooks/useLiveJob';
-import { listenToBooking, cancelBooking } from '@/services/bookingService';
+import { useChangeOrders } from '@/hooks/useChangeOrders';
+import { useInspection } from '@/hooks/useInspection';
+import { listenToBooking, cancelBooking, tipBooking } from '@/services/bookingService';
 import { getUserById } from '@/services/userService';
+import { respondToChangeOrder } from '@/services/changeOrderService';
 import { formatDate, formatPrice, formatDuration } from '@/lib/formatters';
-import { haversineDistanceMeters } from '@/lib/maps/googleMaps';
+import { canTransition } from '@/lib/bookings/stateMachine';
+import { cancellationPolicyFromEnv, quoteCancellation } from '@/lib/bookings/cancellationPolicy';
 import { BookingChatPanel } from '@/components/booking/BookingChatPanel';
+import { ChangeOrderCard } from '@/components/booking/ChangeOrderCard';
+import { ReceiptButton } from '@/components/booking/ReceiptButton';
+import { InspectionReport } from '@/components/booking/InspectionReport';
 import type { Booking, BookingStatus, User, TechnicianUser } from '@/types';
 
 // Dynamically imported — Google Maps must not run on the server
@@ -192,6 +199,7 @@ function EnRouteCard({
   techLng,
   destLat,
   destLng,
+  routePolyline,
   etaMinutes,
 }: {
   jobId: string;
@@ -199,6 +207,7 @@ function EnRouteCard({
   techLng: number | null;
   destLat: number;
   destLng: number;
+  routePolyline: string | null;
   etaMinutes: number | null;
 }) {
   return (
@@ -210,6 +219,7 @@ function EnRouteCard({
           techLng={techLng}
           destLat={destLat}
           destLng={destLng}
+          routePolyline={routePolyline}
         />
       </div>
 
@@ -363,6 +373,81 @@ function InServiceCard({ jobId }: { jobId: string | null }) {
 
 // ─── Page ─────────────────────────────────────────────────────────────────────
 
+// ─── Tip card ─────────────────────────────────────────────────────────────────
+
+const TIP_PERCENTS = [15, 20, 25];
+
+/** Optional tip after completion — charged separately, paid to the technician in full. */
+function TipCard({ bookingId, totalPrice }: { bookingId: string; totalPrice: number }) {
+  const presets = TIP_PERCENTS.map((pct) => ({
+    label: `${pct}%`,
+    cents: Math.max(100, Math.round((totalPrice * pct) / 100 / 100) * 100),
+  }));
+  const [selected, setSelected] = useState<number | null>(null);
+  const [custom, setCustom] = useState('');
+  const [tipping, setTipping] = useState(false);
+  const [error, setError] = useState('');
+
+  const customCents = Math.round(parseFloat(custom) * 100);
+  const amountCents = custom ? (Number.isFinite(customCents) ? customCents : 0) : selected ?? 0;
+
+  async function handleTip() {
+    if (amountCents < 100 || tipping) return;
+    setTipping(true);
+    setError('');
+    try {
+      await tipBooking(bookingId, amountCents);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to add tip');
+      setTipping(false);
+    }
+  }
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl px-4 py-3 space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-text-primary">Add a tip?</p>
+        <p className="text-xs text-text-muted">100% goes to your technician.</p>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {presets.map((p) => (
+          <button
+            key={p.label}
+            onClick={() => { setSelected(p.cents); setCustom(''); }}
+            className={`py-2 rounded-lg border text-sm transition-colors ${
+              selected === p.cents && !custom
+                ? 'border-brand bg-brand/15 text-brand'
+                : 'border-surface-border text-text-primary hover:border-brand/50'
+            }`}
+          >
+            <span className="font-semibold">{formatPrice(p.cents)}</span>
+            <span className="block text-[10px] text-text-muted">{p.label}</span>
+          </button>
+        ))}
+      </div>
+      <input
+        value={custom}
+        onChange={(e) => setCustom(e.target.value)}
+        placeholder="Custom amount ($)"
+        inputMode="decimal"
+        className="w-full bg-surface-base border border-surface-border rounded-lg px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-brand/50"
+      />
+      {error && (
+        <p className="text-status-fault text-xs bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+      <button
+        onClick={handleTip}
+        disabled={amountCents < 100 || tipping}
+        className="w-full py-2.5 rounded-lg bg-brand text-surface-base text-sm font-semibold disabled:opacity-50"
+      >
+        {tipping ? 'Adding tip…' : amountCents >= 100 ? `Tip ${formatPrice(amountCents)}` : 'Choose an amount'}
+      </button>
+    </div>
+  );
+}
+
 export default function BookingDetailPage() {
   const { bookingId } = useParams<{ bookingId: string }>();
   const { user } = useAuth();
@@ -372,15 +457,25 @@ export default function BookingDetailPage() {
   const [loading, setLoading] = useState(true);
   const [cancelling, setCancelling] = useState(false);
   const [cancelError, setCancelError] = useState('');
+  // Second tap required when a late-cancellation fee applies
+  const [confirmingFee, setConfirmingFee] = useState(false);
 
   // Chat — derives state from booking.status; listens to live messages
   const { messages, chatState, send, sending } = useChat(booking);
 
+  // Extra work proposed on-site — approving re-prices the booking server-side
+  const { changeOrders } = useChangeOrders(bookingId);
+  const handleRespondChangeOrder = (changeOrderId: string, decision: 'approve' | 'decline') =>
+    respondToChangeOrder(bookingId, changeOrderId, decision);
+
   // jobId is now stored on the booking document itself (written atomically when
   // status → 'accepted' by /api/bookings/status). We subscribe via useLiveJob
   // which re-subscribes automatically when booking.jobId is populated.
   const { job: liveJob } = useLiveJob(booking?.jobId ?? '');
 
+  // Vehicle inspection — readable once the technician shares it
+  const { inspection } = useInspection(booking?.jobId);
+
   // Technician snapshot — fetched once when technicianId is first known.
   // Passed to AcceptedCard as a prop so the card never needs its own listener,
   // preventing a duplicate Firestore read on the same document.
@@ -417,12 +512,16 @@ export default function BookingDetailPage() {
     return () => unsub();
   }, [bookingId]);
 
-  async function handleCancel() {
-    if (!booking || booking.status !== 'pending') return;
+  async function handleCancel(feeCents: number) {
+    if (!booking || !user || !canTransition(booking.status, 'cancelled', 'customer')) return;
+    if (feeCents > 0 && !confirmingFee) {
+      setConfirmingFee(true);
+      return;
+    }
     setCancelling(true);
     setCancelError('');
     try {
-      await cancelBooking(bookingId);
+      await cancelBooking(bookingId, user.uid);
     } catch (err: unknown) {
       setCancelError(err instanceof Error ? err.message : 'Failed to cancel booking');
       setCancelling(false);
@@ -457,7 +556,10 @@ export default function BookingDetailPage() {
     );
   }
 
-  const canCancel   = booking.status === 'pending';
+  const canCancel   = canTransition(booking.status, 'cancelled', 'customer');
+  const cancelPolicy = cancellationPolicyFromEnv();
+  const cancelFee    = canCancel ? quoteCancellation(booking, 'customer', cancelPolicy).feeCents : 0;
+  const refunds      = (booking.refunds ?? []).filter((r) => r.status !== 'canceled');
   const isAccepted  = booking.status === 'accepted';
   const isEnRoute   = booking.status === 'en_route';
   const isInService = booking.status === 'in_progress';
@@ -473,15 +575,8 @@ export default function BookingDetailPage() {
   const destLat = (booking.address as { lat?: number } | null)?.lat ?? 0;
   const destLng = (booking.address as { lng?: number } | null)?.lng ?? 0;
 
-  // ETA: Haversine distance ÷ 30 km/h (≈ 500 m/min) → minutes
-  let etaMinutes: number | null = null;
-  if (isEnRoute && techLat !== null && techLng !== null && (destLat || destLng)) {
-    const dist = haversineDistanceMeters(
-      { lat: techLat, lng: techLng },
-      { lat: destLat, lng: destLng },
-    );
-    etaMinutes = Math.max(1, Math.ceil(dist / 500));
-  }
+  // ETA + route are computed server-side on each location update (lib/jobs/eta.ts)
+  const etaMinutes = isEnRoute ? liveJob?.etaMinutes ?? null : null;
 
   // DEBUG: log all map-relevant state on every render ────────────────────────
   if (DEBUG_MAP) {
@@ -564,8 +659,12 @@ export default function BookingDetailPage() {
             </span>
           </p>
           <p>
-            <span className="text-text-muted">directionsService: </span>
-            <span className="text-yellow-300">see BookingLiveMap overlay below</span>
+            <span className="text-text-muted">route: </span>
+            <span className={liveJob?.route ? 'text-green-400' : 'text-yellow-300'}>
+              {liveJob?.route
+                ? `${liveJob.route.source} — ETA ${liveJob.etaMinutes ?? '—'} min`
+                : 'null — computed on the next tech location update'}
+            </span>
           </p>
         </div>
       )}
@@ -587,11 +686,32 @@ export default function BookingDetailPage() {
           techLng={techLng}
           destLat={destLat}
           destLng={destLng}
+          routePolyline={liveJob?.route?.polyline ?? null}
           etaMinutes={etaMinutes}
         />
       )}
       {isInService && <InServiceCard jobId={jobId ?? null} />}
 
+      {/* Change orders — open ones first */}
+      {changeOrders.length > 0 && (
+        <div className="space-y-2">
+          {[...changeOrders]
+            .sort((a, b) => Number(b.status === 'proposed') - Number(a.status === 'proposed'))
+            .map((co) => (
+              <ChangeOrderCard
+                key={co.changeOrderId}
+                changeOrder={co}
+                onRespond={(decision) => handleRespondChangeOrder(co.changeOrderId, decision)}
+              />
+            ))}
+        </div>
+      )}
+
+      {/* Vehicle inspection report */}
+      {inspection?.status === 'shared' && (
+        <InspectionReport inspection={inspection} booking={booking} />
+      )}
+
       {/* Details grid */}
       <div className="bg-surface-raised border border-surface-border rounded-xl divide-y divide-surface-border">
         {rows.map(({ label: rowLabel, value }) => (
@@ -602,10 +722,26 @@ export default function BookingDetailPage() {
         ))}
       </div>
 
-      {/* Price */}
-      <div className="bg-surface-raised border border-surface-border rounded-xl px-4 py-3 flex items-center justify-between">
-        <span className="text-sm text-text-muted">Total</span>
-        <span className="text-lg font-bold text-text-primary">{formatPrice(booking.totalPrice)}</span>
+      {/* Price — breakdown lines only when they apply */}
+      <div className="bg-surface-raised border border-surface-border rounded-xl px-4 py-3 space-y-1.5">
+        {booking.priceBreakdown && (
+          [
+            { label: 'Service',              cents: booking.priceBreakdown.baseCents,      show: true },
+            { label: 'Subscription savings', cents: -booking.priceBreakdown.discountCents, show: booking.priceBreakdown.discountCents > 0 },
+            { label: 'Add-ons',              cents: booking.priceBreakdown.addOnsCents,    show: booking.priceBreakdown.addOnsCents > 0 },
+            { label: 'Tax',                  cents: booking.priceBreakdown.taxCents,       show: booking.priceBreakdown.taxCents > 0 },
+            { label: 'Service fee',          cents: booking.priceBreakdown.feeCents,       show: booking.priceBreakdown.feeCents > 0 },
+          ].filter((line) => line.show).map((line) => (
+            <div key={line.label} className="flex items-center justify-between text-xs text-text-muted">
+              <span>{line.label}</span>
+              <span>{line.cents < 0 ? `−${formatPrice(-line.cents)}` : formatPrice(line.cents)}</span>
+            </div>
+          ))
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-text-muted">Total</span>
+          <span className="text-lg font-bold text-text-primary">{formatPrice(booking.totalPrice)}</span>
+        </div>
       </div>
 
       {/* Payment complete */}
@@ -619,11 +755,66 @@ export default function BookingDetailPage() {
             <p className="text-xs text-text-muted">
               {formatPrice(booking.totalPrice)} charged to your payment method
             </p>
+            <ReceiptButton bookingId={bookingId} className="mt-1.5" />
           </div>
         </div>
       )}
 
-      {/* Cancel (only while pending / no tech assigned) */}
+      {/* Tip — once, after completion */}
+      {isComplete && !booking.tip && (
+        <TipCard bookingId={bookingId} totalPrice={booking.totalPrice} />
+      )}
+
+      {/* Tip, refunds, cancellation fee and disputes */}
+      {(booking.tip || refunds.length > 0 || booking.cancellationFee || booking.dispute) && (
+        <div className="bg-surface-raised border border-surface-border rounded-xl px-4 py-3 space-y-1.5">
+          <p className="text-[10px] font-semibold text-text-muted uppercase tracking-wider">Payment Activity</p>
+          {booking.tip && (
+            <div className="flex items-center justify-between text-xs text-text-muted">
+              <span>
+                Tip for your technician
+                {booking.tip.status === 'processing' && <span> · processing</span>}
+              </span>
+              <span>{formatPrice(booking.tip.amountCents)}</span>
+            </div>
+          )}
+          {booking.cancellationFee && (
+            <div className="flex items-center justify-between text-xs text-text-muted">
+              <span>
+                Late-cancellation fee
+                {booking.cancellationFee.status === 'failed' && <span className="text-status-fault"> · not collected</span>}
+              </span>
+              <span>{formatPrice(booking.cancellationFee.amountCents)}</span>
+            </div>
+          )}
+          {refunds.map((r) => (
+            <div key={r.refundId} className="flex items-start justify-between gap-4 text-xs">
+              <div className="min-w-0">
+                <p className="text-status-optimal">
+                  Refund · {formatDate(r.createdAt)}
+                  {r.status === 'failed' && <span className="text-status-fault"> · failed</span>}
+                  {(r.status === 'pending' || r.status === 'requires_action') && <span className="text-text-muted"> · processing</span>}
+                </p>
+                {r.reason && <p className="text-text-muted truncate">{r.reason}</p>}
+              </div>
+              <span className="text-status-optimal shrink-0">−{formatPrice(r.amountCents)}</span>
+            </div>
+          ))}
+          {(booking.amountRefundedCents ?? 0) > 0 && (
+            <div className="flex items-center justify-between pt-1.5 border-t border-surface-border">
+              <span className="text-sm text-text-muted">Refunded</span>
+              <span className="text-sm font-semibold text-status-optimal">{formatPrice(booking.amountRefundedCents ?? 0)}</span>
+            </div>
+          )}
+          {booking.dispute && (
+            <p className="text-xs text-status-fault">
+              Payment disputed with your bank ({booking.dispute.status.replace(/_/g, ' ')})
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Cancel — free while pending or outside the late-cancellation window */}
       {canCancel && (
         <div className="space-y-2">
           {cancelError && (
@@ -632,14 +823,22 @@ export default function BookingDetailPage() {
             </p>
           )}
           <button
-            onClick={handleCancel}
+            onClick={() => handleCancel(cancelFee)}
             disabled={cancelling}
             className="w-full py-3 border border-status-fault/50 text-status-fault rounded-xl text-sm font-semibold hover:bg-status-fault/10 transition-colors disabled:opacity-60"
           >
-            {cancelling ? 'Cancelling…' : 'Cancel Booking'}
+            {cancelling
+              ? 'Cancelling…'
+              : confirmingFee
+              ? `Cancel and pay ${formatPrice(cancelFee)} fee`
+              : 'Cancel Booking'}
           </button>
           <p className="text-xs text-text-muted text-center">
-            Cancellation is free before a technician is assigned.
+            {cancelFee > 0
+              ? `Cancelling within ${cancelPolicy.freeHours} hours of your appointment incurs a ${formatPrice(cancelFee)} late-cancellation fee.`
+              : booking.status === 'pending'
+              ? 'Cancellation is free before a technician is assigned.'
+              : `Cancellation is free until ${cancelPolicy.freeHours} hours before your appointment.`}
           </p>
         </div>
       )}
@@ -652,6 +851,8 @@ export default function BookingDetailPage() {
           currentUserId={user.uid}
           onSend={send}
           sending={sending}
+          changeOrders={changeOrders}
+          onRespondChangeOrder={handleRespondChangeOrder}
         />
       )}
 
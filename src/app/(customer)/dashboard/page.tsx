@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
 import { getVehiclesByOwner } from '@/services/vehicleService';
 import { getUpcomingBookingsForCustomer } from '@/services/bookingService';
+import { isProjected, projectMileage } from '@/lib/maintenance/mileage';
 import { VEHICLE_STATUS_STYLES } from '@/types';
 import type { Vehicle, WeatherSnapshot, Booking } from '@/types';
 
@@ -678,6 +679,10 @@ export default function DashboardPage() {
 
 function VehicleCard({ vehicle }: { vehicle: Vehicle }) {
   const style = VEHICLE_STATUS_STYLES[vehicle.status];
+  // Odometer projected from driving history when the owner hasn't updated it recently
+  const estimate = vehicle.mileageEstimate ?? null;
+  const projected = estimate !== null && isProjected(estimate);
+  const mileage = projected ? Math.max(vehicle.mileage, projectMileage(estimate)) : vehicle.mileage;
   return (
     <Link
       href={`/vehicles/${vehicle.vehicleId}`}
@@ -690,7 +695,8 @@ function VehicleCard({ vehicle }: { vehicle: Vehicle }) {
           </p>
           <p className="text-text-muted text-sm mt-0.5">
             {vehicle.nickname ? `${vehicle.nickname} · ` : ''}
-            {vehicle.mileage.toLocaleString()} mi
+            {projected ? '~' : ''}{mileage.toLocaleString()} mi
+            {projected && <span> · estimated</span>}
           </p>
         </div>
         <span
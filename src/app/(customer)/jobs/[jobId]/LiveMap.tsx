@@ -7,17 +7,20 @@
  * Key design decision: we use a ref to hold the Google Maps Marker and call
  * marker.setPosition() on GPS updates rather than re-rendering the map.
  * This prevents the map from flickering or re-centering on every GPS write.
+ * The route polyline (job.route, computed server-side) is swapped the same way.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { GoogleMap, useJsApiLoader } from '@react-google-maps/api';
 import { MAPS_API_KEY, MAPS_LIBRARIES, DARK_MAP_OPTIONS } from '@/lib/maps/googleMaps';
+import { decodePolyline } from '@/lib/maps/polyline';
 
 interface LiveMapProps {
   techLat: number | null;
   techLng: number | null;
   destLat: number;
   destLng: number;
+  routePolyline: string | null;
 }
 
 const MAP_CONTAINER_STYLE = { width: '100%', height: '100%' };
@@ -25,7 +28,7 @@ const MAP_CONTAINER_STYLE = { width: '100%', height: '100%' };
 // Default center: Austin, TX (fallback when no coordinates available)
 const DEFAULT_CENTER = { lat: 30.2672, lng: -97.7431 };
 
-export default function LiveMap({ techLat, techLng, destLat, destLng }: LiveMapProps) {
+export default function LiveMap({ techLat, techLng, destLat, destLng, routePolyline }: LiveMapProps) {
   const { isLoaded, loadError } = useJsApiLoader({
     googleMapsApiKey: MAPS_API_KEY,
     libraries: MAPS_LIBRARIES,
@@ -34,6 +37,8 @@ export default function LiveMap({ techLat, techLng, destLat, destLng }: LiveMapP
   const mapRef = useRef<google.maps.Map | null>(null);
   const techMarkerRef = useRef<google.maps.Marker | null>(null);
   const destMarkerRef = useRef<google.maps.Marker | null>(null);
+  const routeLineRef = useRef<google.maps.Polyline | null>(null);
+  const [mapReady, setMapReady] = useState(false);
 
   const hasTechLocation = techLat !== null && techLng !== null;
   const hasDestLocation = destLat !== 0 || destLng !== 0;
@@ -46,6 +51,7 @@ export default function LiveMap({ techLat, techLng, destLat, destLng }: LiveMapP
 
   function onMapLoad(map: google.maps.Map) {
     mapRef.current = map;
+    setMapReady(true);
 
     // Destination marker (customer's address) — gold pin
     if (hasDestLocation) {
@@ -88,6 +94,22 @@ export default function LiveMap({ techLat, techLng, destLat, destLng }: LiveMapP
     techMarkerRef.current.setPosition({ lat: techLat, lng: techLng });
   }, [techLat, techLng]);
 
+  // Draw the server-computed route, replacing the previous one
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return;
+    routeLineRef.current?.setMap(null);
+    routeLineRef.current = null;
+    const path = routePolyline ? decodePolyline(routePolyline) : [];
+    if (path.length < 2) return;
+    routeLineRef.current = new google.maps.Polyline({
+      path,
+      map: mapRef.current,
+      strokeColor: '#00E5B4',
+      strokeOpacity: 0.75,
+      strokeWeight: 4,
+    });
+  }, [mapReady, routePolyline]);
+
   // Fit bounds to show both markers when both are available
   useEffect(() => {
     if (!mapRef.current || !hasTechLocation || !hasDestLocation) return;
@@ -127,6 +127,7 @@ export default function LiveJobPage() {
           techLng={techLng}
           destLat={destLat}
           destLng={destLng}
+          routePolyline={job.route?.polyline ?? null}
         />
 
         {/* Back button overlay */}
@@ -178,6 +179,16 @@ export default function LiveJobPage() {
           </div>
         )}
 
+        {/* Live ETA — computed server-side on each location update */}
+        {job.etaMinutes !== null && (job.currentStage === 'dispatched' || job.currentStage === 'en_route') && (
+          <div className="flex items-center justify-between bg-brand/10 border border-brand/30 rounded-xl px-4 py-3">
+            <p className="text-sm font-semibold text-brand">~{job.etaMinutes} min away</p>
+            {job.route?.source === 'estimate' && (
+              <p className="text-[11px] text-text-muted">Estimated from distance</p>
+            )}
+          </div>
+        )}
+
         {/* Tech location timestamp */}
         {job.techLocation && (
           <p className="text-[11px] text-text-muted">
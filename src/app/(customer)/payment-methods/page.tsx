@@ -1,14 +1,256 @@
-// TODO Phase 3: Payment methods management
-// - listPaymentMethods(stripeCustomerId) → show saved cards (last4, brand, expiry)
-// - Add card: Stripe Elements SetupIntent flow
-// - Remove card: detachPaymentMethod(paymentMethodId)
-// - Default card indicator
+'use client';
+
+/**
+ * Payment methods page.
+ *
+ * Lists the customer's saved cards (brand, last4, expiry) from their Stripe
+ * Customer, and lets them add a card, remove one, or choose the default.
+ * The default card is what booking authorizations and subscription invoices
+ * are charged to — the first card saved becomes the default.
+ *
+ * Adding a card: POST /api/stripe/create-setup-intent → Stripe Elements
+ * PaymentElement → stripe.confirmSetup(). Card details never touch our servers.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import { useAuth } from '@/hooks/useAuth';
+import { getStripeClient } from '@/lib/stripe/stripeClient';
+import {
+  getPaymentMethods,
+  createSetupIntent,
+  setDefaultPaymentMethod,
+  detachPaymentMethod,
+} from '@/services/paymentMethodService';
+import type { SavedPaymentMethod } from '@/types';
+
+const BRAND_LABEL: Record<string, string> = {
+  visa:       'Visa',
+  mastercard: 'Mastercard',
+  amex:       'Amex',
+  discover:   'Discover',
+  diners:     'Diners Club',
+  jcb:        'JCB',
+  unionpay:   'UnionPay',
+};
+
+// ─── Add card form (inside <Elements>) ──────────────────────────────────────
+
+function AddCardForm({
+  onSaved,
+  onCancel,
+}: {
+  onSaved: (paymentMethodId: string | null) => void;
+  onCancel: () => void;
+}) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleSave() {
+    if (!stripe || !elements || saving) return;
+    setSaving(true);
+    setError('');
+
+    const { error: stripeError, setupIntent } = await stripe.confirmSetup({
+      elements,
+      redirect: 'if_required',
+      confirmParams: { return_url: `${window.location.origin}/payment-methods` },
+    });
+
+    if (stripeError) {
+      setError(stripeError.message ?? 'Card could not be saved');
+      setSaving(false);
+      return;
+    }
+
+    const pm = setupIntent?.payment_method;
+    onSaved(typeof pm === 'string' ? pm : pm?.id ?? null);
+  }
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-4">
+      <PaymentElement options={{ layout: 'tabs' }} />
+
+      {error && <p className="text-sm text-status-fault">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="flex-1 py-2.5 rounded-xl text-sm font-semibold bg-surface-mid text-text-secondary"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!stripe || saving}
+          className="flex-1 py-2.5 rounded-xl text-sm font-semibold bg-brand text-black disabled:opacity-60"
+        >
+          {saving ? 'Saving…' : 'Save Card'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Page ────────────────────────────────────────────────────────────────────
 
 export default function PaymentMethodsPage() {
+  const { user } = useAuth();
+
+  const [methods, setMethods] = useState<SavedPaymentMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [setupSecret, setSetupSecret] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setMethods(await getPaymentMethods());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cards');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    refresh();
+  }, [user, refresh]);
+
+  async function handleAddCard() {
+    setError('');
+    try {
+      setSetupSecret(await createSetupIntent());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start card setup');
+    }
+  }
+
+  async function handleSaved(paymentMethodId: string | null) {
+    setSetupSecret(null);
+    try {
+      // First card saved becomes the default
+      if (paymentMethodId && !methods.some((m) => m.isDefault)) {
+        await setDefaultPaymentMethod(paymentMethodId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not set default card');
+    }
+    await refresh();
+  }
+
+  async function handleSetDefault(paymentMethodId: string) {
+    setBusyId(paymentMethodId);
+    setError('');
+    try {
+      await setDefaultPaymentMethod(paymentMethodId);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not set default card');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleRemove(paymentMethodId: string) {
+    setBusyId(paymentMethodId);
+    setError('');
+    try {
+      await detachPaymentMethod(paymentMethodId);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove card');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-4 space-y-4">
+        <div className="h-8 w-48 bg-surface-raised rounded animate-pulse" />
+        {[1, 2].map((i) => (
+          <div key={i} className="h-16 bg-surface-raised rounded-xl animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
   return (
-    <div className="p-4 space-y-4">
-      <h1 className="text-2xl font-bold text-text-primary">Payment Methods</h1>
-      <p className="text-text-muted text-sm">Phase 3 — not yet implemented</p>
+    <div className="p-4 pb-8 space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-text-primary">Payment Methods</h1>
+        <p className="text-sm text-text-muted mt-0.5">
+          Your default card is authorized when you book and charged after the service.
+        </p>
+      </div>
+
+      {methods.length === 0 && !setupSecret && (
+        <p className="text-sm text-text-muted text-center py-6">No saved cards yet.</p>
+      )}
+
+      <div className="space-y-2">
+        {methods.map((m) => (
+          <div
+            key={m.paymentMethodId}
+            className={`bg-surface-raised border rounded-xl px-4 py-3 flex items-center justify-between gap-3 ${
+              m.isDefault ? 'border-brand/50' : 'border-surface-border'
+            }`}
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-text-primary">
+                {BRAND_LABEL[m.brand] ?? m.brand} •••• {m.last4}
+              </p>
+              <p className="text-xs text-text-muted mt-0.5">
+                Expires {String(m.expMonth).padStart(2, '0')}/{String(m.expYear).slice(-2)}
+                {m.isDefault && <span className="text-brand font-medium"> · Default</span>}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              {!m.isDefault && (
+                <button
+                  onClick={() => handleSetDefault(m.paymentMethodId)}
+                  disabled={busyId !== null}
+                  className="text-xs text-brand disabled:opacity-50"
+                >
+                  Make default
+                </button>
+              )}
+              <button
+                onClick={() => handleRemove(m.paymentMethodId)}
+                disabled={busyId !== null}
+                className="text-xs text-status-fault disabled:opacity-50"
+              >
+                {busyId === m.paymentMethodId ? '…' : 'Remove'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {setupSecret ? (
+        <Elements
+          stripe={getStripeClient()}
+          options={{ clientSecret: setupSecret, appearance: { theme: 'night' } }}
+        >
+          <AddCardForm onSaved={handleSaved} onCancel={() => setSetupSecret(null)} />
+        </Elements>
+      ) : (
+        <button
+          onClick={handleAddCard}
+          className="w-full py-3 rounded-xl border border-dashed border-surface-border text-sm font-semibold text-brand hover:border-brand/50 transition-colors"
+        >
+          + Add a Card
+        </button>
+      )}
+
+      {error && <p className="text-sm text-status-fault text-center">{error}</p>}
     </div>
   );
 }
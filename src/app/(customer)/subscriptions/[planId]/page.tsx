@@ -6,8 +6,9 @@
  * Shows full plan details, the customer's current subscription status
  * for this plan, and a vehicle-scoped enroll CTA.
  *
- * Enrollment posts to /api/subscriptions/enroll with the selected vehicleId.
- * In MVP the EnrollCTA renders disabled — Stripe not yet wired.
+ * Enrollment posts to /api/subscriptions/enroll with the selected vehicleId,
+ * then sends the customer to Stripe's hosted invoice page to pay the first
+ * period. The subscription stays pending_payment until that invoice is paid.
  */
 
 import { useState, useEffect } from 'react';
@@ -51,7 +52,7 @@ export default function PlanDetailPage() {
   }, [planId, user?.uid]);
 
   const activeSubscription = subscriptions.find(
-    (s) => s.planId === planId && s.status === 'active'
+    (s) => s.planId === planId && (s.status === 'active' || s.status === 'pending_payment')
   ) ?? null;
 
   async function handleEnroll(enrollPlanId: string) {
@@ -78,6 +79,11 @@ export default function PlanDetailPage() {
         throw new Error(err.error ?? 'Enrollment failed');
       }
 
+      const { hostedInvoiceUrl } = await res.json();
+      if (hostedInvoiceUrl) {
+        window.location.assign(hostedInvoiceUrl);
+        return;
+      }
       router.push('/subscriptions');
     } catch (err) {
       setEnrollError(err instanceof Error ? err.message : 'Enrollment failed');
@@ -30,6 +30,8 @@ export default function VehicleDetailPage() {
   // Factory schedule — generated server-side, 30-day cache
   const [factorySchedule, setFactorySchedule] = useState<FactoryMaintenanceItem[] | null>(null);
   const [scheduleLoading, setScheduleLoading] = useState(false);
+  const [adopting, setAdopting] = useState(false);
+  const [adoptMessage, setAdoptMessage] = useState('');
 
   // Upcoming bookings for this vehicle
   const [upcomingBookings, setUpcomingBookings] = useState<Booking[]>([]);
@@ -111,6 +113,37 @@ export default function VehicleDetailPage() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [vehicle?.vehicleId]);
 
+  // Turn the factory schedule into tracked maintenance schedules
+  async function adoptSchedule() {
+    if (adopting) return;
+    setAdopting(true);
+    setAdoptMessage('');
+    try {
+      const { getAuth } = await import('firebase/auth');
+      const idToken = await getAuth().currentUser?.getIdToken();
+      const res = await fetch('/api/vehicles/factory-schedule/adopt', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+        },
+        body: JSON.stringify({ vehicleId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to adopt schedule');
+      const created: number = data.created?.length ?? 0;
+      setAdoptMessage(
+        created > 0
+          ? `Tracking ${created} service${created === 1 ? '' : 's'} — reminders are on.`
+          : 'Every factory item is already tracked.'
+      );
+    } catch (err) {
+      setAdoptMessage(err instanceof Error ? err.message : 'Failed to adopt schedule');
+    } finally {
+      setAdopting(false);
+    }
+  }
+
   // Fetch upcoming bookings for this vehicle
   useEffect(() => {
     if (!user || !vehicle) return;
@@ -401,9 +434,23 @@ export default function VehicleDetailPage() {
 
       {/* Factory maintenance schedule */}
       <section>
-        <h2 className="text-xs font-semibold text-text-muted uppercase tracking-wider mb-2">
-          Factory Schedule
-        </h2>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xs font-semibold text-text-muted uppercase tracking-wider">
+            Factory Schedule
+          </h2>
+          {factorySchedule && factorySchedule.length > 0 && (
+            <button
+              onClick={adoptSchedule}
+              disabled={adopting}
+              className="text-xs text-brand font-medium disabled:opacity-50"
+            >
+              {adopting ? 'Adding…' : 'Track these'}
+            </button>
+          )}
+        </div>
+        {adoptMessage && (
+          <p className="text-xs text-text-muted mb-2">{adoptMessage}</p>
+        )}
         {scheduleLoading ? (
           <div className="space-y-2">
             {[1, 2, 3].map((i) => (
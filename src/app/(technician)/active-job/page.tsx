@@ -3,13 +3,23 @@
 import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { getAuth } from 'firebase/auth';
 import { useAuth } from '@/hooks/useAuth';
 import { useGeoLocation } from '@/hooks/useGeoLocation';
-import { getTechnicianActiveJob, advanceJobStage, updateTechLocation } from '@/services/jobService';
-import { getBookingById } from '@/services/bookingService';
+import { useChangeOrders } from '@/hooks/useChangeOrders';
+import { getTechnicianActiveJob, advanceJobStage, updateTechLocation, listenToJob } from '@/services/jobService';
+import { listenToBooking } from '@/services/bookingService';
+import { getAllActiveServices } from '@/services/serviceService';
+import { proposeChangeOrder, type ChangeOrderItemDraft } from '@/services/changeOrderService';
+import { ChangeOrderCard } from '@/components/booking/ChangeOrderCard';
+import { QualityCheckPanel } from '@/components/jobs/QualityCheckPanel';
+import { JobPhotoCapture } from '@/components/jobs/JobPhotoCapture';
+import { InspectionPanel } from '@/components/jobs/InspectionPanel';
 import { haversineDistanceMeters } from '@/lib/maps/googleMaps';
 import { formatPrice } from '@/lib/formatters';
-import type { Job, Booking, JobStage } from '@/types';
+import { JOB_STAGES_REQUIRING_NOTE } from '@/lib/bookings/stateMachine';
+import { buildChecklist, missingChecklistItems } from '@/lib/jobs/qualityChecklist';
+import type { Job, Booking, JobStage, Service } from '@/types';
 
 // ─── Stage config ─────────────────────────────────────────────────────────────
 
@@ -29,7 +39,7 @@ const STAGES: Record<JobStage, StageConfig> = {
   },
   en_route: {
     label: 'En Route',
-    description: "You're on the way. GPS is active.",
+    description: "You're on the way. GPS is active — you'll be marked arrived at the address.",
     nextLabel: 'Mark Arrived',
     nextStage: 'arrived',
   },
@@ -59,6 +69,9 @@ const STAGES: Record<JobStage, StageConfig> = {
   },
 };
 
+/** Stages in which the technician records photos, the inspection, the checklist and parts. */
+const ON_SITE_STAGES: JobStage[] = ['arrived', 'in_progress', 'quality_check'];
+
 const STAGE_ORDER: JobStage[] = [
   'dispatched', 'en_route', 'arrived', 'in_progress', 'quality_check', 'complete',
 ];
@@ -67,33 +80,38 @@ const STAGE_ORDER: JobStage[] = [
 
 const GPS_MIN_DISTANCE_M = 10;
 const GPS_MIN_INTERVAL_MS = 5000;
+/** POST /api/jobs/location rejects fixes closer together than 2 s. */
+const GPS_MIN_GAP_MS = 3000;
 
 function TechLocationBroadcaster({
   jobId,
   active,
+  onStageChange,
 }: {
   jobId: string;
   active: boolean;
+  /** Called when the server moves the job on — e.g. arrival detected by geofence. */
+  onStageChange: (stage: JobStage) => void;
 }) {
   const { position, error, supported } = useGeoLocation(active);
   const lastWriteRef = useRef<{ lat: number; lng: number; time: number } | null>(null);
 
   useEffect(() => {
     if (!position || !active) return;
-    const { latitude: lat, longitude: lng } = position.coords;
+    const { latitude: lat, longitude: lng, accuracy } = position.coords;
     const now = Date.now();
     const last = lastWriteRef.current;
 
     const distMoved = last ? haversineDistanceMeters({ lat: last.lat, lng: last.lng }, { lat, lng }) : Infinity;
     const timeElapsed = last ? now - last.time : Infinity;
 
-    if (distMoved >= GPS_MIN_DISTANCE_M || timeElapsed >= GPS_MIN_INTERVAL_MS) {
-      updateTechLocation(jobId, { lat, lng }).catch((err) =>
-        console.error('[TechLocationBroadcaster] write error:', err)
-      );
+    if ((distMoved >= GPS_MIN_DISTANCE_M && timeElapsed >= GPS_MIN_GAP_MS) || timeElapsed >= GPS_MIN_INTERVAL_MS) {
+      updateTechLocation(jobId, { lat, lng, accuracy })
+        .then(({ currentStage }) => onStageChange(currentStage))
+        .catch((err) => console.error('[TechLocationBroadcaster] write error:', err));
       lastWriteRef.current = { lat, lng, time: now };
     }
-  }, [position, active, jobId]);
+  }, [position, active, jobId]); // eslint-disable-line react-hooks/exhaustive-deps
 
   if (!active) return null;
 
@@ -109,6 +127,192 @@ function TechLocationBroadcaster({
   );
 }
 
+// ─── Change order form ────────────────────────────────────────────────────────
+
+/** A draft line plus what the form needs to display it before the server prices it. */
+interface DraftLine extends ChangeOrderItemDraft {
+  displayLabel: string;
+  displayCents: number;
+}
+
+function ChangeOrderForm({ bookingId, onDone }: { bookingId: string; onDone: () => void }) {
+  const [services, setServices] = useState<Service[]>([]);
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [serviceId, setServiceId] = useState('');
+  const [customKind, setCustomKind] = useState<'part' | 'labor'>('part');
+  const [customLabel, setCustomLabel] = useState('');
+  const [customPrice, setCustomPrice] = useState('');
+  const [customQty, setCustomQty] = useState('1');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAllActiveServices()
+      .then(setServices)
+      .catch(() => setServices([]));
+  }, []);
+
+  function addService() {
+    const service = services.find((s) => s.serviceId === serviceId);
+    if (!service) return;
+    setLines((prev) => [...prev, {
+      kind: 'service',
+      serviceId: service.serviceId,
+      quantity: 1,
+      displayLabel: service.name,
+      displayCents: service.basePrice,
+    }]);
+    setServiceId('');
+  }
+
+  function addCustom() {
+    const unitPriceCents = Math.round(parseFloat(customPrice) * 100);
+    const quantity = parseInt(customQty, 10);
+    if (!customLabel.trim() || !Number.isFinite(unitPriceCents) || unitPriceCents < 0 || !(quantity >= 1)) {
+      setError('Enter a description, price and quantity.');
+      return;
+    }
+    setError('');
+    setLines((prev) => [...prev, {
+      kind: customKind,
+      label: customLabel.trim(),
+      quantity,
+      unitPriceCents,
+      displayLabel: quantity > 1 ? `${customLabel.trim()} × ${quantity}` : customLabel.trim(),
+      displayCents: unitPriceCents * quantity,
+    }]);
+    setCustomLabel('');
+    setCustomPrice('');
+    setCustomQty('1');
+  }
+
+  async function handleSubmit() {
+    if (lines.length === 0 || submitting) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      await proposeChangeOrder(
+        bookingId,
+        lines.map(({ kind, serviceId: id, label, quantity, unitPriceCents }) => ({ kind, serviceId: id, label, quantity, unitPriceCents })),
+        note.trim() || undefined
+      );
+      onDone();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to send to customer');
+      setSubmitting(false);
+    }
+  }
+
+  const inputClass = 'bg-surface-base border border-surface-border rounded-lg px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-brand/50';
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-3">
+      <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Propose Additional Work</p>
+
+      {lines.length > 0 && (
+        <ul className="space-y-1.5">
+          {lines.map((line, i) => (
+            <li key={i} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-text-primary">
+                {line.displayLabel}
+                <span className="ml-1.5 text-[10px] uppercase tracking-wider text-text-muted">{line.kind}</span>
+              </span>
+              <span className="flex items-center gap-2 shrink-0">
+                <span className="text-text-primary">{formatPrice(line.displayCents)}</span>
+                <button
+                  onClick={() => setLines((prev) => prev.filter((_, j) => j !== i))}
+                  aria-label="Remove line"
+                  className="text-text-muted hover:text-status-fault text-xs"
+                >
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* From the catalog — priced by the server */}
+      <div className="flex gap-2">
+        <select value={serviceId} onChange={(e) => setServiceId(e.target.value)} className={`flex-1 min-w-0 ${inputClass}`}>
+          <option value="">Add a service…</option>
+          {services.map((s) => (
+            <option key={s.serviceId} value={s.serviceId}>{s.name} — {formatPrice(s.basePrice)}</option>
+          ))}
+        </select>
+        <button onClick={addService} disabled={!serviceId} className="px-3 rounded-lg bg-brand/20 text-brand text-sm font-semibold disabled:opacity-40">
+          Add
+        </button>
+      </div>
+
+      {/* Custom part or labor */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <select value={customKind} onChange={(e) => setCustomKind(e.target.value as 'part' | 'labor')} className={inputClass}>
+            <option value="part">Part</option>
+            <option value="labor">Labor</option>
+          </select>
+          <input
+            value={customLabel}
+            onChange={(e) => setCustomLabel(e.target.value)}
+            placeholder={customKind === 'part' ? 'e.g. Front brake pads' : 'e.g. Rotor resurfacing'}
+            maxLength={100}
+            className={`flex-1 min-w-0 ${inputClass}`}
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={customPrice}
+            onChange={(e) => setCustomPrice(e.target.value)}
+            placeholder="Unit price ($)"
+            inputMode="decimal"
+            className={`flex-1 min-w-0 ${inputClass}`}
+          />
+          <input
+            value={customQty}
+            onChange={(e) => setCustomQty(e.target.value)}
+            placeholder="Qty"
+            inputMode="numeric"
+            className={`w-16 ${inputClass}`}
+          />
+          <button onClick={addCustom} className="px-3 rounded-lg bg-brand/20 text-brand text-sm font-semibold">
+            Add
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Why is this needed? (shown to the customer)"
+        maxLength={500}
+        rows={2}
+        className={`w-full resize-none ${inputClass}`}
+      />
+
+      {error && (
+        <p className="text-status-fault text-sm bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={onDone} className="flex-1 py-2.5 rounded-lg border border-surface-border text-sm text-text-muted">
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={lines.length === 0 || submitting}
+          className="flex-1 py-2.5 rounded-lg bg-brand text-surface-base text-sm font-semibold disabled:opacity-50"
+        >
+          {submitting ? 'Sending…' : `Send for Approval · ${formatPrice(lines.reduce((sum, l) => sum + l.displayCents, 0))}`}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // ─── Stage stepper ────────────────────────────────────────────────────────────
 
 function StageStepper({ currentStage }: { currentStage: JobStage }) {
@@ -152,20 +356,36 @@ export default function ActiveJobPage() {
   const [loading, setLoading] = useState(true);
   const [advancing, setAdvancing] = useState(false);
   const [advanceError, setAdvanceError] = useState('');
+  const [stageNote, setStageNote] = useState('');
   const [completing, setCompleting] = useState(false);
+  const [proposing, setProposing] = useState(false);
+  const { changeOrders } = useChangeOrders(job?.bookingId);
 
   const gpsActive = job?.currentStage === 'en_route' || job?.currentStage === 'arrived';
 
   useEffect(() => {
     if (!user) return;
     getTechnicianActiveJob(user.uid)
-      .then((j) => {
-        setJob(j);
-        if (j) return getBookingById(j.bookingId).then(setBooking);
-      })
+      .then(setJob)
       .finally(() => setLoading(false));
   }, [user]);
 
+  // Live job — checklist, photos and parts saved via the API show up here
+  useEffect(() => {
+    if (!job) return;
+    const unsub = listenToJob(job.jobId, (live) => {
+      if (live) setJob(live);
+    });
+    return () => unsub();
+  }, [job?.jobId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Live booking — approved change orders update the total while on-site
+  useEffect(() => {
+    if (!job) return;
+    const unsub = listenToBooking(job.bookingId, setBooking);
+    return () => unsub();
+  }, [job?.bookingId]); // eslint-disable-line react-hooks/exhaustive-deps
+
   async function handleAdvanceStage() {
     if (!job || !user) return;
     const cfg = STAGES[job.currentStage];
@@ -179,8 +399,9 @@ export default function ActiveJobPage() {
     setAdvancing(true);
     setAdvanceError('');
     try {
-      await advanceJobStage(job.jobId, cfg.nextStage);
+      await advanceJobStage(job.jobId, cfg.nextStage, stageNote.trim() || undefined);
       setJob((prev) => prev ? { ...prev, currentStage: cfg.nextStage! } : prev);
+      setStageNote('');
     } catch (err: unknown) {
       setAdvanceError(err instanceof Error ? err.message : 'Failed to advance stage');
     } finally {
@@ -194,11 +415,9 @@ export default function ActiveJobPage() {
     setAdvanceError('');
 
     try {
-      // Advance to complete stage in Firestore
-      await advanceJobStage(job.jobId, 'complete');
-
-      // Capture payment via server
-      const idToken = await (user as { getIdToken?: () => Promise<string> }).getIdToken?.();
+      // Capture payment via server — also moves the job to 'complete' and
+      // the booking to 'complete' in one transaction
+      const idToken = await getAuth().currentUser?.getIdToken();
       const res = await fetch('/api/stripe/capture-payment', {
         method: 'POST',
         headers: {
@@ -246,7 +465,13 @@ export default function ActiveJobPage() {
   }
 
   const stageConfig = STAGES[job.currentStage];
+  const noteRequired = stageConfig.nextStage !== null && JOB_STAGES_REQUIRING_NOTE.includes(stageConfig.nextStage);
   const isComplete = job.currentStage === 'complete';
+  const onSite = ON_SITE_STAGES.includes(job.currentStage);
+  const missingChecks = booking
+    ? missingChecklistItems(job.checklist ?? buildChecklist(booking.serviceSnapshot.category))
+    : [];
+  const checklistBlocking = stageConfig.nextStage === 'complete' && missingChecks.length > 0;
 
   return (
     <div className="p-4 space-y-4 pb-8">
@@ -271,7 +496,11 @@ export default function ActiveJobPage() {
 
       {/* GPS broadcast */}
       {(job.currentStage === 'en_route' || job.currentStage === 'dispatched') && (
-        <TechLocationBroadcaster jobId={job.jobId} active={gpsActive} />
+        <TechLocationBroadcaster
+          jobId={job.jobId}
+          active={gpsActive}
+          onStageChange={(stage) => setJob((prev) => prev && prev.currentStage !== stage ? { ...prev, currentStage: stage } : prev)}
+        />
       )}
 
       {/* Job details */}
@@ -326,6 +555,37 @@ export default function ActiveJobPage() {
         </div>
       )}
 
+      {/* On-site — photos, checklist and parts go into the service record;
+          the inspection is shared with the customer */}
+      {booking && onSite && (
+        <>
+          <JobPhotoCapture job={job} />
+          <InspectionPanel jobId={job.jobId} />
+          {job.currentStage !== 'arrived' && (
+            <QualityCheckPanel job={job} category={booking.serviceSnapshot.category} />
+          )}
+        </>
+      )}
+
+      {/* Change orders — extra work the customer must approve */}
+      {booking && !isComplete && (
+        <div className="space-y-2">
+          {changeOrders.map((co) => (
+            <ChangeOrderCard key={co.changeOrderId} changeOrder={co} compact />
+          ))}
+          {proposing ? (
+            <ChangeOrderForm bookingId={booking.bookingId} onDone={() => setProposing(false)} />
+          ) : (
+            <button
+              onClick={() => setProposing(true)}
+              className="w-full py-2.5 rounded-xl border border-dashed border-surface-border text-sm text-text-muted hover:text-text-primary transition-colors"
+            >
+              + Propose additional work
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Advance stage / Complete */}
       {!isComplete && stageConfig.nextStage && (
         <div className="space-y-2">
@@ -334,9 +594,19 @@ export default function ActiveJobPage() {
               {advanceError}
             </p>
           )}
+          {noteRequired && (
+            <textarea
+              value={stageNote}
+              onChange={(e) => setStageNote(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              placeholder="What did you check? (required)"
+              className="w-full bg-surface-raised border border-surface-border rounded-xl px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-brand"
+            />
+          )}
           <button
             onClick={handleAdvanceStage}
-            disabled={advancing || completing}
+            disabled={advancing || completing || (noteRequired && !stageNote.trim()) || checklistBlocking}
             className={`w-full py-3.5 rounded-xl font-semibold text-sm flex items-center justify-center gap-2 transition-colors ${
               stageConfig.nextStage === 'complete'
                 ? 'bg-green-500 text-white hover:bg-green-400'
@@ -355,7 +625,11 @@ export default function ActiveJobPage() {
               stageConfig.nextLabel
             )}
           </button>
-          {stageConfig.nextStage === 'complete' && (
+          {checklistBlocking ? (
+            <p className="text-xs text-status-serviceDue text-center">
+              Tick every required checklist item to complete the job.
+            </p>
+          ) : stageConfig.nextStage === 'complete' && (
             <p className="text-xs text-text-muted text-center">
               This will capture payment from the customer.
             </p>
@@ -1,13 +1,178 @@
-// TODO Phase 3: Technician completed jobs list
-// - getTechnicianBookings(uid, status='complete') → jobs list sorted newest first
-// - Each row: service, customer vehicle, date, earnings (totalPrice)
-// - Total earnings summary at top
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import { getTechnicianBookings } from '@/services/bookingService';
+import { getEarnings, getPayoutPeriods } from '@/services/earningsService';
+import { formatDate, formatPrice } from '@/lib/formatters';
+import type { Booking, EarningEntry, PayoutPeriod } from '@/types';
+
+// ─── Payout period row ────────────────────────────────────────────────────────
+
+function PeriodRow({ period }: { period: PayoutPeriod }) {
+  const lastDay = new Date(period.periodEnd.getTime() - 1);
+  const running = period.periodEnd.getTime() > Date.now();
+  const badge = period.status === 'paid'
+    ? { label: 'Paid', className: 'bg-green-500/15 text-green-400' }
+    : running
+    ? { label: 'This week', className: 'bg-brand/15 text-brand' }
+    : { label: 'Awaiting payout', className: 'bg-status-serviceDue/15 text-status-serviceDue' };
+
+  return (
+    <div className="px-4 py-3 space-y-1">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <p className="text-sm font-medium text-text-primary">
+            {formatDate(period.periodStart)} – {formatDate(lastDay)}
+          </p>
+          <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full shrink-0 ${badge.className}`}>
+            {badge.label}
+          </span>
+        </div>
+        <p className="text-sm font-bold text-text-primary shrink-0">{formatPrice(period.totalCents)}</p>
+      </div>
+      <p className="text-xs text-text-muted">
+        {formatPrice(period.serviceCents)} jobs
+        {period.tipCents > 0 && ` · ${formatPrice(period.tipCents)} tips`}
+        {period.adjustmentCents !== 0 && ` · ${period.adjustmentCents < 0 ? '−' : '+'}${formatPrice(Math.abs(period.adjustmentCents))} adjustments`}
+        {period.status === 'paid' && period.paidAt && ` · paid ${formatDate(period.paidAt)}`}
+      </p>
+    </div>
+  );
+}
+
+// ─── Main page ────────────────────────────────────────────────────────────────
 
 export default function TechJobHistoryPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [earnings, setEarnings] = useState<EarningEntry[]>([]);
+  const [periods, setPeriods] = useState<PayoutPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    Promise.all([
+      getTechnicianBookings(user.uid, 'complete'),
+      getEarnings(user.uid),
+      getPayoutPeriods(user.uid),
+    ])
+      .then(([b, e, p]) => {
+        setBookings([...b].sort((x, y) => y.scheduledAt.getTime() - x.scheduledAt.getTime()));
+        setEarnings(e);
+        setPeriods(p);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load job history'))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  // Service share + tip per booking
+  const earningsByBooking = useMemo(() => {
+    const map = new Map<string, { serviceCents: number; tipCents: number }>();
+    for (const entry of earnings) {
+      if (!entry.bookingId || entry.type === 'adjustment') continue;
+      const row = map.get(entry.bookingId) ?? { serviceCents: 0, tipCents: 0 };
+      if (entry.type === 'tip') row.tipCents += entry.amountCents;
+      else row.serviceCents += entry.amountCents;
+      map.set(entry.bookingId, row);
+    }
+    return map;
+  }, [earnings]);
+
+  const now = Date.now();
+  const thisWeekCents = periods
+    .filter((p) => p.periodStart.getTime() <= now && p.periodEnd.getTime() > now)
+    .reduce((sum, p) => sum + p.totalCents, 0);
+  const awaitingCents = periods
+    .filter((p) => p.status === 'open' && p.periodEnd.getTime() <= now)
+    .reduce((sum, p) => sum + p.totalCents, 0);
+
+  if (authLoading || loading) {
+    return (
+      <div className="p-4 space-y-4">
+        <div className="h-8 w-36 bg-surface-raised rounded animate-pulse" />
+        <div className="h-20 bg-surface-raised rounded-xl animate-pulse" />
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-16 bg-surface-raised rounded-xl animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
   return (
-    <div className="p-4 space-y-4">
+    <div className="p-4 space-y-4 pb-8">
       <h1 className="text-2xl font-bold text-text-primary">Job History</h1>
-      <p className="text-text-muted text-sm">Phase 3 — not yet implemented</p>
+
+      {error && (
+        <p className="text-status-fault text-sm bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+
+      {/* Earnings summary */}
+      <div className="grid grid-cols-3 gap-2">
+        {[
+          { label: 'This week',       value: formatPrice(thisWeekCents) },
+          { label: 'Awaiting payout', value: formatPrice(awaitingCents) },
+          { label: 'Jobs completed',  value: String(bookings.length) },
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-surface-raised border border-surface-border rounded-xl px-3 py-3">
+            <p className="text-[10px] text-text-muted uppercase tracking-wider font-medium">{label}</p>
+            <p className="text-lg font-bold text-text-primary mt-0.5">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Payout periods */}
+      {periods.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Payouts</p>
+          <div className="bg-surface-raised border border-surface-border rounded-xl divide-y divide-surface-border">
+            {periods.map((p) => <PeriodRow key={p.periodId} period={p} />)}
+          </div>
+        </div>
+      )}
+
+      {/* Completed jobs */}
+      <div className="space-y-2">
+        <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Completed Jobs</p>
+        {bookings.length === 0 ? (
+          <div className="text-center py-10 space-y-3">
+            <p className="text-text-muted text-sm">No completed jobs yet.</p>
+            <Link href="/queue" className="inline-block px-4 py-2 bg-brand text-surface-base rounded-lg text-sm font-semibold">
+              View Job Queue
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-surface-raised border border-surface-border rounded-xl divide-y divide-surface-border">
+            {bookings.map((b) => {
+              const earned = earningsByBooking.get(b.bookingId);
+              return (
+                <div key={b.bookingId} className="px-4 py-3 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-text-primary truncate">{b.serviceSnapshot.name}</p>
+                    <p className="text-xs text-text-muted truncate">
+                      {b.vehicleSnapshot.year} {b.vehicleSnapshot.make} {b.vehicleSnapshot.model}
+                    </p>
+                    <p className="text-xs text-text-muted">{formatDate(b.scheduledAt)}</p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-bold text-brand">
+                      {earned ? formatPrice(earned.serviceCents + earned.tipCents) : '—'}
+                    </p>
+                    {earned && earned.tipCents > 0 && (
+                      <p className="text-xs text-status-optimal">incl. {formatPrice(earned.tipCents)} tip</p>
+                    )}
+                    <p className="text-[10px] text-text-muted">of {formatPrice(b.totalPrice)}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
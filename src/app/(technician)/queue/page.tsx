@@ -2,22 +2,42 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import { getAuth } from 'firebase/auth';
 import { useAuth } from '@/hooks/useAuth';
 import { getPendingBookings } from '@/services/bookingService';
 import { formatDate, formatPrice, formatDuration } from '@/lib/formatters';
 import type { Booking } from '@/types';
 
+/** True while the booking's auto-dispatch offer is held by someone and unexpired. */
+function hasLiveOffer(booking: Booking): boolean {
+  return !!booking.dispatchOffer && booking.dispatchOffer.expiresAt.getTime() > Date.now();
+}
+
 function JobCard({
   booking,
+  offeredToMe,
   onAccept,
+  onSkip,
   accepting,
 }: {
   booking: Booking;
+  offeredToMe: boolean;
   onAccept: (bookingId: string) => void;
+  onSkip: (bookingId: string) => void;
   accepting: boolean;
 }) {
   return (
-    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-3">
+    <div
+      className={`bg-surface-raised border rounded-xl p-4 space-y-3 ${
+        offeredToMe ? 'border-brand' : 'border-surface-border'
+      }`}
+    >
+      {offeredToMe && booking.dispatchOffer && (
+        <p className="text-xs font-medium text-brand">
+          Offered to you · expires {booking.dispatchOffer.expiresAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+        </p>
+      )}
+
       {/* Service + price */}
       <div className="flex items-start justify-between gap-3">
         <div className="flex-1 min-w-0">
@@ -80,6 +100,7 @@ function JobCard({
           )}
         </button>
         <button
+          onClick={() => onSkip(booking.bookingId)}
           disabled={accepting}
           className="px-4 py-2.5 border border-surface-border text-text-muted rounded-lg text-sm font-medium hover:text-text-secondary transition-colors disabled:opacity-40"
         >
@@ -101,10 +122,23 @@ export default function QueuePage() {
   const fetchQueue = useCallback(() => {
     setLoading(true);
     getPendingBookings()
-      .then(setBookings)
+      .then((pending) => {
+        // Hide jobs exclusively offered to another technician; own offers first
+        const uid = user?.uid;
+        const visible = pending.filter(
+          (b) => !hasLiveOffer(b) || b.dispatchOffer?.technicianId === uid
+        );
+        setBookings(
+          visible.sort(
+            (a, b) =>
+              Number(b.dispatchOffer?.technicianId === uid) -
+              Number(a.dispatchOffer?.technicianId === uid)
+          )
+        );
+      })
       .catch(() => setError('Failed to load queue'))
       .finally(() => setLoading(false));
-  }, []);
+  }, [user?.uid]);
 
   useEffect(() => {
     if (!user) return;
@@ -117,22 +151,24 @@ export default function QueuePage() {
     setError('');
 
     try {
-      const idToken = await (user as { getIdToken?: () => Promise<string> }).getIdToken?.();
-      const res = await fetch('/api/admin/assign-technician', {
-        method: 'POST',
+      const idToken = await getAuth().currentUser?.getIdToken();
+      const res = await fetch('/api/bookings/status', {
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
           ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
         },
-        body: JSON.stringify({ bookingId, technicianId: user.uid }),
+        body: JSON.stringify({ bookingId, userId: user.uid, status: 'accepted' }),
       });
 
       if (!res.ok) {
         const data = await res.json();
         if (res.status === 409) {
-          // Already accepted — refresh queue
+          // Already accepted or offered to someone else — drop it from the queue
           setBookings((prev) => prev.filter((b) => b.bookingId !== bookingId));
-          setError('That job was already accepted. Queue refreshed.');
+          setError(data.error === 'Booking is currently offered to another technician'
+            ? 'That job is currently offered to another technician.'
+            : 'That job was already accepted. Queue refreshed.');
         } else {
           throw new Error(data.error ?? 'Failed to accept job');
         }
@@ -148,6 +184,27 @@ export default function QueuePage() {
     }
   }
 
+  async function handleSkip(bookingId: string) {
+    const booking = bookings.find((b) => b.bookingId === bookingId);
+    setBookings((prev) => prev.filter((b) => b.bookingId !== bookingId));
+
+    // Skipping a job offered to us declines it so the next technician is offered
+    if (!user || booking?.dispatchOffer?.technicianId !== user.uid || !hasLiveOffer(booking)) return;
+    try {
+      const idToken = await getAuth().currentUser?.getIdToken();
+      await fetch('/api/bookings/decline-offer', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+        },
+        body: JSON.stringify({ bookingId }),
+      });
+    } catch {
+      // Non-critical — the offer lapses on its own
+    }
+  }
+
   if (authLoading || loading) {
     return (
       <div className="p-4 space-y-3">
@@ -195,7 +252,9 @@ export default function QueuePage() {
             <JobCard
               key={b.bookingId}
               booking={b}
+              offeredToMe={!!user && b.dispatchOffer?.technicianId === user.uid && hasLiveOffer(b)}
               onAccept={handleAccept}
+              onSkip={handleSkip}
               accepting={accepting === b.bookingId}
             />
           ))}
@@ -2,15 +2,16 @@
  * POST /api/admin/assign-technician
  *
  * Admin-only route to manually assign a technician to a pending booking.
- * Also creates the Job document.
+ * Also creates the Job document. The technician must pass the same
+ * eligibility checks as a self-accept (see lib/dispatch/dispatch.ts).
  *
  * Body: { bookingId, technicianId }
  * Returns: { success: true, jobId }
  */
 
 import { z } from 'zod';
-import { FieldValue } from 'firebase-admin/firestore';
 import { adminDb, adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { assignTechnician, DispatchError } from '@/lib/dispatch/dispatch';
 
 export const runtime = 'nodejs';
 
@@ -49,66 +50,23 @@ export async function POST(request: Request) {
 
   const { bookingId, technicianId } = body;
 
-  // 3. Firestore transaction: assign + create Job
+  // 3. Dispatch — eligibility checks + job creation in one transaction.
+  // The customer notification is sent by assignTechnician().
   let jobId: string;
   try {
-    const bookingRef = adminDb.collection('bookings').doc(bookingId);
-    const jobRef = adminDb.collection('jobs').doc();
-    jobId = jobRef.id;
-
-    await adminDb.runTransaction(async (tx) => {
-      const bookingSnap = await tx.get(bookingRef);
-      if (!bookingSnap.exists) throw new Error('Booking not found');
-      const booking = bookingSnap.data()!;
-      if (booking.status !== 'pending') throw new Error('Booking is not pending');
-
-      // a+b. Update booking
-      tx.update(bookingRef, {
-        technicianId,
-        status: 'accepted',
-      });
-
-      // c. Create job
-      tx.set(jobRef, {
-        bookingId,
-        technicianId,
-        customerId: booking.customerId,
-        stages: [{ stage: 'dispatched', enteredAt: FieldValue.serverTimestamp(), note: null }],
-        currentStage: 'dispatched',
-        techLocation: null,
-        notes: null,
-        startedAt: null,
-        completedAt: null,
-      });
-
-      // d. Update technician currentJobId
-      tx.update(adminDb.collection('users').doc(technicianId), {
-        currentJobId: jobId,
-      });
+    const result = await assignTechnician({
+      bookingId,
+      technicianId,
+      assignedBy: 'admin',
+      adminId:    decodedToken.uid,
     });
+    jobId = result.jobId;
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : 'Transaction failed';
-    return Response.json({ error: message }, { status: 409 });
-  }
-
-  // 4. Create notification for customer (outside transaction — non-critical)
-  try {
-    const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
-    const customerId = bookingSnap.data()?.customerId as string;
-    if (customerId) {
-      await adminDb.collection('notifications').add({
-        userId: customerId,
-        type: 'technician_accepted',
-        title: 'Technician Assigned',
-        body: 'A technician has been assigned to your booking and is on the way.',
-        read: false,
-        relatedBookingId: bookingId,
-        relatedJobId: jobId,
-        createdAt: FieldValue.serverTimestamp(),
-      });
+    if (err instanceof DispatchError) {
+      return Response.json({ error: err.message }, { status: err.status });
     }
-  } catch (err) {
-    console.error('[assign-technician] notification error:', err);
+    console.error('[assign-technician] dispatch error:', err);
+    return Response.json({ error: 'Transaction failed' }, { status: 500 });
   }
 
   return Response.json({ success: true, jobId });
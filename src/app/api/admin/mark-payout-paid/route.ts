@@ -0,0 +1,62 @@
+/**
+ * POST /api/admin/mark-payout-paid
+ *
+ * Admin-only route to mark a technician's ended payout period as paid once
+ * the money has been sent (see lib/payouts/ledger.ts). The technician is
+ * notified.
+ *
+ * Body: { periodId, payoutReference? }   // e.g. the bank transfer ID
+ * Returns: { periodId, totalCents, alreadyPaid }
+ */
+
+import { z } from 'zod';
+import { adminDb, adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { markPayoutPeriodPaid, PayoutError } from '@/lib/payouts/ledger';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  periodId:        z.string().min(1),
+  payoutReference: z.string().min(1).max(200).optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Verify admin token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  const callerSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+  if (!callerSnap.exists || callerSnap.data()?.role !== 'admin') {
+    return Response.json({ error: 'Forbidden — admin only' }, { status: 403 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Mark paid
+  try {
+    const result = await markPayoutPeriodPaid({ ...body, adminId: decodedToken.uid });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof PayoutError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[mark-payout-paid] error:', err);
+    return Response.json({ error: 'Failed to mark payout paid' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * POST /api/admin/payout-adjustment
+ *
+ * Admin-only route to credit (positive) or debit (negative) a technician's
+ * earnings in their current payout period (see lib/payouts/ledger.ts).
+ *
+ * Body: { technicianId, amountCents, description, bookingId? }
+ * Returns: { periodId }
+ */
+
+import { z } from 'zod';
+import { adminDb, adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { recordAdjustment, PayoutError } from '@/lib/payouts/ledger';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  technicianId: z.string().min(1),
+  amountCents:  z.number().int().refine((n) => n !== 0, 'amountCents must not be 0'),
+  description:  z.string().min(1).max(500),
+  bookingId:    z.string().min(1).optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Verify admin token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  const callerSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+  if (!callerSnap.exists || callerSnap.data()?.role !== 'admin') {
+    return Response.json({ error: 'Forbidden — admin only' }, { status: 403 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Record
+  try {
+    const result = await recordAdjustment({ ...body, adminId: decodedToken.uid });
+    return Response.json(result, { status: 201 });
+  } catch (err: unknown) {
+    if (err instanceof PayoutError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[payout-adjustment] error:', err);
+    return Response.json({ error: 'Failed to record adjustment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * POST /api/admin/refund-booking
+ *
+ * Admin-only route to refund all or part of a booking's captured payment
+ * (see lib/stripe/refunds.ts). The refund is recorded on booking.refunds and
+ * the service history record, and the customer is notified.
+ *
+ * Body: { bookingId, amountCents?, reason }   // omit amountCents for a full refund
+ * Returns: { refunds, amountRefundedCents, refundableCents }
+ */
+
+import { z } from 'zod';
+import { adminDb, adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { refundBooking, RefundError } from '@/lib/stripe/refunds';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  bookingId:   z.string().min(1),
+  amountCents: z.number().int().positive().optional(),
+  reason:      z.string().min(1).max(500),
+});
+
+export async function POST(request: Request) {
+  // 1. Verify admin token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  const callerSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+  if (!callerSnap.exists || callerSnap.data()?.role !== 'admin') {
+    return Response.json({ error: 'Forbidden — admin only' }, { status: 403 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Refund
+  try {
+    const result = await refundBooking({ ...body, adminId: decodedToken.uid });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof RefundError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[refund-booking] error:', err);
+    return Response.json({ error: 'Refund failed' }, { status: 500 });
+  }
+}
@@ -4,6 +4,17 @@
  * Creates a new booking from the customer booking flow.
  * No Stripe integration — status is set to 'pending' on creation.
  * Payment is handled later when a technician accepts the job.
+ * If the vehicle's active subscription covers the service, one entitlement
+ * use is reserved in the same transaction as the booking write and totalPrice
+ * is discounted (lib/subscriptions/redemption.ts). totalPrice and its
+ * priceBreakdown (base, discount, tax, fee) are computed here — the client
+ * never supplies a price (lib/bookings/pricing.ts).
+ * With source 'inspection' the booking is the follow-up for a yellow or red
+ * item of a shared vehicle inspection: serviceId must be the item's
+ * recommendation, and the item is linked to the booking in the same
+ * transaction (lib/inspections/inspections.ts).
+ * After the write, the booking is offered to the best-scoring available
+ * technician (lib/dispatch/autoDispatch.ts) without blocking the response.
  *
  * Request body:
  * {
@@ -13,11 +24,13 @@
  *   scheduledDate:       string;             // ISO date string, e.g. "2026-03-15"
  *   scheduledTimeWindow: 'morning' | 'afternoon' | 'evening';
  *   notes?:              string;             // optional customer notes
- *   source?:             'assistant' | 'schedule' | 'history' | 'manual';
+ *   source?:             'assistant' | 'schedule' | 'history' | 'manual' | 'inspection';
+ *   inspectionId?:       string;             // required with source 'inspection'
+ *   inspectionItemId?:   string;             // required with source 'inspection'
  * }
  *
  * Response:
- * { bookingId: string }
+ * { bookingId: string; totalPrice: number; priceBreakdown: PriceBreakdown; subscriptionId: string | null }
  *
  * Auth: Firebase ID token required in Authorization header.
  * Caller must own the vehicle.
@@ -27,6 +40,11 @@ import { z } from 'zod';
 import { FieldValue } from 'firebase-admin/firestore';
 import { adminAuth, adminDb } from '@/lib/firebase/firebaseAdmin';
 import { geocodeAddress, buildAddressString } from '@/lib/maps/geocode';
+import { autoDispatchBooking } from '@/lib/dispatch/autoDispatch';
+import { buildStatusChange } from '@/lib/bookings/transitionBooking';
+import { reserveEntitlement } from '@/lib/subscriptions/redemption';
+import { computePriceBreakdown, pricingConfigFromEnv } from '@/lib/bookings/pricing';
+import { prepareInspectionFollowUp, InspectionError } from '@/lib/inspections/inspections';
 import type { Service, ServiceSnapshot, VehicleSnapshot } from '@/types';
 
 export const runtime = 'nodejs';
@@ -54,8 +72,13 @@ const bodySchema = z.object({
   scheduledTimeWindow: z.enum(['morning', 'afternoon', 'evening']),
   address:             addressSchema,
   notes:               z.string().max(500).optional(),
-  source:              z.enum(['assistant', 'schedule', 'history', 'manual']).optional(),
-});
+  source:              z.enum(['assistant', 'schedule', 'history', 'manual', 'inspection']).optional(),
+  inspectionId:        z.string().min(1).optional(),
+  inspectionItemId:    z.string().min(1).optional(),
+}).refine(
+  (b) => b.source !== 'inspection' || (!!b.inspectionId && !!b.inspectionItemId),
+  { message: 'inspectionId and inspectionItemId are required with source "inspection"', path: ['inspectionId'] },
+);
 
 /** Maps a time window label to the start hour for scheduledAt (24h). */
 const TIME_WINDOW_HOURS: Record<'morning' | 'afternoon' | 'evening', number> = {
@@ -95,6 +118,9 @@ export async function POST(request: Request) {
     }
 
     const { userId, vehicleId, serviceId, scheduledDate, scheduledTimeWindow, address, notes, source } = body;
+    const sourceInspection = source === 'inspection'
+      ? { inspectionId: body.inspectionId!, itemId: body.inspectionItemId! }
+      : null;
 
     // Ensure authenticated user matches the requested userId
     if (decodedToken.uid !== userId) {
@@ -138,6 +164,7 @@ export async function POST(request: Request) {
       category:     serviceData.category     ?? 'mechanic',
       basePrice:    serviceData.basePrice    ?? 0,
       durationMins: serviceData.durationMins ?? 0,
+      maintenanceTypes: serviceData.maintenanceTypes ?? null,
     };
 
     const vehicleSnapshot: VehicleSnapshot = {
@@ -152,34 +179,77 @@ export async function POST(request: Request) {
 
     console.log('[bookings/create] serviceSnapshot:', serviceSnapshot);
 
-    // 7. Write booking to Firestore
+    // 7. Write booking + redeem a subscription entitlement in one transaction
     console.log('[bookings/create] Writing booking to Firestore...');
-    const bookingRef = await adminDb.collection('bookings').add(clean({
-      customerId:           userId,
-      technicianId:         null,
-      jobId:                null,
-      vehicleId,
-      serviceId,
-      serviceSnapshot,
-      vehicleSnapshot,
-      scheduledAt,
-      flexDateEnd:          null,
-      status:               'pending',
-      address,              // validated above — street/city/state/zip required; lat/lng default 0
-      totalPrice:           serviceData.basePrice ?? 0,
-      stripePaymentIntentId: null,
-      scheduledTimeWindow,
-      notes:                notes ?? null,
-      source:               source ?? 'manual',
-      createdAt:            FieldValue.serverTimestamp(),
-    }));
-    console.log('[bookings/create] Booking written, id:', bookingRef.id);
+    const bookingRef = adminDb.collection('bookings').doc();
+    const pricingConfig = pricingConfigFromEnv();
+    const { reservation, priceBreakdown } = await adminDb.runTransaction(async (tx) => {
+      const linkFollowUp = sourceInspection
+        ? await prepareInspectionFollowUp(tx, {
+            ...sourceInspection,
+            customerId: userId,
+            vehicleId,
+            serviceId:  serviceSnapshot.serviceId,
+          })
+        : null;
+      const reserved = await reserveEntitlement(tx, {
+        bookingId:  bookingRef.id,
+        customerId: userId,
+        vehicleId,
+        service:    {
+          serviceId: serviceSnapshot.serviceId,
+          category:  serviceSnapshot.category,
+          basePrice: serviceSnapshot.basePrice,
+        },
+      });
+      const breakdown = computePriceBreakdown({
+        ...pricingConfig,
+        baseCents:     serviceSnapshot.basePrice,
+        discountCents: reserved?.discountCents ?? 0,
+        addOns:        [],
+      });
+
+      tx.set(bookingRef, clean({
+        customerId:           userId,
+        technicianId:         null,
+        jobId:                null,
+        vehicleId,
+        serviceId,
+        serviceSnapshot,
+        vehicleSnapshot,
+        scheduledAt,
+        flexDateEnd:          null,
+        status:               'pending',
+        address,              // validated above — street/city/state/zip required; lat/lng default 0
+        totalPrice:           breakdown.totalCents,
+        priceBreakdown:       breakdown,
+        addOns:               [],
+        stripePaymentIntentId: null,
+        subscriptionId:       reserved?.subscriptionId ?? null,
+        subscriptionDiscountCents: reserved?.discountCents ?? null,
+        scheduledTimeWindow,
+        notes:                notes ?? null,
+        source:               source ?? 'manual',
+        sourceInspection,
+        statusHistory:        [buildStatusChange(null, 'pending', 'customer', userId)],
+        createdAt:            FieldValue.serverTimestamp(),
+      }));
+      linkFollowUp?.(bookingRef.id);
+
+      return { reservation: reserved, priceBreakdown: breakdown };
+    });
+    console.log(
+      '[bookings/create] Booking written, id:', bookingRef.id,
+      reservation ? `(covered by subscription ${reservation.subscriptionId})` : ''
+    );
 
     // Geocode the address immediately — fire-and-forget so the response is
     // not blocked. The booking detail page subscribes via listenToBooking and
     // will receive the coords via a second onSnapshot push once the write lands.
     // The status route re-runs geocoding on 'accepted' as a fallback in case
     // this call fails (e.g. cold-start latency, transient API error).
+    // Auto-dispatch runs once geocoding settles so candidates can be scored by
+    // distance; if geocoding fails it still runs with distance treated as unknown.
     const bookingId = bookingRef.id;
     geocodeAddress(buildAddressString(address))
       .then(async (coords) => {
@@ -190,10 +260,24 @@ export async function POST(request: Request) {
         });
         console.log(`[bookings/create] geocoded ${bookingId} → ${coords.lat}, ${coords.lng}`);
       })
-      .catch((err) => console.error('[bookings/create] geocode error:', err));
+      .catch((err) => console.error('[bookings/create] geocode error:', err))
+      .then(() => autoDispatchBooking(bookingId))
+      .catch((err) => console.error('[bookings/create] auto-dispatch error:', err));
 
-    return Response.json({ ok: true, bookingId }, { status: 201 });
+    return Response.json(
+      {
+        ok:             true,
+        bookingId,
+        totalPrice:     priceBreakdown.totalCents,
+        priceBreakdown,
+        subscriptionId: reservation?.subscriptionId ?? null,
+      },
+      { status: 201 },
+    );
   } catch (err) {
+    if (err instanceof InspectionError) {
+      return Response.json({ ok: false, error: err.message }, { status: err.status });
+    }
     console.error('[bookings/create] ERROR:', err);
     return Response.json(
       { ok: false, error: 'booking_failed', message: String(err) },
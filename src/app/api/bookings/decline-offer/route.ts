@@ -0,0 +1,59 @@
+/**
+ * POST /api/bookings/decline-offer
+ *
+ * Technician declines the auto-dispatch offer they currently hold for a
+ * pending booking. The technician is excluded from future offers for this
+ * booking and the next-best candidate is offered immediately.
+ *
+ * Body: { bookingId }
+ * Returns: { success: true, outcome }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ * Caller must be the technician named in booking.dispatchOffer.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { releaseOffer } from '@/lib/dispatch/autoDispatch';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  bookingId: z.string().min(1),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Release the offer only if it is held by the caller, then re-dispatch
+  try {
+    const outcome = await releaseOffer(body.bookingId, decodedToken.uid);
+    if (outcome.status === 'skipped' && outcome.reason === 'No matching offer to release') {
+      return Response.json({ error: 'No offer held for this booking' }, { status: 409 });
+    }
+    return Response.json({ success: true, outcome });
+  } catch (err) {
+    console.error('[decline-offer] error:', err);
+    return Response.json({ error: 'Failed to decline offer' }, { status: 500 });
+  }
+}
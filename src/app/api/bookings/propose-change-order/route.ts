@@ -0,0 +1,77 @@
+/**
+ * POST /api/bookings/propose-change-order
+ *
+ * The assigned technician proposes extra work on an open booking — catalog
+ * services (priced server-side) and/or custom parts and labor. The customer is
+ * notified and approves or declines via /api/bookings/respond-change-order.
+ *
+ * Body: {
+ *   bookingId: string;
+ *   items: { kind: 'service' | 'part' | 'labor'; serviceId?; label?; quantity; unitPriceCents? }[];
+ *   note?: string;
+ * }
+ * Returns: { changeOrderId, subtotalCents }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { proposeChangeOrder, ChangeOrderError } from '@/lib/bookings/changeOrders';
+
+export const runtime = 'nodejs';
+
+const itemSchema = z.object({
+  kind:           z.enum(['service', 'part', 'labor']),
+  serviceId:      z.string().min(1).optional(),
+  label:          z.string().min(1).max(100).optional(),
+  quantity:       z.number().int().min(1).max(100),
+  unitPriceCents: z.number().int().nonnegative().max(500000).optional(),
+});
+
+const bodySchema = z.object({
+  bookingId: z.string().min(1),
+  items:     z.array(itemSchema).min(1).max(20),
+  note:      z.string().max(500).optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = bodySchema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Propose — the technician check happens inside the transaction
+  try {
+    const result = await proposeChangeOrder({
+      bookingId:    body.bookingId,
+      technicianId: decodedToken.uid,
+      items:        body.items,
+      note:         body.note?.trim() || null,
+    });
+    return Response.json(result, { status: 201 });
+  } catch (err: unknown) {
+    if (err instanceof ChangeOrderError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[propose-change-order] error:', err);
+    return Response.json({ error: 'Failed to propose change order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * GET /api/bookings/receipt?bookingId=…
+ *
+ * Downloads the itemized receipt for a completed booking as a PDF. The invoice
+ * is (re-)issued first so tips and refunds since completion are included
+ * (see lib/invoices/invoices.ts).
+ *
+ * Returns: application/pdf (Content-Disposition: attachment)
+ *
+ * Auth: Firebase ID token required in Authorization header. The caller must be
+ * the booking's customer, its technician, or an admin.
+ */
+
+import { adminAuth, adminDb } from '@/lib/firebase/firebaseAdmin';
+import { issueInvoice, InvoiceError } from '@/lib/invoices/invoices';
+import { renderInvoicePdf } from '@/lib/invoices/renderPdf';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate query
+  const bookingId = new URL(request.url).searchParams.get('bookingId');
+  if (!bookingId) {
+    return Response.json({ error: 'bookingId is required' }, { status: 400 });
+  }
+
+  // 3. Ownership
+  const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
+  if (!bookingSnap.exists) {
+    return Response.json({ error: 'Booking not found' }, { status: 404 });
+  }
+  const booking = bookingSnap.data()!;
+  if (booking.customerId !== decodedToken.uid && booking.technicianId !== decodedToken.uid) {
+    const callerSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    if (callerSnap.data()?.role !== 'admin') {
+      return Response.json({ error: 'Forbidden — not your booking' }, { status: 403 });
+    }
+  }
+
+  // 4. Issue + render
+  try {
+    const invoice = await issueInvoice(bookingId);
+    const pdf = renderInvoicePdf(invoice);
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type':        'application/pdf',
+        'Content-Disposition': `attachment; filename="RevvDoc-receipt-${invoice.invoiceNumber}.pdf"`,
+        'Cache-Control':       'private, no-store',
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof InvoiceError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[bookings/receipt] error:', err);
+    return Response.json({ error: 'Failed to generate receipt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * POST /api/bookings/respond-change-order
+ *
+ * The booking's customer approves or declines a proposed change order.
+ * Approval re-prices the booking and authorizes the extra amount on the
+ * customer's card first — a decline from the bank returns 402 and the change
+ * order stays open.
+ *
+ * Body: { bookingId, changeOrderId, decision: 'approve' | 'decline' }
+ * Returns: { changeOrderId, status, totalPrice }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { respondToChangeOrder, ChangeOrderError } from '@/lib/bookings/changeOrders';
+
+export const runtime = 'nodejs';
+
+const bodySchema = z.object({
+  bookingId:     z.string().min(1),
+  changeOrderId: z.string().min(1),
+  decision:      z.enum(['approve', 'decline']),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = bodySchema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Apply the decision
+  try {
+    const result = await respondToChangeOrder({ ...body, customerId: decodedToken.uid });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof ChangeOrderError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[respond-change-order] error:', err);
+    return Response.json({ error: 'Failed to respond to change order' }, { status: 500 });
+  }
+}
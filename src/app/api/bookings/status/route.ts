@@ -1,8 +1,8 @@
 /**
  * PATCH /api/bookings/status
  *
- * Updates a booking's status. On completion, automatically creates a
- * serviceHistory record and updates the vehicle's lastServiceDate.
+ * Updates a booking's status. Completion is delegated to the shared
+ * completion pipeline (lib/bookings/completion.ts).
  *
  * Request body:
  * {
@@ -14,45 +14,39 @@
  * }
  *
  * Auth rules:
- *   - Customer (customerId) → can only cancel ('cancelled') a pending booking
- *   - Technician (technicianId) → can advance status forward
- *   - Caller must be one of the two above (ownership enforced)
+ *   - Allowed from → to pairs and who may trigger each are defined in
+ *     lib/bookings/stateMachine.ts; this route only resolves the caller's role
+ *   - Technician accepting a pending booking → must be an available technician
+ *     whose serviceCategories include the booking's category and who has no
+ *     currentJobId (enforced by lib/dispatch/dispatch.ts)
+ *   - Otherwise the caller must be the booking's customer, its assigned
+ *     technician, or an admin
  *
- * On 'complete':
- *   1. Creates serviceHistory document from booking snapshot
- *   2. Updates vehicles/{vehicleId}.lastServiceDate + lastServiceSnapshot
+ * On 'cancelled': the response includes cancellationFeeCents — non-zero when
+ * a customer cancels an assigned booking inside the free-cancellation window.
+ *
+ * On 'complete': captures payment, writes serviceHistory/{bookingId}, updates
+ * the vehicle and maintenance schedules, recomputes health — see completeBooking().
  *
  * Auth: Firebase ID token required in Authorization header.
  */
 
 import { z } from 'zod';
-import { FieldValue } from 'firebase-admin/firestore';
 import { adminAuth, adminDb } from '@/lib/firebase/firebaseAdmin';
 import { geocodeAddress, buildAddressString } from '@/lib/maps/geocode';
-import type { BookingStatus } from '@/types';
+import { assignTechnician, DispatchError } from '@/lib/dispatch/dispatch';
+import { BookingTransitionError } from '@/lib/bookings/stateMachine';
+import { transitionBooking } from '@/lib/bookings/transitionBooking';
+import { completeBooking, CompletionError } from '@/lib/bookings/completion';
+import type { BookingActor, BookingStatus } from '@/types';
 
 export const runtime = 'nodejs';
 
-/**
- * Placeholder technician ID used during development / demo.
- * Replace with real technician assignment logic before production.
- */
-const DEMO_TECH_ID = 'demo-tech-1';
-
-/** Valid forward-only status progression. */
-const STATUS_ORDER: BookingStatus[] = [
-  'pending',
-  'accepted',
-  'scheduled',
-  'en_route',
-  'in_progress',
-  'complete',
-];
-
 const bodySchema = z.object({
   bookingId:        z.string().min(1),
   userId:           z.string().min(1),
   status:           z.enum(['pending', 'accepted', 'scheduled', 'en_route', 'in_progress', 'complete', 'cancelled']),
+  reason:           z.string().max(500).optional(),   // stored on the statusHistory entry
   techNotes:        z.string().max(1000).optional(),
   mileageAtService: z.number().int().nonnegative().optional(),
 });
@@ -81,7 +75,7 @@ export async function PATCH(request: Request) {
     return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
   }
 
-  const { bookingId, userId, status: targetStatus, techNotes, mileageAtService } = body;
+  const { bookingId, userId, status: targetStatus, reason, techNotes, mileageAtService } = body;
 
   if (decodedToken.uid !== userId) {
     return Response.json({ error: 'Forbidden — userId mismatch' }, { status: 403 });
@@ -98,87 +92,55 @@ export async function PATCH(request: Request) {
   const isCustomer    = booking.customerId === userId;
   const isTechnician  = booking.technicianId === userId;
 
-  // Special case: any authenticated user may accept a pending booking.
-  // Before acceptance the technicianId field is null, so isTechnician would
-  // always be false — the normal party-check would incorrectly block it.
+  // Special case: a technician may accept a pending booking. Before acceptance
+  // the technicianId field is null, so isTechnician would always be false —
+  // the normal party-check would incorrectly block it. Role, availability and
+  // category eligibility are verified by assignTechnician() below.
   const isAcceptingPending =
     targetStatus === 'accepted' && currentStatus === 'pending';
 
-  // 4. Check caller is a party to this booking
-  if (!isCustomer && !isTechnician && !isAcceptingPending) {
-    return Response.json({ error: 'Forbidden — not your booking' }, { status: 403 });
+  // 4. Resolve the caller's role on this booking. Transition rules (which
+  // from → to pairs exist and who may trigger them) live in the state machine.
+  let actor: BookingActor | null = null;
+  if (isAcceptingPending || isTechnician) actor = 'technician';
+  else if (isCustomer)                    actor = 'customer';
+  else {
+    const callerSnap = await adminDb.collection('users').doc(userId).get();
+    if (callerSnap.data()?.role === 'admin') actor = 'admin';
   }
-
-  // 5. Enforce access rules per status transition
-  if (targetStatus === 'cancelled') {
-    // Only customer can cancel, and only from 'pending'
-    if (!isCustomer) {
-      return Response.json({ error: 'Only the customer can cancel a booking' }, { status: 403 });
-    }
-    if (currentStatus !== 'pending') {
-      return Response.json({ error: 'Only pending bookings can be cancelled' }, { status: 409 });
-    }
-  } else {
-    // Forward transitions: technician only — except for the initial acceptance
-    // of a pending booking (no technician is assigned yet at that point).
-    if (!isTechnician && !isAcceptingPending) {
-      return Response.json({ error: 'Only the assigned technician can advance booking status' }, { status: 403 });
-    }
-
-    const currentIdx = STATUS_ORDER.indexOf(currentStatus);
-    const targetIdx  = STATUS_ORDER.indexOf(targetStatus);
-    if (targetIdx <= currentIdx) {
-      return Response.json({
-        error: `Cannot transition from '${currentStatus}' to '${targetStatus}'`,
-      }, { status: 409 });
-    }
+  if (!actor) {
+    return Response.json({ error: 'Forbidden — not your booking' }, { status: 403 });
   }
 
-  // 6. Apply status update — branched by target status
+  // 5. Apply status update — branched by target status
   //
-  // ── accepted: create job doc + write jobId back to booking (atomic) ─────────
+  // ── accepted: dispatch to the calling technician (atomic) ──────────────────
   //
   // A job document must exist before the booking detail page can subscribe
-  // to live tech location via useLiveJob(booking.jobId).
-  //
-  // Idempotency: if booking already has a jobId (e.g. duplicate request),
-  // skip creation and return the existing id immediately.
+  // to live tech location via useLiveJob(booking.jobId). assignTechnician()
+  // verifies the caller is an available technician for this service category
+  // and creates the job + stamps booking/technician in one transaction.
+  // Duplicate requests from the same technician return the existing jobId.
   if (targetStatus === 'accepted') {
-    const existingJobId = booking.jobId as string | null | undefined;
-
-    if (existingJobId) {
-      console.log(`[bookings/status] booking ${bookingId} already has jobId ${existingJobId} — skipping job creation`);
-      return Response.json({ bookingId, status: targetStatus, jobId: existingJobId }, { status: 200 });
-    }
-
-    const jobRef   = adminDb.collection('jobs').doc(); // auto-generated ID
-    const newJobId = jobRef.id;
-
-    // Atomic: create job doc + stamp jobId + technicianId on booking.
-    await adminDb.runTransaction(async (tx) => {
-      tx.set(jobRef, {
+    let newJobId: string;
+    try {
+      const result = await assignTechnician({
         bookingId,
-        technicianId: DEMO_TECH_ID,  // placeholder — replace with real assignment
-        customerId:   booking.customerId as string,
-        status:       'accepted',    // job-level status mirror
-        currentStage: 'dispatched',  // first stage in JobStage progression
-        stages:       [],
-        techLocation: null,          // populated when tech starts GPS broadcast
-        route:        null,          // reserved for future route polyline storage
-        etaMinutes:   null,          // populated by technician app
-        notes:        null,
-        startedAt:    null,
-        completedAt:  null,
-        createdAt:    FieldValue.serverTimestamp(),
-        updatedAt:    FieldValue.serverTimestamp(),
+        technicianId: userId,
+        assignedBy:   'technician',
       });
-      tx.update(adminDb.collection('bookings').doc(bookingId), {
-        status:       targetStatus,
-        technicianId: DEMO_TECH_ID,  // stamp placeholder tech on booking
-        jobId:        newJobId,
-        updatedAt:    FieldValue.serverTimestamp(),
-      });
-    });
+      newJobId = result.jobId;
+      if (result.alreadyAssigned) {
+        console.log(`[bookings/status] booking ${bookingId} already has jobId ${newJobId} — skipping job creation`);
+        return Response.json({ bookingId, status: targetStatus, jobId: newJobId }, { status: 200 });
+      }
+    } catch (err: unknown) {
+      if (err instanceof DispatchError) {
+        return Response.json({ error: err.message }, { status: err.status });
+      }
+      console.error('[bookings/status] dispatch error:', err);
+      return Response.json({ error: 'Failed to accept booking' }, { status: 500 });
+    }
 
     console.log(`JOB CREATED FOR BOOKING ${bookingId}: ${newJobId}`);
 
@@ -202,54 +164,45 @@ export async function PATCH(request: Request) {
     return Response.json({ bookingId, status: targetStatus, jobId: newJobId }, { status: 200 });
   }
 
-  // ── All other transitions: simple status update ───────────────────────────
-  await adminDb.collection('bookings').doc(bookingId).update({
-    status:    targetStatus,
-    updatedAt: FieldValue.serverTimestamp(),
-  });
-
-  // 7. On complete: create serviceHistory + update vehicle
+  // ── complete: shared, idempotent completion pipeline ───────────────────────
   if (targetStatus === 'complete') {
-    const now        = new Date();
-    const vehicleId  = booking.vehicleId as string;
-    const customerId = booking.customerId as string;
-    const ss         = booking.serviceSnapshot as {
-      serviceId: string;
-      name: string;
-      category: string;
-      basePrice: number;
-      durationMins: number;
-    };
-    const vs = booking.vehicleSnapshot as {
-      vehicleId: string;
-      mileage: number;
-    };
-
-    // Write serviceHistory document (Admin SDK — bypasses client security rules)
-    adminDb.collection('serviceHistory').add({
-      vehicleId,
-      bookingId,
-      customerId,
-      serviceType:      ss.category,
-      serviceTitle:     ss.name,
-      source:           'booking',
-      date:             now,
-      completedAt:      now,
-      mileageAtService: mileageAtService ?? vs.mileage ?? 0,
-      cost:             booking.totalPrice ?? 0,
-      techNotes:        techNotes ?? booking.notes ?? null,
-      partsUsed:        [],
-      photoUrls:        [],
-      warrantyInfo:     null,
-      createdAt:        FieldValue.serverTimestamp(),
-    }).catch((err) => console.error('[bookings/status] serviceHistory write error:', err));
-
-    // Update vehicle lastServiceDate + lastServiceSnapshot (fire-and-forget)
-    adminDb.collection('vehicles').doc(vehicleId).update({
-      lastServiceDate:     now,
-      lastServiceSnapshot: { serviceTitle: ss.name, date: now },
-    }).catch((err) => console.error('[bookings/status] vehicle update error:', err));
+    if (actor !== 'technician' && actor !== 'admin') {
+      return Response.json({ error: 'Only the assigned technician can complete a booking' }, { status: 403 });
+    }
+    try {
+      const result = await completeBooking({
+        bookingId,
+        actor,
+        actorId: userId,
+        techNotes,
+        mileageAtService,
+      });
+      return Response.json({ bookingId, status: targetStatus, amountCaptured: result.amountCaptured }, { status: 200 });
+    } catch (err: unknown) {
+      if (err instanceof BookingTransitionError || err instanceof CompletionError) {
+        return Response.json({ error: err.message }, { status: err.status });
+      }
+      console.error('[bookings/status] completion error:', err);
+      return Response.json({ error: 'Failed to complete booking' }, { status: 500 });
+    }
   }
 
+  // ── All other transitions: validated by the state machine ─────────────────
+  // A late customer cancellation carries a fee (lib/bookings/cancellationPolicy.ts)
+  let cancellationFeeCents = 0;
+  try {
+    const result = await transitionBooking({ bookingId, to: targetStatus, actor, actorId: userId, note: reason ?? null });
+    cancellationFeeCents = result.cancellationFeeCents;
+  } catch (err: unknown) {
+    if (err instanceof BookingTransitionError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[bookings/status] transition error:', err);
+    return Response.json({ error: 'Failed to update booking status' }, { status: 500 });
+  }
+
+  if (targetStatus === 'cancelled') {
+    return Response.json({ bookingId, status: targetStatus, cancellationFeeCents }, { status: 200 });
+  }
   return Response.json({ bookingId, status: targetStatus }, { status: 200 });
 }
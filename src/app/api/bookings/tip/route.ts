@@ -0,0 +1,59 @@
+/**
+ * POST /api/bookings/tip
+ *
+ * The customer tips the technician after a booking is complete. The tip is a
+ * separate charge to the saved default card and goes to the technician in full
+ * (see lib/payouts/tips.ts).
+ *
+ * Body: { bookingId, amountCents }
+ * Returns: { tip }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { addTip, TipError } from '@/lib/payouts/tips';
+
+export const runtime = 'nodejs';
+
+const bodySchema = z.object({
+  bookingId:   z.string().min(1),
+  amountCents: z.number().int().min(100).max(50000),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = bodySchema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Charge the tip
+  try {
+    const tip = await addTip({ ...body, customerId: decodedToken.uid });
+    return Response.json({ tip });
+  } catch (err: unknown) {
+    if (err instanceof TipError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[bookings/tip] error:', err);
+    return Response.json({ error: 'Failed to add tip' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * GET /api/cron/dispatch-offers
+ *
+ * Scheduled sweep — moves lapsed auto-dispatch offers on to the next-best
+ * technician. Run every minute; the offer window is
+ * DISPATCH_OFFER_TIMEOUT_SECONDS (default 120).
+ *
+ * Returns: { reoffered: number }
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET> (see lib/cron/cronAuth.ts).
+ */
+
+import { isAuthorizedCronRequest } from '@/lib/cron/cronAuth';
+import { expireLapsedOffers } from '@/lib/dispatch/autoDispatch';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const reoffered = await expireLapsedOffers();
+    console.log(`[cron/dispatch-offers] re-offered ${reoffered} booking(s)`);
+    return Response.json({ reoffered });
+  } catch (err) {
+    console.error('[cron/dispatch-offers] error:', err);
+    return Response.json({ error: 'Sweep failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * GET /api/cron/maintenance-reminders
+ *
+ * Scheduled sweep — sends maintenance_reminder notifications for active
+ * schedules that have crossed their reminderLeadDays / reminderLeadMiles
+ * threshold, then stamps reminderSentAt. Run once a day.
+ *
+ * Query: ?dryRun=1 — report what would be sent without notifying or stamping.
+ *
+ * Returns: ReminderSweepResult (see lib/maintenance/reminders.ts)
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET> (see lib/cron/cronAuth.ts).
+ */
+
+import { isAuthorizedCronRequest } from '@/lib/cron/cronAuth';
+import { sweepMaintenanceReminders } from '@/lib/maintenance/reminders';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRunParam = new URL(request.url).searchParams.get('dryRun');
+  const dryRun = dryRunParam === '1' || dryRunParam === 'true';
+
+  try {
+    const result = await sweepMaintenanceReminders({ dryRun });
+    console.log(
+      `[cron/maintenance-reminders] ${dryRun ? '(dry run) ' : ''}scanned ${result.scanned}, ` +
+      `due ${result.due}, sent ${result.notificationsSent}, opted out ${result.skippedOptedOut}`
+    );
+    return Response.json(result);
+  } catch (err) {
+    console.error('[cron/maintenance-reminders] error:', err);
+    return Response.json({ error: 'Sweep failed' }, { status: 500 });
+  }
+}
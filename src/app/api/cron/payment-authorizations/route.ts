@@ -0,0 +1,35 @@
+/**
+ * GET /api/cron/payment-authorizations
+ *
+ * Scheduled sweep — places card holds for bookings entering their
+ * authorization window, replaces holds close to Stripe's ~7-day expiry and
+ * retries failed ones, notifying customers whose card is declined
+ * (lib/stripe/authorizationLifecycle.ts). Run hourly.
+ *
+ * Returns: { scanned, authorized, reauthorized, failed, customersNotified }
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET> (see lib/cron/cronAuth.ts).
+ */
+
+import { isAuthorizedCronRequest } from '@/lib/cron/cronAuth';
+import { sweepPaymentAuthorizations } from '@/lib/stripe/authorizationLifecycle';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sweepPaymentAuthorizations();
+    console.log(
+      `[cron/payment-authorizations] scanned ${result.scanned}, authorized ${result.authorized}, ` +
+      `reauthorized ${result.reauthorized}, failed ${result.failed}`
+    );
+    return Response.json(result);
+  } catch (err) {
+    console.error('[cron/payment-authorizations] error:', err);
+    return Response.json({ error: 'Sweep failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * GET /api/cron/subscription-periods
+ *
+ * Scheduled sweep — rolls active subscriptions into their next billing period
+ * (archiving the closed period's usage) and sends subscription_renewal
+ * reminders ahead of period end. Run once a day.
+ *
+ * Returns: { rolledOver: number, remindersSent: number, remindersSkipped: number }
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET> (see lib/cron/cronAuth.ts).
+ */
+
+import { isAuthorizedCronRequest } from '@/lib/cron/cronAuth';
+import { sweepSubscriptionPeriods } from '@/lib/subscriptions/periods';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sweepSubscriptionPeriods();
+    console.log(
+      `[cron/subscription-periods] rolled over ${result.rolledOver}, ` +
+      `reminders sent ${result.remindersSent}, skipped ${result.remindersSkipped}`
+    );
+    return Response.json(result);
+  } catch (err) {
+    console.error('[cron/subscription-periods] error:', err);
+    return Response.json({ error: 'Sweep failed' }, { status: 500 });
+  }
+}
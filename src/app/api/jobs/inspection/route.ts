@@ -0,0 +1,85 @@
+/**
+ * POST /api/jobs/inspection
+ *
+ * Saves the vehicle inspection on the caller's job and optionally shares it
+ * with the customer (see lib/inspections/inspections.ts). Item photos are
+ * uploaded to Firebase Storage at jobs/{jobId}/inspection/ first.
+ *
+ * Body: {
+ *   jobId,
+ *   items: [{
+ *     itemId,
+ *     rating?: 'green' | 'yellow' | 'red' | null,
+ *     note?,
+ *     photo?: { storagePath, url } | null,
+ *     recommendedServiceId?,     // yellow / red only
+ *   }],
+ *   share?,                      // show the report to the customer
+ * }
+ * Returns: { inspection }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ * Caller must be the technician assigned to the job, on-site.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { saveInspection, InspectionError } from '@/lib/inspections/inspections';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  jobId: z.string().min(1),
+  items: z.array(z.object({
+    itemId:               z.string().min(1),
+    rating:               z.enum(['green', 'yellow', 'red']).nullable().optional(),
+    note:                 z.string().max(500).nullable().optional(),
+    photo:                z.object({
+      storagePath: z.string().min(1).max(300),
+      url:         z.string().url().max(2000),
+    }).nullable().optional(),
+    recommendedServiceId: z.string().min(1).nullable().optional(),
+  })).max(100),
+  share: z.boolean().optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Save
+  try {
+    const inspection = await saveInspection({
+      jobId:        body.jobId,
+      technicianId: decodedToken.uid,
+      items:        body.items,
+      share:        body.share,
+    });
+    return Response.json({ inspection });
+  } catch (err: unknown) {
+    if (err instanceof InspectionError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[jobs/inspection] error:', err);
+    return Response.json({ error: 'Failed to save inspection' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * POST /api/jobs/location
+ *
+ * Records the technician's live position on their job, keeps a throttled
+ * breadcrumb trail, recomputes the job's ETA and route, and marks the job
+ * 'arrived' inside the service-address geofence (see lib/jobs/location.ts).
+ * Replaces direct client writes of job.techLocation.
+ *
+ * Body: { jobId, lat, lng, accuracy? }   accuracy = GPS accuracy radius in metres
+ * Returns: { etaMinutes, currentStage }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ * Caller must be the technician assigned to the job.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { recordTechLocation, JobLocationError } from '@/lib/jobs/location';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  jobId:    z.string().min(1),
+  lat:      z.number().min(-90).max(90),
+  lng:      z.number().min(-180).max(180),
+  accuracy: z.number().min(0).max(5000).optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Write location + ETA
+  try {
+    const result = await recordTechLocation({
+      jobId:          body.jobId,
+      technicianId:   decodedToken.uid,
+      position:       { lat: body.lat, lng: body.lng },
+      accuracyMeters: body.accuracy ?? null,
+    });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof JobLocationError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[jobs/location] error:', err);
+    return Response.json({ error: 'Failed to update location' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * POST /api/jobs/photos
+ *
+ * Attaches a before/after photo to the caller's job. The client uploads the
+ * image to Firebase Storage at jobs/{jobId}/photos/{photoId}.{ext} first
+ * (storage.rules), then records it here (see lib/jobs/qualityCheck.ts). The
+ * photos are copied into the service history record on completion.
+ *
+ * Body: { jobId, tag: 'before' | 'after', storagePath, url }
+ * Returns: { photo }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ * Caller must be the technician assigned to the job, on-site.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { addJobPhoto, QualityCheckError } from '@/lib/jobs/qualityCheck';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  jobId:       z.string().min(1),
+  tag:         z.enum(['before', 'after']),
+  storagePath: z.string().min(1).max(300),
+  url:         z.string().url().max(2000),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Record
+  try {
+    const photo = await addJobPhoto({
+      jobId:        body.jobId,
+      technicianId: decodedToken.uid,
+      tag:          body.tag,
+      storagePath:  body.storagePath,
+      url:          body.url,
+    });
+    return Response.json({ photo }, { status: 201 });
+  } catch (err: unknown) {
+    if (err instanceof QualityCheckError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[jobs/photos] error:', err);
+    return Response.json({ error: 'Failed to attach photo' }, { status: 500 });
+  }
+}
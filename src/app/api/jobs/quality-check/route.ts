@@ -0,0 +1,75 @@
+/**
+ * POST /api/jobs/quality-check
+ *
+ * Saves the on-site quality check on the caller's job: which checklist items
+ * are ticked and the parts installed (see lib/jobs/qualityCheck.ts). Both
+ * flow into the service history record on completion.
+ *
+ * Body: {
+ *   jobId,
+ *   checkedItemIds?,   // every ticked item — replaces the previous ticks
+ *   partsUsed?: [{ name, partNumber?, brand?, warrantyExpires? (ISO date) }]
+ * }
+ * Returns: { checklist, partsUsed }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ * Caller must be the technician assigned to the job, on-site.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { saveQualityCheck, QualityCheckError } from '@/lib/jobs/qualityCheck';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  jobId:          z.string().min(1),
+  checkedItemIds: z.array(z.string().min(1)).max(50).optional(),
+  partsUsed: z.array(z.object({
+    name:            z.string().trim().min(1).max(120),
+    partNumber:      z.string().max(60).nullable().optional(),
+    brand:           z.string().max(60).nullable().optional(),
+    warrantyExpires: z.coerce.date().nullable().optional(),
+  })).optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Save
+  try {
+    const result = await saveQualityCheck({
+      jobId:          body.jobId,
+      technicianId:   decodedToken.uid,
+      checkedItemIds: body.checkedItemIds,
+      partsUsed:      body.partsUsed,
+    });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof QualityCheckError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[jobs/quality-check] error:', err);
+    return Response.json({ error: 'Failed to save quality check' }, { status: 500 });
+  }
+}
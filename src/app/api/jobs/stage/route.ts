@@ -0,0 +1,68 @@
+/**
+ * POST /api/jobs/stage
+ *
+ * Advances the caller's job to its next stage and keeps the booking status,
+ * booking chat thread, and customer notifications in sync
+ * (see lib/jobs/advanceStage.ts).
+ *
+ * Body: { jobId, stage, note? }   note is required for 'quality_check'
+ * Returns: { jobId, bookingId, stage, bookingStatus }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ * Caller must be the technician assigned to the job; stages only move
+ * forward one step at a time.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { BookingTransitionError } from '@/lib/bookings/stateMachine';
+import { advanceJobStage } from '@/lib/jobs/advanceStage';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  jobId: z.string().min(1),
+  stage: z.enum(['dispatched', 'en_route', 'arrived', 'in_progress', 'quality_check', 'complete']),
+  note:  z.string().max(1000).optional(),
+});
+
+export async function POST(request: Request) {
+  // 1. Auth
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Advance job + booking in one transaction
+  try {
+    const result = await advanceJobStage({
+      jobId:        body.jobId,
+      stage:        body.stage,
+      technicianId: decodedToken.uid,
+      note:         body.note ?? null,
+    });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof BookingTransitionError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[jobs/stage] error:', err);
+    return Response.json({ error: 'Failed to advance job stage' }, { status: 500 });
+  }
+}
@@ -8,7 +8,7 @@
  *  - An admin or automated sweep refreshes health data
  *
  * Body: { vehicleId: string }
- * Returns: { success: true, schedulesUpdated: number, alertLevel: HealthAlertLevel }
+ * Returns: { success: true, schedulesUpdated: number, alertLevel: HealthAlertLevel, currentMileage: number }
  *
  * Auth: Firebase ID token required in Authorization header.
  * The token holder must be the vehicle's owner or an admin.
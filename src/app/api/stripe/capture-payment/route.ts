@@ -3,23 +3,26 @@
  *
  * Captures a previously authorized PaymentIntent (charges the customer).
  * Called when the technician marks a job as complete.
- * Also performs job completion side-effects in a single server-side transaction.
+ * Completion side-effects (service history, vehicle, maintenance schedules,
+ * health recompute, notifications) run through lib/bookings/completion.ts —
+ * the same pipeline PATCH /api/bookings/status uses. Safe to retry.
  *
- * Body: { bookingId, jobId }
- * Returns: { success: true, amountCaptured }
+ * Body: { bookingId, jobId, techNotes?, mileageAtService? }
+ * Returns: { success: true, amountCaptured, alreadyCompleted }
  */
 
 import { z } from 'zod';
-import { FieldValue } from 'firebase-admin/firestore';
 import { adminDb, adminAuth } from '@/lib/firebase/firebaseAdmin';
-import stripe from '@/lib/stripe/stripe';
-import { recomputeVehicleHealth } from '@/lib/maintenance/recompute';
+import { BookingTransitionError } from '@/lib/bookings/stateMachine';
+import { completeBooking, CompletionError } from '@/lib/bookings/completion';
 
 export const runtime = 'nodejs';
 
 const schema = z.object({
-  bookingId: z.string().min(1),
-  jobId: z.string().min(1),
+  bookingId:        z.string().min(1),
+  jobId:            z.string().min(1),
+  techNotes:        z.string().max(1000).optional(),
+  mileageAtService: z.number().int().nonnegative().optional(),
 });
 
 export async function POST(request: Request) {
@@ -45,122 +48,36 @@ export async function POST(request: Request) {
     return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
   }
 
-  const { bookingId, jobId } = body;
+  const { bookingId, jobId, techNotes, mileageAtService } = body;
 
-  // 3. Fetch booking
+  // 3. Fetch booking — the job must belong to it
   const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
   if (!bookingSnap.exists) {
     return Response.json({ error: 'Booking not found' }, { status: 404 });
   }
-  const booking = bookingSnap.data()!;
-
-  if (booking.technicianId !== decodedToken.uid) {
-    return Response.json({ error: 'Forbidden — not your job' }, { status: 403 });
-  }
-
-  const { stripePaymentIntentId, customerId, vehicleId, totalPrice, serviceSnapshot, vehicleSnapshot } = booking;
-
-  if (!stripePaymentIntentId) {
-    return Response.json({ error: 'No payment intent on booking' }, { status: 409 });
+  if (bookingSnap.data()?.jobId !== jobId) {
+    return Response.json({ error: 'Job does not belong to this booking' }, { status: 409 });
   }
 
-  // 4. Capture Stripe PaymentIntent
-  let capturedIntent;
+  // 4. Capture + complete
   try {
-    capturedIntent = await stripe.paymentIntents.capture(stripePaymentIntentId);
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : 'Stripe capture failed';
-    return Response.json({ error: message }, { status: 502 });
-  }
-
-  const amountCaptured = capturedIntent.amount_received;
-
-  // 5. Firestore transaction — job completion side-effects
-  const now = FieldValue.serverTimestamp();
-  const historyRef = adminDb.collection('serviceHistory').doc();
-
-  try {
-    await adminDb.runTransaction(async (tx) => {
-      // a. Complete booking
-      tx.update(adminDb.collection('bookings').doc(bookingId), {
-        status: 'complete',
-      });
-
-      // b. Complete job
-      tx.update(adminDb.collection('jobs').doc(jobId), {
-        completedAt: now,
-        currentStage: 'complete',
-        stages: FieldValue.arrayUnion({
-          stage: 'complete',
-          enteredAt: now,
-          note: null,
-        }),
-      });
-
-      // c. Create serviceHistory record
-      tx.set(historyRef, {
-        vehicleId,
-        bookingId,
-        customerId,
-        serviceType: serviceSnapshot.category,
-        date: now,
-        mileageAtService: vehicleSnapshot.mileage,
-        cost: totalPrice,
-        techNotes: null,
-      });
-
-      // d. Update vehicle
-      tx.update(adminDb.collection('vehicles').doc(vehicleId), {
-        lastServiceDate: now,
-        status: 'OPTIMAL',
-      });
-
-      // e. Clear technician's current job
-      tx.update(adminDb.collection('users').doc(decodedToken.uid), {
-        currentJobId: null,
-      });
+    const result = await completeBooking({
+      bookingId,
+      actor:   'technician',
+      actorId: decodedToken.uid,
+      techNotes,
+      mileageAtService,
     });
-  } catch (err: unknown) {
-    console.error('[capture-payment] Firestore transaction error:', err);
-    // Payment already captured — log but still return success to avoid retry loops
     return Response.json({
-      success: true,
-      amountCaptured,
-      warning: 'Payment captured but job completion update failed',
-    });
-  }
-
-  // 6. Recompute vehicle maintenance health (non-critical, fire-and-forget)
-  recomputeVehicleHealth(vehicleId).catch((err) =>
-    console.error('[capture-payment] recompute error:', err)
-  );
-
-  // 7. Create notification for customer (non-critical, outside transaction)
-  try {
-    await adminDb.collection('notifications').add({
-      userId: customerId,
-      type: 'job_complete',
-      title: 'Service Complete',
-      body: `Your ${serviceSnapshot.name} service is complete. Thanks for using RevvDoc!`,
-      read: false,
-      relatedBookingId: bookingId,
-      relatedJobId: jobId,
-      createdAt: now,
-    });
-
-    await adminDb.collection('notifications').add({
-      userId: customerId,
-      type: 'payment_captured',
-      title: 'Payment Processed',
-      body: `$${(amountCaptured / 100).toFixed(2)} has been charged for your service.`,
-      read: false,
-      relatedBookingId: bookingId,
-      relatedJobId: jobId,
-      createdAt: now,
+      success:          true,
+      amountCaptured:   result.amountCaptured,
+      alreadyCompleted: result.alreadyCompleted,
     });
-  } catch (err) {
-    console.error('[capture-payment] notification error:', err);
+  } catch (err: unknown) {
+    if (err instanceof BookingTransitionError || err instanceof CompletionError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[capture-payment] completion error:', err);
+    return Response.json({ error: 'Failed to complete job' }, { status: 500 });
   }
-
-  return Response.json({ success: true, amountCaptured });
 }
@@ -1,22 +1,38 @@
 /**
  * POST /api/stripe/create-payment-intent
  *
- * Creates a Stripe PaymentIntent with capture_method: 'manual'
- * (pre-authorize — card is held but NOT charged yet).
- * Writes the paymentIntentId to the booking document.
+ * Authorizes a booking's total with a Stripe PaymentIntent using
+ * capture_method: 'manual' (pre-authorize — card is held but NOT charged yet),
+ * confirmed server-side against the customer's saved default card.
  *
- * Body: { bookingId, amountCents }
- * Returns: { clientSecret, paymentIntentId }
+ * The amount is never taken from the client: the booking is re-priced from
+ * its totalPrice inputs (service, subscription discount, approved add-ons,
+ * tax, fee) and the priceBreakdown stored on it. amountCents is optional —
+ * when sent it must equal the server total. An existing stripePaymentIntentId
+ * is re-used rather than creating a new intent per call
+ * (lib/stripe/bookingPayments.ts).
+ *
+ * status is 'requires_capture' when the hold succeeded, or 'requires_action'
+ * when the bank wants 3-D Secure — the client finishes that with
+ * stripe.handleNextAction({ clientSecret }). It is 'deferred' (no intent yet)
+ * when scheduledAt is beyond the authorization window; the hold is placed
+ * later by GET /api/cron/payment-authorizations.
+ *
+ * Body: { bookingId, amountCents? }
+ * Returns: { clientSecret, paymentIntentId, status, amountCents, priceBreakdown, authorizeAfter }
+ *
+ * Errors: 409 on amount mismatch or no saved card, 402 when the card is declined.
  */
 
 import { z } from 'zod';
-import { FieldValue } from 'firebase-admin/firestore';
-import { adminDb, adminAuth } from '@/lib/firebase/firebaseAdmin';
-import stripe from '@/lib/stripe/stripe';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { authorizeBooking, BookingPaymentError } from '@/lib/stripe/bookingPayments';
+
+export const runtime = 'nodejs';
 
 const schema = z.object({
   bookingId: z.string().min(1),
-  amountCents: z.number().int().min(50),
+  amountCents: z.number().int().min(0).optional(),
 });
 
 export async function POST(request: Request) {
@@ -42,55 +58,19 @@ export async function POST(request: Request) {
     return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
   }
 
-  const { bookingId, amountCents } = body;
-  const uid = decodedToken.uid;
-
-  // 3. Fetch or create Stripe customer
-  const userRef = adminDb.collection('users').doc(uid);
-  const userSnap = await userRef.get();
-  if (!userSnap.exists) {
-    return Response.json({ error: 'User not found' }, { status: 404 });
-  }
-  const userData = userSnap.data()!;
-
-  let stripeCustomerId: string = userData.stripeCustomerId ?? '';
-  if (!stripeCustomerId) {
-    const customer = await stripe.customers.create({
-      email: userData.email,
-      name: userData.name,
-      metadata: { firebaseUid: uid },
+  // 3. Price + authorize
+  try {
+    const result = await authorizeBooking({
+      bookingId:           body.bookingId,
+      customerId:          decodedToken.uid,
+      expectedAmountCents: body.amountCents,
     });
-    stripeCustomerId = customer.id;
-    await userRef.update({ stripeCustomerId });
-  }
-
-  // 4. Verify booking belongs to this user
-  const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
-  if (!bookingSnap.exists) {
-    return Response.json({ error: 'Booking not found' }, { status: 404 });
-  }
-  if (bookingSnap.data()?.customerId !== uid) {
-    return Response.json({ error: 'Forbidden' }, { status: 403 });
+    return Response.json(result);
+  } catch (err: unknown) {
+    if (err instanceof BookingPaymentError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[create-payment-intent] error:', err);
+    return Response.json({ error: 'Payment authorization failed' }, { status: 502 });
   }
-
-  // 5. Create PaymentIntent (pre-authorize, do not capture yet)
-  const paymentIntent = await stripe.paymentIntents.create({
-    amount: amountCents,
-    currency: 'usd',
-    customer: stripeCustomerId,
-    capture_method: 'manual',
-    metadata: { bookingId, firebaseUid: uid },
-    automatic_payment_methods: { enabled: true },
-  });
-
-  // 6. Save paymentIntentId to booking
-  await adminDb.collection('bookings').doc(bookingId).update({
-    stripePaymentIntentId: paymentIntent.id,
-    updatedAt: FieldValue.serverTimestamp(),
-  });
-
-  return Response.json({
-    clientSecret: paymentIntent.client_secret,
-    paymentIntentId: paymentIntent.id,
-  });
 }
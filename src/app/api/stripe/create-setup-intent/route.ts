@@ -0,0 +1,44 @@
+/**
+ * POST /api/stripe/create-setup-intent
+ *
+ * Starts the add-card flow: creates an off-session SetupIntent on the
+ * caller's Stripe Customer. The client confirms it with Stripe Elements,
+ * which attaches the card to the customer.
+ *
+ * Returns: { clientSecret }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ */
+
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { createSetupIntent, PaymentMethodError } from '@/lib/stripe/paymentMethods';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  // 1. Verify Firebase ID token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Create SetupIntent
+  try {
+    const { clientSecret } = await createSetupIntent(decodedToken.uid);
+    return Response.json({ clientSecret });
+  } catch (err: unknown) {
+    if (err instanceof PaymentMethodError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[stripe/create-setup-intent] error:', err);
+    return Response.json({ error: 'Failed to start card setup' }, { status: 502 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * POST /api/stripe/detach-payment-method
+ *
+ * Removes a saved card from the caller's Stripe Customer. If it was the
+ * default, the most recently added remaining card becomes the default.
+ *
+ * Body: { paymentMethodId: string }
+ *
+ * Returns: { success: true }
+ *
+ * Auth: Firebase ID token required. The card must belong to the caller.
+ */
+
+import { z } from 'zod';
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { detachPaymentMethod, PaymentMethodError } from '@/lib/stripe/paymentMethods';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  paymentMethodId: z.string().min(1),
+});
+
+export async function POST(request: Request) {
+  // 1. Verify Firebase ID token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  // 3. Detach
+  try {
+    await detachPaymentMethod(decodedToken.uid, body.paymentMethodId);
+    return Response.json({ success: true });
+  } catch (err: unknown) {
+    if (err instanceof PaymentMethodError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[stripe/detach-payment-method] error:', err);
+    return Response.json({ error: 'Failed to remove card' }, { status: 502 });
+  }
+}
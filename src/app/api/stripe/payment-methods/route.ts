@@ -0,0 +1,44 @@
+/**
+ * GET /api/stripe/payment-methods
+ *
+ * Lists the caller's saved cards from their Stripe Customer, default first.
+ * Creates the Stripe Customer on first use.
+ *
+ * Returns: { paymentMethods: SavedPaymentMethod[] }
+ *
+ * Auth: Firebase ID token required in Authorization header.
+ */
+
+import { adminAuth } from '@/lib/firebase/firebaseAdmin';
+import { listPaymentMethods, PaymentMethodError } from '@/lib/stripe/paymentMethods';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  // 1. Verify Firebase ID token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. List cards
+  try {
+    const paymentMethods = await listPaymentMethods(decodedToken.uid);
+    return Response.json({ paymentMethods });
+  } catch (err: unknown) {
+    if (err instanceof PaymentMethodError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[stripe/payment-methods] error:', err);
+    return Response.json({ error: 'Failed to load payment methods' }, { status: 502 });
+  }
+}
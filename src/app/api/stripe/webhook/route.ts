@@ -1,7 +1,14 @@
 /**
  * POST /api/stripe/webhook
  *
- * Stripe webhook receiver. Handles payment failure and cancellation events.
+ * Stripe webhook receiver. Handles booking payment failure and cancellation
+ * events (a lapsed hold is queued for re-authorization, not cancelled), and
+ * keeps CustomerSubscription status and billing period in sync with Stripe
+ * Billing (invoice.paid, invoice.payment_failed,
+ * customer.subscription.updated / deleted). Refunds and disputes are
+ * mirrored onto the booking (charge.refunded, charge.refund.updated,
+ * charge.dispute.created / closed — lib/stripe/refunds.ts), including
+ * refunds made from the Stripe Dashboard.
  * Successful captures are handled directly in /api/stripe/capture-payment.
  *
  * CRITICAL:
@@ -10,10 +17,14 @@
  * - Handler must be idempotent — Stripe may retry deliveries
  */
 
-import { FieldValue } from 'firebase-admin/firestore';
-import { adminDb } from '@/lib/firebase/firebaseAdmin';
 import stripe from '@/lib/stripe/stripe';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { BookingTransitionError } from '@/lib/bookings/stateMachine';
+import { transitionBooking } from '@/lib/bookings/transitionBooking';
+import { syncStripeSubscriptionById, syncSubscriptionFromStripe } from '@/lib/stripe/subscriptions';
+import { recordDispute, syncRefundsForCharge } from '@/lib/stripe/refunds';
 import type Stripe from 'stripe';
+import type { PaymentAuthStatus } from '@/types';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -55,6 +66,42 @@ export async function POST(request: Request) {
         await handlePaymentCanceled(pi);
         break;
       }
+      case 'invoice.paid':
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice;
+        await handleSubscriptionInvoice(invoice);
+        break;
+      }
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted': {
+        const stripeSub = event.data.object as Stripe.Subscription;
+        if (!(await syncSubscriptionFromStripe(stripeSub))) {
+          console.log(`[webhook] no subscription linked to ${stripeSub.id}`);
+        }
+        break;
+      }
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge;
+        if ((await syncRefundsForCharge(charge.id)) === null) {
+          console.log(`[webhook] no booking linked to charge ${charge.id}`);
+        }
+        break;
+      }
+      case 'charge.refund.updated': {
+        // e.g. a pending refund that failed — the refunded total drops again
+        const refund = event.data.object as Stripe.Refund;
+        const chargeId = typeof refund.charge === 'string' ? refund.charge : refund.charge?.id;
+        if (chargeId) await syncRefundsForCharge(chargeId);
+        break;
+      }
+      case 'charge.dispute.created':
+      case 'charge.dispute.closed': {
+        const dispute = event.data.object as Stripe.Dispute;
+        if (await recordDispute(dispute)) {
+          console.warn(`[webhook] dispute ${dispute.id} ${dispute.status} (${dispute.reason}, ${dispute.amount})`);
+        }
+        break;
+      }
       case 'payment_intent.succeeded':
         // Informational — capture is handled in /api/stripe/capture-payment
         break;
@@ -75,43 +122,79 @@ export async function POST(request: Request) {
   });
 }
 
+/**
+ * True when the event concerns the booking's current PaymentIntent. Holds the
+ * authorization lifecycle replaced (and canceled) are not.
+ */
+async function isCurrentIntent(bookingId: string, pi: Stripe.PaymentIntent): Promise<boolean> {
+  const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
+  return bookingSnap.exists && bookingSnap.data()?.stripePaymentIntentId === pi.id;
+}
+
 async function handlePaymentFailed(pi: Stripe.PaymentIntent): Promise<void> {
   const bookingId = pi.metadata?.bookingId;
   if (!bookingId) return;
 
-  const bookingRef = adminDb.collection('bookings').doc(bookingId);
-  const snap = await bookingRef.get();
-  if (!snap.exists) return;
+  // Off-session attempts (lifecycle sweep, capture fallback) report their own
+  // failures to the customer without cancelling the booking
+  if (pi.metadata?.offSession === 'true') return;
+  if (!(await isCurrentIntent(bookingId, pi))) return;
 
-  const booking = snap.data()!;
-  // Idempotency: only update if not already cancelled/complete
-  if (booking.status === 'cancelled' || booking.status === 'complete') return;
-
-  await bookingRef.update({ status: 'cancelled' });
-
-  // Notify customer
-  await adminDb.collection('notifications').add({
-    userId: booking.customerId,
-    type: 'booking_cancelled',
+  await cancelBookingForPayment(bookingId, 'Payment failed', {
     title: 'Payment Failed',
-    body: 'Your payment could not be processed. Your booking has been cancelled.',
-    read: false,
-    relatedBookingId: bookingId,
-    relatedJobId: null,
-    createdAt: FieldValue.serverTimestamp(),
+    body:  'Your payment could not be processed. Your booking has been cancelled.',
   });
 }
 
 async function handlePaymentCanceled(pi: Stripe.PaymentIntent): Promise<void> {
   const bookingId = pi.metadata?.bookingId;
   if (!bookingId) return;
+  if (!(await isCurrentIntent(bookingId, pi))) return;
+
+  // Stripe voided an uncaptured hold that lapsed — the lifecycle sweep places
+  // a new one (lib/stripe/authorizationLifecycle.ts); the booking stands
+  if (pi.cancellation_reason === 'automatic') {
+    await adminDb.collection('bookings').doc(bookingId).update({
+      paymentAuthStatus: 'deferred' as PaymentAuthStatus,
+    });
+    console.log(`[webhook] hold ${pi.id} expired for booking ${bookingId} — queued for re-authorization`);
+    return;
+  }
 
-  const bookingRef = adminDb.collection('bookings').doc(bookingId);
-  const snap = await bookingRef.get();
-  if (!snap.exists) return;
+  await cancelBookingForPayment(bookingId, 'Payment authorization canceled');
+}
 
-  const booking = snap.data()!;
-  if (booking.status === 'cancelled' || booking.status === 'complete') return;
+/**
+ * Re-reads the invoice's subscription rather than trusting event order —
+ * Stripe does not guarantee invoice and subscription events arrive in sequence.
+ */
+async function handleSubscriptionInvoice(invoice: Stripe.Invoice): Promise<void> {
+  const ref = invoice.parent?.subscription_details?.subscription;
+  if (!ref) return; // not a subscription invoice
 
-  await bookingRef.update({ status: 'cancelled' });
+  const stripeSubscriptionId = typeof ref === 'string' ? ref : ref.id;
+  if (!(await syncStripeSubscriptionById(stripeSubscriptionId))) {
+    console.log(`[webhook] no subscription linked to ${stripeSubscriptionId}`);
+  }
+}
+
+/**
+ * Cancels a booking through the state machine as the 'system' actor.
+ * Idempotency: a booking that is already cancelled or complete (or was
+ * deleted) has no allowed transition to 'cancelled', which is not an error.
+ */
+async function cancelBookingForPayment(
+  bookingId: string,
+  note: string,
+  notification?: { title: string; body: string }
+): Promise<void> {
+  try {
+    await transitionBooking({ bookingId, to: 'cancelled', actor: 'system', actorId: null, note, notification });
+  } catch (err) {
+    if (err instanceof BookingTransitionError) {
+      console.log(`[webhook] booking ${bookingId} not cancelled: ${err.message}`);
+      return;
+    }
+    throw err;
+  }
 }
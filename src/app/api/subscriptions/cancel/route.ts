@@ -1,8 +1,9 @@
 /**
  * POST /api/subscriptions/cancel
  *
- * Cancels an active CustomerSubscription. Sets status to 'cancelled'
- * and records the cancellation timestamp.
+ * Cancels an active, paused or pending_payment CustomerSubscription. The backing
+ * Stripe Subscription is cancelled first; then status is set to 'cancelled'
+ * and the cancellation timestamp recorded.
  *
  * Body: { subscriptionId: string }
  *
@@ -10,15 +11,12 @@
  *
  * Auth: Firebase ID token required. Caller must own the subscription
  * (customerId matches) or be an admin.
- *
- * MVP NOTE: No Stripe cancellation logic (Stripe not yet wired).
- * When Stripe is connected, call stripe.subscriptions.cancel() here
- * before updating Firestore.
  */
 
 import { z } from 'zod';
 import { FieldValue } from 'firebase-admin/firestore';
 import { adminAuth, adminDb } from '@/lib/firebase/firebaseAdmin';
+import { cancelStripeSubscription } from '@/lib/stripe/subscriptions';
 
 export const runtime = 'nodejs';
 
@@ -74,15 +72,25 @@ export async function POST(request: Request) {
     return Response.json({ error: 'Forbidden — not your subscription' }, { status: 403 });
   }
 
-  // 5. Guard: only active subscriptions can be cancelled
-  if (subData.status !== 'active') {
+  // 5. Guard: only active, paused or unpaid subscriptions can be cancelled
+  if (!['active', 'paused', 'pending_payment'].includes(subData.status)) {
     return Response.json(
       { error: `Subscription is already ${subData.status}` },
       { status: 400 }
     );
   }
 
-  // 6. Cancel
+  // 6. Cancel in Stripe first — a failure leaves the subscription untouched
+  if (subData.stripeSubscriptionId) {
+    try {
+      await cancelStripeSubscription(subData.stripeSubscriptionId as string);
+    } catch (err: unknown) {
+      console.error('[subscriptions/cancel] Stripe error:', err);
+      return Response.json({ error: 'Failed to cancel billing' }, { status: 502 });
+    }
+  }
+
+  // 7. Cancel
   try {
     await adminDb.collection('subscriptions').doc(subscriptionId).update({
       status:      'cancelled',
@@ -1,28 +1,31 @@
 /**
  * POST /api/subscriptions/enroll
  *
- * Creates a new CustomerSubscription for the authenticated customer.
+ * Creates a new CustomerSubscription for the authenticated customer, billed
+ * through a Stripe Subscription (lib/stripe/subscriptions.ts).
  * All subscription writes use Admin SDK — no client-side write to subscriptions/.
  *
+ * The record is created as 'pending_payment' and becomes 'active' when the
+ * webhook reports the first invoice paid. The customer pays that invoice with
+ * clientSecret (Stripe Elements) or on hostedInvoiceUrl.
+ *
  * Body: { planId: string; vehicleId: string }
  *
- * Returns: { subscriptionId: string }
+ * Returns: { subscriptionId: string; clientSecret: string | null; hostedInvoiceUrl: string | null }
  *
  * Preconditions:
  *  - Caller owns the vehicle
- *  - No existing active subscription for this plan + vehicle combo
+ *  - No existing active or pending_payment subscription for this plan + vehicle combo
  *  - Plan is active
  *
- * MVP NOTE: Stripe subscription payment is NOT yet wired.
- * stripeSubscriptionId is set to null. When Stripe is connected,
- * this route must first create a Stripe Subscription before writing to Firestore.
- *
  * Auth: Firebase ID token required in Authorization header.
  */
 
 import { z } from 'zod';
 import { FieldValue } from 'firebase-admin/firestore';
 import { adminAuth, adminDb } from '@/lib/firebase/firebaseAdmin';
+import { SubscriptionBillingError, startStripeSubscription } from '@/lib/stripe/subscriptions';
+import { addPeriod } from '@/lib/subscriptions/periods';
 import type { SubscriptionPlan, SubscriptionStatus } from '@/types';
 
 export const runtime = 'nodejs';
@@ -74,13 +77,13 @@ export async function POST(request: Request) {
     return Response.json({ error: 'Plan is not active' }, { status: 400 });
   }
 
-  // 5. Check no existing active subscription for this plan + vehicle
+  // 5. Check no existing active or unpaid subscription for this plan + vehicle
   const existingSnap = await adminDb
     .collection('subscriptions')
     .where('customerId', '==', customerId)
     .where('planId', '==', planId)
     .where('vehicleId', '==', vehicleId)
-    .where('status', '==', 'active')
+    .where('status', 'in', ['active', 'pending_payment'] as SubscriptionStatus[])
     .limit(1)
     .get();
 
@@ -88,44 +91,59 @@ export async function POST(request: Request) {
     return Response.json({ error: 'Already subscribed to this plan for this vehicle' }, { status: 409 });
   }
 
-  // 6. Compute period start/end from plan.period
-  const now = new Date();
-  const periodStart = now;
-  const periodEnd = new Date(now);
-
-  switch (plan.period) {
-    case 'monthly':
-      periodEnd.setMonth(periodEnd.getMonth() + 1);
-      break;
-    case 'quarterly':
-      periodEnd.setMonth(periodEnd.getMonth() + 3);
-      break;
-    case 'annual':
-      periodEnd.setFullYear(periodEnd.getFullYear() + 1);
-      break;
-    default:
-      periodEnd.setMonth(periodEnd.getMonth() + 1);
-  }
+  // 6. Placeholder period — replaced by Stripe's once the first invoice is paid
+  const periodStart = new Date();
+  const periodEnd = addPeriod(periodStart, plan.period);
 
   // 7. Create subscription document
+  let subscriptionRef;
   try {
-    const subscriptionRef = await adminDb.collection('subscriptions').add({
+    subscriptionRef = await adminDb.collection('subscriptions').add({
       customerId,
       planId,
       vehicleId,
-      status:               'active' as SubscriptionStatus,
+      status:               'pending_payment' as SubscriptionStatus,
+      billingAnchor:        periodStart,
       currentPeriodStart:   periodStart,
       currentPeriodEnd:     periodEnd,
       usageThisPeriod:      [],
-      stripeSubscriptionId: null, // reserved — not yet wired
+      renewalReminderSentAt: null,
+      stripeSubscriptionId: null, // set below once Stripe accepts the subscription
       createdAt:            FieldValue.serverTimestamp(),
       cancelledAt:          null,
     });
-
-    return Response.json({ subscriptionId: subscriptionRef.id }, { status: 201 });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Failed to create subscription';
     console.error('[subscriptions/enroll] error:', err);
     return Response.json({ error: message }, { status: 500 });
   }
+
+  // 8. Create the Stripe Subscription — roll back the record if Stripe refuses
+  try {
+    const started = await startStripeSubscription({
+      subscriptionId: subscriptionRef.id,
+      customerId,
+      planId,
+    });
+    await subscriptionRef.update({ stripeSubscriptionId: started.stripeSubscriptionId });
+
+    return Response.json(
+      {
+        subscriptionId:   subscriptionRef.id,
+        clientSecret:     started.clientSecret,
+        hostedInvoiceUrl: started.hostedInvoiceUrl,
+      },
+      { status: 201 }
+    );
+  } catch (err: unknown) {
+    console.error('[subscriptions/enroll] Stripe error:', err);
+    await subscriptionRef.delete().catch((e) =>
+      console.error('[subscriptions/enroll] rollback failed:', e)
+    );
+    if (err instanceof SubscriptionBillingError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : 'Failed to start billing';
+    return Response.json({ error: message }, { status: 502 });
+  }
 }
@@ -0,0 +1,69 @@
+/**
+ * POST /api/vehicles/factory-schedule/adopt
+ *
+ * Converts the vehicle's factory maintenance schedule into MaintenanceSchedule
+ * documents in one step, then recomputes the vehicle's health snapshot.
+ * Service types the vehicle already has a schedule for are left untouched.
+ *
+ * Body: { vehicleId: string }
+ *
+ * Returns: AdoptFactoryScheduleResult (see lib/maintenance/factorySchedule.ts)
+ *   { created: [{ scheduleId, serviceType, service, anchored }], skipped: [{ service, reason }] }
+ *
+ * Auth: Firebase ID token required. Caller must own the vehicle.
+ */
+
+import { z } from 'zod';
+import { adminAuth, adminDb } from '@/lib/firebase/firebaseAdmin';
+import { adoptFactorySchedule } from '@/lib/maintenance/factorySchedule';
+
+export const runtime = 'nodejs';
+
+const schema = z.object({
+  vehicleId: z.string().min(1),
+});
+
+export async function POST(request: Request) {
+  // 1. Verify Firebase ID token
+  const authorization = request.headers.get('Authorization') ?? '';
+  const idToken = authorization.replace('Bearer ', '');
+  if (!idToken) {
+    return Response.json({ error: 'Missing Authorization header' }, { status: 401 });
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(idToken);
+  } catch {
+    return Response.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // 2. Validate body
+  let body;
+  try {
+    body = schema.parse(await request.json());
+  } catch (err) {
+    return Response.json({ error: 'Invalid request body', details: err }, { status: 400 });
+  }
+
+  const { vehicleId } = body;
+
+  // 3. Verify vehicle ownership
+  const vehicleSnap = await adminDb.collection('vehicles').doc(vehicleId).get();
+  if (!vehicleSnap.exists || vehicleSnap.data()?.ownerId !== decodedToken.uid) {
+    return Response.json({ error: 'Forbidden — not your vehicle' }, { status: 403 });
+  }
+
+  // 4. Create schedules + recompute
+  try {
+    const result = await adoptFactorySchedule(vehicleId);
+    console.log(
+      `[factory-schedule/adopt] vehicle ${vehicleId}: created ${result.created.length}, skipped ${result.skipped.length}`
+    );
+    return Response.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Failed to adopt factory schedule';
+    console.error('[factory-schedule/adopt] error:', err);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
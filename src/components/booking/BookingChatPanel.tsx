@@ -18,10 +18,14 @@
  *     onSend={send}
  *     sending={sending}
  *   />
+ *
+ * 'change_order' messages render the change order inline when changeOrders is
+ * passed; onRespondChangeOrder adds Approve / Decline (customer side).
  */
 
 import { useRef, useEffect, useState, type KeyboardEvent } from 'react';
-import type { ChatMessage, ChatState } from '@/types';
+import { ChangeOrderCard } from '@/components/booking/ChangeOrderCard';
+import type { ChangeOrder, ChatMessage, ChatState } from '@/types';
 
 interface BookingChatPanelProps {
   messages: ChatMessage[];
@@ -29,6 +33,8 @@ interface BookingChatPanelProps {
   currentUserId: string;
   onSend: (body: string) => Promise<void>;
   sending: boolean;
+  changeOrders?: ChangeOrder[];
+  onRespondChangeOrder?: (changeOrderId: string, decision: 'approve' | 'decline') => Promise<unknown>;
 }
 
 export function BookingChatPanel({
@@ -37,6 +43,8 @@ export function BookingChatPanel({
   currentUserId,
   onSend,
   sending,
+  changeOrders = [],
+  onRespondChangeOrder,
 }: BookingChatPanelProps) {
   const [input, setInput] = useState('');
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -122,6 +130,30 @@ export function BookingChatPanel({
             );
           }
 
+          // Change orders render as a card; the card itself is the live state
+          if (msg.type === 'change_order') {
+            const changeOrder = changeOrders.find((co) => co.changeOrderId === msg.changeOrderId);
+            return (
+              <div key={msg.messageId} className="flex justify-center">
+                {changeOrder ? (
+                  <div className="w-full max-w-[90%]">
+                    <ChangeOrderCard
+                      changeOrder={changeOrder}
+                      compact
+                      onRespond={onRespondChangeOrder
+                        ? (decision) => onRespondChangeOrder(changeOrder.changeOrderId, decision)
+                        : undefined}
+                    />
+                  </div>
+                ) : (
+                  <span className="text-xs text-text-muted bg-surface-raised px-3 py-1 rounded-full">
+                    {msg.body}
+                  </span>
+                )}
+              </div>
+            );
+          }
+
           const isMe = msg.senderId === currentUserId;
 
           return (
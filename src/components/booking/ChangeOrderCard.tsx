@@ -0,0 +1,112 @@
+'use client';
+
+/**
+ * ChangeOrderCard — one change order (extra work found on-site).
+ *
+ * Shows the line items, subtotal and the technician's note. When onRespond is
+ * passed and the change order is still 'proposed', renders Approve / Decline;
+ * the customer's card is authorized for the extra amount before approval
+ * completes, so a decline message from the bank is shown inline.
+ *
+ *   <ChangeOrderCard
+ *     changeOrder={co}
+ *     onRespond={(decision) => respondToChangeOrder(bookingId, co.changeOrderId, decision)}
+ *   />
+ */
+
+import { useState } from 'react';
+import { formatPrice } from '@/lib/formatters';
+import type { ChangeOrder, ChangeOrderStatus } from '@/types';
+
+interface ChangeOrderCardProps {
+  changeOrder: ChangeOrder;
+  onRespond?: (decision: 'approve' | 'decline') => Promise<unknown>;
+  compact?: boolean;
+}
+
+const STATUS_STYLES: Record<ChangeOrderStatus, { label: string; className: string }> = {
+  proposed: { label: 'Awaiting approval', className: 'bg-status-serviceDue/15 text-status-serviceDue' },
+  approved: { label: 'Approved',          className: 'bg-green-500/15 text-green-400' },
+  declined: { label: 'Declined',          className: 'bg-surface-base text-text-muted' },
+};
+
+export function ChangeOrderCard({ changeOrder, onRespond, compact = false }: ChangeOrderCardProps) {
+  const [responding, setResponding] = useState<'approve' | 'decline' | null>(null);
+  const [error, setError] = useState('');
+
+  const status = STATUS_STYLES[changeOrder.status];
+  const canRespond = !!onRespond && changeOrder.status === 'proposed';
+
+  async function handleRespond(decision: 'approve' | 'decline') {
+    if (!onRespond || responding) return;
+    setResponding(decision);
+    setError('');
+    try {
+      await onRespond(decision);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not update the change order');
+    } finally {
+      setResponding(null);
+    }
+  }
+
+  return (
+    <div className={`bg-surface-raised border border-surface-border rounded-xl ${compact ? 'p-3' : 'p-4'} space-y-3`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-text-primary">Additional Work</p>
+        <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+
+      <ul className="space-y-1.5">
+        {changeOrder.items.map((item, i) => (
+          <li key={i} className="flex items-start justify-between gap-3 text-sm">
+            <span className="text-text-primary">
+              {item.label}
+              {item.quantity > 1 && (
+                <span className="text-text-muted"> × {item.quantity}</span>
+              )}
+              <span className="ml-1.5 text-[10px] uppercase tracking-wider text-text-muted">{item.kind}</span>
+            </span>
+            <span className="text-text-primary shrink-0">{formatPrice(item.amountCents)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between border-t border-surface-border pt-2 text-sm">
+        <span className="text-text-muted">Subtotal (before tax)</span>
+        <span className="font-semibold text-text-primary">{formatPrice(changeOrder.subtotalCents)}</span>
+      </div>
+
+      {changeOrder.note && (
+        <p className="text-xs text-text-muted italic">&ldquo;{changeOrder.note}&rdquo;</p>
+      )}
+
+      {error && (
+        <p className="text-status-fault text-xs bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+
+      {canRespond && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRespond('decline')}
+            disabled={!!responding}
+            className="flex-1 py-2 rounded-lg border border-surface-border text-sm font-medium text-text-muted hover:text-text-primary transition-colors disabled:opacity-50"
+          >
+            {responding === 'decline' ? 'Declining…' : 'Decline'}
+          </button>
+          <button
+            onClick={() => handleRespond('approve')}
+            disabled={!!responding}
+            className="flex-1 py-2 rounded-lg bg-brand text-surface-base text-sm font-semibold disabled:opacity-50"
+          >
+            {responding === 'approve' ? 'Authorizing…' : 'Approve'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * InspectionReport — the technician's shared vehicle inspection, for the
+ * customer's booking detail page.
+ *
+ * Red items first, then yellow, each with the technician's note and photo;
+ * green items are summarized in one line. A flagged item with a recommended
+ * service can be booked in one tap (bookInspectionFollowUp — tomorrow, same
+ * address and time window) and its card hold is authorized straight away,
+ * as in the booking flow; if authorization fails the booking is cancelled.
+ *
+ *   <InspectionReport inspection={inspection} booking={booking} />
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { bookInspectionFollowUp } from '@/services/inspectionService';
+import { cancelBooking } from '@/services/bookingService';
+import { authorizeBookingPayment } from '@/services/paymentMethodService';
+import { getStripeClient } from '@/lib/stripe/stripeClient';
+import { formatPrice } from '@/lib/formatters';
+import { INSPECTION_RATING_STYLES, type Booking, type InspectionItem, type VehicleInspection } from '@/types';
+
+interface InspectionReportProps {
+  inspection: VehicleInspection;
+  booking: Booking;
+}
+
+export function InspectionReport({ inspection, booking }: InspectionReportProps) {
+  const [bookingItemId, setBookingItemId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const flagged = [
+    ...inspection.items.filter((item) => item.rating === 'red'),
+    ...inspection.items.filter((item) => item.rating === 'yellow'),
+  ];
+  const greenCount = inspection.items.filter((item) => item.rating === 'green').length;
+
+  async function handleBook(item: InspectionItem) {
+    if (bookingItemId) return;
+    setBookingItemId(item.itemId);
+    setErrors((prev) => ({ ...prev, [item.itemId]: '' }));
+    try {
+      const created = await bookInspectionFollowUp(inspection, item, booking);
+      // Hold the server-priced total on the saved card (50¢ is Stripe's minimum charge)
+      if (created.totalPrice >= 50) {
+        try {
+          const auth = await authorizeBookingPayment(created.bookingId, created.totalPrice);
+          if (auth.status === 'requires_action' && auth.clientSecret) {
+            const stripe = await getStripeClient();
+            const result = await stripe?.handleNextAction({ clientSecret: auth.clientSecret });
+            if (!stripe || result?.error) {
+              throw new Error(result?.error?.message ?? 'Card verification failed');
+            }
+          }
+        } catch (err) {
+          await cancelBooking(created.bookingId, booking.customerId).catch((cancelErr) =>
+            console.error('[InspectionReport] cancel after failed authorization:', cancelErr)
+          );
+          const reason = err instanceof Error ? err.message : 'Card authorization failed';
+          throw new Error(`Your card could not be authorized, so the service was not booked: ${reason}`);
+        }
+      }
+    } catch (err: unknown) {
+      setErrors((prev) => ({ ...prev, [item.itemId]: err instanceof Error ? err.message : 'Booking failed' }));
+    } finally {
+      setBookingItemId(null);
+    }
+  }
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-text-primary">Inspection Report</p>
+        <div className="flex items-center gap-2 text-[10px] font-semibold uppercase tracking-wider">
+          {inspection.redCount > 0 && <span className={INSPECTION_RATING_STYLES.red.text}>{inspection.redCount} now</span>}
+          {inspection.yellowCount > 0 && <span className={INSPECTION_RATING_STYLES.yellow.text}>{inspection.yellowCount} soon</span>}
+          <span className={INSPECTION_RATING_STYLES.green.text}>{greenCount} good</span>
+        </div>
+      </div>
+
+      {flagged.length === 0 && (
+        <p className="text-sm text-text-muted">Everything the technician checked is in good shape.</p>
+      )}
+
+      {flagged.map((item) => {
+        const style = INSPECTION_RATING_STYLES[item.rating!];
+        return (
+          <div key={item.itemId} className="border-t border-surface-border pt-3 space-y-2">
+            <div className="flex items-start gap-2">
+              <span className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${style.dot}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-text-primary">
+                  {item.label}
+                  <span className={`ml-1.5 text-[10px] font-semibold uppercase tracking-wider ${style.text}`}>
+                    {item.rating === 'red' ? 'Needs attention now' : 'Plan soon'}
+                  </span>
+                </p>
+                {item.note && <p className="text-xs text-text-muted mt-0.5">{item.note}</p>}
+              </div>
+              {item.photoUrl && (
+                <a href={item.photoUrl} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={item.photoUrl} alt={item.label} className="w-14 h-14 rounded-lg object-cover" />
+                </a>
+              )}
+            </div>
+
+            {item.followUpBookingId ? (
+              <Link href={`/bookings/${item.followUpBookingId}`} className="inline-block text-xs font-semibold text-brand hover:underline">
+                Booked — view booking
+              </Link>
+            ) : item.recommendedService && (
+              <div>
+                <button
+                  onClick={() => handleBook(item)}
+                  disabled={bookingItemId !== null}
+                  className="w-full py-2 rounded-lg bg-brand/20 text-brand text-sm font-semibold disabled:opacity-50"
+                >
+                  {bookingItemId === item.itemId
+                    ? 'Booking…'
+                    : `Book ${item.recommendedService.name} · from ${formatPrice(item.recommendedService.basePrice)}`}
+                </button>
+                <p className="text-[10px] text-text-muted text-center mt-1">
+                  Tomorrow, same address and time window
+                </p>
+              </div>
+            )}
+            {errors[item.itemId] && <p className="text-xs text-status-fault">{errors[item.itemId]}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
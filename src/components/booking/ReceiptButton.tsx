@@ -0,0 +1,52 @@
+'use client';
+
+/**
+ * ReceiptButton — "Download receipt" for a completed booking.
+ *
+ * Fetches the receipt PDF (GET /api/bookings/receipt) and saves it; errors are
+ * shown inline under the button.
+ *
+ *   <ReceiptButton bookingId={booking.bookingId} />
+ */
+
+import { useState } from 'react';
+import { downloadReceipt } from '@/services/bookingService';
+
+interface ReceiptButtonProps {
+  bookingId: string;
+  className?: string;
+}
+
+export function ReceiptButton({ bookingId, className = '' }: ReceiptButtonProps) {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleClick() {
+    setDownloading(true);
+    setError('');
+    try {
+      await downloadReceipt(bookingId);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to download receipt');
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={downloading}
+        className="inline-flex items-center gap-1.5 text-xs font-semibold text-brand hover:underline disabled:opacity-50"
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+          <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+        </svg>
+        {downloading ? 'Preparing receipt…' : 'Download receipt'}
+      </button>
+      {error && <p className="text-xs text-status-fault mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+/**
+ * InspectionPanel — traffic-light vehicle inspection for the active job.
+ *
+ * The technician rates each component of the template
+ * (lib/inspections/template.ts) green / yellow / red. Yellow and red items
+ * take a note, a photo and a recommended catalog service (pre-selected from
+ * the template), which the customer can book in one tap once the report is
+ * shared. Every change is saved straight away (POST /api/jobs/inspection);
+ * the report itself comes from useInspection(), so the panel only keeps the
+ * note being typed.
+ *
+ *   <InspectionPanel jobId={job.jobId} />
+ */
+
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { useInspection } from '@/hooks/useInspection';
+import { saveInspection, uploadInspectionPhoto, type InspectionItemUpdate } from '@/services/inspectionService';
+import { getAllActiveServices } from '@/services/serviceService';
+import { buildInspectionItems, suggestedServiceId } from '@/lib/inspections/template';
+import { formatPrice } from '@/lib/formatters';
+import { INSPECTION_RATING_STYLES, type InspectionItem, type InspectionRating, type Service } from '@/types';
+
+/** Matches storage.rules. */
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+const RATINGS: InspectionRating[] = ['green', 'yellow', 'red'];
+
+export function InspectionPanel({ jobId }: { jobId: string }) {
+  const { inspection } = useInspection(jobId);
+  const [services, setServices] = useState<Service[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [error, setError] = useState('');
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoItemIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    getAllActiveServices()
+      .then(setServices)
+      .catch(() => setServices([]));
+  }, []);
+
+  const items = inspection?.items ?? buildInspectionItems();
+  const rated = items.filter((item) => item.rating !== null).length;
+  const isShared = inspection?.status === 'shared';
+
+  async function save(update: InspectionItemUpdate) {
+    setBusyItemId(update.itemId);
+    setError('');
+    try {
+      await saveInspection(jobId, [update]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save inspection');
+    } finally {
+      setBusyItemId(null);
+    }
+  }
+
+  function setRating(item: InspectionItem, rating: InspectionRating) {
+    const flagged = rating !== 'green';
+    save({
+      itemId: item.itemId,
+      rating,
+      // Pre-select the template's service the first time an item is flagged
+      ...(flagged && !item.recommendedService
+        ? { recommendedServiceId: suggestedServiceId(item.itemId, services) }
+        : {}),
+    });
+  }
+
+  function saveNote(item: InspectionItem) {
+    const note = notes[item.itemId];
+    if (note === undefined || note.trim() === (item.note ?? '')) return;
+    save({ itemId: item.itemId, note: note.trim() || null });
+  }
+
+  function pickPhoto(itemId: string) {
+    photoItemIdRef.current = itemId;
+    photoInputRef.current?.click();
+  }
+
+  async function handlePhoto(files: FileList | null) {
+    const itemId = photoItemIdRef.current;
+    const file = files?.[0];
+    if (!itemId || !file) return;
+    setBusyItemId(itemId);
+    setError('');
+    try {
+      if (!file.type.startsWith('image/')) throw new Error('Only images can be attached');
+      if (file.size > MAX_PHOTO_BYTES) throw new Error('Photos must be under 10 MB');
+      const photo = await uploadInspectionPhoto(jobId, itemId, file);
+      await saveInspection(jobId, [{ itemId, photo }]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to upload photo');
+    } finally {
+      setBusyItemId(null);
+      if (photoInputRef.current) photoInputRef.current.value = '';
+    }
+  }
+
+  async function handleShare() {
+    setSharing(true);
+    setError('');
+    try {
+      await saveInspection(jobId, [], true);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to share inspection');
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  const inputClass = 'bg-surface-base border border-surface-border rounded-lg px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-brand/50';
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Vehicle Inspection</p>
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-text-muted">
+          {isShared ? 'Shared · ' : ''}{rated}/{items.length} rated
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        {items.map((item, i) => {
+          const flagged = item.rating === 'yellow' || item.rating === 'red';
+          const busy = busyItemId === item.itemId;
+          return (
+            <Fragment key={item.itemId}>
+              {item.section !== items[i - 1]?.section && (
+                <p className="text-[10px] text-text-muted uppercase tracking-wider pt-2">{item.section}</p>
+              )}
+              <div className={`py-1.5 space-y-2 ${busy ? 'opacity-60' : ''}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-text-primary">{item.label}</span>
+                  <div className="flex rounded-lg border border-surface-border overflow-hidden shrink-0">
+                    {RATINGS.map((rating) => (
+                      <button
+                        key={rating}
+                        onClick={() => setRating(item, rating)}
+                        disabled={busy || item.rating === rating}
+                        className={`px-2 py-1 text-[11px] font-semibold ${
+                          item.rating === rating ? INSPECTION_RATING_STYLES[rating].active : 'text-text-muted'
+                        }`}
+                      >
+                        {INSPECTION_RATING_STYLES[rating].label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {flagged && (
+                  <div className="pl-2 border-l-2 border-surface-border space-y-2">
+                    <textarea
+                      value={notes[item.itemId] ?? item.note ?? ''}
+                      onChange={(e) => setNotes((prev) => ({ ...prev, [item.itemId]: e.target.value }))}
+                      onBlur={() => saveNote(item)}
+                      placeholder="What did you find? (shown to the customer)"
+                      maxLength={500}
+                      rows={2}
+                      className={`w-full resize-none ${inputClass}`}
+                    />
+                    <div className="flex items-center gap-2">
+                      {item.photoUrl && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={item.photoUrl} alt={item.label} className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                      )}
+                      <button
+                        onClick={() => pickPhoto(item.itemId)}
+                        disabled={busy}
+                        className="px-3 py-2 rounded-lg border border-dashed border-surface-border text-xs text-text-muted shrink-0"
+                      >
+                        {item.photoUrl ? 'Retake' : '+ Photo'}
+                      </button>
+                      <select
+                        value={item.recommendedService?.serviceId ?? ''}
+                        onChange={(e) => save({ itemId: item.itemId, recommendedServiceId: e.target.value || null })}
+                        disabled={busy}
+                        className={`flex-1 min-w-0 ${inputClass}`}
+                      >
+                        <option value="">No service recommended</option>
+                        {services.map((s) => (
+                          <option key={s.serviceId} value={s.serviceId}>{s.name} — {formatPrice(s.basePrice)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </Fragment>
+          );
+        })}
+      </div>
+
+      <input
+        ref={photoInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={(e) => handlePhoto(e.target.files)}
+        className="hidden"
+      />
+
+      {error && (
+        <p className="text-status-fault text-sm bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+
+      {isShared ? (
+        <p className="text-xs text-text-muted text-center">
+          The customer can see this report — changes are shared as you make them.
+        </p>
+      ) : (
+        <button
+          onClick={handleShare}
+          disabled={sharing || rated === 0}
+          className="w-full py-2.5 rounded-lg bg-brand/20 text-brand text-sm font-semibold disabled:opacity-40"
+        >
+          {sharing ? 'Sharing…' : 'Share report with customer'}
+        </button>
+      )}
+    </div>
+  );
+}
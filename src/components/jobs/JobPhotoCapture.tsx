@@ -0,0 +1,112 @@
+'use client';
+
+/**
+ * JobPhotoCapture — before/after photos for the active job.
+ *
+ * Opens the rear camera on phones (capture="environment"), uploads the shot
+ * to Firebase Storage and records it on the job (uploadJobPhoto). Thumbnails
+ * come from job.photos, which the parent keeps live.
+ *
+ *   <JobPhotoCapture job={job} />
+ */
+
+import { useRef, useState } from 'react';
+import { uploadJobPhoto } from '@/services/jobService';
+import type { Job, JobPhotoTag } from '@/types';
+
+/** Matches storage.rules. */
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+const TAGS: { tag: JobPhotoTag; label: string }[] = [
+  { tag: 'before', label: 'Before' },
+  { tag: 'after',  label: 'After' },
+];
+
+export function JobPhotoCapture({ job }: { job: Job }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [tag, setTag] = useState<JobPhotoTag>(job.currentStage === 'arrived' ? 'before' : 'after');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleFiles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    setError('');
+    try {
+      for (const file of Array.from(files)) {
+        if (!file.type.startsWith('image/')) throw new Error('Only images can be attached');
+        if (file.size > MAX_PHOTO_BYTES) throw new Error('Photos must be under 10 MB');
+        await uploadJobPhoto(job.jobId, file, tag);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to upload photo');
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  }
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Photos</p>
+        <div className="flex rounded-lg border border-surface-border overflow-hidden">
+          {TAGS.map(({ tag: t, label }) => (
+            <button
+              key={t}
+              onClick={() => setTag(t)}
+              className={`px-3 py-1 text-xs font-semibold ${
+                tag === t ? 'bg-brand text-surface-base' : 'text-text-muted'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {job.photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {job.photos.map((photo) => (
+            <a
+              key={photo.photoId}
+              href={photo.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="relative block aspect-square rounded-lg overflow-hidden bg-surface-base"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={photo.url} alt={`${photo.tag} photo`} className="w-full h-full object-cover" />
+              <span className="absolute bottom-1 left-1 text-[9px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded bg-black/70 text-white">
+                {photo.tag}
+              </span>
+            </a>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        onChange={(e) => handleFiles(e.target.files)}
+        className="hidden"
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading}
+        className="w-full py-2.5 rounded-lg border border-dashed border-surface-border text-sm text-text-muted hover:text-text-primary transition-colors disabled:opacity-50"
+      >
+        {uploading ? 'Uploading…' : `+ Add ${tag} photo`}
+      </button>
+
+      {error && (
+        <p className="text-status-fault text-sm bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
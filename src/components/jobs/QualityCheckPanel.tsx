@@ -0,0 +1,212 @@
+'use client';
+
+/**
+ * QualityCheckPanel — on-site checklist and parts entry for the active job.
+ *
+ * The checklist comes from the service category (lib/jobs/qualityChecklist.ts)
+ * until the technician first ticks an item; from then on it is job.checklist.
+ * Every tick and every parts change is saved straight away
+ * (POST /api/jobs/quality-check); the parent keeps `job` live, so the panel
+ * only holds the optimistic state while a save is in flight.
+ *
+ *   <QualityCheckPanel job={job} category={booking.serviceSnapshot.category} />
+ */
+
+import { useState } from 'react';
+import { saveQualityCheck } from '@/services/jobService';
+import { buildChecklist, missingChecklistItems } from '@/lib/jobs/qualityChecklist';
+import { formatDate } from '@/lib/formatters';
+import type { ChecklistItem, Job, PartRecord, ServiceCategory } from '@/types';
+
+interface QualityCheckPanelProps {
+  job: Job;
+  category: ServiceCategory;
+}
+
+export function QualityCheckPanel({ job, category }: QualityCheckPanelProps) {
+  const [pendingChecklist, setPendingChecklist] = useState<ChecklistItem[] | null>(null);
+  const [pendingParts, setPendingParts] = useState<PartRecord[] | null>(null);
+  const [partName, setPartName] = useState('');
+  const [partNumber, setPartNumber] = useState('');
+  const [partBrand, setPartBrand] = useState('');
+  const [partWarranty, setPartWarranty] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const checklist = pendingChecklist ?? job.checklist ?? buildChecklist(category);
+  const parts = pendingParts ?? job.partsUsed;
+  const missing = missingChecklistItems(checklist);
+
+  async function save(update: { checklist?: ChecklistItem[]; parts?: PartRecord[] }) {
+    if (update.checklist) setPendingChecklist(update.checklist);
+    if (update.parts) setPendingParts(update.parts);
+    setSaving(true);
+    setError('');
+    try {
+      await saveQualityCheck(job.jobId, {
+        checkedItemIds: update.checklist?.filter((item) => item.checked).map((item) => item.itemId),
+        partsUsed: update.parts,
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save quality check');
+    } finally {
+      // Fall back to the live job — it carries the saved state, or the last
+      // good one if the save failed
+      setPendingChecklist(null);
+      setPendingParts(null);
+      setSaving(false);
+    }
+  }
+
+  function toggleItem(itemId: string) {
+    if (saving) return;
+    save({
+      checklist: checklist.map((item) =>
+        item.itemId === itemId
+          ? { ...item, checked: !item.checked, checkedAt: item.checked ? null : new Date() }
+          : item
+      ),
+    });
+  }
+
+  function addPart() {
+    if (!partName.trim() || saving) return;
+    const warrantyExpires = partWarranty ? new Date(`${partWarranty}T00:00:00`) : null;
+    save({
+      parts: [...parts, {
+        name: partName.trim(),
+        partNumber: partNumber.trim() || null,
+        brand: partBrand.trim() || null,
+        warrantyExpires,
+      }],
+    });
+    setPartName('');
+    setPartNumber('');
+    setPartBrand('');
+    setPartWarranty('');
+  }
+
+  function removePart(index: number) {
+    if (saving) return;
+    save({ parts: parts.filter((_, i) => i !== index) });
+  }
+
+  const inputClass = 'bg-surface-base border border-surface-border rounded-lg px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-brand/50';
+
+  return (
+    <div className="bg-surface-raised border border-surface-border rounded-xl p-4 space-y-4">
+      {/* Checklist */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Quality Checklist</p>
+          <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full ${
+            missing.length === 0
+              ? 'bg-green-500/15 text-green-400'
+              : 'bg-status-serviceDue/15 text-status-serviceDue'
+          }`}>
+            {missing.length === 0 ? 'Complete' : `${missing.length} required left`}
+          </span>
+        </div>
+        <ul className="space-y-1">
+          {checklist.map((item) => (
+            <li key={item.itemId}>
+              <label className="flex items-start gap-2.5 py-1 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  onChange={() => toggleItem(item.itemId)}
+                  disabled={saving}
+                  className="mt-0.5 accent-brand"
+                />
+                <span className={item.checked ? 'text-text-muted line-through' : 'text-text-primary'}>
+                  {item.label}
+                  {item.required && !item.checked && <span className="text-status-serviceDue ml-1">*</span>}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Parts used */}
+      <div className="space-y-2 pt-3 border-t border-surface-border">
+        <p className="text-xs text-text-muted uppercase tracking-wider font-medium">Parts Used</p>
+        {parts.length > 0 ? (
+          <ul className="space-y-1.5">
+            {parts.map((part, i) => (
+              <li key={i} className="flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-text-primary">{part.name}</p>
+                  <p className="text-xs text-text-muted">
+                    {[part.brand, part.partNumber && `#${part.partNumber}`, part.warrantyExpires && `Warranty until ${formatDate(part.warrantyExpires)}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removePart(i)}
+                  disabled={saving}
+                  aria-label="Remove part"
+                  className="text-text-muted hover:text-status-fault text-xs shrink-0"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-text-muted">No parts recorded.</p>
+        )}
+        <div className="space-y-2">
+          <input
+            value={partName}
+            onChange={(e) => setPartName(e.target.value)}
+            placeholder="Part name, e.g. Oil filter"
+            maxLength={120}
+            className={`w-full ${inputClass}`}
+          />
+          <div className="flex gap-2">
+            <input
+              value={partBrand}
+              onChange={(e) => setPartBrand(e.target.value)}
+              placeholder="Brand"
+              maxLength={60}
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+            <input
+              value={partNumber}
+              onChange={(e) => setPartNumber(e.target.value)}
+              placeholder="Part #"
+              maxLength={60}
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+          </div>
+          <div className="flex gap-2">
+            <label className="flex-1 min-w-0 flex items-center gap-2 text-xs text-text-muted">
+              Warranty until
+              <input
+                type="date"
+                value={partWarranty}
+                onChange={(e) => setPartWarranty(e.target.value)}
+                className={`flex-1 min-w-0 ${inputClass}`}
+              />
+            </label>
+            <button
+              onClick={addPart}
+              disabled={!partName.trim() || saving}
+              className="px-3 rounded-lg bg-brand/20 text-brand text-sm font-semibold disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-status-fault text-sm bg-status-fault/10 border border-status-fault/30 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,8 @@
 /**
  * EnrollCTA — enrollment button for a subscription plan.
  *
- * IMPORTANT — MVP CONSTRAINT:
- *   Stripe subscriptions are not wired yet. The button is rendered
- *   disabled with a tooltip explaining this. The onEnroll callback
- *   will not be called. This is intentional per the Phase 3 spec.
- *
- *   When Stripe is connected (Phase 4), remove the `disabled` prop
- *   and the warning label.
+ * The parent's onEnroll posts to /api/subscriptions/enroll, which starts a
+ * Stripe subscription; the first invoice is paid on Stripe's hosted page.
  *
  * Usage:
  *   <EnrollCTA planId={plan.planId} onEnroll={(id) => handleEnroll(id)} />
@@ -15,19 +10,15 @@
 
 interface EnrollCTAProps {
   planId: string;
-  /** Called with planId when user confirms enrollment. Not called in MVP (disabled). */
+  /** Called with planId when user confirms enrollment. */
   onEnroll: (planId: string) => void;
   /** Override loading state from a parent enrollment flow. */
   loading?: boolean;
 }
 
 export function EnrollCTA({ planId, onEnroll, loading = false }: EnrollCTAProps) {
-  // MVP: Stripe subscription payments are not yet connected.
-  // The button is rendered but disabled per the architecture spec.
-  const stripeConnected = false;
-
   function handleClick() {
-    if (!stripeConnected || loading) return;
+    if (loading) return;
     onEnroll(planId);
   }
 
@@ -36,11 +27,11 @@ export function EnrollCTA({ planId, onEnroll, loading = false }: EnrollCTAProps)
       <button
         type="button"
         onClick={handleClick}
-        disabled={!stripeConnected || loading}
-        aria-disabled={!stripeConnected || loading}
+        disabled={loading}
+        aria-disabled={loading}
         className={[
           'w-full py-2.5 rounded-xl text-sm font-semibold transition-colors',
-          stripeConnected && !loading
+          !loading
             ? 'bg-brand text-black hover:bg-brand/90 active:scale-[0.98]'
             : 'bg-surface-mid text-text-muted cursor-not-allowed',
         ].join(' ')}
@@ -48,11 +39,9 @@ export function EnrollCTA({ planId, onEnroll, loading = false }: EnrollCTAProps)
         {loading ? 'Processing…' : 'Enroll Now'}
       </button>
 
-      {!stripeConnected && (
-        <p className="text-center text-[10px] text-text-muted">
-          Subscription payments coming soon
-        </p>
-      )}
+      <p className="text-center text-[10px] text-text-muted">
+        Billed through Stripe · cancel anytime
+      </p>
     </div>
   );
 }
@@ -32,7 +32,7 @@ interface PlanCardProps {
   plan: SubscriptionPlan;
   /**
    * Pass the customer's existing subscription for this plan if one exists.
-   * Used to show active status instead of the enroll CTA.
+   * Used to show active / awaiting-payment status instead of the enroll CTA.
    */
   activeSubscription?: CustomerSubscription | null;
   /**
@@ -52,6 +52,7 @@ export function PlanCard({ plan, activeSubscription, onEnroll }: PlanCardProps)
 
   const periodSuffix = PERIOD_LABEL[plan.period] ?? `/${plan.period}`;
   const isActive = activeSubscription?.status === 'active';
+  const isPending = activeSubscription?.status === 'pending_payment';
 
   return (
     <div className="bg-surface-raised border border-surface-border rounded-xl overflow-hidden">
@@ -111,13 +112,18 @@ export function PlanCard({ plan, activeSubscription, onEnroll }: PlanCardProps)
         </ul>
       </div>
 
-      {/* Enroll CTA or active badge */}
+      {/* Enroll CTA or status badge */}
       <div className="px-4 pb-4">
         {isActive ? (
           <div className="flex items-center gap-2 py-2">
             <span className="h-2 w-2 rounded-full bg-status-optimal shrink-0" />
             <span className="text-sm text-status-optimal font-medium">Active subscription</span>
           </div>
+        ) : isPending ? (
+          <div className="flex items-center gap-2 py-2">
+            <span className="h-2 w-2 rounded-full bg-status-serviceDue shrink-0" />
+            <span className="text-sm text-status-serviceDue font-medium">Awaiting first payment</span>
+          </div>
         ) : onEnroll ? (
           <EnrollCTA planId={plan.planId} onEnroll={onEnroll} />
         ) : null}
@@ -7,8 +7,17 @@
  * TODO Wave 2: implement expand/collapse toggle (collapsed by default).
  */
 
+import { toDate } from '@/lib/converters';
 import type { PartRecord } from '@/types';
 
+/** Records are read without conversion — warrantyExpires may be a Firestore Timestamp. */
+function warrantyDate(value: unknown): string | null {
+  const date = toDate(value);
+  return !date || Number.isNaN(date.getTime())
+    ? null
+    : date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
 interface PartsUsedListProps {
   parts: PartRecord[];
 }
@@ -35,7 +44,7 @@ export function PartsUsedList({ parts }: PartsUsedListProps) {
             </div>
             {part.warrantyExpires && (
               <span className="text-xs text-status-optimal shrink-0">
-                Warranty
+                {warrantyDate(part.warrantyExpires) ? `Warranty until ${warrantyDate(part.warrantyExpires)}` : 'Warranty'}
               </span>
             )}
           </li>
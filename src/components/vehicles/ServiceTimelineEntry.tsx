@@ -3,19 +3,21 @@
  *
  * Displays:
  *  - Date + service type badge
- *  - Mileage at service, cost, and tech notes
+ *  - Mileage at service, cost (net of refunds), and tech notes
  *  - Expandable <PartsUsedList> if partsUsed.length > 0
  *  - Expandable warranty info if warrantyInfo is present
- *  - Photo thumbnails if photoUrls.length > 0
+ *  - On-site quality check summary if checklist is present
+ *  - Before/after photo grid (tap to open full size) if photoUrls.length > 0
+ *  - "Download receipt" for records that came from a booking
  *
  * TODO Wave 2: implement
  *  - Expand/collapse interaction for parts and photos
  *  - WarrantyInfo inline render
- *  - Photo grid (next/image thumbnails, tap-to-enlarge)
  */
 
 import type { ServiceHistoryRecord, ServiceCategory } from '@/types';
 import { PartsUsedList } from './PartsUsedList';
+import { ReceiptButton } from '@/components/booking/ReceiptButton';
 
 const CATEGORY_LABELS: Record<ServiceCategory, string> = {
   mechanic: 'Mechanic',
@@ -32,8 +34,12 @@ export function ServiceTimelineEntry({ record }: ServiceTimelineEntryProps) {
     ? record.date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
     : String(record.date);
 
-  const costStr = `$${(record.cost / 100).toFixed(2)}`;
+  const refundedCents = record.refundedCents ?? 0;
+  const costStr = `$${(Math.max(0, record.cost - refundedCents) / 100).toFixed(2)}`;
   const hasParts = (record.partsUsed ?? []).length > 0;
+  // Older records only have photoUrls — shown untagged
+  const photos = record.photos ?? (record.photoUrls ?? []).map((url) => ({ url, tag: null }));
+  const checklist = record.checklist ?? [];
 
   return (
     <div className="relative pl-6 pb-6">
@@ -52,6 +58,11 @@ export function ServiceTimelineEntry({ record }: ServiceTimelineEntryProps) {
           </div>
           <div className="text-right">
             <p className="text-sm font-semibold text-text-primary">{costStr}</p>
+            {refundedCents > 0 && (
+              <p className="text-xs text-status-optimal">
+                ${(refundedCents / 100).toFixed(2)} refunded
+              </p>
+            )}
             <p className="text-xs text-text-muted">{record.mileageAtService.toLocaleString()} mi</p>
           </div>
         </div>
@@ -61,9 +72,51 @@ export function ServiceTimelineEntry({ record }: ServiceTimelineEntryProps) {
           <p className="text-sm text-text-secondary">{record.techNotes}</p>
         )}
 
+        {/* Extra work approved on-site */}
+        {(record.addOns ?? []).length > 0 && (
+          <ul className="space-y-0.5">
+            {record.addOns!.map((addOn, i) => (
+              <li key={i} className="flex items-center justify-between text-xs text-text-muted">
+                <span>+ {addOn.label}</span>
+                <span>${(addOn.amountCents / 100).toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Parts used */}
         {hasParts && <PartsUsedList parts={record.partsUsed} />}
 
+        {/* Quality check */}
+        {checklist.length > 0 && (
+          <p className="text-xs text-text-muted">
+            Quality check: {checklist.filter((item) => item.checked).length} of {checklist.length} checks passed
+          </p>
+        )}
+
+        {/* Before / after photos */}
+        {photos.length > 0 && (
+          <div className="grid grid-cols-3 gap-2 pt-1">
+            {photos.map((photo, idx) => (
+              <a
+                key={idx}
+                href={photo.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative block aspect-square rounded-lg overflow-hidden bg-surface-base"
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={photo.url} alt={photo.tag ? `${photo.tag} service` : 'Service photo'} className="w-full h-full object-cover" loading="lazy" />
+                {photo.tag && (
+                  <span className="absolute bottom-1 left-1 text-[9px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded bg-black/70 text-white">
+                    {photo.tag}
+                  </span>
+                )}
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Warranty summary */}
         {record.warrantyInfo && (
           <p className="text-xs text-status-optimal">
@@ -71,6 +124,9 @@ export function ServiceTimelineEntry({ record }: ServiceTimelineEntryProps) {
             {record.warrantyInfo.expiresAt ? ` — expires ${String(record.warrantyInfo.expiresAt)}` : ''}
           </p>
         )}
+
+        {/* Receipt */}
+        {record.source === 'booking' && <ReceiptButton bookingId={record.bookingId} />}
       </div>
     </div>
   );
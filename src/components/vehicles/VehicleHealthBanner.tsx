@@ -2,12 +2,15 @@
  * VehicleHealthBanner — compact health status card for the vehicle detail page.
  *
  * Shows the fleet alertLevel (none / soon / overdue) and the top-2 upcoming
- * services sorted by urgency. Used on the vehicle detail page and optionally
+ * services sorted by urgency, with their estimated cost and the projected
+ * monthly maintenance spend, plus any red items from the latest shared
+ * vehicle inspection. Used on the vehicle detail page and optionally
  * on the dashboard for per-vehicle health summaries.
  *
  * Data source: VehicleHealthSnapshot from vehicleHealth/{vehicleId} via useVehicleHealth().
  */
 
+import { formatPrice } from '@/lib/formatters';
 import type { VehicleHealthSnapshot, HealthAlertLevel, UpcomingServiceForecast } from '@/types';
 
 // ── Style maps ────────────────────────────────────────────────────────────────
@@ -114,9 +117,25 @@ export function VehicleHealthBanner({
         <ForecastRow key={item.scheduleId} item={item} />
       ))}
 
+      {/* Red items from the latest shared inspection */}
+      {(snapshot.inspectionFindings ?? []).map((finding) => (
+        <div key={`${finding.inspectionId}-${finding.itemId}`} className="flex items-center justify-between gap-2">
+          <p className="text-sm text-text-primary truncate">{finding.label}</p>
+          <span className="text-xs font-medium text-status-fault shrink-0">
+            inspection: needs attention
+          </span>
+        </div>
+      ))}
+
       {snapshot.upcomingServices.length === 0 && (
         <p className="text-xs text-text-muted">No active maintenance schedules.</p>
       )}
+
+      {snapshot.costForecastCentsMonthly != null && snapshot.costForecastCentsMonthly > 0 && (
+        <p className="text-xs text-text-muted pt-1">
+          Projected maintenance: ~{formatPrice(snapshot.costForecastCentsMonthly)}/mo over the next 12 months
+        </p>
+      )}
     </div>
   );
 }
@@ -145,11 +164,18 @@ function ForecastRow({ item }: { item: UpcomingServiceForecast }) {
   return (
     <div className="flex items-center justify-between gap-2">
       <p className="text-sm text-text-primary truncate">{label}</p>
-      {dueStr && (
-        <span className={`text-xs font-medium shrink-0 ${URGENCY_COLOR[item.urgency]}`}>
-          {dueStr}
-        </span>
-      )}
+      <div className="flex items-center gap-2 shrink-0">
+        {item.estimatedCostCents != null && (
+          <span className="text-xs text-text-muted">
+            {item.estimatedCostCents === 0 ? 'Covered' : `~${formatPrice(item.estimatedCostCents)}`}
+          </span>
+        )}
+        {dueStr && (
+          <span className={`text-xs font-medium ${URGENCY_COLOR[item.urgency]}`}>
+            {dueStr}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,31 @@
+'use client';
+
+/**
+ * useChangeOrders — real-time listener for a booking's change orders.
+ *
+ * Used by:
+ * - Customer's booking detail page (approve / decline)
+ * - Technician's active job page (propose, see the customer's answer)
+ *
+ * Always clean up the onSnapshot listener on unmount.
+ */
+
+import { useState, useEffect } from 'react';
+import { listenToChangeOrders } from '@/services/changeOrderService';
+import type { ChangeOrder } from '@/types';
+
+export function useChangeOrders(bookingId: string | null | undefined): { changeOrders: ChangeOrder[]; loading: boolean } {
+  const [changeOrders, setChangeOrders] = useState<ChangeOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!bookingId) return;
+    const unsub = listenToChangeOrders(bookingId, (updated) => {
+      setChangeOrders(updated);
+      setLoading(false);
+    });
+    return () => unsub();
+  }, [bookingId]);
+
+  return { changeOrders, loading };
+}
@@ -0,0 +1,31 @@
+'use client';
+
+/**
+ * useInspection — real-time listener for a job's vehicle inspection.
+ *
+ * Used by:
+ * - Customer's booking detail page (report, once shared)
+ * - Technician's active job page (filling it in)
+ *
+ * Always clean up the onSnapshot listener on unmount.
+ */
+
+import { useState, useEffect } from 'react';
+import { listenToInspection } from '@/services/inspectionService';
+import type { VehicleInspection } from '@/types';
+
+export function useInspection(jobId: string | null | undefined): { inspection: VehicleInspection | null; loading: boolean } {
+  const [inspection, setInspection] = useState<VehicleInspection | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!jobId) return;
+    const unsub = listenToInspection(jobId, (updated) => {
+      setInspection(updated);
+      setLoading(false);
+    });
+    return () => unsub();
+  }, [jobId]);
+
+  return { inspection, loading };
+}
@@ -0,0 +1,64 @@
+/**
+ * Booking cancellation policy.
+ *
+ * Decides what a customer pays to cancel a booking:
+ *   - pending bookings are always free — no technician has committed
+ *   - more than NEXT_PUBLIC_CANCELLATION_FREE_HOURS (default 24) before
+ *     scheduledAt is free
+ *   - inside that window the customer pays NEXT_PUBLIC_CANCELLATION_FEE_CENTS
+ *     (default 2500), capped at the booking total
+ *
+ * Only customer cancellations are charged. Admin and 'system' cancellations
+ * (payment failures, ops decisions) are never the customer's fault.
+ *
+ * The fee is collected by lib/stripe/bookingPayments.ts (partial capture of
+ * the hold, or an off-session charge) after transitionBooking() commits.
+ *
+ * Pure module — no Firebase imports. Config comes from NEXT_PUBLIC_ env vars
+ * so the booking page can quote the same fee the server will charge.
+ */
+
+import type { BookingActor, BookingStatus } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Stripe's minimum charge in USD cents — smaller fees are waived. */
+const MIN_FEE_CENTS = 50;
+
+export interface CancellationPolicy {
+  freeHours: number;
+  lateFeeCents: number;
+}
+
+export interface CancellationQuote {
+  feeCents: number;
+  /** Whole hours between now and scheduledAt; 0 once it has passed. */
+  hoursBeforeService: number;
+}
+
+export function cancellationPolicyFromEnv(): CancellationPolicy {
+  const freeHours = Number(process.env.NEXT_PUBLIC_CANCELLATION_FREE_HOURS ?? 24);
+  const lateFeeCents = Number(process.env.NEXT_PUBLIC_CANCELLATION_FEE_CENTS ?? 2500);
+  return {
+    freeHours:    Number.isFinite(freeHours) && freeHours > 0 ? freeHours : 0,
+    lateFeeCents: Number.isFinite(lateFeeCents) && lateFeeCents > 0 ? Math.round(lateFeeCents) : 0,
+  };
+}
+
+/** The fee for cancelling `booking` now. */
+export function quoteCancellation(
+  booking: { status: BookingStatus; scheduledAt: Date; totalPrice: number },
+  actor: BookingActor,
+  policy: CancellationPolicy = cancellationPolicyFromEnv(),
+  now: Date = new Date()
+): CancellationQuote {
+  const hoursBeforeService = Math.max(0, Math.floor((booking.scheduledAt.getTime() - now.getTime()) / HOUR_MS));
+  const isLate = booking.scheduledAt.getTime() - now.getTime() < policy.freeHours * HOUR_MS;
+
+  if (actor !== 'customer' || booking.status === 'pending' || !isLate) {
+    return { feeCents: 0, hoursBeforeService };
+  }
+
+  const feeCents = Math.min(policy.lateFeeCents, booking.totalPrice);
+  return { feeCents: feeCents >= MIN_FEE_CENTS ? feeCents : 0, hoursBeforeService };
+}
@@ -0,0 +1,297 @@
+/**
+ * Change orders — server-side only.
+ *
+ * A technician who finds extra work on-site (worn pads during an oil change)
+ * proposes a change order: catalog services, custom parts and labor. The
+ * customer approves or declines it from the booking page or the chat thread.
+ *
+ *   proposeChangeOrder()   — catalog items are priced from services/{id}, never
+ *                            by the client; custom items carry the technician's
+ *                            price. Writes bookings/{bookingId}/changeOrders/{id}
+ *                            and a 'change_order' chat message together.
+ *   respondToChangeOrder() — on approval the booking is re-priced with the new
+ *                            add-ons (lib/bookings/pricing.ts) and the extra
+ *                            amount authorized first (lib/stripe/bookingPayments.ts);
+ *                            a declined card leaves the change order 'proposed'
+ *                            so the customer can fix it and approve again.
+ *
+ * Approved items become Booking.addOns, which completion copies onto the
+ * ServiceHistoryRecord.
+ *
+ * Called by:
+ *  - POST /api/bookings/propose-change-order
+ *  - POST /api/bookings/respond-change-order
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type DocumentData } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { extendAuthorization, BookingPaymentError } from '@/lib/stripe/bookingPayments';
+import { repriceBooking } from './pricing';
+import type { BookingAddOn, BookingStatus, ChangeOrderItem, ChangeOrderStatus } from '@/types';
+
+/** Booking statuses in which a change order can be proposed or approved. */
+const OPEN_STATUSES: BookingStatus[] = ['accepted', 'scheduled', 'en_route', 'in_progress'];
+
+export class ChangeOrderError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ChangeOrderError';
+  }
+}
+
+/** A line as submitted by the technician. serviceId items ignore label and price. */
+export interface ChangeOrderItemInput {
+  kind: ChangeOrderItem['kind'];
+  serviceId?: string;
+  label?: string;
+  quantity: number;
+  unitPriceCents?: number;
+}
+
+export interface ProposeChangeOrderParams {
+  bookingId: string;
+  technicianId: string;
+  items: ChangeOrderItemInput[];
+  note?: string | null;
+}
+
+export interface RespondToChangeOrderParams {
+  bookingId: string;
+  changeOrderId: string;
+  customerId: string;
+  decision: 'approve' | 'decline';
+}
+
+export interface ChangeOrderResponse {
+  changeOrderId: string;
+  status: ChangeOrderStatus;
+  /** Booking total after the decision. */
+  totalPrice: number;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function chatMessage(booking: DocumentData, bookingId: string, senderId: string, senderRole: 'customer' | 'technician') {
+  return {
+    bookingId,
+    senderId,
+    senderRole,
+    readBy:        [],
+    customerId:    booking.customerId,
+    technicianId:  booking.technicianId,
+    bookingStatus: booking.status,
+    createdAt:     FieldValue.serverTimestamp(),
+  };
+}
+
+/** Prices catalog items from the services collection and validates custom ones. */
+async function resolveItems(inputs: ChangeOrderItemInput[]): Promise<ChangeOrderItem[]> {
+  return Promise.all(inputs.map(async (input): Promise<ChangeOrderItem> => {
+    if (input.kind === 'service') {
+      if (!input.serviceId) throw new ChangeOrderError('Catalog items need a serviceId', 400);
+      const serviceSnap = await adminDb.collection('services').doc(input.serviceId).get();
+      const service = serviceSnap.data();
+      if (!serviceSnap.exists || !service?.isActive) {
+        throw new ChangeOrderError(`Service ${input.serviceId} is not available`, 404);
+      }
+      const unitPriceCents = service.basePrice as number;
+      return {
+        kind:           'service',
+        serviceId:      input.serviceId,
+        label:          service.name as string,
+        quantity:       input.quantity,
+        unitPriceCents,
+        amountCents:    unitPriceCents * input.quantity,
+      };
+    }
+
+    const label = input.label?.trim();
+    if (!label || input.unitPriceCents === undefined) {
+      throw new ChangeOrderError('Parts and labor need a label and a price', 400);
+    }
+    return {
+      kind:           input.kind,
+      serviceId:      null,
+      label,
+      quantity:       input.quantity,
+      unitPriceCents: input.unitPriceCents,
+      amountCents:    input.unitPriceCents * input.quantity,
+    };
+  }));
+}
+
+/**
+ * Creates a change order on the technician's booking and tells the customer.
+ *
+ * @throws ChangeOrderError 404 / 403 / 409 when the booking is missing, not
+ *         the caller's, or no longer open.
+ */
+export async function proposeChangeOrder({
+  bookingId,
+  technicianId,
+  items: inputs,
+  note = null,
+}: ProposeChangeOrderParams): Promise<{ changeOrderId: string; subtotalCents: number }> {
+  const items = await resolveItems(inputs);
+  const subtotalCents = items.reduce((sum, i) => sum + i.amountCents, 0);
+
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const changeOrderRef = bookingRef.collection('changeOrders').doc();
+
+  const booking = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(bookingRef);
+    if (!snap.exists) throw new ChangeOrderError('Booking not found', 404);
+    const data = snap.data()!;
+    if (data.technicianId !== technicianId) {
+      throw new ChangeOrderError('Only the assigned technician can propose extra work', 403);
+    }
+    if (!OPEN_STATUSES.includes(data.status as BookingStatus)) {
+      throw new ChangeOrderError(`Booking is ${data.status}`, 409);
+    }
+
+    tx.set(changeOrderRef, {
+      bookingId,
+      customerId:   data.customerId,
+      technicianId,
+      items,
+      subtotalCents,
+      note,
+      status:       'proposed' as ChangeOrderStatus,
+      proposedAt:   FieldValue.serverTimestamp(),
+      respondedAt:  null,
+    });
+    tx.set(bookingRef.collection('messages').doc(), {
+      ...chatMessage(data, bookingId, technicianId, 'technician'),
+      body:          `Your technician proposed extra work: ${items.map((i) => i.label).join(', ')} (${formatCents(subtotalCents)} + tax).`,
+      type:          'change_order',
+      changeOrderId: changeOrderRef.id,
+    });
+    return data;
+  });
+
+  console.log(`[changeOrders] ${changeOrderRef.id} proposed on ${bookingId}: ${subtotalCents}`);
+
+  notifyUser(booking.customerId as string, {
+    type:             'change_order',
+    title:            'Approval Needed',
+    body:             `Your technician found additional work on your ${booking.serviceSnapshot?.name ?? 'service'} (${formatCents(subtotalCents)} + tax). Review it to continue.`,
+    link:             `/bookings/${bookingId}`,
+    relatedBookingId: bookingId,
+    relatedJobId:     (booking.jobId as string | null) ?? null,
+  }).catch((err) => console.error('[changeOrders] notification error:', err));
+
+  return { changeOrderId: changeOrderRef.id, subtotalCents };
+}
+
+/**
+ * Applies the customer's decision. Retrying an approval that already went
+ * through returns the current state.
+ *
+ * @throws ChangeOrderError when the change order cannot be answered; 402 when
+ *         the card declines the additional amount.
+ */
+export async function respondToChangeOrder({
+  bookingId,
+  changeOrderId,
+  customerId,
+  decision,
+}: RespondToChangeOrderParams): Promise<ChangeOrderResponse> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const changeOrderRef = bookingRef.collection('changeOrders').doc(changeOrderId);
+
+  // 1. Pre-flight
+  const [bookingSnap, changeOrderSnap] = await Promise.all([bookingRef.get(), changeOrderRef.get()]);
+  if (!bookingSnap.exists || !changeOrderSnap.exists) throw new ChangeOrderError('Change order not found', 404);
+  const booking = bookingSnap.data()!;
+  const changeOrder = changeOrderSnap.data()!;
+  if (booking.customerId !== customerId) throw new ChangeOrderError('Forbidden — not your booking', 403);
+  if (changeOrder.status !== 'proposed') {
+    return { changeOrderId, status: changeOrder.status as ChangeOrderStatus, totalPrice: booking.totalPrice as number };
+  }
+  if (!OPEN_STATUSES.includes(booking.status as BookingStatus)) {
+    throw new ChangeOrderError(`Booking is ${booking.status}`, 409);
+  }
+
+  const approvedAt = new Date();
+  const newAddOns: BookingAddOn[] = (changeOrder.items as ChangeOrderItem[]).map((item) => ({
+    label:         item.quantity > 1 ? `${item.label} ×${item.quantity}` : item.label,
+    amountCents:   item.amountCents,
+    approvedAt,
+    changeOrderId,
+  }));
+  const priceFor = (data: DocumentData) => repriceBooking({
+    serviceSnapshot:           data.serviceSnapshot,
+    subscriptionDiscountCents: data.subscriptionDiscountCents,
+    addOns:                    [...((data.addOns as BookingAddOn[] | undefined) ?? []), ...newAddOns],
+    priceBreakdown:            data.priceBreakdown,
+  }, approvedAt);
+
+  // 2. Authorize the extra amount before anything is marked approved
+  if (decision === 'approve') {
+    try {
+      await extendAuthorization({ bookingId, changeOrderId, totalCents: priceFor(booking).totalCents });
+    } catch (err) {
+      if (err instanceof BookingPaymentError) {
+        throw new ChangeOrderError(
+          err.status < 500 ? `Your card could not be authorized for the extra work: ${err.message}` : err.message,
+          err.status < 500 ? 402 : 502
+        );
+      }
+      throw err;
+    }
+  }
+
+  // 3. Record the decision, the add-ons and the new price together
+  const status: ChangeOrderStatus = decision === 'approve' ? 'approved' : 'declined';
+  const totalPrice = await adminDb.runTransaction(async (tx) => {
+    const [bSnap, coSnap] = await Promise.all([tx.get(bookingRef), tx.get(changeOrderRef)]);
+    const data = bSnap.data()!;
+    if (coSnap.data()?.status !== 'proposed') return data.totalPrice as number;
+
+    tx.update(changeOrderRef, { status, respondedAt: FieldValue.serverTimestamp() });
+
+    let total = data.totalPrice as number;
+    if (status === 'approved') {
+      const priceBreakdown = priceFor(data);
+      total = priceBreakdown.totalCents;
+      tx.update(bookingRef, {
+        addOns:     FieldValue.arrayUnion(...newAddOns),
+        priceBreakdown,
+        totalPrice: total,
+        updatedAt:  FieldValue.serverTimestamp(),
+      });
+    }
+    tx.set(bookingRef.collection('messages').doc(), {
+      ...chatMessage(data, bookingId, customerId, 'customer'),
+      body:          status === 'approved'
+        ? `Extra work approved — new total ${formatCents(total)}.`
+        : 'Extra work declined.',
+      type:          'system',
+      changeOrderId,
+    });
+    return total;
+  });
+
+  console.log(`[changeOrders] ${changeOrderId} ${status} on ${bookingId} (total ${totalPrice})`);
+
+  if (booking.technicianId) {
+    notifyUser(booking.technicianId as string, {
+      type:             'change_order',
+      title:            status === 'approved' ? 'Extra Work Approved' : 'Extra Work Declined',
+      body:             status === 'approved'
+        ? `The customer approved the additional work. New total: ${formatCents(totalPrice)}.`
+        : 'The customer declined the additional work.',
+      link:             '/active-job',
+      relatedBookingId: bookingId,
+      relatedJobId:     (booking.jobId as string | null) ?? null,
+    }).catch((err) => console.error('[changeOrders] notification error:', err));
+  }
+
+  return { changeOrderId, status, totalPrice };
+}
@@ -0,0 +1,384 @@
+/**
+ * Job completion pipeline — server-side only.
+ *
+ * The one place a booking becomes 'complete'. completeBooking():
+ *   1. validates in_progress → complete against the state machine and, for the
+ *      technician, that every required quality-check item is ticked
+ *      (lib/jobs/qualityCheck.ts)
+ *   2. captures the authorized PaymentIntent and any supplemental change-order
+ *      holds, up to totalPrice (already-captured holds count — a retry after a
+ *      successful capture captures nothing). Whatever the holds do not cover
+ *      is charged to the saved card off-session (lib/stripe/bookingPayments.ts);
+ *      if that fails too, the customer gets a payment_failed notification
+ *   3. in one transaction: booking status + statusHistory, job stage,
+ *      serviceHistory/{bookingId} (with the job's parts, photos and checklist),
+ *      vehicle, maintenance schedule anchors
+ *      (matched via lib/maintenance/serviceTypeMapping.ts, reminderSentAt
+ *      cleared), technician currentJobId + totalJobsCompleted, and the
+ *      technician's service earning (lib/payouts/ledger.ts)
+ *   4. recomputes vehicle health, issues the receipt (lib/invoices/invoices.ts)
+ *      and sends the customer notifications
+ *
+ * Keyed by bookingId — the serviceHistory document ID is the bookingId, so a
+ * retried completion can never produce a second history record.
+ *
+ * Called by:
+ *  - PATCH /api/bookings/status          (status: 'complete')
+ *  - POST  /api/stripe/capture-payment   (technician taps "Complete Job")
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type DocumentData } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { BookingPaymentError, chargeBookingOffSession, MIN_CHARGE_CENTS } from '@/lib/stripe/bookingPayments';
+import { recomputeVehicleHealth } from '@/lib/maintenance/recompute';
+import { notifyUser } from '@/lib/notifications/notify';
+import { prepareEarning, serviceShareCents } from '@/lib/payouts/ledger';
+import { issueInvoice } from '@/lib/invoices/invoices';
+import { checklistOf } from '@/lib/jobs/qualityCheck';
+import { missingChecklistItems } from '@/lib/jobs/qualityChecklist';
+import { assertTransition, BookingTransitionError } from './stateMachine';
+import { transitionBooking } from './transitionBooking';
+import { resolveMaintenanceTypes, scheduleMatchesService } from '@/lib/maintenance/serviceTypeMapping';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type {
+  BookingStatus,
+  ChecklistItem,
+  JobPhoto,
+  MaintenanceServiceType,
+  PartRecord,
+  ServiceCategory,
+  SupplementalPayment,
+} from '@/types';
+
+export interface CompleteBookingParams {
+  bookingId: string;
+  actor: 'technician' | 'admin';
+  actorId: string;
+  techNotes?: string | null;
+  /** Odometer reading at service — defaults to booking.vehicleSnapshot.mileage. */
+  mileageAtService?: number | null;
+}
+
+export interface CompleteBookingResult {
+  bookingId: string;
+  /** serviceHistory document ID — always equal to bookingId. */
+  recordId: string;
+  /** Cents captured by this call, or null when nothing was captured. */
+  amountCaptured: number | null;
+  /** true when the booking was already complete (retry) — nothing was written. */
+  alreadyCompleted: boolean;
+}
+
+/**
+ * Thrown when payment capture fails. `status` is the HTTP status the calling
+ * Route Handler should respond with.
+ */
+export class CompletionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'CompletionError';
+  }
+}
+
+/**
+ * Completes a booking end to end. Safe to retry.
+ *
+ * @throws BookingTransitionError when the booking cannot be completed by the caller.
+ * @throws CompletionError when the payment cannot be captured.
+ */
+export async function completeBooking({
+  bookingId,
+  actor,
+  actorId,
+  techNotes = null,
+  mileageAtService = null,
+}: CompleteBookingParams): Promise<CompleteBookingResult> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const historyRef = adminDb.collection('serviceHistory').doc(bookingId);
+
+  // 1. Pre-flight — nothing is charged unless the transition is allowed
+  const bookingSnap = await bookingRef.get();
+  if (!bookingSnap.exists) throw new BookingTransitionError('Booking not found', 404);
+  const booking = bookingSnap.data()!;
+
+  if (actor === 'technician' && booking.technicianId !== actorId) {
+    throw new BookingTransitionError('Only the assigned technician can complete this booking', 403);
+  }
+  if (booking.status === 'complete') {
+    return { bookingId, recordId: historyRef.id, amountCaptured: null, alreadyCompleted: true };
+  }
+  assertTransition(booking.status as BookingStatus, 'complete', actor);
+
+  // Admins may complete without the quality check (back-office corrections)
+  if (actor === 'technician' && booking.jobId) {
+    const jobSnap = await adminDb.collection('jobs').doc(booking.jobId as string).get();
+    const category = (booking.serviceSnapshot?.category ?? 'mechanic') as ServiceCategory;
+    const missing = jobSnap.exists ? missingChecklistItems(checklistOf(jobSnap.data()!, category)) : [];
+    if (missing.length > 0) {
+      throw new BookingTransitionError(`Finish the quality checklist first: ${missing.join('; ')}`, 409);
+    }
+  }
+
+  // 2. Capture payment
+  const amountCaptured = await capturePayment(bookingId, booking);
+
+  // 3. Transaction — every completion write commits together
+  const completedAt = new Date();
+  const ss = booking.serviceSnapshot as {
+    name: string;
+    category: string;
+    maintenanceTypes?: MaintenanceServiceType[] | null;
+  };
+  const vs = booking.vehicleSnapshot as { mileage?: number } | undefined;
+  const vehicleId = booking.vehicleId as string;
+  const mileage = mileageAtService ?? vs?.mileage ?? 0;
+  const maintenanceTypes = resolveMaintenanceTypes(ss);
+
+  await transitionBooking({
+    bookingId,
+    to:      'complete',
+    actor,
+    actorId,
+    withinTransaction: async (tx) => {
+      // Reads
+      const vehicleRef = adminDb.collection('vehicles').doc(vehicleId);
+      const jobRef = booking.jobId ? adminDb.collection('jobs').doc(booking.jobId as string) : null;
+      const [historySnap, vehicleSnap, jobSnap, schedulesSnap] = await Promise.all([
+        tx.get(historyRef),
+        tx.get(vehicleRef),
+        jobRef ? tx.get(jobRef) : null,
+        tx.get(
+          adminDb.collection('maintenanceSchedules')
+            .where('vehicleId', '==', vehicleId)
+            .where('isActive', '==', true)
+        ),
+      ]);
+      const writeEarning = booking.technicianId
+        ? await prepareEarning(tx, {
+            technicianId: booking.technicianId as string,
+            bookingId,
+            type:         'service',
+            amountCents:  serviceShareCents(booking.priceBreakdown, (booking.totalPrice as number | undefined) ?? 0),
+            description:  ss.name,
+          })
+        : null;
+
+      const job = jobSnap?.data();
+      const photos = (job?.photos as JobPhoto[] | undefined) ?? [];
+
+      // a. Job
+      if (jobRef) {
+        tx.update(jobRef, {
+          status:       'complete',
+          currentStage: 'complete',
+          stages:       FieldValue.arrayUnion({ stage: 'complete', enteredAt: completedAt, note: null }),
+          completedAt:  FieldValue.serverTimestamp(),
+          updatedAt:    FieldValue.serverTimestamp(),
+        });
+      }
+
+      // b. Service history — one record per booking
+      if (!historySnap.exists) {
+        tx.set(historyRef, {
+          vehicleId,
+          bookingId,
+          customerId:       booking.customerId,
+          serviceType:      ss.category,
+          serviceTitle:     ss.name,
+          source:           'booking',
+          date:             completedAt,
+          completedAt,
+          mileageAtService: mileage,
+          cost:             amountCaptured ?? booking.totalPrice ?? 0,
+          addOns:           booking.addOns ?? [],
+          techNotes:        techNotes ?? booking.notes ?? null,
+          partsUsed:        (job?.partsUsed as PartRecord[] | undefined) ?? [],
+          photoUrls:        photos.map((p) => p.url),
+          photos:           photos.map((p) => ({ url: p.url, tag: p.tag })),
+          checklist:        ((job?.checklist as ChecklistItem[] | null | undefined) ?? [])
+            .map((item) => ({ label: item.label, checked: item.checked })),
+          warrantyInfo:     null,
+          createdAt:        FieldValue.serverTimestamp(),
+        });
+      }
+
+      // c. Vehicle — odometer only moves forward; FAULT stays until cleared explicitly
+      if (vehicleSnap.exists) {
+        const vehicle = vehicleSnap.data()!;
+        tx.update(vehicleRef, {
+          lastServiceDate:     completedAt,
+          lastServiceSnapshot: { serviceTitle: ss.name, date: completedAt },
+          ...(mileage > (vehicle.mileage ?? 0) ? { mileage, mileageUpdatedAt: completedAt } : {}),
+          ...(vehicle.status === 'SERVICE_DUE' ? { status: 'OPTIMAL' } : {}),
+        });
+      }
+
+      // d. Maintenance anchors — restart the countdown for every schedule this
+      // service satisfies. The snapshot mileage can be older than an anchor set
+      // by a manual odometer update, so the anchor never moves backwards.
+      schedulesSnap.docs
+        .filter((d) => scheduleMatchesService(
+          d.data() as { serviceType: MaintenanceServiceType; customLabel?: string | null },
+          maintenanceTypes,
+          ss.name
+        ))
+        .forEach((d) => {
+          tx.update(d.ref, {
+            lastServiceDate:    completedAt,
+            lastServiceMileage: Math.max(mileage, d.data().lastServiceMileage ?? 0),
+            reminderSentAt:     null,
+          });
+        });
+
+      // e. Technician stats + earnings (currentJobId is released by transitionBooking)
+      if (booking.technicianId) {
+        tx.update(adminDb.collection('users').doc(booking.technicianId as string), {
+          totalJobsCompleted: FieldValue.increment(1),
+        });
+      }
+      writeEarning?.();
+    },
+  });
+
+  console.log(
+    `[completion] booking ${bookingId} complete (captured ${amountCaptured ?? 'nothing'}, ` +
+    `maintenance: ${maintenanceTypes.join(', ') || 'none'})`
+  );
+
+  // 4. Post-commit — non-critical. job_complete is sent by transitionBooking().
+  // Recompute turns the new anchors into nextDueDate / nextDueMileage.
+  recomputeVehicleHealth(vehicleId).catch((err) =>
+    console.error('[completion] recompute error:', err)
+  );
+  issueInvoice(bookingId).catch((err) =>
+    console.error('[completion] invoice error:', err)
+  );
+
+  if (amountCaptured !== null) {
+    notifyUser(booking.customerId as string, {
+      type:             'payment_captured',
+      title:            'Payment Processed',
+      body:             `$${(amountCaptured / 100).toFixed(2)} has been charged for your service. Your receipt is ready to download.`,
+      link:             `/bookings/${bookingId}`,
+      relatedBookingId: bookingId,
+      relatedJobId:     (booking.jobId as string | null) ?? null,
+    }).catch((err) => console.error('[completion] notification error:', err));
+  }
+
+  return { bookingId, recordId: historyRef.id, amountCaptured, alreadyCompleted: false };
+}
+
+/**
+ * Captures what the booking owes (totalPrice, including approved change
+ * orders) from its holds: the main PaymentIntent first, then any
+ * supplemental ones. Holds that are already captured count towards the total,
+ * so a retry never captures twice. Whatever the holds do not cover — a lapsed
+ * or failed main hold, an add-on nobody could authorize — is charged to the
+ * saved card off-session.
+ *
+ * A booking that never had a hold is charged off-session in full; if that
+ * fails the completion is rejected (409).
+ *
+ * Returns the amount collected, or null when nothing was collected — the
+ * total is below Stripe's minimum charge (e.g. fully covered by a
+ * subscription).
+ */
+async function capturePayment(bookingId: string, booking: DocumentData): Promise<number | null> {
+  const paymentIntentId = (booking.stripePaymentIntentId as string | null) ?? null;
+  const supplemental = (booking.supplementalPayments as SupplementalPayment[] | undefined) ?? [];
+  const owed = (booking.totalPrice as number | undefined) ?? 0;
+
+  // No hold was ever placed — a total below Stripe's minimum (e.g. one fully
+  // covered by a subscription) completes free; anything else is charged to the
+  // saved card, since skipping authorization must not skip payment
+  if (!paymentIntentId && supplemental.length === 0 && !booking.paymentAuthStatus) {
+    if (owed < MIN_CHARGE_CENTS) return null;
+    try {
+      return await chargeFallback(bookingId, booking, owed, true, 'no authorization on file');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Payment could not be collected';
+      throw new CompletionError(`No payment intent on booking — ${message}`, 409);
+    }
+  }
+
+  const stripe = await getStripe();
+
+  let collected = 0;
+  let primaryCollected = false;
+  let reason = 'no authorization on file';
+
+  const intentIds = [
+    ...(paymentIntentId ? [paymentIntentId] : []),
+    ...supplemental.map((p) => p.paymentIntentId),
+  ];
+  for (const intentId of intentIds) {
+    let intent;
+    try {
+      intent = await stripe.paymentIntents.retrieve(intentId);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Stripe capture failed';
+      throw new CompletionError(message, 502);
+    }
+
+    let received = 0;
+    if (intent.status === 'succeeded') {
+      received = intent.amount_received;
+    } else if (intent.status === 'requires_capture' && collected < owed) {
+      try {
+        const captured = await stripe.paymentIntents.capture(
+          intentId,
+          { amount_to_capture: Math.min(intent.amount, owed - collected) },
+          { idempotencyKey: `capture-${bookingId}-${intentId}` }
+        );
+        received = captured.amount_received;
+      } catch (err: unknown) {
+        reason = err instanceof Error ? err.message : 'Stripe capture failed';
+        console.warn(`[completion] capture of ${intentId} failed for ${bookingId} (${reason})`);
+      }
+    } else if (intent.status !== 'requires_capture') {
+      // Expired (canceled by Stripe) or never confirmed
+      reason = `authorization ${intent.status}`;
+    }
+
+    collected += received;
+    if (intentId === paymentIntentId && received > 0) primaryCollected = true;
+  }
+
+  // Charge the saved card for anything the holds did not cover
+  const shortfall = owed - collected;
+  if (shortfall >= MIN_CHARGE_CENTS) {
+    collected += await chargeFallback(bookingId, booking, shortfall, !primaryCollected, reason);
+  }
+  return collected > 0 ? collected : null;
+}
+
+/** Charges the saved card off-session; tells the customer when that fails too. */
+async function chargeFallback(
+  bookingId: string,
+  booking: DocumentData,
+  amountCents: number,
+  replacePrimary: boolean,
+  reason: string
+): Promise<number> {
+  try {
+    const amount = await chargeBookingOffSession(bookingId, amountCents, { replacePrimary });
+    console.log(`[completion] booking ${bookingId} charged ${amount} off-session (${reason})`);
+    return amount;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Off-session charge failed';
+    notifyUser(booking.customerId as string, {
+      type:             'payment_failed',
+      title:            'Payment Failed',
+      body:             `We couldn't charge your card for your completed ${booking.serviceSnapshot?.name ?? 'service'}. Please update your payment method.`,
+      link:             '/payment-methods',
+      relatedBookingId: bookingId,
+      relatedJobId:     (booking.jobId as string | null) ?? null,
+    }).catch((notifyErr) => console.error('[completion] notification error:', notifyErr));
+
+    const status = err instanceof BookingPaymentError && err.status < 500 ? 402 : 502;
+    throw new CompletionError(`Payment could not be collected: ${message}`, status);
+  }
+}
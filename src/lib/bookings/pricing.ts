@@ -0,0 +1,85 @@
+/**
+ * Booking price computation.
+ *
+ * The only place a booking's payable amount is worked out. Clients never
+ * supply a price: POST /api/bookings/create prices the booking from the
+ * service snapshot and any subscription discount, and the payment routes
+ * re-price it (picking up approved add-ons) before authorizing.
+ *
+ *   subtotal = base − discount + add-ons   (never below 0)
+ *   tax      = round(subtotal × taxRate)
+ *   total    = subtotal + tax + fee
+ *
+ * Tax rate and service fee come from BOOKING_TAX_RATE (e.g. 0.06) and
+ * BOOKING_SERVICE_FEE_CENTS, both default 0. The rate is frozen into the
+ * breakdown at creation, so a later config change never re-prices an
+ * existing booking. The fee is waived when a subscription covers the service.
+ *
+ * Pure module — no Firebase imports. pricingConfigFromEnv() reads server-only
+ * env vars and must only be called server-side.
+ */
+
+import type { BookingAddOn, PriceBreakdown } from '@/types';
+
+export interface PricingConfig {
+  taxRate: number;
+  serviceFeeCents: number;
+}
+
+export interface PricingInput extends PricingConfig {
+  baseCents: number;
+  discountCents: number;
+  addOns: Pick<BookingAddOn, 'amountCents'>[];
+}
+
+/** Tax rate and service fee for new bookings. Server-side only. */
+export function pricingConfigFromEnv(): PricingConfig {
+  const taxRate = Number(process.env.BOOKING_TAX_RATE ?? 0);
+  const serviceFeeCents = Number(process.env.BOOKING_SERVICE_FEE_CENTS ?? 0);
+  return {
+    taxRate:         Number.isFinite(taxRate) && taxRate > 0 ? taxRate : 0,
+    serviceFeeCents: Number.isFinite(serviceFeeCents) && serviceFeeCents > 0 ? Math.round(serviceFeeCents) : 0,
+  };
+}
+
+export function computePriceBreakdown(
+  { baseCents, discountCents, addOns, taxRate, serviceFeeCents }: PricingInput,
+  now: Date = new Date()
+): PriceBreakdown {
+  const discount = Math.min(Math.max(0, discountCents), baseCents);
+  const addOnsCents = addOns.reduce((sum, a) => sum + Math.max(0, a.amountCents), 0);
+  const subtotal = Math.max(0, baseCents - discount + addOnsCents);
+  const taxCents = Math.round(subtotal * taxRate);
+  const feeCents = discount > 0 ? 0 : serviceFeeCents;
+
+  return {
+    baseCents,
+    discountCents: discount,
+    addOnsCents,
+    taxRate,
+    taxCents,
+    feeCents,
+    totalCents:    subtotal + taxCents + feeCents,
+    computedAt:    now,
+  };
+}
+
+/**
+ * Re-prices an existing booking from its stored fields. Keeps the tax rate
+ * and fee the booking was created with; bookings created before breakdowns
+ * existed are priced with neither.
+ */
+export function repriceBooking(booking: {
+  serviceSnapshot: { basePrice: number };
+  subscriptionDiscountCents?: number | null;
+  addOns?: Pick<BookingAddOn, 'amountCents'>[] | null;
+  priceBreakdown?: Pick<PriceBreakdown, 'taxRate' | 'feeCents'> | null;
+}, now: Date = new Date()): PriceBreakdown {
+  return computePriceBreakdown({
+    baseCents:       booking.serviceSnapshot.basePrice,
+    discountCents:   booking.subscriptionDiscountCents ?? 0,
+    addOns:          booking.addOns ?? [],
+    taxRate:         booking.priceBreakdown?.taxRate ?? 0,
+    serviceFeeCents: booking.priceBreakdown?.feeCents ?? 0,
+  }, now);
+}
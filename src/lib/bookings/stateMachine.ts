@@ -0,0 +1,146 @@
+/**
+ * Booking state machine — single source of truth for booking status changes.
+ *
+ * Pure module: no Firebase imports, safe to unit test and to import from
+ * both Route Handlers and client components (e.g. to decide which actions
+ * to render). The server-side write path is lib/bookings/transitionBooking.ts.
+ *
+ * Progression:
+ *
+ *   pending → accepted → [scheduled] → en_route → in_progress → complete
+ *      └──────────┴───────────┴────────────┴───────────┴──────→ cancelled
+ *
+ * `scheduled` is optional — a technician heading out the same day goes
+ * straight from accepted to en_route.
+ *
+ * Job stages (Job.currentStage) are finer-grained than booking statuses;
+ * JOB_STAGE_BOOKING_STATUS defines which booking status each stage implies.
+ */
+
+import { JOB_STAGE_ORDER } from '@/types';
+import type { BookingStatus, BookingActor, JobStage } from '@/types';
+
+/**
+ * Side effects performed alongside a transition.
+ *
+ *  - assign_job          — job doc + booking.technicianId; only lib/dispatch/dispatch.ts may perform it
+ *  - release_technician  — clear the technician's users.currentJobId
+ *  - void_authorization  — cancel the uncaptured Stripe PaymentIntent
+ *  - release_entitlement — return the subscription use the booking reserved
+ *  - cancellation_fee    — charge the late-cancellation fee when ./cancellationPolicy.ts
+ *                          quotes one; the fee is taken from the hold instead of voiding it
+ *  - purge_location      — delete the job's location breadcrumbs and clear its live
+ *                          position and route (lib/jobs/location.ts)
+ *  - notify_customer     — in-app + push notification to the customer
+ */
+export type BookingTransitionEffect =
+  | 'assign_job'
+  | 'release_technician'
+  | 'void_authorization'
+  | 'release_entitlement'
+  | 'cancellation_fee'
+  | 'purge_location'
+  | 'notify_customer';
+
+export interface BookingTransition {
+  from: BookingStatus;
+  to: BookingStatus;
+  roles: readonly BookingActor[];
+  effects: readonly BookingTransitionEffect[];
+}
+
+/**
+ * Thrown when a requested status change is not allowed.
+ * `status` is the HTTP status the calling Route Handler should respond with.
+ */
+export class BookingTransitionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BookingTransitionError';
+  }
+}
+
+const TECH_OR_ADMIN = ['technician', 'admin'] as const;
+
+/** Every allowed from → to pair. Anything not listed here is rejected. */
+export const BOOKING_TRANSITIONS: readonly BookingTransition[] = [
+  // Dispatch
+  { from: 'pending',     to: 'accepted',    roles: TECH_OR_ADMIN, effects: ['assign_job', 'notify_customer'] },
+
+  // Forward progression by the assigned technician
+  { from: 'accepted',    to: 'scheduled',   roles: TECH_OR_ADMIN, effects: ['notify_customer'] },
+  { from: 'accepted',    to: 'en_route',    roles: TECH_OR_ADMIN, effects: ['notify_customer'] },
+  { from: 'scheduled',   to: 'en_route',    roles: TECH_OR_ADMIN, effects: ['notify_customer'] },
+  { from: 'en_route',    to: 'in_progress', roles: TECH_OR_ADMIN, effects: ['notify_customer'] },
+  { from: 'in_progress', to: 'complete',    roles: TECH_OR_ADMIN, effects: ['release_technician', 'purge_location', 'notify_customer'] },
+
+  // Cancellation — customers may cancel until the technician sets off; a late
+  // cancellation of an assigned booking may carry a fee (./cancellationPolicy.ts).
+  // 'system' covers Stripe payment failures and cancellations.
+  { from: 'pending',     to: 'cancelled',   roles: ['customer', 'admin', 'system'], effects: ['void_authorization', 'release_entitlement', 'notify_customer'] },
+  { from: 'accepted',    to: 'cancelled',   roles: ['customer', 'admin', 'system'], effects: ['release_technician', 'void_authorization', 'release_entitlement', 'cancellation_fee', 'purge_location', 'notify_customer'] },
+  { from: 'scheduled',   to: 'cancelled',   roles: ['customer', 'admin', 'system'], effects: ['release_technician', 'void_authorization', 'release_entitlement', 'cancellation_fee', 'purge_location', 'notify_customer'] },
+  { from: 'en_route',    to: 'cancelled',   roles: ['admin', 'system'], effects: ['release_technician', 'void_authorization', 'release_entitlement', 'purge_location', 'notify_customer'] },
+  { from: 'in_progress', to: 'cancelled',   roles: ['admin', 'system'], effects: ['release_technician', 'void_authorization', 'release_entitlement', 'purge_location', 'notify_customer'] },
+];
+
+/** Statuses with no outgoing transitions. */
+export const TERMINAL_BOOKING_STATUSES: readonly BookingStatus[] = ['complete', 'cancelled'];
+
+/** Returns the transition definition for a from → to pair, or null if not allowed. */
+export function getTransition(from: BookingStatus, to: BookingStatus): BookingTransition | null {
+  return BOOKING_TRANSITIONS.find((t) => t.from === from && t.to === to) ?? null;
+}
+
+/** Statuses reachable from `from` by the given actor. */
+export function getNextStatuses(from: BookingStatus, actor: BookingActor): BookingStatus[] {
+  return BOOKING_TRANSITIONS
+    .filter((t) => t.from === from && t.roles.includes(actor))
+    .map((t) => t.to);
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus, actor: BookingActor): boolean {
+  return getTransition(from, to)?.roles.includes(actor) ?? false;
+}
+
+/**
+ * Validates a transition and returns its definition.
+ *
+ * @throws BookingTransitionError 409 when the pair is not allowed,
+ *         403 when the actor may not trigger it.
+ */
+export function assertTransition(
+  from: BookingStatus,
+  to: BookingStatus,
+  actor: BookingActor
+): BookingTransition {
+  const transition = getTransition(from, to);
+  if (!transition) {
+    throw new BookingTransitionError(`Cannot transition from '${from}' to '${to}'`, 409);
+  }
+  if (!transition.roles.includes(actor)) {
+    throw new BookingTransitionError(`A ${actor} cannot move a booking from '${from}' to '${to}'`, 403);
+  }
+  return transition;
+}
+
+// ── Job stages ───────────────────────────────────────────────────────────────
+
+/** The booking status implied by each job stage. */
+export const JOB_STAGE_BOOKING_STATUS: Record<JobStage, BookingStatus> = {
+  dispatched:    'accepted',
+  en_route:      'en_route',
+  arrived:       'en_route',
+  in_progress:   'in_progress',
+  quality_check: 'in_progress',
+  complete:      'complete',
+};
+
+/** Stages the technician can only enter with a note (what was checked). */
+export const JOB_STAGES_REQUIRING_NOTE: readonly JobStage[] = ['quality_check'];
+
+/** The stage after `stage` in JOB_STAGE_ORDER, or null from 'complete'. */
+export function getNextJobStage(stage: JobStage): JobStage | null {
+  const idx = JOB_STAGE_ORDER.indexOf(stage);
+  return idx >= 0 && idx < JOB_STAGE_ORDER.length - 1 ? JOB_STAGE_ORDER[idx + 1] : null;
+}
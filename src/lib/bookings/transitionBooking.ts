@@ -0,0 +1,297 @@
+/**
+ * Booking status writes — server-side only.
+ *
+ * Every booking status change goes through transitionBooking() (or, for
+ * pending → accepted, lib/dispatch/dispatch.ts). It validates the change
+ * against the state machine in ./stateMachine.ts, verifies the caller is a
+ * party to the booking, appends a statusHistory entry, and runs the
+ * transition's declared side effects — including the late-cancellation fee
+ * from ./cancellationPolicy.ts.
+ *
+ * Called by:
+ *  - PATCH /api/bookings/status
+ *  - lib/bookings/completion.ts         (in_progress → complete)
+ *  - POST  /api/stripe/webhook          (payment failed / canceled)
+ *  - lib/dispatch/dispatch.ts           (history entry + notification on accept)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type DocumentData, type Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { releaseEntitlement } from '@/lib/subscriptions/redemption';
+import { collectCancellationFee } from '@/lib/stripe/bookingPayments';
+import { purgeJobTrack } from '@/lib/jobs/track';
+import { assertTransition, BookingTransitionError, type BookingTransition } from './stateMachine';
+import { quoteCancellation } from './cancellationPolicy';
+import { toDate } from '@/lib/converters';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type {
+  BookingActor,
+  BookingStatus,
+  BookingStatusChange,
+  CancellationFee,
+  NotificationType,
+  SupplementalPayment,
+} from '@/types';
+
+export interface TransitionBookingParams {
+  bookingId: string;
+  to: BookingStatus;
+  actor: BookingActor;
+  /** users/{uid} of the caller; null for 'system'. */
+  actorId: string | null;
+  /** Stored on the history entry and used in cancellation notifications. */
+  note?: string | null;
+  /** Additional booking fields written together with the status. */
+  fields?: Record<string, unknown>;
+  /**
+   * Extra work committed in the same transaction as the status change. Runs
+   * after the transition is validated and before any write is queued, so it
+   * may read with tx.get() first and then write.
+   */
+  withinTransaction?: (tx: Transaction, booking: DocumentData) => void | Promise<void>;
+  /** Overrides the default customer notification copy for this transition. */
+  notification?: { title: string; body: string };
+}
+
+export interface TransitionBookingResult {
+  from: BookingStatus;
+  to: BookingStatus;
+  /** Booking data as read before the update. */
+  booking: DocumentData;
+  /** Late-cancellation fee being collected; 0 when none applies. */
+  cancellationFeeCents: number;
+}
+
+/** Builds a statusHistory entry. Dates (not serverTimestamp) — Firestore rejects sentinels inside arrays. */
+export function buildStatusChange(
+  from: BookingStatus | null,
+  to: BookingStatus,
+  actor: BookingActor,
+  actorId: string | null,
+  note: string | null = null
+): BookingStatusChange {
+  return { from, to, actor, actorId, note, at: new Date() };
+}
+
+/**
+ * Verifies that a customer or technician actor is actually a party to the
+ * booking. Admin and system actors are trusted — callers authenticate them.
+ */
+function assertParty(booking: DocumentData, actor: BookingActor, actorId: string | null): void {
+  if (actor === 'customer' && booking.customerId !== actorId) {
+    throw new BookingTransitionError('Forbidden — not your booking', 403);
+  }
+  if (actor === 'technician' && booking.technicianId !== actorId) {
+    throw new BookingTransitionError('Only the assigned technician can update this booking', 403);
+  }
+}
+
+/**
+ * Applies a validated status change to a booking.
+ *
+ * @throws BookingTransitionError when the booking is missing, the change is
+ *         not allowed, or the actor is not a party to the booking.
+ */
+export async function transitionBooking({
+  bookingId,
+  to,
+  actor,
+  actorId,
+  note = null,
+  fields = {},
+  withinTransaction,
+  notification,
+}: TransitionBookingParams): Promise<TransitionBookingResult> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+
+  const { from, booking, transition, fee } = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(bookingRef);
+    if (!snap.exists) throw new BookingTransitionError('Booking not found', 404);
+    const data = snap.data()!;
+    const current = data.status as BookingStatus;
+
+    const t = assertTransition(current, to, actor);
+    if (t.effects.includes('assign_job')) {
+      throw new Error(`[transitionBooking] ${current} → ${to} must go through assignTechnician()`);
+    }
+    assertParty(data, actor, actorId);
+
+    // Reads must precede writes inside a transaction
+    const techRef = t.effects.includes('release_technician') && data.technicianId
+      ? adminDb.collection('users').doc(data.technicianId as string)
+      : null;
+    const techSnap = techRef ? await tx.get(techRef) : null;
+    const subscriptionSnap = t.effects.includes('release_entitlement') && data.subscriptionId
+      ? await tx.get(adminDb.collection('subscriptions').doc(data.subscriptionId as string))
+      : null;
+
+    await withinTransaction?.(tx, data);
+
+    // Late-cancellation fee, quoted against the status being left
+    const quote = t.effects.includes('cancellation_fee')
+      ? quoteCancellation({
+          status:      current,
+          scheduledAt: toDate(data.scheduledAt) ?? new Date(),
+          totalPrice:  (data.totalPrice as number | undefined) ?? 0,
+        }, actor)
+      : null;
+    const fee: CancellationFee | null = quote && quote.feeCents > 0
+      ? { amountCents: quote.feeCents, hoursBeforeService: quote.hoursBeforeService, status: 'pending', chargedAt: null }
+      : null;
+
+    tx.update(bookingRef, {
+      ...fields,
+      ...(fee ? { cancellationFee: fee } : {}),
+      status:        to,
+      statusHistory: FieldValue.arrayUnion(buildStatusChange(current, to, actor, actorId, note)),
+      updatedAt:     FieldValue.serverTimestamp(),
+    });
+
+    // Only clear currentJobId if it still points at this booking's job
+    if (techRef && techSnap?.exists && techSnap.data()?.currentJobId === data.jobId) {
+      tx.update(techRef, { currentJobId: null });
+    }
+
+    // Give back the subscription use this booking reserved at creation
+    if (subscriptionSnap) {
+      releaseEntitlement(tx, subscriptionSnap, bookingId);
+    }
+
+    return { from: current, booking: data, transition: t, fee };
+  });
+
+  console.log(`[transitionBooking] ${bookingId}: ${from} → ${to} (${actor}${actorId ? ` ${actorId}` : ''})`);
+
+  // Post-commit effects — non-critical, never fail the caller.
+  // A late-cancellation fee is taken from the hold instead of voiding it.
+  if (fee) {
+    collectCancellationFee(bookingId, fee.amountCents).catch((err) =>
+      console.error('[transitionBooking] cancellation fee error:', err)
+    );
+  } else if (transition.effects.includes('void_authorization')) {
+    voidAuthorization(bookingId, booking).catch((err) =>
+      console.error('[transitionBooking] void authorization error:', err)
+    );
+  }
+  if (transition.effects.includes('purge_location') && booking.jobId) {
+    purgeJobTrack(booking.jobId as string).catch((err) =>
+      console.error('[transitionBooking] location purge error:', err)
+    );
+  }
+  notifyTransition(bookingId, booking, transition, actor, { note, notification }).catch((err) =>
+    console.error('[transitionBooking] notification error:', err)
+  );
+
+  return { from, to, booking, cancellationFeeCents: fee?.amountCents ?? 0 };
+}
+
+// ── Effects ──────────────────────────────────────────────────────────────────
+
+/** Stripe PaymentIntent statuses that can still be canceled. */
+const CANCELABLE_INTENT_STATUSES = new Set([
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+  'requires_capture',
+]);
+
+/** Cancels the booking's main hold and any supplemental change-order holds. */
+async function voidAuthorization(bookingId: string, booking: DocumentData): Promise<void> {
+  const paymentIntentIds = [
+    ...(booking.stripePaymentIntentId ? [booking.stripePaymentIntentId as string] : []),
+    ...((booking.supplementalPayments as SupplementalPayment[] | undefined) ?? []).map((p) => p.paymentIntentId),
+  ];
+  if (paymentIntentIds.length === 0) return;
+  // Lazy (getStripe) — a missing STRIPE_SECRET_KEY must not break non-payment transitions
+  const stripe = await getStripe();
+  for (const paymentIntentId of paymentIntentIds) {
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (!CANCELABLE_INTENT_STATUSES.has(intent.status)) continue;
+    await stripe.paymentIntents.cancel(paymentIntentId);
+    console.log(`[transitionBooking] voided ${paymentIntentId} for booking ${bookingId}`);
+  }
+}
+
+const CUSTOMER_NOTIFICATIONS: Partial<Record<BookingStatus, {
+  type: NotificationType;
+  title: string;
+  body: (serviceName: string) => string;
+}>> = {
+  accepted: {
+    type:  'technician_accepted',
+    title: 'Technician Assigned',
+    body:  () => 'A technician has accepted your booking.',
+  },
+  scheduled: {
+    type:  'booking_confirmed',
+    title: 'Appointment Confirmed',
+    body:  (name) => `Your ${name} appointment has been confirmed.`,
+  },
+  en_route: {
+    type:  'technician_en_route',
+    title: 'Technician On The Way',
+    body:  () => 'Your technician is heading to you now.',
+  },
+  in_progress: {
+    type:  'job_started',
+    title: 'Service Started',
+    body:  (name) => `Work on your ${name} has started.`,
+  },
+  complete: {
+    type:  'job_complete',
+    title: 'Service Complete',
+    body:  (name) => `Your ${name} service is complete. Thanks for using RevvDoc!`,
+  },
+  cancelled: {
+    type:  'booking_cancelled',
+    title: 'Booking Cancelled',
+    body:  (name) => `Your ${name} booking has been cancelled.`,
+  },
+};
+
+/**
+ * Sends the notification declared for a transition. Customers are not
+ * notified about changes they made themselves; an assigned technician is
+ * always told when their job is cancelled.
+ */
+export async function notifyTransition(
+  bookingId: string,
+  booking: DocumentData,
+  transition: BookingTransition,
+  actor: BookingActor,
+  options: { note?: string | null; notification?: { title: string; body: string }; jobId?: string | null } = {}
+): Promise<void> {
+  if (!transition.effects.includes('notify_customer')) return;
+
+  const serviceName = (booking.serviceSnapshot?.name as string | undefined) ?? 'service';
+  const jobId = options.jobId ?? (booking.jobId as string | null) ?? null;
+  const template = CUSTOMER_NOTIFICATIONS[transition.to];
+
+  if (template && actor !== 'customer') {
+    await notifyUser(booking.customerId as string, {
+      type:             template.type,
+      title:            options.notification?.title ?? template.title,
+      body:             options.notification?.body ?? template.body(serviceName),
+      link:             `/bookings/${bookingId}`,
+      relatedBookingId: bookingId,
+      relatedJobId:     jobId,
+    });
+  }
+
+  if (transition.to === 'cancelled' && booking.technicianId && actor !== 'technician') {
+    await notifyUser(booking.technicianId as string, {
+      type:             'booking_cancelled',
+      title:            'Job Cancelled',
+      body:             options.note
+        ? `The ${serviceName} job was cancelled: ${options.note}`
+        : `The ${serviceName} job was cancelled.`,
+      link:             '/queue',
+      relatedBookingId: bookingId,
+      relatedJobId:     jobId,
+    });
+  }
+}
@@ -1,22 +1,28 @@
 /**
  * Firestore Timestamp ↔ JavaScript Date converters.
  * Firestore returns Timestamps on read; our TypeScript interfaces use Date.
- * Use these converters in service files when mapping Firestore docs to entities.
+ * Use these converters in service files and server modules when mapping
+ * Firestore docs to entities.
  */
 
-import type { Timestamp } from 'firebase/firestore';
-
-/** Converts a Firestore Timestamp (or null/undefined) to a JS Date or null */
-export function toDate(value: Timestamp | Date | null | undefined): Date | null {
+/**
+ * Converts a Firestore Timestamp (client or Admin SDK — anything with toDate()),
+ * Date, ISO string or epoch millis to a JS Date, or null when the value is empty
+ */
+export function toDate(value: unknown): Date | null {
   if (!value) return null;
   if (value instanceof Date) return value;
-  return value.toDate();
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number);
 }
 
-/** Converts a Firestore Timestamp to a JS Date (throws if null) */
-export function toDateRequired(value: Timestamp | Date): Date {
-  if (value instanceof Date) return value;
-  return value.toDate();
+/** Same as toDate, for values that must be present (throws if null) */
+export function toDateRequired(value: unknown): Date {
+  const date = toDate(value);
+  if (!date) throw new Error('Expected a date, got an empty value');
+  return date;
 }
 
 /** Converts USD cents (integer) to a display string, e.g. 14900 → "$149.00" */
@@ -0,0 +1,23 @@
+/**
+ * Cron request authentication — server-side only.
+ *
+ * Scheduled sweeps (/api/cron/*) are invoked by the hosting platform's cron
+ * scheduler, which sends `Authorization: Bearer <CRON_SECRET>`. Every cron
+ * Route Handler must call isAuthorizedCronRequest() before doing any work.
+ *
+ * Required env var: CRON_SECRET (any random string, e.g. openssl rand -base64 32)
+ */
+
+/**
+ * Returns true when the request carries the configured cron secret.
+ * Always false when CRON_SECRET is not configured, so an unset secret can
+ * never expose the sweep endpoints.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('[cron] CRON_SECRET not configured');
+    return false;
+  }
+  return request.headers.get('Authorization') === `Bearer ${secret}`;
+}
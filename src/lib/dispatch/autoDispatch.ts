@@ -0,0 +1,289 @@
+/**
+ * Auto-dispatch — server-side only.
+ *
+ * Offers a pending booking to the best available technician instead of
+ * waiting for someone to open the queue. Candidates are scored on:
+ *
+ *   - distance  — haversine from the technician's last known location to
+ *                 booking.address (closer is better)
+ *   - rating    — TechnicianUser.rating out of 5
+ *   - workload  — number of accepted/scheduled bookings already on their plate
+ *   - specialty — technicians who only do this category rank above generalists
+ *
+ * Only technicians that pass getTechnicianIneligibility() (available, matching
+ * serviceCategories, no currentJobId) are considered. The winner receives an
+ * exclusive, time-boxed offer (booking.dispatchOffer) and a `new_job_offer`
+ * notification. When the offer lapses or is declined the technician is added
+ * to booking.dispatchExcludedTechIds and the next-best candidate is offered.
+ *
+ * Called by:
+ *  - POST /api/bookings/create         (fire-and-forget after a booking is written)
+ *  - POST /api/bookings/decline-offer    (technician declines their offer)
+ *  - GET  /api/cron/dispatch-offers    (sweeps lapsed offers)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { haversineDistanceMeters } from '@/lib/maps/googleMaps';
+import { notifyUser } from '@/lib/notifications/notify';
+import { getTechnicianIneligibility, isOfferLive } from './dispatch';
+import type { GeoPoint, ServiceCategory } from '@/types';
+
+const DEFAULT_OFFER_TIMEOUT_SECONDS = 120;
+
+/** How long a technician has to accept an offer before it moves on. */
+const OFFER_TIMEOUT_MS = offerTimeoutMs(process.env.DISPATCH_OFFER_TIMEOUT_SECONDS);
+
+/** Technicians further than this score 0 on distance. */
+const MAX_DISPATCH_RADIUS_M = 80_000;
+
+/** Relative weight of each scoring factor — sums to 1. */
+const WEIGHTS = {
+  distance:  0.5,
+  rating:    0.2,
+  workload:  0.2,
+  specialty: 0.1,
+} as const;
+
+export interface CandidateFactors {
+  /** null when the technician has no known location. */
+  distanceMeters: number | null;
+  rating: number | null;
+  /** Accepted or scheduled bookings already assigned to the technician. */
+  openBookings: number;
+  /** Number of service categories the technician covers (≥ 1). */
+  categoryCount: number;
+}
+
+export interface ScoredCandidate {
+  technicianId: string;
+  score: number;
+  factors: CandidateFactors;
+}
+
+export type AutoDispatchOutcome =
+  | { status: 'offered'; technicianId: string; expiresAt: Date }
+  | { status: 'no_candidates' }
+  | { status: 'skipped'; reason: string };
+
+/** A non-numeric or non-positive setting would make every offer expire at Invalid Date. */
+function offerTimeoutMs(raw: string | undefined): number {
+  const seconds = raw === undefined ? DEFAULT_OFFER_TIMEOUT_SECONDS : Number(raw);
+  if (Number.isFinite(seconds) && seconds > 0) return seconds * 1000;
+  console.warn(`[autoDispatch] invalid DISPATCH_OFFER_TIMEOUT_SECONDS "${raw}" — using ${DEFAULT_OFFER_TIMEOUT_SECONDS}s`);
+  return DEFAULT_OFFER_TIMEOUT_SECONDS * 1000;
+}
+
+/**
+ * Scores a single candidate between 0 and 1.
+ * Pure function — unknown location and unrated technicians get a neutral score
+ * so new technicians are not starved of work.
+ */
+export function scoreCandidate(factors: CandidateFactors): number {
+  const distanceScore =
+    factors.distanceMeters === null
+      ? 0.5
+      : Math.max(0, 1 - factors.distanceMeters / MAX_DISPATCH_RADIUS_M);
+  const ratingScore    = (factors.rating ?? 4) / 5;
+  const workloadScore  = 1 / (1 + factors.openBookings);
+  const specialtyScore = 1 / Math.max(1, factors.categoryCount);
+
+  return (
+    WEIGHTS.distance  * distanceScore +
+    WEIGHTS.rating    * ratingScore +
+    WEIGHTS.workload  * workloadScore +
+    WEIGHTS.specialty * specialtyScore
+  );
+}
+
+/**
+ * Returns the coarse position the technician's last job ended at
+ * (users.lastKnownLocation, kept by purgeJobTrack), or null if they have
+ * never broadcast a location.
+ */
+function getLastKnownLocation(tech: FirebaseFirestore.DocumentData): GeoPoint | null {
+  const loc = tech.lastKnownLocation;
+  return loc && typeof loc.lat === 'number' && typeof loc.lng === 'number'
+    ? { lat: loc.lat, lng: loc.lng }
+    : null;
+}
+
+async function countOpenBookings(technicianId: string): Promise<number> {
+  const snap = await adminDb
+    .collection('bookings')
+    .where('technicianId', '==', technicianId)
+    .where('status', 'in', ['accepted', 'scheduled'])
+    .count()
+    .get();
+  return snap.data().count;
+}
+
+/**
+ * Loads and ranks every eligible technician for a booking, best first.
+ * Technicians listed in `excluded` are skipped.
+ */
+export async function rankCandidates(
+  category: ServiceCategory,
+  destination: GeoPoint | null,
+  excluded: string[]
+): Promise<ScoredCandidate[]> {
+  const techSnap = await adminDb
+    .collection('users')
+    .where('role', '==', 'technician')
+    .where('isAvailable', '==', true)
+    .where('serviceCategories', 'array-contains', category)
+    .get();
+
+  const eligible = techSnap.docs.filter(
+    (d) => !excluded.includes(d.id) && getTechnicianIneligibility(d.data(), category) === null
+  );
+
+  const scored = await Promise.all(
+    eligible.map(async (d): Promise<ScoredCandidate> => {
+      const tech = d.data();
+      const location = destination ? getLastKnownLocation(tech) : null;
+      const openBookings = await countOpenBookings(d.id);
+      const factors: CandidateFactors = {
+        distanceMeters: location && destination ? haversineDistanceMeters(location, destination) : null,
+        rating:         typeof tech.rating === 'number' ? tech.rating : null,
+        openBookings,
+        categoryCount:  Array.isArray(tech.serviceCategories) ? tech.serviceCategories.length : 1,
+      };
+      return { technicianId: d.id, score: scoreCandidate(factors), factors };
+    })
+  );
+
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Offers a pending booking to the best remaining candidate.
+ *
+ * No-op (status 'skipped') if the booking is no longer pending or already
+ * holds an unexpired offer. Candidates are re-ranked on every call so the
+ * offer always reflects current availability.
+ */
+export async function autoDispatchBooking(bookingId: string): Promise<AutoDispatchOutcome> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const bookingSnap = await bookingRef.get();
+  if (!bookingSnap.exists) return { status: 'skipped', reason: 'Booking not found' };
+
+  const booking = bookingSnap.data()!;
+  if (booking.status !== 'pending' || booking.technicianId) {
+    return { status: 'skipped', reason: 'Booking is no longer pending' };
+  }
+  if (isOfferLive(booking.dispatchOffer, new Date())) {
+    return { status: 'skipped', reason: 'Offer already outstanding' };
+  }
+
+  const category = (booking.serviceSnapshot?.category ?? 'mechanic') as ServiceCategory;
+  const address = booking.address as GeoPoint | null | undefined;
+  const destination = address && (address.lat || address.lng) ? { lat: address.lat, lng: address.lng } : null;
+  const excluded = (booking.dispatchExcludedTechIds as string[] | undefined) ?? [];
+
+  const ranked = await rankCandidates(category, destination, excluded);
+  const best = ranked[0];
+
+  if (!best) {
+    await bookingRef.update({ dispatchOffer: null });
+    console.log(`[autoDispatch] no candidates for booking ${bookingId} — left in open queue`);
+    return { status: 'no_candidates' };
+  }
+
+  const offeredAt = new Date();
+  const expiresAt = new Date(offeredAt.getTime() + OFFER_TIMEOUT_MS);
+
+  // Re-check state in a transaction so a concurrent accept or offer wins cleanly
+  const offered = await adminDb.runTransaction(async (tx) => {
+    const fresh = await tx.get(bookingRef);
+    const data = fresh.data();
+    if (!data || data.status !== 'pending' || data.technicianId) return false;
+    if (isOfferLive(data.dispatchOffer, offeredAt)) return false;
+    tx.update(bookingRef, {
+      dispatchOffer: {
+        technicianId: best.technicianId,
+        offeredAt,
+        expiresAt,
+        score: Math.round(best.score * 1000) / 1000,
+      },
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (!offered) return { status: 'skipped', reason: 'Booking changed while dispatching' };
+
+  console.log(`[autoDispatch] booking ${bookingId} offered to ${best.technicianId} (score ${best.score.toFixed(3)})`);
+
+  const ss = booking.serviceSnapshot as { name?: string } | undefined;
+  notifyUser(best.technicianId, {
+    type:             'new_job_offer',
+    title:            'New Job Offer',
+    body:             `${ss?.name ?? 'A service'} job is available — accept within ${Math.round(OFFER_TIMEOUT_MS / 60_000)} min.`,
+    link:             '/queue',
+    relatedBookingId: bookingId,
+  }).catch((err) => console.error('[autoDispatch] notification error:', err));
+
+  return { status: 'offered', technicianId: best.technicianId, expiresAt };
+}
+
+/**
+ * Withdraws the current offer from a technician (declined or lapsed),
+ * excludes them from future offers for this booking, and offers the next
+ * candidate.
+ *
+ * When `technicianId` is provided the offer is only withdrawn if it is
+ * currently held by that technician.
+ */
+export async function releaseOffer(
+  bookingId: string,
+  technicianId?: string
+): Promise<AutoDispatchOutcome> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+
+  const released = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(bookingRef);
+    const offer = snap.data()?.dispatchOffer as { technicianId?: string } | null | undefined;
+    if (!offer?.technicianId) return false;
+    if (technicianId && offer.technicianId !== technicianId) return false;
+    tx.update(bookingRef, {
+      dispatchOffer:           null,
+      dispatchExcludedTechIds: FieldValue.arrayUnion(offer.technicianId),
+      updatedAt:               FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (!released) return { status: 'skipped', reason: 'No matching offer to release' };
+  return autoDispatchBooking(bookingId);
+}
+
+/**
+ * Sweeps pending bookings whose offer has lapsed and re-offers them.
+ * Returns the number of offers that were moved on — re-offered or left with
+ * no candidates; releases skipped by a concurrent accept are not counted.
+ */
+export async function expireLapsedOffers(now: Date = new Date()): Promise<number> {
+  const snap = await adminDb
+    .collection('bookings')
+    .where('status', '==', 'pending')
+    .where('dispatchOffer.expiresAt', '<=', now)
+    .get();
+
+  let moved = 0;
+  for (const d of snap.docs) {
+    try {
+      // Only the offer that lapsed — a new one made since the query stays put
+      const lapsedTechId = (d.data().dispatchOffer as { technicianId?: string } | null)?.technicianId;
+      if (!lapsedTechId) continue;
+      const outcome = await releaseOffer(d.id, lapsedTechId);
+      if (outcome.status !== 'skipped') moved++;
+    } catch (err) {
+      console.error(`[autoDispatch] failed to re-offer booking ${d.id}:`, err);
+    }
+  }
+  return moved;
+}
@@ -0,0 +1,202 @@
+/**
+ * Technician dispatch — server-side only.
+ *
+ * Resolves which technician a pending booking is assigned to and performs the
+ * assignment atomically: eligibility checks, job document creation, booking
+ * update, and the technician's currentJobId all happen inside one Firestore
+ * transaction, so two technicians tapping "Accept" at the same moment can
+ * never both win.
+ *
+ * While a booking holds an unexpired auto-dispatch offer (see autoDispatch.ts)
+ * only the offered technician — or an admin — may take it.
+ *
+ * Called by:
+ *  - PATCH /api/bookings/status         (technician accepts from the queue)
+ *  - POST  /api/admin/assign-technician (admin assigns manually)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { assertTransition, getTransition, BookingTransitionError } from '@/lib/bookings/stateMachine';
+import { buildStatusChange, notifyTransition } from '@/lib/bookings/transitionBooking';
+import { toDate } from '@/lib/converters';
+import type { BookingStatus, ServiceCategory } from '@/types';
+
+/** Who initiated the assignment — stored on the job for auditing. */
+export type DispatchActor = 'technician' | 'admin';
+
+export interface AssignTechnicianParams {
+  bookingId: string;
+  technicianId: string;
+  assignedBy: DispatchActor;
+  /** uid of the admin making a manual assignment — recorded in statusHistory. */
+  adminId?: string;
+}
+
+export interface AssignTechnicianResult {
+  jobId: string;
+  /** true when the booking was already assigned to this technician (duplicate request). */
+  alreadyAssigned: boolean;
+  customerId: string;
+}
+
+/**
+ * Thrown when a booking cannot be dispatched to the requested technician.
+ * `status` is the HTTP status the calling Route Handler should respond with.
+ */
+export class DispatchError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'DispatchError';
+  }
+}
+
+/**
+ * Returns a human-readable reason why a technician cannot take a job in the
+ * given category, or null when they are eligible.
+ * Pure function — shared by manual acceptance and auto-dispatch scoring.
+ */
+export function getTechnicianIneligibility(
+  tech: Record<string, unknown> | undefined,
+  category: ServiceCategory
+): string | null {
+  if (!tech) return 'Technician profile not found';
+  if (tech.role !== 'technician') return 'User is not a technician';
+  if (tech.isAvailable !== true) return 'Technician is not available';
+  const categories = Array.isArray(tech.serviceCategories)
+    ? (tech.serviceCategories as ServiceCategory[])
+    : [];
+  if (!categories.includes(category)) {
+    return `Technician does not perform ${category} services`;
+  }
+  if (tech.currentJobId) return 'Technician already has an active job';
+  return null;
+}
+
+/**
+ * True if a stored booking.dispatchOffer exists and has not yet expired.
+ * Accepts both Firestore Timestamps (Admin SDK reads) and plain Dates.
+ */
+export function isOfferLive(offer: unknown, now: Date): boolean {
+  if (!offer || typeof offer !== 'object') return false;
+  const expiresAt = toDate((offer as { expiresAt?: unknown }).expiresAt);
+  return !!expiresAt && expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * Assigns a technician to a pending booking and creates its job document.
+ *
+ * Idempotent: if the booking is already assigned to the same technician the
+ * existing jobId is returned without any writes.
+ *
+ * @throws DispatchError when the booking or technician fails validation.
+ */
+export async function assignTechnician({
+  bookingId,
+  technicianId,
+  assignedBy,
+  adminId,
+}: AssignTechnicianParams): Promise<AssignTechnicianResult> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const techRef    = adminDb.collection('users').doc(technicianId);
+  const jobRef     = adminDb.collection('jobs').doc(); // auto-generated ID
+
+  const { result, booking } = await adminDb.runTransaction(async (tx) => {
+    // All reads must happen before any writes inside a transaction
+    const [bookingSnap, techSnap] = await Promise.all([tx.get(bookingRef), tx.get(techRef)]);
+
+    if (!bookingSnap.exists) throw new DispatchError('Booking not found', 404);
+    const booking = bookingSnap.data()!;
+    const customerId = booking.customerId as string;
+
+    // Duplicate request from the technician who already holds the job
+    if (booking.jobId && booking.technicianId === technicianId) {
+      const duplicate: AssignTechnicianResult = { jobId: booking.jobId as string, alreadyAssigned: true, customerId };
+      return { result: duplicate, booking };
+    }
+
+    if (booking.status !== 'pending' || booking.technicianId) {
+      throw new DispatchError('Booking is no longer pending', 409);
+    }
+    try {
+      assertTransition(booking.status as BookingStatus, 'accepted', assignedBy);
+    } catch (err) {
+      if (err instanceof BookingTransitionError) throw new DispatchError(err.message, err.status);
+      throw err;
+    }
+
+    // An auto-dispatch offer is exclusive until it lapses — admins may override
+    const offer = booking.dispatchOffer as { technicianId?: string } | null | undefined;
+    if (
+      assignedBy === 'technician' &&
+      offer?.technicianId &&
+      offer.technicianId !== technicianId &&
+      isOfferLive(offer, new Date())
+    ) {
+      throw new DispatchError('Booking is currently offered to another technician', 409);
+    }
+
+    const category = (booking.serviceSnapshot?.category ?? 'mechanic') as ServiceCategory;
+    const reason = getTechnicianIneligibility(techSnap.data(), category);
+    if (reason) {
+      throw new DispatchError(reason, techSnap.exists ? 403 : 404);
+    }
+
+    const now = new Date();
+
+    tx.set(jobRef, {
+      bookingId,
+      technicianId,
+      customerId,
+      assignedBy,
+      status:       'accepted',    // job-level status mirror
+      currentStage: 'dispatched',  // first stage in JobStage progression
+      stages:       [{ stage: 'dispatched', enteredAt: now, note: null }],
+      techLocation: null,          // populated when tech starts GPS broadcast
+      route:        null,          // lib/jobs/eta.ts, on each location update
+      etaMinutes:   null,          // lib/jobs/eta.ts
+      etaUpdatedAt: null,
+      promisedArrivalAt: null,     // first ETA; baseline for 'running_late'
+      checklist:    null,          // lib/jobs/qualityCheck.ts, on-site
+      photos:       [],
+      partsUsed:    [],
+      notes:        null,
+      startedAt:    null,
+      completedAt:  null,
+      createdAt:    FieldValue.serverTimestamp(),
+      updatedAt:    FieldValue.serverTimestamp(),
+    });
+
+    tx.update(bookingRef, {
+      status:       'accepted',
+      technicianId,
+      jobId:        jobRef.id,
+      dispatchOffer: null,
+      statusHistory: FieldValue.arrayUnion(
+        buildStatusChange('pending', 'accepted', assignedBy, assignedBy === 'admin' ? adminId ?? null : technicianId)
+      ),
+      updatedAt:    FieldValue.serverTimestamp(),
+    });
+
+    tx.update(techRef, {
+      currentJobId: jobRef.id,
+    });
+
+    const assigned: AssignTechnicianResult = { jobId: jobRef.id, alreadyAssigned: false, customerId };
+    return { result: assigned, booking };
+  });
+
+  const transition = getTransition('pending', 'accepted');
+  if (!result.alreadyAssigned && transition) {
+    console.log(`[dispatch] booking ${bookingId} → technician ${technicianId} (job ${result.jobId}, by ${assignedBy})`);
+
+    // Notify customer (outside transaction — non-critical)
+    notifyTransition(bookingId, booking, transition, assignedBy, { jobId: result.jobId })
+      .catch((err) => console.error('[dispatch] notification error:', err));
+  }
+
+  return result;
+}
@@ -0,0 +1,44 @@
+/**
+ * Inspection findings for the vehicle health snapshot — server-side only.
+ *
+ * The red items of a vehicle's most recently shared inspection
+ * (lib/inspections/inspections.ts) are carried on vehicleHealth/{vehicleId}
+ * until a newer inspection is shared.
+ *
+ * Called by:
+ *  - lib/maintenance/recompute.ts
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { toDate } from '@/lib/converters';
+import type { InspectionFinding, InspectionItem } from '@/types';
+
+/**
+ * Red items of the vehicle's most recently shared inspection.
+ * Uses composite index: vehicleId ASC, status ASC, sharedAt DESC.
+ */
+export async function latestInspectionFindings(vehicleId: string): Promise<InspectionFinding[]> {
+  const snap = await adminDb.collection('inspections')
+    .where('vehicleId', '==', vehicleId)
+    .where('status', '==', 'shared')
+    .orderBy('sharedAt', 'desc')
+    .limit(1)
+    .get();
+  if (snap.empty) return [];
+
+  const inspection = snap.docs[0].data();
+  const inspectedAt = toDate(inspection.updatedAt) ?? new Date();
+  return (inspection.items as InspectionItem[])
+    .filter((item) => item.rating === 'red')
+    .map((item) => ({
+      inspectionId:       snap.docs[0].id,
+      itemId:             item.itemId,
+      label:              item.label,
+      note:               item.note,
+      recommendedService: item.recommendedService,
+      inspectedAt,
+    }));
+}
@@ -0,0 +1,260 @@
+/**
+ * Vehicle inspections — server-side only.
+ *
+ * The technician rates every component of the template
+ * (lib/inspections/template.ts) green / yellow / red during a job, with a
+ * note, a photo and a recommended catalog service for anything not green.
+ * The report lives at inspections/{jobId}:
+ *   - saveInspection() updates the draft and, with share, shows it to the
+ *     customer. A shared inspection with red items sets the vehicle to FAULT
+ *     and its red items appear on the vehicle's health snapshot
+ *     (lib/inspections/findings.ts, read by lib/maintenance/recompute.ts);
+ *     a later shared inspection with no red items clears that FAULT again
+ *   - prepareInspectionFollowUp() lets the customer book a yellow / red
+ *     item's recommended service (POST /api/bookings/create, source
+ *     'inspection') and links the booking to the item
+ *
+ * Called by:
+ *  - POST /api/jobs/inspection
+ *  - POST /api/bookings/create           (prepareInspectionFollowUp)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { recomputeVehicleHealth } from '@/lib/maintenance/recompute';
+import { ON_SITE_STAGES } from '@/lib/jobs/qualityCheck';
+import { buildInspectionItems } from './template';
+import { toDate } from '@/lib/converters';
+import type {
+  InspectionItem,
+  InspectionRating,
+  InspectionRecommendation,
+  JobStage,
+  VehicleInspection,
+} from '@/types';
+
+export class InspectionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'InspectionError';
+  }
+}
+
+function needsAttention(rating: InspectionRating | null): boolean {
+  return rating === 'yellow' || rating === 'red';
+}
+
+/** One item as the technician sends it — omitted fields are left unchanged. */
+export interface InspectionItemInput {
+  itemId: string;
+  rating?: InspectionRating | null;
+  note?: string | null;
+  /** Uploaded to jobs/{jobId}/inspection/ in Storage; null removes the photo. */
+  photo?: { storagePath: string; url: string } | null;
+  /** Catalog service for a yellow / red item; null removes the recommendation. */
+  recommendedServiceId?: string | null;
+}
+
+export interface SaveInspectionParams {
+  jobId: string;
+  technicianId: string;
+  items: InspectionItemInput[];
+  /** Show the report to the customer. Once shared it stays shared. */
+  share?: boolean;
+}
+
+/**
+ * Updates the caller's inspection and optionally shares it.
+ *
+ * @throws InspectionError 404 / 403 / 409 when the job cannot be inspected;
+ *         400 for unknown items or services, a photo outside this job's
+ *         uploads, or sharing with a yellow / red item that has no note.
+ */
+export async function saveInspection({ jobId, technicianId, items: inputs, share = false }: SaveInspectionParams): Promise<VehicleInspection> {
+  // 1. Job and booking
+  const jobSnap = await adminDb.collection('jobs').doc(jobId).get();
+  if (!jobSnap.exists) throw new InspectionError('Job not found', 404);
+  const job = jobSnap.data()!;
+  if (job.technicianId !== technicianId) throw new InspectionError('Forbidden — not your job', 403);
+  if (!ON_SITE_STAGES.includes(job.currentStage as JobStage)) {
+    throw new InspectionError('The inspection can only be recorded on-site', 409);
+  }
+
+  const bookingSnap = await adminDb.collection('bookings').doc(job.bookingId as string).get();
+  const booking = bookingSnap.data();
+  if (!booking) throw new InspectionError('Booking not found', 404);
+
+  // 2. Validate the input against Storage and the catalog
+  for (const { photo } of inputs) {
+    if (!photo) continue;
+    if (!photo.storagePath.startsWith(`jobs/${jobId}/inspection/`) || photo.storagePath.includes('..')) {
+      throw new InspectionError('Photo must be uploaded to this job', 400);
+    }
+    if (!photo.url.startsWith('https://firebasestorage.googleapis.com/') || !photo.url.includes(encodeURIComponent(photo.storagePath))) {
+      throw new InspectionError('Photo URL does not match its storage path', 400);
+    }
+  }
+
+  const serviceIds = Array.from(new Set(inputs.map((i) => i.recommendedServiceId).filter((id): id is string => !!id)));
+  const serviceSnaps = await Promise.all(serviceIds.map((id) => adminDb.collection('services').doc(id).get()));
+  const recommendations = new Map<string, InspectionRecommendation>();
+  for (const snap of serviceSnaps) {
+    const service = snap.data();
+    if (!service || !service.isActive) throw new InspectionError(`Service ${snap.id} is not available`, 400);
+    recommendations.set(snap.id, { serviceId: snap.id, name: service.name as string, basePrice: service.basePrice as number });
+  }
+
+  // 3. Merge into the current report and write — in a transaction, so a
+  //    follow-up booking linked meanwhile (prepareInspectionFollowUp) is kept
+  const inspectionRef = adminDb.collection('inspections').doc(jobId);
+  const { inspection, shared, firstShare } = await adminDb.runTransaction(async (tx) => {
+    const existing = (await tx.get(inspectionRef)).data();
+    const items: InspectionItem[] = (existing?.items as InspectionItem[] | undefined) ?? buildInspectionItems();
+
+    const unknown = inputs.filter((input) => !items.some((item) => item.itemId === input.itemId));
+    if (unknown.length > 0) {
+      throw new InspectionError(`Unknown inspection item: ${unknown.map((i) => i.itemId).join(', ')}`, 400);
+    }
+
+    const merged = items.map((item): InspectionItem => {
+      const input = inputs.find((i) => i.itemId === item.itemId);
+      if (!input) return item;
+      const rating = input.rating !== undefined ? input.rating : item.rating;
+      const recommendedService = input.recommendedServiceId !== undefined
+        ? (input.recommendedServiceId ? recommendations.get(input.recommendedServiceId)! : null)
+        : item.recommendedService;
+      return {
+        ...item,
+        rating,
+        note:               input.note !== undefined ? input.note?.trim() || null : item.note,
+        photoUrl:           input.photo !== undefined ? input.photo?.url ?? null : item.photoUrl,
+        photoStoragePath:   input.photo !== undefined ? input.photo?.storagePath ?? null : item.photoStoragePath,
+        recommendedService: needsAttention(rating) ? recommendedService : null,
+      };
+    });
+
+    // Notes are required when sharing; items flagged afterwards are saved as
+    // the technician works through them
+    const shared = share || existing?.status === 'shared';
+    if (share) {
+      const unexplained = merged.filter((item) => needsAttention(item.rating) && !item.note);
+      if (unexplained.length > 0) {
+        throw new InspectionError(`Add a note to every yellow or red item: ${unexplained.map((i) => i.label).join(', ')}`, 400);
+      }
+    }
+
+    const now = new Date();
+    const firstShare = shared && existing?.status !== 'shared';
+    const inspection: VehicleInspection = {
+      inspectionId: jobId,
+      jobId,
+      bookingId:    job.bookingId as string,
+      vehicleId:    booking.vehicleId as string,
+      customerId:   booking.customerId as string,
+      technicianId,
+      status:       shared ? 'shared' : 'draft',
+      items:        merged,
+      redCount:     merged.filter((i) => i.rating === 'red').length,
+      yellowCount:  merged.filter((i) => i.rating === 'yellow').length,
+      sharedAt:     firstShare ? now : toDate(existing?.sharedAt),
+      createdAt:    toDate(existing?.createdAt) ?? now,
+      updatedAt:    now,
+    };
+    tx.set(inspectionRef, inspection);
+    return { inspection, shared, firstShare };
+  });
+
+  // 4. Shared — vehicle status, health snapshot, customer notification
+  if (shared) {
+    await applyToVehicle(inspection);
+    recomputeVehicleHealth(inspection.vehicleId).catch((err) =>
+      console.error('[inspections] recompute error:', err)
+    );
+  }
+  if (firstShare) {
+    const vs = booking.vehicleSnapshot as { year: number; make: string; model: string };
+    const attention = inspection.redCount + inspection.yellowCount;
+    notifyUser(inspection.customerId, {
+      type:             'inspection_ready',
+      title:            'Your Inspection Report Is Ready',
+      body:             attention > 0
+        ? `Your technician flagged ${attention} item${attention === 1 ? '' : 's'} on your ${vs.year} ${vs.make} ${vs.model}.`
+        : `Everything checked out on your ${vs.year} ${vs.make} ${vs.model}.`,
+      link:             `/bookings/${inspection.bookingId}`,
+      relatedBookingId: inspection.bookingId,
+      relatedJobId:     jobId,
+    }).catch((err) => console.error('[inspections] notify error:', err));
+  }
+
+  return inspection;
+}
+
+/**
+ * Red items set the vehicle to FAULT. A FAULT set by an inspection is cleared
+ * by the next shared inspection without red items; any other FAULT is left
+ * alone.
+ */
+async function applyToVehicle(inspection: VehicleInspection): Promise<void> {
+  const vehicleRef = adminDb.collection('vehicles').doc(inspection.vehicleId);
+  const vehicle = (await vehicleRef.get()).data();
+  if (!vehicle) return;
+
+  if (inspection.redCount > 0) {
+    await vehicleRef.update({ status: 'FAULT', faultInspectionId: inspection.inspectionId });
+  } else if (vehicle.status === 'FAULT' && vehicle.faultInspectionId) {
+    await vehicleRef.update({ status: 'OPTIMAL', faultInspectionId: null });
+  }
+}
+
+export interface InspectionFollowUpInput {
+  inspectionId: string;
+  itemId: string;
+  customerId: string;
+  vehicleId: string;
+  serviceId: string;
+}
+
+/**
+ * Checks, inside the booking transaction, that the customer may book this
+ * item's recommended service, and returns the function that links the new
+ * booking to the item — call it once all of the transaction's reads are done.
+ * An item can be re-booked when its previous follow-up was cancelled.
+ *
+ * @throws InspectionError 404 when the item is not a shared yellow / red
+ *         finding of this customer's vehicle; 400 when serviceId is not its
+ *         recommendation; 409 when it is already booked.
+ */
+export async function prepareInspectionFollowUp(
+  tx: Transaction,
+  { inspectionId, itemId, customerId, vehicleId, serviceId }: InspectionFollowUpInput
+): Promise<(bookingId: string) => void> {
+  const inspectionRef = adminDb.collection('inspections').doc(inspectionId);
+  const inspection = (await tx.get(inspectionRef)).data();
+  if (!inspection || inspection.status !== 'shared' || inspection.customerId !== customerId || inspection.vehicleId !== vehicleId) {
+    throw new InspectionError('Inspection not found', 404);
+  }
+
+  const items = inspection.items as InspectionItem[];
+  const item = items.find((i) => i.itemId === itemId);
+  if (!item || !needsAttention(item.rating)) throw new InspectionError('Inspection item not found', 404);
+  if (item.recommendedService?.serviceId !== serviceId) {
+    throw new InspectionError('Service is not the one recommended for this item', 400);
+  }
+  if (item.followUpBookingId) {
+    const previous = (await tx.get(adminDb.collection('bookings').doc(item.followUpBookingId))).data();
+    if (previous && previous.status !== 'cancelled') {
+      throw new InspectionError('This item is already booked', 409);
+    }
+  }
+
+  return (bookingId) => {
+    tx.update(inspectionRef, {
+      items:     items.map((i) => (i.itemId === itemId ? { ...i, followUpBookingId: bookingId } : i)),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Vehicle inspection template — the components a technician rates on every
+ * job (lib/inspections/inspections.ts, active-job inspection panel).
+ *
+ * Each item may suggest the catalog service that fixes a yellow or red
+ * rating, by maintenance type (lib/maintenance/serviceTypeMapping.ts) or by
+ * service name (scripts/seed-services.js).
+ * suggestedServiceId() resolves the suggestion against the live catalog; the
+ * technician can pick a different service before sharing.
+ *
+ * Item IDs are stable: they are stored on inspections and on follow-up
+ * bookings (booking.sourceInspection), so never reuse an ID for a different
+ * component.
+ *
+ * Pure module — no Firebase imports. Safe on both server and client.
+ */
+
+import { resolveMaintenanceTypes } from '@/lib/maintenance/serviceTypeMapping';
+import type { InspectionItem, MaintenanceServiceType, Service } from '@/types';
+
+interface InspectionItemDefinition {
+  itemId: string;
+  label: string;
+  /** Catalog service that fixes a yellow / red rating. */
+  suggests?: { maintenanceType?: MaintenanceServiceType; serviceName?: string };
+}
+
+export const INSPECTION_TEMPLATE: { section: string; items: InspectionItemDefinition[] }[] = [
+  {
+    section: 'Brakes & Tires',
+    items: [
+      { itemId: 'brake_pads',     label: 'Brake pads & rotors',     suggests: { maintenanceType: 'brake_inspection' } },
+      { itemId: 'brake_fluid',    label: 'Brake fluid' },
+      { itemId: 'tire_tread',     label: 'Tire tread depth & wear', suggests: { maintenanceType: 'tire_rotation' } },
+      { itemId: 'tire_pressure',  label: 'Tire pressure' },
+    ],
+  },
+  {
+    section: 'Under the Hood',
+    items: [
+      { itemId: 'engine_oil',     label: 'Engine oil level & condition', suggests: { maintenanceType: 'oil_change' } },
+      { itemId: 'coolant',        label: 'Coolant level',                suggests: { maintenanceType: 'coolant_flush' } },
+      { itemId: 'air_filter',     label: 'Engine air filter',            suggests: { maintenanceType: 'air_filter' } },
+      { itemId: 'belts_hoses',    label: 'Belts & hoses' },
+      { itemId: 'leaks',          label: 'Visible fluid leaks' },
+    ],
+  },
+  {
+    section: 'Electrical',
+    items: [
+      { itemId: 'battery',        label: 'Battery & terminals',   suggests: { serviceName: 'Battery Replacement' } },
+      { itemId: 'lights',         label: 'Exterior lights' },
+      { itemId: 'warning_lights', label: 'Dashboard warning lights', suggests: { serviceName: 'Check Engine Light Diagnostic' } },
+    ],
+  },
+  {
+    section: 'Visibility & Comfort',
+    items: [
+      { itemId: 'wipers',         label: 'Wiper blades',       suggests: { maintenanceType: 'wiper_blades' } },
+      { itemId: 'windshield',     label: 'Windshield & glass' },
+      { itemId: 'cabin_filter',   label: 'Cabin air filter',   suggests: { maintenanceType: 'cabin_filter' } },
+      { itemId: 'ac',             label: 'Air conditioning',   suggests: { serviceName: 'AC System Diagnostic' } },
+    ],
+  },
+  {
+    section: 'Steering & Suspension',
+    items: [
+      { itemId: 'suspension',     label: 'Shocks, struts & bushings' },
+      { itemId: 'steering',       label: 'Steering play & alignment' },
+      { itemId: 'exhaust',        label: 'Exhaust system' },
+    ],
+  },
+];
+
+/** A fresh, unrated inspection. */
+export function buildInspectionItems(): InspectionItem[] {
+  return INSPECTION_TEMPLATE.flatMap(({ section, items }) =>
+    items.map((item) => ({
+      itemId:             item.itemId,
+      section,
+      label:              item.label,
+      rating:             null,
+      note:               null,
+      photoUrl:           null,
+      photoStoragePath:   null,
+      recommendedService: null,
+      followUpBookingId:  null,
+    }))
+  );
+}
+
+/** The active catalog service an item suggests, or null when none matches. */
+export function suggestedServiceId(itemId: string, services: Service[]): string | null {
+  const suggests = INSPECTION_TEMPLATE.flatMap((s) => s.items).find((item) => item.itemId === itemId)?.suggests;
+  if (!suggests) return null;
+  const active = services.filter((s) => s.isActive);
+  const match = suggests.maintenanceType
+    ? active.find((s) => resolveMaintenanceTypes(s).includes(suggests.maintenanceType!))
+    : active.find((s) => s.name === suggests.serviceName);
+  return match?.serviceId ?? null;
+}
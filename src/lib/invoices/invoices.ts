@@ -0,0 +1,183 @@
+/**
+ * Booking invoices — server-side only.
+ *
+ * issueInvoice() builds the itemized receipt for a completed booking and
+ * stores it at invoices/{bookingId}:
+ *   - the service from serviceSnapshot, then approved change-order items
+ *     (bookings/{id}/changeOrders) with their quantities and unit prices, then
+ *     any other add-ons
+ *   - the subscription discount, tax and service fee from priceBreakdown
+ *   - parts installed from serviceHistory/{bookingId}.partsUsed
+ *   - what was actually paid: the captured amount recorded on the service
+ *     history record, the tip, refunds, and the card it was charged to
+ *
+ * Re-issuing keeps the invoice number and issue date and refreshes the
+ * amounts, so a receipt downloaded after a tip or refund is current.
+ *
+ * Called by:
+ *  - lib/bookings/completion.ts   (after capture)
+ *  - GET /api/bookings/receipt    (PDF download — see renderPdf.ts)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { buildAddressString } from '@/lib/maps/geocode';
+import { toDate } from '@/lib/converters';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type {
+  BookingAddOn,
+  BookingTip,
+  ChangeOrderItem,
+  Invoice,
+  InvoiceLine,
+  PartRecord,
+  PriceBreakdown,
+} from '@/types';
+
+export class InvoiceError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+/** e.g. RD-20250114-AB12CD — derived from the service date and booking ID. */
+function invoiceNumberFor(bookingId: string, serviceDate: Date): string {
+  const day = serviceDate.toISOString().slice(0, 10).replace(/-/g, '');
+  return `RD-${day}-${bookingId.slice(0, 6).toUpperCase()}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/** "Visa •••• 4242" for the card behind the booking's main charge, or null. */
+async function describePaymentMethod(paymentIntentId: string | null): Promise<string | null> {
+  if (!paymentIntentId) return null;
+  try {
+    const stripe = await getStripe();
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['payment_method'] });
+    const card = (intent.payment_method as Stripe.PaymentMethod | null)?.card;
+    return card ? `${capitalize(card.brand)} •••• ${card.last4}` : null;
+  } catch (err) {
+    console.warn(`[invoices] could not read payment method of ${paymentIntentId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Builds and stores the invoice for a completed booking.
+ *
+ * @throws InvoiceError 404 when the booking is missing, 409 before it is complete.
+ */
+export async function issueInvoice(bookingId: string): Promise<Invoice> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const invoiceRef = adminDb.collection('invoices').doc(bookingId);
+
+  // 1. Load everything the receipt is built from
+  const [bookingSnap, historySnap, invoiceSnap, changeOrdersSnap] = await Promise.all([
+    bookingRef.get(),
+    adminDb.collection('serviceHistory').doc(bookingId).get(),
+    invoiceRef.get(),
+    bookingRef.collection('changeOrders').where('status', '==', 'approved').get(),
+  ]);
+  if (!bookingSnap.exists) throw new InvoiceError('Booking not found', 404);
+  const booking = bookingSnap.data()!;
+  if (booking.status !== 'complete') throw new InvoiceError('Receipts are available once the service is complete', 409);
+
+  const history = historySnap.data();
+  const [customerSnap, technicianSnap] = await Promise.all([
+    adminDb.collection('users').doc(booking.customerId as string).get(),
+    booking.technicianId ? adminDb.collection('users').doc(booking.technicianId as string).get() : null,
+  ]);
+  const customer = customerSnap.data();
+
+  // 2. Line items
+  const ss = booking.serviceSnapshot as { name: string; basePrice: number };
+  const breakdown = booking.priceBreakdown as PriceBreakdown | null | undefined;
+  const lines: InvoiceLine[] = [{
+    kind:        'service',
+    description: ss.name,
+    quantity:    1,
+    unitCents:   breakdown?.baseCents ?? ss.basePrice,
+    amountCents: breakdown?.baseCents ?? ss.basePrice,
+  }];
+
+  const itemized = new Set<string>();
+  for (const doc of changeOrdersSnap.docs) {
+    itemized.add(doc.id);
+    for (const item of doc.data().items as ChangeOrderItem[]) {
+      lines.push({
+        kind:        item.kind,
+        description: item.label,
+        quantity:    item.quantity,
+        unitCents:   item.unitPriceCents,
+        amountCents: item.amountCents,
+      });
+    }
+  }
+  for (const addOn of (booking.addOns as BookingAddOn[] | undefined) ?? []) {
+    if (addOn.changeOrderId && itemized.has(addOn.changeOrderId)) continue;
+    lines.push({ kind: 'add_on', description: addOn.label, quantity: 1, unitCents: addOn.amountCents, amountCents: addOn.amountCents });
+  }
+
+  const discountCents = breakdown?.discountCents ?? (booking.subscriptionDiscountCents as number | null) ?? 0;
+  if (discountCents > 0) {
+    lines.push({ kind: 'discount', description: 'Subscription discount', quantity: 1, unitCents: -discountCents, amountCents: -discountCents });
+  }
+
+  // 3. Totals and payments
+  const totalCents = (booking.totalPrice as number | undefined) ?? 0;
+  const taxCents = breakdown?.taxCents ?? 0;
+  const feeCents = breakdown?.feeCents ?? 0;
+  const tip = booking.tip as BookingTip | null | undefined;
+  const tipCents = tip?.status === 'succeeded' ? tip.amountCents : 0;
+  const serviceDate = toDate(history?.completedAt) ?? toDate(booking.scheduledAt) ?? new Date();
+  const existing = invoiceSnap.data();
+
+  const vs = booking.vehicleSnapshot as { year: number; make: string; model: string; vin: string };
+  const address = booking.address as { street: string; city: string; state: string; zip: string } | null | undefined;
+
+  const invoice: Invoice = {
+    invoiceNumber:   (existing?.invoiceNumber as string | undefined) ?? invoiceNumberFor(bookingId, serviceDate),
+    bookingId,
+    customerId:      booking.customerId as string,
+    issuedAt:        toDate(existing?.issuedAt) ?? new Date(),
+    serviceDate,
+    billTo:          { name: (customer?.name as string | undefined) ?? '', email: (customer?.email as string | undefined) ?? '' },
+    serviceAddress:  address?.street ? buildAddressString(address) : null,
+    vehicle: {
+      year:             vs.year,
+      make:             vs.make,
+      model:            vs.model,
+      vin:              vs.vin,
+      mileageAtService: (history?.mileageAtService as number | undefined) ?? null,
+    },
+    technicianName:  (technicianSnap?.data()?.name as string | undefined) ?? null,
+    lines,
+    parts:           ((history?.partsUsed as PartRecord[] | undefined) ?? []).map((p) => ({
+      ...p,
+      warrantyExpires: toDate(p.warrantyExpires),
+    })),
+    subtotalCents:   totalCents - taxCents - feeCents,
+    taxCents,
+    feeCents,
+    totalCents,
+    tipCents,
+    amountPaidCents: ((history?.cost as number | undefined) ?? totalCents) + tipCents,
+    refundedCents:   (booking.amountRefundedCents as number | undefined) ?? 0,
+    paymentMethod:   await describePaymentMethod((booking.stripePaymentIntentId as string | null) ?? null),
+    updatedAt:       new Date(),
+  };
+
+  // 4. Store against the booking
+  await Promise.all([
+    invoiceRef.set(invoice),
+    existing ? null : bookingRef.update({ invoiceNumber: invoice.invoiceNumber, updatedAt: FieldValue.serverTimestamp() }),
+  ]);
+  return invoice;
+}
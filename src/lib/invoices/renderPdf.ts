@@ -0,0 +1,242 @@
+/**
+ * Invoice → PDF renderer.
+ *
+ * Writes a plain PDF 1.4 document by hand with the two built-in Helvetica
+ * faces — a receipt is a few lines of text and rules, which does not justify
+ * a PDF dependency. Text is WinAnsi-encoded; characters outside Latin-1 are
+ * replaced. Long invoices continue onto further Letter pages.
+ *
+ * Pure module — no Firebase imports.
+ */
+
+import type { Invoice, InvoiceLine } from '@/types';
+
+const PAGE_WIDTH = 612;                 // US Letter, points
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const BRAND_RGB = '0 0.6 0.47';
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126. Helvetica-Bold is
+// close enough for right-aligning the digits and labels used here.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+type Font = 'regular' | 'bold';
+
+/** Maps text onto WinAnsi — typographic characters we use have direct codes. */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/—/g, '\x97')
+    .replace(/–/g, '\x96')
+    .replace(/•/g, '\x95')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7e\x95-\x97\xa0-\xff]/g, '?');
+}
+
+function escapePdfString(text: string): string {
+  return toWinAnsi(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const ch of toWinAnsi(text)) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+function money(cents: number): string {
+  const abs = (Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${cents < 0 ? '-' : ''}$${abs}`;
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/** Collects drawing operators page by page; y runs top-down from the margin. */
+function createCanvas() {
+  const pages: string[][] = [[]];
+  let y = MARGIN;
+
+  const ops = () => pages[pages.length - 1];
+  const pdfY = (top: number) => (PAGE_HEIGHT - top).toFixed(2);
+
+  return {
+    /** Moves down, starting a new page when `needed` points no longer fit. */
+    advance(by: number, needed = 0) {
+      if (y + by + needed > PAGE_HEIGHT - MARGIN) {
+        pages.push([]);
+        y = MARGIN;
+        return;
+      }
+      y += by;
+    },
+    text(value: string, x: number, opts: { size?: number; font?: Font; align?: 'left' | 'right'; color?: string } = {}) {
+      const size = opts.size ?? 10;
+      const left = opts.align === 'right' ? x - textWidth(value, size) : x;
+      ops().push(
+        `BT ${opts.color ?? '0.1 0.1 0.1'} rg /${opts.font === 'bold' ? 'F2' : 'F1'} ${size} Tf ` +
+        `1 0 0 1 ${left.toFixed(2)} ${pdfY(y)} Tm (${escapePdfString(value)}) Tj ET`
+      );
+    },
+    rule(offset = 4) {
+      ops().push(`0.8 0.8 0.8 RG 0.5 w ${MARGIN} ${pdfY(y + offset)} m ${RIGHT} ${pdfY(y + offset)} l S`);
+    },
+    pages,
+  };
+}
+
+function drawLines(canvas: ReturnType<typeof createCanvas>, lines: InvoiceLine[]) {
+  const colQty = RIGHT - 190;
+  const colUnit = RIGHT - 90;
+
+  canvas.text('Description', MARGIN, { font: 'bold', size: 9, color: '0.4 0.4 0.4' });
+  canvas.text('Qty', colQty, { font: 'bold', size: 9, align: 'right', color: '0.4 0.4 0.4' });
+  canvas.text('Unit', colUnit, { font: 'bold', size: 9, align: 'right', color: '0.4 0.4 0.4' });
+  canvas.text('Amount', RIGHT, { font: 'bold', size: 9, align: 'right', color: '0.4 0.4 0.4' });
+  canvas.rule();
+
+  for (const line of lines) {
+    canvas.advance(18, 18);
+    const label = line.kind === 'part' || line.kind === 'labor'
+      ? `${line.description} (${line.kind})`
+      : line.description;
+    canvas.text(label, MARGIN);
+    if (line.kind !== 'discount') {
+      canvas.text(String(line.quantity), colQty, { align: 'right' });
+      canvas.text(money(line.unitCents), colUnit, { align: 'right' });
+    }
+    canvas.text(money(line.amountCents), RIGHT, { align: 'right' });
+  }
+}
+
+/** Serializes page operator lists into a PDF file. */
+function serialize(pages: string[][]): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add('');                                               // Pages — filled in below
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageRefs: string[] = [];
+  for (const ops of pages) {
+    const stream = ops.join('\n');
+    add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    const contentRef = objects.length;
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+    );
+    pageRefs.push(`${objects.length} 0 R`);
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`;
+
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(out, 'latin1'));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefAt = Buffer.byteLength(out, 'latin1');
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(out, 'latin1'));
+}
+
+/** Renders an invoice as a receipt PDF. */
+export function renderInvoicePdf(invoice: Invoice): Uint8Array<ArrayBuffer> {
+  const canvas = createCanvas();
+
+  // Header
+  canvas.advance(10);
+  canvas.text('RevvDoc', MARGIN, { size: 22, font: 'bold', color: BRAND_RGB });
+  canvas.text('RECEIPT', RIGHT, { size: 14, font: 'bold', align: 'right' });
+  canvas.advance(18);
+  canvas.text('Mobile vehicle service', MARGIN, { size: 9, color: '0.4 0.4 0.4' });
+  canvas.text(`Invoice ${invoice.invoiceNumber}`, RIGHT, { size: 9, align: 'right' });
+  canvas.advance(13);
+  canvas.text(`Issued ${formatDay(invoice.issuedAt)}`, RIGHT, { size: 9, align: 'right' });
+  canvas.advance(13);
+  canvas.text(`Service date ${formatDay(invoice.serviceDate)}`, RIGHT, { size: 9, align: 'right' });
+
+  // Parties
+  canvas.advance(28);
+  const colRight = PAGE_WIDTH / 2 + 10;
+  canvas.text('BILLED TO', MARGIN, { size: 8, font: 'bold', color: '0.4 0.4 0.4' });
+  canvas.text('VEHICLE', colRight, { size: 8, font: 'bold', color: '0.4 0.4 0.4' });
+  canvas.advance(14);
+  canvas.text(invoice.billTo.name, MARGIN);
+  canvas.text(`${invoice.vehicle.year} ${invoice.vehicle.make} ${invoice.vehicle.model}`, colRight);
+  canvas.advance(13);
+  canvas.text(invoice.billTo.email, MARGIN, { size: 9 });
+  canvas.text(`VIN ${invoice.vehicle.vin}`, colRight, { size: 9 });
+  canvas.advance(13);
+  if (invoice.serviceAddress) canvas.text(invoice.serviceAddress, MARGIN, { size: 9 });
+  if (invoice.vehicle.mileageAtService !== null) {
+    canvas.text(`${invoice.vehicle.mileageAtService.toLocaleString('en-US')} mi at service`, colRight, { size: 9 });
+  }
+  if (invoice.technicianName) {
+    canvas.advance(13);
+    canvas.text(`Technician: ${invoice.technicianName}`, colRight, { size: 9 });
+  }
+
+  // Line items
+  canvas.advance(32);
+  drawLines(canvas, invoice.lines);
+
+  // Totals
+  canvas.advance(10);
+  canvas.rule(0);
+  const totalsLabelX = RIGHT - 110;
+  const totals: [string, number, Font][] = [
+    ['Subtotal', invoice.subtotalCents, 'regular'],
+    ...(invoice.taxCents > 0 ? [['Tax', invoice.taxCents, 'regular'] as [string, number, Font]] : []),
+    ...(invoice.feeCents > 0 ? [['Service fee', invoice.feeCents, 'regular'] as [string, number, Font]] : []),
+    ['Total', invoice.totalCents, 'bold'],
+    ...(invoice.tipCents > 0 ? [['Tip', invoice.tipCents, 'regular'] as [string, number, Font]] : []),
+    ['Amount paid', invoice.amountPaidCents, 'bold'],
+    ...(invoice.refundedCents > 0 ? [['Refunded', -invoice.refundedCents, 'regular'] as [string, number, Font]] : []),
+  ];
+  for (const [label, cents, font] of totals) {
+    canvas.advance(16, 16);
+    canvas.text(label, totalsLabelX, { font, align: 'right' });
+    canvas.text(money(cents), RIGHT, { font, align: 'right' });
+  }
+  if (invoice.paymentMethod) {
+    canvas.advance(16, 16);
+    canvas.text(`Paid with ${invoice.paymentMethod}`, RIGHT, { size: 9, align: 'right', color: '0.4 0.4 0.4' });
+  }
+
+  // Parts installed
+  if (invoice.parts.length > 0) {
+    canvas.advance(30, 30);
+    canvas.text('PARTS INSTALLED', MARGIN, { size: 8, font: 'bold', color: '0.4 0.4 0.4' });
+    for (const part of invoice.parts) {
+      canvas.advance(14, 14);
+      const detail = [part.brand, part.partNumber ? `#${part.partNumber}` : null].filter(Boolean).join(' ');
+      canvas.text(detail ? `${part.name} — ${detail}` : part.name, MARGIN, { size: 9 });
+    }
+  }
+
+  // Footer
+  canvas.advance(36, 24);
+  canvas.text(`Booking ${invoice.bookingId}`, MARGIN, { size: 8, color: '0.5 0.5 0.5' });
+  canvas.advance(12);
+  canvas.text('Thank you for choosing RevvDoc.', MARGIN, { size: 8, color: '0.5 0.5 0.5' });
+
+  return serialize(canvas.pages);
+}
@@ -0,0 +1,164 @@
+/**
+ * Job stage advancement — server-side only.
+ *
+ * Moves a job to its next JobStage and keeps the parent booking in step. In
+ * one Firestore transaction it:
+ *   1. appends to job.stages[] and sets job.currentStage (+ startedAt)
+ *   2. moves booking.status to JOB_STAGE_BOOKING_STATUS[stage] when that
+ *      differs, validated by the booking state machine, with a statusHistory entry
+ *   3. posts a type='system' ChatMessage into bookings/{bookingId}/messages
+ *
+ * The customer notification declared for the booking transition
+ * (technician_en_route, job_started) is sent after commit.
+ *
+ * Stages only move forward one step at a time in JOB_STAGE_ORDER, and
+ * JOB_STAGES_REQUIRING_NOTE (quality_check) must carry a note.
+ *
+ * The 'complete' stage is not handled here — completion captures payment and
+ * writes service history via POST /api/stripe/capture-payment.
+ *
+ * Called by:
+ *  - POST /api/jobs/stage
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import {
+  assertTransition,
+  BookingTransitionError,
+  getNextJobStage,
+  JOB_STAGE_BOOKING_STATUS,
+  JOB_STAGES_REQUIRING_NOTE,
+  type BookingTransition,
+} from '@/lib/bookings/stateMachine';
+import { buildStatusChange, notifyTransition } from '@/lib/bookings/transitionBooking';
+import type { BookingStatus, JobStage } from '@/types';
+
+export interface AdvanceJobStageParams {
+  jobId: string;
+  stage: JobStage;
+  technicianId: string;
+  note?: string | null;
+}
+
+export interface AdvanceJobStageResult {
+  jobId: string;
+  bookingId: string;
+  stage: JobStage;
+  bookingStatus: BookingStatus;
+}
+
+/** Text of the system chat message posted when a job enters each stage. */
+const STAGE_CHAT_MESSAGES: Partial<Record<JobStage, string>> = {
+  en_route:      'Your technician is on the way.',
+  arrived:       'Your technician has arrived.',
+  in_progress:   'Service has started.',
+  quality_check: 'Service is wrapping up with a final quality check.',
+};
+
+/**
+ * Advances a job by exactly one stage.
+ *
+ * Idempotent: re-sending the job's current stage returns without writing.
+ *
+ * @throws BookingTransitionError when the job is missing, not assigned to the
+ *         caller, the stage is out of order or missing its required note, or
+ *         the booking cannot follow.
+ */
+export async function advanceJobStage({
+  jobId,
+  stage,
+  technicianId,
+  note = null,
+}: AdvanceJobStageParams): Promise<AdvanceJobStageResult> {
+  if (stage === 'complete') {
+    throw new BookingTransitionError('Complete the job via POST /api/stripe/capture-payment', 409);
+  }
+
+  const jobRef = adminDb.collection('jobs').doc(jobId);
+
+  const outcome = await adminDb.runTransaction(async (tx) => {
+    // All reads must happen before any writes inside a transaction
+    const jobSnap = await tx.get(jobRef);
+    if (!jobSnap.exists) throw new BookingTransitionError('Job not found', 404);
+    const job = jobSnap.data()!;
+
+    if (job.technicianId !== technicianId) {
+      throw new BookingTransitionError('Forbidden — not your job', 403);
+    }
+
+    const bookingRef = adminDb.collection('bookings').doc(job.bookingId as string);
+    const bookingSnap = await tx.get(bookingRef);
+    if (!bookingSnap.exists) throw new BookingTransitionError('Booking not found', 404);
+    const booking = bookingSnap.data()!;
+
+    const currentStage = job.currentStage as JobStage;
+    const currentStatus = booking.status as BookingStatus;
+
+    if (currentStage === stage) {
+      return { bookingId: bookingRef.id, booking, bookingStatus: currentStatus, transition: null, changed: false };
+    }
+    if (getNextJobStage(currentStage) !== stage) {
+      throw new BookingTransitionError(`Cannot move job from '${currentStage}' to '${stage}'`, 409);
+    }
+    if (JOB_STAGES_REQUIRING_NOTE.includes(stage) && !note?.trim()) {
+      throw new BookingTransitionError(`A note is required to enter '${stage}'`, 400);
+    }
+
+    const targetStatus = JOB_STAGE_BOOKING_STATUS[stage];
+    const transition: BookingTransition | null =
+      targetStatus !== currentStatus ? assertTransition(currentStatus, targetStatus, 'technician') : null;
+
+    const now = new Date();
+
+    tx.update(jobRef, {
+      currentStage: stage,
+      status:       targetStatus,  // job-level status mirror
+      stages:       FieldValue.arrayUnion({ stage, enteredAt: now, note }),
+      ...(stage === 'in_progress' ? { startedAt: FieldValue.serverTimestamp() } : {}),
+      updatedAt:    FieldValue.serverTimestamp(),
+    });
+
+    if (transition) {
+      tx.update(bookingRef, {
+        status:        targetStatus,
+        statusHistory: FieldValue.arrayUnion(
+          buildStatusChange(currentStatus, targetStatus, 'technician', technicianId, `Job stage: ${stage}`)
+        ),
+        updatedAt:     FieldValue.serverTimestamp(),
+      });
+    }
+
+    const chatBody = STAGE_CHAT_MESSAGES[stage];
+    if (chatBody) {
+      tx.set(bookingRef.collection('messages').doc(), {
+        bookingId:     bookingRef.id,
+        senderId:      technicianId,
+        senderRole:    'technician',
+        body:          chatBody,
+        type:          'system',
+        readBy:        [],
+        customerId:    booking.customerId,
+        technicianId,
+        bookingStatus: targetStatus,
+        createdAt:     FieldValue.serverTimestamp(),
+      });
+    }
+
+    return { bookingId: bookingRef.id, booking, bookingStatus: targetStatus, transition, changed: true };
+  });
+
+  if (outcome.changed) {
+    console.log(`[advanceJobStage] job ${jobId} → ${stage} (booking ${outcome.bookingStatus})`);
+  }
+
+  if (outcome.transition) {
+    notifyTransition(outcome.bookingId, outcome.booking, outcome.transition, 'technician', { jobId })
+      .catch((err) => console.error('[advanceJobStage] notification error:', err));
+  }
+
+  return { jobId, bookingId: outcome.bookingId, stage, bookingStatus: outcome.bookingStatus };
+}
@@ -0,0 +1,142 @@
+/**
+ * Live job ETA — server-side only.
+ *
+ * computeJobEta() turns a technician location fix into the job's ETA and
+ * route so every viewer sees the same numbers:
+ *   - while the technician stays within OFF_ROUTE_METERS of the stored route,
+ *     the ETA is the distance left along it at the route's average speed — no
+ *     provider call
+ *   - leaving the route, or a route older than ROUTE_MAX_AGE_MS (traffic
+ *     changes), fetches a fresh one from lib/maps/directions.ts and stores
+ *     its simplified polyline
+ *   - with no routing provider configured (or a failed request) it falls back
+ *     to the straight-line distance × DETOUR_FACTOR at ETA_AVERAGE_SPEED_KMH
+ *
+ * The first ETA sets job.promisedArrivalAt (never earlier than the booking's
+ * scheduledAt). When the predicted arrival slips more than
+ * RUNNING_LATE_GRACE_MINUTES past it, the result flags `runningLate` once.
+ *
+ * Called by:
+ *  - lib/jobs/location.ts   (every techLocation write)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { fetchDrivingRoute } from '@/lib/maps/directions';
+import { haversineDistanceMeters } from '@/lib/maps/googleMaps';
+import { decodePolyline, encodePolyline, locateOnPath, simplifyPath } from '@/lib/maps/polyline';
+import { toDate } from '@/lib/converters';
+import type { GeoPoint, JobRoute, JobStage } from '@/types';
+
+/** Stages in which the technician is travelling to the customer. */
+export const ETA_STAGES: JobStage[] = ['dispatched', 'en_route'];
+
+const OFF_ROUTE_METERS = 150;
+const ROUTE_MAX_AGE_MS = 10 * 60 * 1000;
+/** Minimum gap between provider calls, however often the technician strays. */
+const PROVIDER_MIN_INTERVAL_MS = 30 * 1000;
+const SIMPLIFY_TOLERANCE_METERS = 10;
+const DETOUR_FACTOR = 1.3;
+const AVERAGE_SPEED_MPS = Number(process.env.ETA_AVERAGE_SPEED_KMH ?? 40) / 3.6;
+const RUNNING_LATE_GRACE_MINUTES = 10;
+
+export interface JobEtaResult {
+  etaMinutes: number;
+  route: JobRoute;
+  routeChanged: boolean;
+  promisedArrivalAt: Date;
+  /** True the first time the predicted arrival slips past the promise. */
+  runningLate: boolean;
+}
+
+function estimateRoute(origin: GeoPoint, destination: GeoPoint, now: Date): JobRoute {
+  const distanceMeters = haversineDistanceMeters(origin, destination) * DETOUR_FACTOR;
+  return {
+    polyline:        encodePolyline([origin, destination]),
+    source:          'estimate',
+    origin,
+    destination,
+    distanceMeters:  Math.round(distanceMeters),
+    durationSeconds: Math.round(distanceMeters / AVERAGE_SPEED_MPS),
+    computedAt:      now,
+  };
+}
+
+async function freshRoute(origin: GeoPoint, destination: GeoPoint, now: Date): Promise<JobRoute> {
+  const driving = await fetchDrivingRoute(origin, destination);
+  if (!driving) return estimateRoute(origin, destination, now);
+  return {
+    polyline:        encodePolyline(simplifyPath(decodePolyline(driving.polyline), SIMPLIFY_TOLERANCE_METERS)),
+    source:          'google',
+    origin,
+    destination,
+    distanceMeters:  driving.distanceMeters,
+    durationSeconds: driving.durationSeconds,
+    computedAt:      now,
+  };
+}
+
+/**
+ * Computes the ETA for a job from the technician's latest position.
+ * `job` is the job document data as read by the caller.
+ *
+ * @returns null when the job is not travelling or the booking has no
+ *          geocoded service address.
+ */
+export async function computeJobEta(
+  job: FirebaseFirestore.DocumentData,
+  position: GeoPoint,
+): Promise<JobEtaResult | null> {
+  if (!ETA_STAGES.includes(job.currentStage as JobStage)) return null;
+
+  const now = new Date();
+  const stored = job.route
+    ? { ...(job.route as JobRoute), computedAt: toDate(job.route.computedAt) ?? new Date(0) }
+    : null;
+
+  // 1. Destination — cached on the route after the first fix
+  let destination = stored?.destination ?? null;
+  let scheduledAt: Date | null = null;
+  if (!destination || !job.promisedArrivalAt) {
+    const bookingSnap = await adminDb.collection('bookings').doc(job.bookingId as string).get();
+    const booking = bookingSnap.data();
+    const address = booking?.address as { lat?: number; lng?: number } | null | undefined;
+    if (!destination && address?.lat && address?.lng) destination = { lat: address.lat, lng: address.lng };
+    scheduledAt = toDate(booking?.scheduledAt);
+  }
+  if (!destination) return null;
+
+  // 2. Keep following the stored route, or replace it
+  let route: JobRoute;
+  let remainingMeters: number;
+
+  const age = stored ? now.getTime() - stored.computedAt.getTime() : Infinity;
+  const located = stored?.source === 'google' ? locateOnPath(position, decodePolyline(stored.polyline)) : null;
+  const onRoute = located !== null && located.offPathMeters <= OFF_ROUTE_METERS && age < ROUTE_MAX_AGE_MS;
+
+  if (stored && located && (onRoute || age < PROVIDER_MIN_INTERVAL_MS)) {
+    route = stored;
+    remainingMeters = located.remainingMeters + (onRoute ? 0 : located.offPathMeters);
+  } else if (stored?.source === 'estimate' && age < PROVIDER_MIN_INTERVAL_MS) {
+    route = estimateRoute(position, destination, stored.computedAt);
+    remainingMeters = route.distanceMeters;
+  } else {
+    route = await freshRoute(position, destination, now);
+    remainingMeters = route.distanceMeters;
+  }
+
+  // 3. ETA at the route's average speed
+  const metersPerSecond = route.durationSeconds > 0 ? route.distanceMeters / route.durationSeconds : AVERAGE_SPEED_MPS;
+  const etaMinutes = Math.max(1, Math.ceil(remainingMeters / metersPerSecond / 60));
+  const predictedArrival = new Date(now.getTime() + etaMinutes * 60_000);
+
+  // 4. Lateness against the first promise
+  const promisedArrivalAt = toDate(job.promisedArrivalAt)
+    ?? new Date(Math.max(predictedArrival.getTime(), scheduledAt?.getTime() ?? 0));
+  const runningLate = !job.lateNotifiedAt
+    && predictedArrival.getTime() > promisedArrivalAt.getTime() + RUNNING_LATE_GRACE_MINUTES * 60_000;
+
+  return { etaMinutes, route, routeChanged: route !== stored, promisedArrivalAt, runningLate };
+}
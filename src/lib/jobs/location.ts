@@ -0,0 +1,167 @@
+/**
+ * Technician location updates — server-side only.
+ *
+ * recordTechLocation() is the single write path for job.techLocation — the
+ * Firestore rules leave jobs read-only to clients. Each fix is rejected when
+ * it arrives within MIN_UPDATE_INTERVAL_MS of the previous one (429) or
+ * implies the technician moved faster than MAX_PLAUSIBLE_SPEED_MPS since it
+ * (422 — a spoofed or glitched fix). Otherwise it:
+ *   1. writes techLocation, and a breadcrumb to jobs/{jobId}/track when the
+ *      server-side throttle allows (./track.ts)
+ *   2. recomputes the job's ETA and route (./eta.ts) while the technician is
+ *      travelling, and clears them once they are not
+ *   3. notifies the customer once when the ETA slips past the promised
+ *      arrival ('running_late')
+ *   4. moves an en-route job to 'arrived' (./advanceStage.ts) when an
+ *      accurate fix lands within ARRIVAL_RADIUS_M of the service address
+ *
+ * Called by:
+ *  - POST /api/jobs/location
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { haversineDistanceMeters } from '@/lib/maps/googleMaps';
+import { notifyUser } from '@/lib/notifications/notify';
+import { advanceJobStage } from './advanceStage';
+import { computeJobEta } from './eta';
+import { trackPointFor } from './track';
+import { toDate } from '@/lib/converters';
+import type { GeoPoint, JobStage } from '@/types';
+
+/** Geofence around booking.address that counts as arrival. */
+const ARRIVAL_RADIUS_M = Number(process.env.ARRIVAL_GEOFENCE_METERS ?? 75);
+
+/** Server-side rate limit; the client sends at most one fix every few seconds. */
+const MIN_UPDATE_INTERVAL_MS = 2 * 1000;
+/**
+ * ~250 km/h. Jumps up to JUMP_SLACK_M plus the reported accuracy are allowed
+ * regardless (GPS re-acquiring); the accuracy share is capped at
+ * MAX_ACCURACY_SLACK_M so a client cannot report its way past the check.
+ */
+const MAX_PLAUSIBLE_SPEED_MPS = 70;
+const JUMP_SLACK_M = 500;
+const MAX_ACCURACY_SLACK_M = 500;
+
+export class JobLocationError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'JobLocationError';
+  }
+}
+
+export interface RecordTechLocationParams {
+  jobId: string;
+  technicianId: string;
+  position: GeoPoint;
+  /** Reported GPS accuracy radius; fixes less precise than the geofence never trigger arrival. */
+  accuracyMeters?: number | null;
+}
+
+export interface RecordTechLocationResult {
+  etaMinutes: number | null;
+  /** The job's stage after this update — 'arrived' when the geofence fired. */
+  currentStage: JobStage;
+}
+
+/**
+ * Stores the technician's position and the ETA derived from it.
+ *
+ * @throws JobLocationError 404 / 403 when the job is missing or not the
+ *         caller's; 409 once the job is complete or cancelled; 429 when
+ *         sent too often; 422 for an implausible jump.
+ */
+export async function recordTechLocation({
+  jobId,
+  technicianId,
+  position,
+  accuracyMeters = null,
+}: RecordTechLocationParams): Promise<RecordTechLocationResult> {
+  const jobRef = adminDb.collection('jobs').doc(jobId);
+
+  // 1. Load + authorize
+  const jobSnap = await jobRef.get();
+  if (!jobSnap.exists) throw new JobLocationError('Job not found', 404);
+  const job = jobSnap.data()!;
+  if (job.technicianId !== technicianId) throw new JobLocationError('Forbidden — not your job', 403);
+  if (job.currentStage === 'complete' || job.trackingEndedAt) {
+    throw new JobLocationError('Location sharing has ended for this job', 409);
+  }
+
+  // 2. Rate limit + plausibility against the previous fix
+  const now = new Date();
+  const previous = job.techLocation as { lat: number; lng: number; updatedAt: unknown } | null | undefined;
+  const previousAt = toDate(previous?.updatedAt);
+  if (previous && previousAt) {
+    const elapsedMs = now.getTime() - previousAt.getTime();
+    if (elapsedMs < MIN_UPDATE_INTERVAL_MS) {
+      throw new JobLocationError('Location updates are too frequent', 429);
+    }
+    const moved = haversineDistanceMeters(previous, position);
+    const slack = JUMP_SLACK_M + Math.min(accuracyMeters ?? 0, MAX_ACCURACY_SLACK_M);
+    if (moved > slack && moved / (elapsedMs / 1000) > MAX_PLAUSIBLE_SPEED_MPS) {
+      console.warn(`[jobs/location] job ${jobId}: rejected ${Math.round(moved)} m jump in ${Math.round(elapsedMs / 1000)} s`);
+      throw new JobLocationError('Location is not plausible', 422);
+    }
+  }
+
+  // 3. ETA + breadcrumb
+  const eta = await computeJobEta(job, position);
+  const trackPoint = trackPointFor(job, position, accuracyMeters, now);
+
+  // 4. Write location, ETA and breadcrumb together
+  const batch = adminDb.batch();
+  batch.update(jobRef, {
+    techLocation: { lat: position.lat, lng: position.lng, updatedAt: FieldValue.serverTimestamp() },
+    ...(trackPoint ? { lastTrackPoint: { lat: trackPoint.lat, lng: trackPoint.lng, recordedAt: now } } : {}),
+    ...(eta
+      ? {
+          etaMinutes:   eta.etaMinutes,
+          etaUpdatedAt: FieldValue.serverTimestamp(),
+          ...(eta.routeChanged ? { route: eta.route } : {}),
+          ...(job.promisedArrivalAt ? {} : { promisedArrivalAt: eta.promisedArrivalAt }),
+          ...(eta.runningLate ? { lateNotifiedAt: FieldValue.serverTimestamp() } : {}),
+        }
+      : job.etaMinutes != null
+      ? { etaMinutes: null, etaUpdatedAt: FieldValue.serverTimestamp() }
+      : {}),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  if (trackPoint) batch.set(jobRef.collection('track').doc(), trackPoint);
+  await batch.commit();
+
+  // 5. Running late — once per job
+  if (eta?.runningLate) {
+    console.log(`[jobs/location] job ${jobId} running late — ETA ${eta.etaMinutes} min`);
+    notifyUser(job.customerId as string, {
+      type:             'running_late',
+      title:            'Your Technician Is Running Late',
+      body:             `Your technician is running behind and is now about ${eta.etaMinutes} min away.`,
+      link:             `/bookings/${job.bookingId}`,
+      relatedBookingId: job.bookingId as string,
+      relatedJobId:     jobId,
+    }).catch((err) => console.error('[jobs/location] notification error:', err));
+  }
+
+  // 6. Geofenced arrival
+  let currentStage = job.currentStage as JobStage;
+  const destination = eta?.route.destination ?? null;
+  if (
+    currentStage === 'en_route'
+    && destination
+    && (accuracyMeters === null || accuracyMeters <= ARRIVAL_RADIUS_M)
+    && haversineDistanceMeters(position, destination) <= ARRIVAL_RADIUS_M
+  ) {
+    try {
+      await advanceJobStage({ jobId, stage: 'arrived', technicianId, note: 'Arrival detected by location' });
+      currentStage = 'arrived';
+    } catch (err) {
+      console.error('[jobs/location] auto-arrival error:', err);
+    }
+  }
+
+  return { etaMinutes: currentStage === 'arrived' ? null : eta?.etaMinutes ?? null, currentStage };
+}
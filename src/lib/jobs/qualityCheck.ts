@@ -0,0 +1,171 @@
+/**
+ * On-site quality check — server-side only.
+ *
+ * The technician's checklist, parts and photos are kept on the job while the
+ * work is underway and copied into serviceHistory/{bookingId} on completion
+ * (lib/bookings/completion.ts):
+ *   - saveQualityCheck() ticks checklist items (lib/jobs/qualityChecklist.ts)
+ *     and replaces the job's partsUsed
+ *   - addJobPhoto() records a before/after photo the client has already
+ *     uploaded to Firebase Storage under jobs/{jobId}/photos/
+ *   - checklistOf() is what completion checks before capturing payment
+ *
+ * Called by:
+ *  - POST /api/jobs/quality-check
+ *  - POST /api/jobs/photos
+ *  - lib/bookings/completion.ts   (checklistOf)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { buildChecklist } from './qualityChecklist';
+import { toDate } from '@/lib/converters';
+import type { ChecklistItem, JobPhoto, JobPhotoTag, JobStage, PartRecord, ServiceCategory } from '@/types';
+
+/** Stages in which the technician is on-site and may record the quality check. */
+export const ON_SITE_STAGES: JobStage[] = ['arrived', 'in_progress', 'quality_check'];
+const MAX_PHOTOS = 20;
+const MAX_PARTS = 30;
+
+export class QualityCheckError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'QualityCheckError';
+  }
+}
+
+export interface PartInput {
+  name: string;
+  partNumber?: string | null;
+  brand?: string | null;
+  warrantyExpires?: Date | null;
+}
+
+/** The job's checklist as stored, or a fresh one for its service category. */
+export function checklistOf(job: FirebaseFirestore.DocumentData, category: ServiceCategory): ChecklistItem[] {
+  const stored = job.checklist as ChecklistItem[] | null | undefined;
+  if (!stored) return buildChecklist(category);
+  return stored.map((item) => ({ ...item, checkedAt: toDate(item.checkedAt) }));
+}
+
+/** Loads the caller's on-site job and its booking's service category. */
+async function loadOnSiteJob(tx: Transaction, jobId: string, technicianId: string) {
+  const jobRef = adminDb.collection('jobs').doc(jobId);
+  const jobSnap = await tx.get(jobRef);
+  if (!jobSnap.exists) throw new QualityCheckError('Job not found', 404);
+  const job = jobSnap.data()!;
+  if (job.technicianId !== technicianId) throw new QualityCheckError('Forbidden — not your job', 403);
+  if (!ON_SITE_STAGES.includes(job.currentStage as JobStage)) {
+    throw new QualityCheckError('The quality check can only be recorded on-site', 409);
+  }
+  const bookingSnap = await tx.get(adminDb.collection('bookings').doc(job.bookingId as string));
+  const category = (bookingSnap.data()?.serviceSnapshot?.category ?? 'mechanic') as ServiceCategory;
+  return { jobRef, job, category };
+}
+
+export interface SaveQualityCheckParams {
+  jobId: string;
+  technicianId: string;
+  /** The complete set of ticked item IDs; omitted leaves the checklist as is. */
+  checkedItemIds?: string[];
+  /** Replaces job.partsUsed; omitted leaves it as is. */
+  partsUsed?: PartInput[];
+}
+
+/**
+ * Saves checklist ticks and/or the parts list on the caller's job.
+ *
+ * @throws QualityCheckError 404 / 403 / 409 when the job cannot be updated;
+ *         400 for unknown checklist items or too many parts.
+ */
+export async function saveQualityCheck({
+  jobId,
+  technicianId,
+  checkedItemIds,
+  partsUsed,
+}: SaveQualityCheckParams): Promise<{ checklist: ChecklistItem[]; partsUsed: PartRecord[] }> {
+  // Read and write in one transaction so concurrent saves do not overwrite
+  // each other's changes
+  return adminDb.runTransaction(async (tx) => {
+    const { jobRef, job, category } = await loadOnSiteJob(tx, jobId, technicianId);
+    const now = new Date();
+
+    let checklist = checklistOf(job, category);
+    if (checkedItemIds) {
+      const ticked = new Set(checkedItemIds);
+      const unknown = checkedItemIds.filter((id) => !checklist.some((item) => item.itemId === id));
+      if (unknown.length > 0) throw new QualityCheckError(`Unknown checklist item: ${unknown.join(', ')}`, 400);
+      checklist = checklist.map((item) => {
+        const checked = ticked.has(item.itemId);
+        return { ...item, checked, checkedAt: checked ? item.checkedAt ?? now : null };
+      });
+    }
+
+    if (partsUsed && partsUsed.length > MAX_PARTS) {
+      throw new QualityCheckError(`At most ${MAX_PARTS} parts can be recorded`, 400);
+    }
+    const parts: PartRecord[] = partsUsed
+      ? partsUsed.map((p) => ({
+          name:            p.name.trim(),
+          partNumber:      p.partNumber?.trim() || null,
+          brand:           p.brand?.trim() || null,
+          warrantyExpires: p.warrantyExpires ?? null,
+        }))
+      : ((job.partsUsed as PartRecord[] | undefined) ?? []).map((p) => ({ ...p, warrantyExpires: toDate(p.warrantyExpires) }));
+
+    tx.update(jobRef, {
+      ...(checkedItemIds ? { checklist } : {}),
+      ...(partsUsed ? { partsUsed: parts } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { checklist, partsUsed: parts };
+  });
+}
+
+export interface AddJobPhotoParams {
+  jobId: string;
+  technicianId: string;
+  tag: JobPhotoTag;
+  storagePath: string;
+  url: string;
+}
+
+/**
+ * Records a photo already uploaded to jobs/{jobId}/photos/ in Storage.
+ * Re-sending the same storagePath returns the photo already recorded.
+ *
+ * @throws QualityCheckError 404 / 403 / 409 when the job cannot be updated;
+ *         400 when the path or URL is not this job's upload, or the job is
+ *         at MAX_PHOTOS.
+ */
+export async function addJobPhoto({ jobId, technicianId, tag, storagePath, url }: AddJobPhotoParams): Promise<JobPhoto> {
+  if (!storagePath.startsWith(`jobs/${jobId}/photos/`) || storagePath.includes('..')) {
+    throw new QualityCheckError('Photo must be uploaded to this job', 400);
+  }
+  if (!url.startsWith('https://firebasestorage.googleapis.com/') || !url.includes(encodeURIComponent(storagePath))) {
+    throw new QualityCheckError('Photo URL does not match its storage path', 400);
+  }
+
+  // In a transaction so concurrent uploads cannot go past MAX_PHOTOS
+  return adminDb.runTransaction(async (tx) => {
+    const { jobRef, job } = await loadOnSiteJob(tx, jobId, technicianId);
+    const photos = (job.photos as JobPhoto[] | undefined) ?? [];
+    const existing = photos.find((p) => p.storagePath === storagePath);
+    if (existing) return { ...existing, uploadedAt: toDate(existing.uploadedAt) ?? new Date() };
+    if (photos.length >= MAX_PHOTOS) {
+      throw new QualityCheckError(`At most ${MAX_PHOTOS} photos can be attached to a job`, 400);
+    }
+
+    // jobs/{jobId}/photos/{photoId}.{ext} — the client names the upload
+    const photoId = storagePath.split('/').pop()!.replace(/\.[^.]+$/, '');
+    const photo: JobPhoto = { photoId, url, storagePath, tag, uploadedAt: new Date() };
+    tx.update(jobRef, {
+      photos:    FieldValue.arrayUnion(photo),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return photo;
+  });
+}
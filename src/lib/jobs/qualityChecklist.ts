@@ -0,0 +1,62 @@
+/**
+ * Quality-check checklists, per service category.
+ *
+ * Each category in the services catalog (scripts/seed-services.js) has a
+ * fixed list of checks the technician works through on-site. Required items
+ * must be ticked before the job can be completed — enforced server-side by
+ * lib/bookings/completion.ts and mirrored in the active-job UI.
+ *
+ * Item IDs are stable: they are stored on the job (job.checklist) and copied
+ * into the service history record, so reword labels freely but never reuse
+ * an ID for a different check.
+ *
+ * Pure module — no Firebase imports. Safe on both server and client.
+ */
+
+import type { ChecklistItem, ServiceCategory } from '@/types';
+
+interface ChecklistItemDefinition {
+  itemId: string;
+  label: string;
+  required: boolean;
+}
+
+const COMMON_ITEMS: ChecklistItemDefinition[] = [
+  { itemId: 'walkaround',  label: 'Walk-around with the customer — no new damage', required: true },
+  { itemId: 'area_clean',  label: 'Work area cleaned up, tools and waste removed',  required: true },
+];
+
+export const QUALITY_CHECKLISTS: Record<ServiceCategory, ChecklistItemDefinition[]> = {
+  mechanic: [
+    { itemId: 'torque',       label: 'Fasteners and drain plugs torqued to spec',        required: true },
+    { itemId: 'fluid_levels', label: 'Fluid levels checked and topped up',               required: true },
+    { itemId: 'no_leaks',     label: 'Engine run — no leaks, warning lights or noises',  required: true },
+    { itemId: 'reset_lights', label: 'Service reminder / maintenance light reset',       required: false },
+    { itemId: 'test_drive',   label: 'Short test drive (brakes, steering, handling)',    required: false },
+  ],
+  detailing: [
+    { itemId: 'exterior',     label: 'Exterior inspected in daylight — no streaks or residue', required: true },
+    { itemId: 'interior',     label: 'Interior surfaces, glass and mats finished',             required: true },
+    { itemId: 'personal',     label: "Customer's belongings returned to the vehicle",          required: true },
+    { itemId: 'tires',        label: 'Tires dressed and wheels cleaned',                       required: false },
+  ],
+  diagnostic: [
+    { itemId: 'codes_read',   label: 'Fault codes read and recorded',                     required: true },
+    { itemId: 'findings',     label: 'Findings and recommendations explained to customer', required: true },
+    { itemId: 'codes_left',   label: 'Codes left uncleared unless the repair was made',   required: false },
+  ],
+};
+
+/** A fresh, unticked checklist for a service category. */
+export function buildChecklist(category: ServiceCategory): ChecklistItem[] {
+  return [...(QUALITY_CHECKLISTS[category] ?? []), ...COMMON_ITEMS].map((item) => ({
+    ...item,
+    checked:   false,
+    checkedAt: null,
+  }));
+}
+
+/** Labels of required items still unticked — empty when the checklist is complete. */
+export function missingChecklistItems(checklist: ChecklistItem[]): string[] {
+  return checklist.filter((item) => item.required && !item.checked).map((item) => item.label);
+}
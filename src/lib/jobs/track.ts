@@ -0,0 +1,111 @@
+/**
+ * Job location breadcrumbs — server-side only.
+ *
+ * The technician's drive is kept as a trail of points in
+ * jobs/{jobId}/track. The client already throttles its GPS updates
+ * (GPS_MIN_DISTANCE_M / GPS_MIN_INTERVAL_MS in the active-job page); on top
+ * of that a point is only kept once the technician has moved
+ * TRACK_MIN_DISTANCE_M or TRACK_MIN_INTERVAL_MS has passed since the last one
+ * (job.lastTrackPoint), so a parked phone does not fill the collection.
+ *
+ * When the booking completes or is cancelled (the 'purge_location'
+ * transition effect) purgeJobTrack() deletes the trail and clears the job's
+ * live position and route; later location updates for the job are refused.
+ * Before the live position is cleared a coarse copy of it (LAST_KNOWN_PRECISION
+ * decimal places, roughly 1 km) is kept on users/{technicianId}.lastKnownLocation
+ * so auto-dispatch can still rank the technician by distance.
+ *
+ * Called by:
+ *  - lib/jobs/location.ts               (trackPointFor on every fix)
+ *  - lib/bookings/transitionBooking.ts  (purgeJobTrack)
+ *  - lib/dispatch/autoDispatch.ts       (reads users.lastKnownLocation)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { haversineDistanceMeters } from '@/lib/maps/googleMaps';
+import { toDate } from '@/lib/converters';
+import type { GeoPoint, JobStage, JobTrackPoint } from '@/types';
+
+const TRACK_MIN_DISTANCE_M = 50;
+const TRACK_MIN_INTERVAL_MS = 60 * 1000;
+const PURGE_BATCH_SIZE = 400;
+const LAST_KNOWN_PRECISION = 2;
+
+/**
+ * The breadcrumb to store for this fix, or null when it is too close in
+ * space and time to the job's last one.
+ */
+export function trackPointFor(
+  job: FirebaseFirestore.DocumentData,
+  position: GeoPoint,
+  accuracyMeters: number | null,
+  now: Date,
+): Omit<JobTrackPoint, 'pointId'> | null {
+  const last = job.lastTrackPoint as { lat: number; lng: number; recordedAt: unknown } | null | undefined;
+  if (last) {
+    const moved = haversineDistanceMeters(last, position);
+    const elapsed = now.getTime() - (toDate(last.recordedAt)?.getTime() ?? 0);
+    if (moved < TRACK_MIN_DISTANCE_M && elapsed < TRACK_MIN_INTERVAL_MS) return null;
+  }
+  return {
+    lat:            position.lat,
+    lng:            position.lng,
+    accuracyMeters,
+    stage:          job.currentStage as JobStage,
+    recordedAt:     now,
+  };
+}
+
+function coarsen(value: number): number {
+  const factor = 10 ** LAST_KNOWN_PRECISION;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Deletes a job's breadcrumbs and clears its live position, route and ETA,
+ * keeping a coarse last-known position on the technician's user doc.
+ *
+ * @returns The number of breadcrumbs deleted.
+ */
+export async function purgeJobTrack(jobId: string): Promise<number> {
+  const jobRef = adminDb.collection('jobs').doc(jobId);
+
+  const job = (await jobRef.get()).data();
+  const loc = job?.techLocation as GeoPoint | null | undefined;
+
+  // Stop new points first so a ping in flight cannot re-create the trail
+  const stop = adminDb.batch();
+  stop.update(jobRef, {
+    trackingEndedAt: FieldValue.serverTimestamp(),
+    techLocation:    null,
+    lastTrackPoint:  null,
+    route:           null,
+    etaMinutes:      null,
+    updatedAt:       FieldValue.serverTimestamp(),
+  });
+  if (job?.technicianId && loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
+    stop.update(adminDb.collection('users').doc(job.technicianId as string), {
+      lastKnownLocation:   { lat: coarsen(loc.lat), lng: coarsen(loc.lng) },
+      lastKnownLocationAt: FieldValue.serverTimestamp(),
+    });
+  }
+  await stop.commit();
+
+  let deleted = 0;
+  let snap: FirebaseFirestore.QuerySnapshot;
+  do {
+    snap = await jobRef.collection('track').limit(PURGE_BATCH_SIZE).get();
+    if (snap.empty) break;
+    const batch = adminDb.batch();
+    snap.docs.forEach((d) => batch.delete(d.ref));
+    await batch.commit();
+    deleted += snap.size;
+  } while (snap.size === PURGE_BATCH_SIZE);
+
+  console.log(`[track] purged ${deleted} breadcrumbs for job ${jobId}`);
+  return deleted;
+}
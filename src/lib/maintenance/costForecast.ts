@@ -0,0 +1,206 @@
+/**
+ * Maintenance cost forecast — server-side only.
+ *
+ * Prices a vehicle's upcoming maintenance from the live services catalog and
+ * nets out what its active subscription(s) cover:
+ *   1. each schedule is priced at the cheapest active service that satisfies
+ *      it (lib/maintenance/serviceTypeMapping.ts)
+ *   2. occurrences over the next 12 months are projected from the schedule's
+ *      projected due date, then every intervalDays / (intervalMiles ÷ daily
+ *      miles), whichever comes first
+ *   3. occurrences are walked in date order; each one a subscription
+ *      entitlement still has uses for over the year costs nothing
+ *   4. the 12-month total is spread evenly into a monthly figure
+ *
+ * Subscription fees themselves are billed separately and are not included.
+ *
+ * Called by:
+ *  - lib/maintenance/recompute.ts  (estimatedCostCents, costForecastCentsMonthly)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { entitlementCovers, usesThisPeriod } from '@/lib/subscriptions/entitlements';
+import { resolveMaintenanceTypes } from './serviceTypeMapping';
+import type {
+  MaintenanceServiceType,
+  ServiceCategory,
+  SubscriptionEntitlement,
+  SubscriptionUsageRecord,
+} from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HORIZON_DAYS = 365;
+
+interface CatalogService {
+  serviceId: string;
+  name: string;
+  category: ServiceCategory;
+  basePrice: number;
+  maintenanceTypes: MaintenanceServiceType[];
+}
+
+/** Entitlement uses still available over the forecast horizon. */
+interface EntitlementAllowance {
+  entitlement: SubscriptionEntitlement;
+  remaining: number;
+}
+
+export interface CostContext {
+  services: CatalogService[];
+  allowances: EntitlementAllowance[];
+}
+
+export interface CostForecastItem {
+  scheduleId: string;
+  serviceType: MaintenanceServiceType;
+  customLabel: string | null;
+  intervalDays: number | null;
+  intervalMiles: number | null;
+  projectedDueDate: Date | null;
+}
+
+export interface CostForecast {
+  /** Net price of each schedule's next occurrence; null when no catalog service matches. */
+  itemCents: Map<string, number | null>;
+  /** Net 12-month total ÷ 12; null when nothing could be priced. */
+  monthlyCents: number | null;
+}
+
+/**
+ * Loads the active services catalog and the entitlements of every active
+ * subscription on the vehicle.
+ */
+export async function loadCostContext(vehicleId: string): Promise<CostContext> {
+  const [servicesSnap, subsSnap] = await Promise.all([
+    adminDb.collection('services').where('isActive', '==', true).get(),
+    adminDb.collection('subscriptions')
+      .where('vehicleId', '==', vehicleId)
+      .where('status', '==', 'active')
+      .get(),
+  ]);
+
+  const services: CatalogService[] = servicesSnap.docs.map((d) => {
+    const data = d.data();
+    return {
+      serviceId:        d.id,
+      name:             data.name as string,
+      category:         data.category as ServiceCategory,
+      basePrice:        data.basePrice as number,
+      maintenanceTypes: resolveMaintenanceTypes({
+        name:             data.name as string,
+        maintenanceTypes: data.maintenanceTypes as MaintenanceServiceType[] | null | undefined,
+      }),
+    };
+  });
+
+  const planIds = Array.from(new Set(subsSnap.docs.map((d) => d.data().planId as string)));
+  const planSnaps = planIds.length
+    ? await adminDb.getAll(...planIds.map((id) => adminDb.collection('subscriptionPlans').doc(id)))
+    : [];
+  const plans = new Map(planSnaps.filter((s) => s.exists).map((s) => [s.id, s.data()!]));
+
+  const allowances: EntitlementAllowance[] = [];
+  for (const subDoc of subsSnap.docs) {
+    const sub = subDoc.data();
+    const entitlements = (plans.get(sub.planId as string)?.entitlements ?? []) as SubscriptionEntitlement[];
+    const usage = (sub.usageThisPeriod ?? []) as SubscriptionUsageRecord[];
+
+    for (const entitlement of entitlements) {
+      const periods = HORIZON_DAYS / Math.max(1, entitlement.periodDays);
+      const remaining = Math.max(
+        0,
+        Math.floor(entitlement.usagesPerPeriod * periods) - usesThisPeriod(entitlement, usage)
+      );
+      allowances.push({ entitlement, remaining });
+    }
+  }
+
+  return { services, allowances };
+}
+
+/** Cheapest active service that satisfies the schedule, or null. */
+function priceSchedule(item: CostForecastItem, services: CatalogService[]): CatalogService | null {
+  const label = item.customLabel?.trim().toLowerCase();
+  const matches = services.filter((s) =>
+    item.serviceType === 'custom'
+      ? !!label && s.name.toLowerCase().includes(label)
+      : s.maintenanceTypes.includes(item.serviceType)
+  );
+  if (matches.length === 0) return null;
+  return matches.reduce((cheapest, s) => (s.basePrice < cheapest.basePrice ? s : cheapest));
+}
+
+/**
+ * Dates the schedule is expected to come due within the horizon. An overdue
+ * schedule is counted from now.
+ */
+function projectOccurrences(item: CostForecastItem, dailyMiles: number | null, now: Date): Date[] {
+  if (!item.projectedDueDate) return [];
+
+  const intervals: number[] = [];
+  if (item.intervalDays) intervals.push(item.intervalDays);
+  if (item.intervalMiles && dailyMiles && dailyMiles > 0) intervals.push(item.intervalMiles / dailyMiles);
+  const intervalDays = intervals.length ? Math.min(...intervals) : null;
+
+  const horizonEnd = now.getTime() + HORIZON_DAYS * DAY_MS;
+  const dates: Date[] = [];
+  let next = Math.max(item.projectedDueDate.getTime(), now.getTime());
+  while (next <= horizonEnd) {
+    dates.push(new Date(next));
+    if (!intervalDays) break;
+    next += intervalDays * DAY_MS;
+  }
+  return dates;
+}
+
+/**
+ * Prices each schedule's next occurrence and the 12-month monthly average,
+ * net of subscription entitlements.
+ */
+export function forecastCosts(
+  items: CostForecastItem[],
+  context: CostContext,
+  { dailyMiles, now = new Date() }: { dailyMiles: number | null; now?: Date }
+): CostForecast {
+  const allowances = context.allowances.map((a) => ({ ...a }));
+  const itemCents = new Map<string, number | null>();
+
+  const occurrences: { scheduleId: string; date: Date; service: CatalogService }[] = [];
+  for (const item of items) {
+    const service = priceSchedule(item, context.services);
+    itemCents.set(item.scheduleId, service ? service.basePrice : null);
+    if (!service) continue;
+    projectOccurrences(item, dailyMiles, now).forEach((date) =>
+      occurrences.push({ scheduleId: item.scheduleId, date, service })
+    );
+  }
+
+  // Earliest occurrences consume entitlements first
+  occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let annualCents = 0;
+  const priced = new Set<string>();
+  for (const occurrence of occurrences) {
+    const allowance = allowances.find(
+      (a) => a.remaining > 0 && entitlementCovers(a.entitlement, occurrence.service)
+    );
+    const cost = allowance ? 0 : occurrence.service.basePrice;
+    if (allowance) allowance.remaining--;
+    annualCents += cost;
+
+    // The first occurrence of each schedule is its "next" service
+    if (!priced.has(occurrence.scheduleId)) {
+      priced.add(occurrence.scheduleId);
+      itemCents.set(occurrence.scheduleId, cost);
+    }
+  }
+
+  const anyPriced = Array.from(itemCents.values()).some((c) => c !== null);
+  return {
+    itemCents,
+    monthlyCents: anyPriced ? Math.round(annualCents / 12) : null,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Factory maintenance schedule — server-side only.
+ *
+ * generateFactorySchedule() builds a baseline OEM-style schedule from the
+ * vehicle's year and NHTSA fuel type. adoptFactorySchedule() turns those
+ * items into maintenanceSchedules docs so reminders and health forecasts run
+ * without the owner recreating each interval by hand:
+ *   - each item is mapped to a MaintenanceServiceType by name
+ *     (lib/maintenance/serviceTypeMapping.ts); unmapped items are skipped
+ *   - types the vehicle already has a schedule for (active or not) are skipped,
+ *     mirroring maintenanceService.findScheduleByType()
+ *   - anchors come from the latest serviceHistory record whose title maps to
+ *     the same type; without one the schedule starts unanchored
+ *   - the vehicle's health snapshot is recomputed afterwards
+ *
+ * Called by:
+ *  - GET  /api/vehicles/factory-schedule
+ *  - POST /api/vehicles/factory-schedule/adopt
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { recomputeVehicleHealth } from './recompute';
+import { matchServiceTitle } from './serviceTypeMapping';
+import { toDate } from '@/lib/converters';
+import type { FactoryMaintenanceItem, MaintenanceServiceType } from '@/types';
+
+/** Average month length — converts intervalMonths to MaintenanceSchedule.intervalDays. */
+const DAYS_PER_MONTH = 30.44;
+
+/** Reminder defaults for adopted schedules (same as lib/maintenance/recompute.ts). */
+const DEFAULT_LEAD_DAYS = 7;
+const DEFAULT_LEAD_MILES = 500;
+
+export interface AdoptFactoryScheduleResult {
+  created: { scheduleId: string; serviceType: MaintenanceServiceType; service: string; anchored: boolean }[];
+  skipped: { service: string; reason: 'unmapped' | 'exists' | 'duplicate' }[];
+}
+
+// ── Schedule generator ────────────────────────────────────────────────────────
+
+/**
+ * Generates a baseline factory maintenance schedule from vehicle metadata.
+ * Adjusts intervals based on model year and NHTSA fuel type (electric/hybrid).
+ */
+export function generateFactorySchedule(
+  year: number,
+  nhtsaDecoded?: Record<string, string> | null
+): FactoryMaintenanceItem[] {
+  const fuelRaw = (nhtsaDecoded?.['Fuel Type - Primary'] ?? '').toLowerCase();
+  const isElectric = fuelRaw.includes('electric') && !fuelRaw.includes('hybrid');
+  const isHybrid   = fuelRaw.includes('hybrid');
+  const isNewish   = year >= 2015;
+  const isSyntheticEra = year >= 2010;
+
+  const items: FactoryMaintenanceItem[] = [];
+
+  // Engine oil & filter (ICE + hybrid only)
+  if (!isElectric) {
+    items.push({
+      service: 'Engine Oil & Filter',
+      intervalMiles:  isNewish ? 10000 : isSyntheticEra ? 7500 : 5000,
+      intervalMonths: isNewish ? 12    : 6,
+      notes: isNewish ? 'Full synthetic oil recommended' : null,
+    });
+  }
+
+  // Tire rotation + pressure check (all vehicles)
+  items.push({
+    service: 'Tire Rotation & Pressure Check',
+    intervalMiles:  7500,
+    intervalMonths: 6,
+    notes: null,
+  });
+
+  // Engine air filter (ICE + hybrid only)
+  if (!isElectric) {
+    items.push({
+      service: 'Engine Air Filter',
+      intervalMiles:  isNewish ? 30000 : 20000,
+      intervalMonths: isNewish ? 36    : 24,
+      notes: 'Replace sooner in dusty or high-pollution areas',
+    });
+  }
+
+  // Cabin air filter (all vehicles)
+  items.push({
+    service: 'Cabin Air Filter',
+    intervalMiles:  15000,
+    intervalMonths: 12,
+    notes: null,
+  });
+
+  // Brake inspection (all vehicles)
+  items.push({
+    service: 'Brake Inspection',
+    intervalMiles:  20000,
+    intervalMonths: 24,
+    notes: 'Replace pads when < 3 mm remaining',
+  });
+
+  // ICE-only services
+  if (!isElectric && !isHybrid) {
+    // Coolant flush
+    items.push({
+      service: 'Engine Coolant Flush',
+      intervalMiles:  30000,
+      intervalMonths: 36,
+      notes: null,
+    });
+
+    // Transmission fluid
+    items.push({
+      service: 'Transmission Fluid',
+      intervalMiles:  isNewish ? 60000 : 45000,
+      intervalMonths: isNewish ? 72    : 60,
+      notes: "Check owner's manual for CVT-specific interval",
+    });
+
+    // Spark plugs
+    items.push({
+      service: 'Spark Plugs',
+      intervalMiles:  isNewish ? 100000 : 30000,
+      intervalMonths: isNewish ? 120    : 36,
+      notes: isNewish
+        ? 'Iridium/platinum — extended life'
+        : 'Replace at interval or if misfiring',
+    });
+  }
+
+  // Wiper blades (all vehicles)
+  items.push({
+    service: 'Wiper Blades',
+    intervalMiles:  12000,
+    intervalMonths: 12,
+    notes: 'Replace when streaking or skipping',
+  });
+
+  return items;
+}
+
+// ── Adoption ──────────────────────────────────────────────────────────────────
+
+/**
+ * Creates maintenanceSchedules for every factory item the vehicle does not
+ * already track. Runs in a transaction so a double-tap cannot create
+ * duplicates.
+ *
+ * @param vehicleId - The Firestore document ID of the vehicle.
+ * @throws If the vehicle document does not exist.
+ */
+export async function adoptFactorySchedule(vehicleId: string): Promise<AdoptFactoryScheduleResult> {
+  const vehicleRef = adminDb.collection('vehicles').doc(vehicleId);
+  const schedulesQuery = adminDb.collection('maintenanceSchedules').where('vehicleId', '==', vehicleId);
+
+  // Latest completed service per maintenance type — anchors for the new schedules
+  const historySnap = await adminDb.collection('serviceHistory').where('vehicleId', '==', vehicleId).get();
+  const anchors = new Map<MaintenanceServiceType, { date: Date; mileage: number | null }>();
+  for (const d of historySnap.docs) {
+    const record = d.data();
+    const date = toDate(record.date);
+    if (!date || !record.serviceTitle) continue;
+    for (const type of matchServiceTitle(record.serviceTitle as string)) {
+      const current = anchors.get(type);
+      if (!current || date > current.date) {
+        anchors.set(type, {
+          date,
+          mileage: typeof record.mileageAtService === 'number' ? record.mileageAtService : null,
+        });
+      }
+    }
+  }
+
+  const result = await adminDb.runTransaction(async (tx) => {
+    // Reads
+    const [vehicleSnap, existingSnap] = await Promise.all([tx.get(vehicleRef), tx.get(schedulesQuery)]);
+    if (!vehicleSnap.exists) {
+      throw new Error(`adoptFactorySchedule: vehicle not found — ${vehicleId}`);
+    }
+    const vehicle = vehicleSnap.data()!;
+    const items: FactoryMaintenanceItem[] =
+      Array.isArray(vehicle.factorySchedule) && vehicle.factorySchedule.length > 0
+        ? vehicle.factorySchedule
+        : generateFactorySchedule(vehicle.year ?? 0, vehicle.nhtsaDecoded ?? null);
+
+    const existingTypes = new Set(existingSnap.docs.map((d) => d.data().serviceType as MaintenanceServiceType));
+    const outcome: AdoptFactoryScheduleResult = { created: [], skipped: [] };
+    const adoptedTypes = new Set<MaintenanceServiceType>();
+
+    // Writes
+    for (const item of items) {
+      const serviceType = matchServiceTitle(item.service)[0];
+      if (!serviceType) {
+        outcome.skipped.push({ service: item.service, reason: 'unmapped' });
+        continue;
+      }
+      if (existingTypes.has(serviceType)) {
+        outcome.skipped.push({ service: item.service, reason: 'exists' });
+        continue;
+      }
+      if (adoptedTypes.has(serviceType)) {
+        outcome.skipped.push({ service: item.service, reason: 'duplicate' });
+        continue;
+      }
+      adoptedTypes.add(serviceType);
+
+      const anchor = anchors.get(serviceType) ?? null;
+      const ref = adminDb.collection('maintenanceSchedules').doc();
+      tx.set(ref, {
+        vehicleId,
+        ownerId:            vehicle.ownerId,
+        serviceType,
+        customLabel:        null,
+        intervalMiles:      item.intervalMiles > 0 ? item.intervalMiles : null,
+        intervalDays:       item.intervalMonths > 0 ? Math.round(item.intervalMonths * DAYS_PER_MONTH) : null,
+        lastServiceDate:    anchor?.date ?? null,
+        lastServiceMileage: anchor?.mileage ?? null,
+        nextDueDate:        null,
+        nextDueMileage:     null,
+        reminderLeadDays:   DEFAULT_LEAD_DAYS,
+        reminderLeadMiles:  DEFAULT_LEAD_MILES,
+        reminderSentAt:     null,
+        isActive:           true,
+        createdAt:          FieldValue.serverTimestamp(),
+      });
+      outcome.created.push({ scheduleId: ref.id, serviceType, service: item.service, anchored: anchor !== null });
+    }
+
+    return outcome;
+  });
+
+  // nextDueDate / nextDueMileage for the new schedules
+  if (result.created.length > 0) {
+    await recomputeVehicleHealth(vehicleId);
+  }
+
+  return result;
+}
@@ -0,0 +1,140 @@
+/**
+ * Mileage projection model.
+ *
+ * Most owners never update their odometer, so vehicle.mileage goes stale and
+ * mileage-based schedules never reach "soon". This module learns a vehicle's
+ * average daily miles from dated odometer observations:
+ *   - serviceHistory.mileageAtService  (at record date)
+ *   - booking.vehicleSnapshot.mileage  (at booking createdAt)
+ *   - vehicle.mileage                  (at mileageUpdatedAt, else createdAt)
+ *
+ * and projects current mileage and the date a mileage threshold will be hit.
+ *
+ * The rate is a least-squares fit of mileage against time. Each distinct
+ * reading is kept only at the earliest date it was seen — booking snapshots
+ * copy a possibly stale vehicle.mileage, and repeated readings would
+ * otherwise flatten the slope.
+ *
+ * Pure module — no Firebase imports, safe on both client and server.
+ * Used by lib/maintenance/recompute.ts, lib/maintenance/reminders.ts and the
+ * customer dashboard.
+ */
+
+import { toDateRequired } from '@/lib/converters';
+import type { MileageConfidence, MileageEstimate } from '@/types';
+
+/** ~13,500 mi/yr — US average (FHWA). Used until a vehicle has enough history. */
+export const DEFAULT_DAILY_MILES = 37;
+
+/** Rates above this are treated as bad data (typo'd odometer readings). */
+const MAX_DAILY_MILES = 500;
+
+/** Observations must span at least this long before a learned rate is trusted. */
+const MIN_SPAN_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MileagePoint {
+  date: Date;
+  mileage: number;
+}
+
+/**
+ * Drops invalid points and keeps each distinct reading at its earliest date.
+ * Readings lower than one already seen earlier are discarded as typos.
+ */
+function normalizePoints(points: MileagePoint[]): MileagePoint[] {
+  const sorted = points
+    .filter((p) => Number.isFinite(p.mileage) && p.mileage > 0 && !Number.isNaN(p.date.getTime()))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const result: MileagePoint[] = [];
+  let highest = -Infinity;
+  for (const point of sorted) {
+    if (point.mileage <= highest) continue;
+    highest = point.mileage;
+    result.push(point);
+  }
+  return result;
+}
+
+/** Least-squares slope of mileage over days. */
+function fitDailyMiles(points: MileagePoint[]): number {
+  const t0 = points[0].date.getTime();
+  const xs = points.map((p) => (p.date.getTime() - t0) / DAY_MS);
+  const ys = points.map((p) => p.mileage);
+  const n = points.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (xs[i] - meanX) * (ys[i] - meanY);
+    den += (xs[i] - meanX) ** 2;
+  }
+  return den === 0 ? 0 : num / den;
+}
+
+/**
+ * Learns a vehicle's driving rate from dated odometer observations.
+ *
+ * Confidence:
+ *   high   — 4+ readings spanning 180+ days
+ *   medium — 2+ readings spanning 30+ days
+ *   low    — anything less; short spans below 14 days use DEFAULT_DAILY_MILES
+ */
+export function estimateMileage(points: MileagePoint[], now: Date = new Date()): MileageEstimate | null {
+  const usable = normalizePoints(points);
+  if (usable.length === 0) return null;
+
+  const latest = usable[usable.length - 1];
+  const spanDays = (latest.date.getTime() - usable[0].date.getTime()) / DAY_MS;
+
+  let dailyMiles = DEFAULT_DAILY_MILES;
+  let confidence: MileageConfidence = 'low';
+
+  if (usable.length >= 2 && spanDays >= MIN_SPAN_DAYS) {
+    const fitted = fitDailyMiles(usable);
+    if (fitted > 0 && fitted <= MAX_DAILY_MILES) {
+      dailyMiles = fitted;
+      if (usable.length >= 4 && spanDays >= 180) confidence = 'high';
+      else if (spanDays >= 30) confidence = 'medium';
+    }
+  }
+
+  return {
+    baseMileage: latest.mileage,
+    baseDate:    latest.date,
+    dailyMiles:  Math.round(dailyMiles * 10) / 10,
+    confidence,
+    sampleCount: usable.length,
+    computedAt:  now,
+  };
+}
+
+/** Projects the odometer reading at `at`. Never below the last observed reading. */
+export function projectMileage(estimate: MileageEstimate, at: Date = new Date()): number {
+  const elapsedDays = Math.max(0, (at.getTime() - toDateRequired(estimate.baseDate).getTime()) / DAY_MS);
+  return Math.round(estimate.baseMileage + estimate.dailyMiles * elapsedDays);
+}
+
+/**
+ * Projects the date the odometer reaches `targetMileage`.
+ * Returns the base observation date when the target is already behind it.
+ */
+export function projectDateForMileage(estimate: MileageEstimate, targetMileage: number): Date | null {
+  const baseDate = toDateRequired(estimate.baseDate);
+  if (targetMileage <= estimate.baseMileage) return baseDate;
+  if (estimate.dailyMiles <= 0) return null;
+  const days = (targetMileage - estimate.baseMileage) / estimate.dailyMiles;
+  return new Date(baseDate.getTime() + days * DAY_MS);
+}
+
+/**
+ * True when a projection adds meaningfully to the last observed reading —
+ * the UI labels the value "estimated" in that case.
+ */
+export function isProjected(estimate: MileageEstimate, at: Date = new Date()): boolean {
+  return projectMileage(estimate, at) - estimate.baseMileage >= 1;
+}
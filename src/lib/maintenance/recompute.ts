@@ -6,21 +6,69 @@
  * anchor points (lastServiceMileage / lastServiceDate), then writes an updated
  * VehicleHealthSnapshot to vehicleHealth/{vehicleId}.
  *
+ * Current mileage is projected (lib/maintenance/mileage.ts) from the
+ * vehicle's odometer history rather than taken from vehicle.mileage alone, and
+ * the learned estimate is saved on vehicles/{vehicleId}.mileageEstimate.
+ *
+ * Costs come from lib/maintenance/costForecast.ts — catalog prices net of the
+ * vehicle's subscription entitlements. Red items of the latest shared vehicle
+ * inspection are carried as inspectionFindings (lib/inspections/findings.ts).
+ *
  * Called by:
  *  - POST /api/maintenance/recompute  (user-triggered mileage update or manual refresh)
- *  - POST /api/stripe/capture-payment (auto-triggered after every job completion)
+ *  - lib/bookings/completion.ts       (auto-triggered after every job completion)
+ *  - lib/inspections/inspections.ts   (after an inspection is shared)
  *
  * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
  * in components, hooks, or client-side service files.
  */
 
-import { FieldValue } from 'firebase-admin/firestore';
+import { FieldValue, type DocumentData } from 'firebase-admin/firestore';
 import { adminDb } from '@/lib/firebase/firebaseAdmin';
-import type { HealthAlertLevel, ServiceUrgency } from '@/types';
+import { forecastCosts, loadCostContext, type CostForecastItem } from './costForecast';
+import { latestInspectionFindings } from '@/lib/inspections/findings';
+import {
+  estimateMileage,
+  projectDateForMileage,
+  projectMileage,
+  type MileagePoint,
+} from './mileage';
+import { toDate } from '@/lib/converters';
+import type {
+  HealthAlertLevel,
+  MileageConfidence,
+  ServiceUrgency,
+  UpcomingServiceForecast,
+} from '@/types';
 
 export interface RecomputeResult {
   schedulesUpdated: number;
   alertLevel: HealthAlertLevel;
+  /** Projected odometer reading used for milesUntilDue. */
+  currentMileage: number;
+}
+
+/**
+ * Collects dated odometer observations for a vehicle from its service
+ * history, its bookings' vehicle snapshots and the vehicle document itself.
+ */
+async function loadMileagePoints(vehicleId: string, vehicle: DocumentData): Promise<MileagePoint[]> {
+  const [historySnap, bookingsSnap] = await Promise.all([
+    adminDb.collection('serviceHistory').where('vehicleId', '==', vehicleId).get(),
+    adminDb.collection('bookings').where('vehicleId', '==', vehicleId).get(),
+  ]);
+
+  const points: MileagePoint[] = [];
+  const push = (date: unknown, mileage: unknown) => {
+    const d = toDate(date);
+    if (d && typeof mileage === 'number') points.push({ date: d, mileage });
+  };
+
+  historySnap.docs.forEach((d) => push(d.data().date, d.data().mileageAtService));
+  bookingsSnap.docs.forEach((d) => push(d.data().createdAt, d.data().vehicleSnapshot?.mileage));
+  push(vehicle.mileageUpdatedAt ?? vehicle.createdAt, vehicle.mileage);
+
+  return points;
 }
 
 /**
@@ -38,21 +86,33 @@ export async function recomputeVehicleHealth(vehicleId: string): Promise<Recompu
     throw new Error(`recomputeVehicleHealth: vehicle not found — ${vehicleId}`);
   }
   const vehicle = vehicleSnap.data()!;
-  const currentMileage: number = typeof vehicle.mileage === 'number' ? vehicle.mileage : 0;
   const ownerId: string = vehicle.ownerId;
   const now = new Date();
 
-  // 2. Fetch all active schedules for this vehicle
-  const schedulesSnap = await adminDb
-    .collection('maintenanceSchedules')
-    .where('vehicleId', '==', vehicleId)
-    .where('isActive', '==', true)
-    .get();
+  // Project current mileage — the recorded value is only as fresh as the owner's last edit
+  const mileageEstimate = estimateMileage(await loadMileagePoints(vehicleId, vehicle), now);
+  const recordedMileage: number = typeof vehicle.mileage === 'number' ? vehicle.mileage : 0;
+  const currentMileage = mileageEstimate
+    ? Math.max(recordedMileage, projectMileage(mileageEstimate, now))
+    : recordedMileage;
+
+  // 2. Fetch all active schedules for this vehicle, plus catalog prices,
+  //    entitlements and open inspection findings
+  const [schedulesSnap, costContext, inspectionFindings] = await Promise.all([
+    adminDb
+      .collection('maintenanceSchedules')
+      .where('vehicleId', '==', vehicleId)
+      .where('isActive', '==', true)
+      .get(),
+    loadCostContext(vehicleId),
+    latestInspectionFindings(vehicleId),
+  ]);
 
   const batch = adminDb.batch();
 
   // upcomingServices is serialized plain-object array for Firestore
-  const upcomingServices: object[] = [];
+  const upcomingServices: UpcomingServiceForecast[] = [];
+  const costItems: CostForecastItem[] = [];
   let alertLevel: HealthAlertLevel = 'none';
 
   for (const schedDoc of schedulesSnap.docs) {
@@ -89,6 +149,16 @@ export async function recomputeVehicleHealth(vehicleId: string): Promise<Recompu
     const milesUntilDue: number | null =
       nextDueMileage !== null ? nextDueMileage - currentMileage : null;
 
+    // ── Projected due date — whichever of date / mileage comes first ──────
+    const mileageDueDate =
+      nextDueMileage !== null && mileageEstimate ? projectDateForMileage(mileageEstimate, nextDueMileage) : null;
+    let projectedDueDate: Date | null = nextDueDate;
+    let confidence: MileageConfidence | null = nextDueDate ? 'high' : null;
+    if (mileageDueDate && (!projectedDueDate || mileageDueDate < projectedDueDate)) {
+      projectedDueDate = mileageDueDate;
+      confidence = mileageEstimate!.confidence;
+    }
+
     const leadDays: number = typeof sched.reminderLeadDays === 'number' ? sched.reminderLeadDays : 7;
     const leadMiles: number = typeof sched.reminderLeadMiles === 'number' ? sched.reminderLeadMiles : 500;
 
@@ -116,11 +186,33 @@ export async function recomputeVehicleHealth(vehicleId: string): Promise<Recompu
       nextDueMileage: nextDueMileage ?? null,
       daysUntilDue,
       milesUntilDue,
-      estimatedCostCents: null,
+      projectedDueDate,
+      confidence,
+      estimatedCostCents: null,  // filled in below from the cost forecast
       urgency,
     });
+    costItems.push({
+      scheduleId:    schedDoc.id,
+      serviceType:   sched.serviceType,
+      customLabel:   sched.customLabel ?? null,
+      intervalDays:  sched.intervalDays ?? null,
+      intervalMiles: sched.intervalMiles ?? null,
+      projectedDueDate,
+    });
   }
 
+  // ── Cost forecast — next occurrence per schedule + 12-month monthly spread ──
+  const costs = forecastCosts(costItems, costContext, {
+    dailyMiles: mileageEstimate?.dailyMiles ?? null,
+    now,
+  });
+  upcomingServices.forEach((svc) => {
+    svc.estimatedCostCents = costs.itemCents.get(svc.scheduleId) ?? null;
+  });
+
+  // A red inspection item needs attention now, whatever the schedules say
+  if (inspectionFindings.length > 0) alertLevel = 'overdue';
+
   // 3. Write vehicleHealth snapshot — set (overwrite) with server timestamp
   const healthRef = adminDb.collection('vehicleHealth').doc(vehicleId);
   batch.set(healthRef, {
@@ -128,12 +220,17 @@ export async function recomputeVehicleHealth(vehicleId: string): Promise<Recompu
     ownerId,
     alertLevel,
     upcomingServices,
-    costForecastCentsMonthly: null,
+    costForecastCentsMonthly: costs.monthlyCents,
     estimatedResaleValueBoostCents: null,
+    inspectionFindings,
     updatedAt: FieldValue.serverTimestamp(),
   });
 
+  if (mileageEstimate) {
+    batch.update(vehicleSnap.ref, { mileageEstimate });
+  }
+
   await batch.commit();
 
-  return { schedulesUpdated: schedulesSnap.size, alertLevel };
+  return { schedulesUpdated: schedulesSnap.size, alertLevel, currentMileage };
 }
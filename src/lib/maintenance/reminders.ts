@@ -0,0 +1,236 @@
+/**
+ * Maintenance reminder sweep — server-side only.
+ *
+ * Scans active maintenanceSchedules that have not been reminded this cycle
+ * (reminderSentAt == null) and sends a maintenance_reminder notification for
+ * each one that has crossed its lead threshold:
+ *   - nextDueDate is within reminderLeadDays of now, or
+ *   - projected mileage (lib/maintenance/mileage.ts) is within
+ *     reminderLeadMiles of nextDueMileage
+ *
+ * One notification is sent per vehicle, listing every service that came due.
+ * Each reminded schedule is stamped with reminderSentAt so the owner hears
+ * about it once per cycle; lib/bookings/completion.ts clears the stamp when
+ * the service is performed.
+ *
+ * Owners with notificationPreferences.maintenance_reminder === false are
+ * skipped and left unstamped, so re-enabling the preference resumes reminders.
+ *
+ * Called by:
+ *  - GET /api/cron/maintenance-reminders
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type DocumentData, type DocumentReference } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { projectMileage } from './mileage';
+import { toDate } from '@/lib/converters';
+import type { MaintenanceServiceType, MileageEstimate } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Defaults mirror lib/maintenance/recompute.ts. */
+const DEFAULT_LEAD_DAYS = 7;
+const DEFAULT_LEAD_MILES = 500;
+
+const SERVICE_TYPE_LABELS: Record<MaintenanceServiceType, string> = {
+  oil_change:           'Oil Change',
+  tire_rotation:        'Tire Rotation',
+  brake_inspection:     'Brake Inspection',
+  air_filter:           'Air Filter',
+  cabin_filter:         'Cabin Air Filter',
+  coolant_flush:        'Coolant Flush',
+  transmission_service: 'Transmission Service',
+  spark_plugs:          'Spark Plugs',
+  wiper_blades:         'Wiper Blades',
+  custom:               'Custom Service',
+};
+
+export interface DueReminder {
+  scheduleId: string;
+  vehicleId: string;
+  ownerId: string;
+  serviceType: MaintenanceServiceType;
+  label: string;
+  /** Which lead threshold was crossed. */
+  reason: 'date' | 'mileage';
+  daysUntilDue: number | null;
+  milesUntilDue: number | null;
+}
+
+export interface ReminderSweepResult {
+  dryRun: boolean;
+  /** Unreminded active schedules examined. */
+  scanned: number;
+  /** Schedules past their lead threshold. */
+  due: number;
+  /** Notifications sent (one per vehicle) — 0 in dry-run mode. */
+  notificationsSent: number;
+  /** Schedules stamped with reminderSentAt — 0 in dry-run mode. */
+  schedulesStamped: number;
+  /** Due schedules skipped because the owner opted out. */
+  skippedOptedOut: number;
+  /** Due schedules skipped because the vehicle no longer exists. */
+  skippedMissingVehicle: number;
+  reminders: DueReminder[];
+}
+
+/**
+ * Returns which lead threshold a schedule has crossed, or null when it is
+ * not yet due for a reminder.
+ */
+function evaluateSchedule(
+  sched: DocumentData,
+  currentMileage: number | null,
+  now: Date
+): Pick<DueReminder, 'reason' | 'daysUntilDue' | 'milesUntilDue'> | null {
+  const nextDueDate = toDate(sched.nextDueDate);
+  const nextDueMileage = typeof sched.nextDueMileage === 'number' ? sched.nextDueMileage : null;
+  const leadDays: number = typeof sched.reminderLeadDays === 'number' ? sched.reminderLeadDays : DEFAULT_LEAD_DAYS;
+  const leadMiles: number = typeof sched.reminderLeadMiles === 'number' ? sched.reminderLeadMiles : DEFAULT_LEAD_MILES;
+
+  const daysUntilDue = nextDueDate !== null
+    ? Math.floor((nextDueDate.getTime() - now.getTime()) / DAY_MS)
+    : null;
+  const milesUntilDue = nextDueMileage !== null && currentMileage !== null
+    ? nextDueMileage - currentMileage
+    : null;
+
+  if (daysUntilDue !== null && daysUntilDue <= leadDays) {
+    return { reason: 'date', daysUntilDue, milesUntilDue };
+  }
+  if (milesUntilDue !== null && milesUntilDue <= leadMiles) {
+    return { reason: 'mileage', daysUntilDue, milesUntilDue };
+  }
+  return null;
+}
+
+function vehicleName(vehicle: DocumentData): string {
+  return (vehicle.nickname as string | null) || `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+}
+
+function reminderBody(vehicle: DocumentData, reminders: DueReminder[]): string {
+  const overdue = reminders.some(
+    (r) => (r.daysUntilDue !== null && r.daysUntilDue < 0) || (r.milesUntilDue !== null && r.milesUntilDue < 0)
+  );
+  const labels = reminders.map((r) => r.label).join(', ');
+  return overdue
+    ? `${vehicleName(vehicle)} is overdue for: ${labels}.`
+    : `${vehicleName(vehicle)} is coming due for: ${labels}.`;
+}
+
+/**
+ * Finds due schedules and, unless dryRun, notifies owners and stamps
+ * reminderSentAt.
+ */
+export async function sweepMaintenanceReminders(
+  { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+): Promise<ReminderSweepResult> {
+  const result: ReminderSweepResult = {
+    dryRun,
+    scanned:               0,
+    due:                   0,
+    notificationsSent:     0,
+    schedulesStamped:      0,
+    skippedOptedOut:       0,
+    skippedMissingVehicle: 0,
+    reminders:             [],
+  };
+
+  // 1. Unreminded active schedules
+  const schedulesSnap = await adminDb
+    .collection('maintenanceSchedules')
+    .where('isActive', '==', true)
+    .where('reminderSentAt', '==', null)
+    .get();
+  result.scanned = schedulesSnap.size;
+  if (schedulesSnap.empty) return result;
+
+  // 2. Vehicles (current mileage) and owners (preferences) in bulk
+  const vehicleIds = Array.from(new Set(schedulesSnap.docs.map((d) => d.data().vehicleId as string)));
+  const vehicleSnaps = await adminDb.getAll(...vehicleIds.map((id) => adminDb.collection('vehicles').doc(id)));
+  const vehicles = new Map(vehicleSnaps.filter((s) => s.exists).map((s) => [s.id, s.data()!]));
+
+  // 3. Evaluate thresholds, grouped by vehicle
+  const dueByVehicle = new Map<string, { reminder: DueReminder; ref: DocumentReference }[]>();
+  for (const schedDoc of schedulesSnap.docs) {
+    const sched = schedDoc.data();
+    const vehicle = vehicles.get(sched.vehicleId as string);
+    const recordedMileage = typeof vehicle?.mileage === 'number' ? vehicle.mileage : null;
+    const estimate = vehicle?.mileageEstimate as MileageEstimate | null | undefined;
+    const currentMileage = estimate
+      ? Math.max(recordedMileage ?? 0, projectMileage(estimate, now))
+      : recordedMileage;
+
+    const evaluation = evaluateSchedule(sched, currentMileage, now);
+    if (!evaluation) continue;
+    result.due++;
+
+    if (!vehicle) {
+      result.skippedMissingVehicle++;
+      continue;
+    }
+
+    const serviceType = sched.serviceType as MaintenanceServiceType;
+    const reminder: DueReminder = {
+      scheduleId: schedDoc.id,
+      vehicleId:  sched.vehicleId as string,
+      ownerId:    (sched.ownerId as string) ?? (vehicle.ownerId as string),
+      serviceType,
+      label:      serviceType === 'custom' && sched.customLabel
+        ? (sched.customLabel as string)
+        : SERVICE_TYPE_LABELS[serviceType] ?? serviceType,
+      ...evaluation,
+    };
+    const group = dueByVehicle.get(reminder.vehicleId) ?? [];
+    group.push({ reminder, ref: schedDoc.ref });
+    dueByVehicle.set(reminder.vehicleId, group);
+  }
+  if (dueByVehicle.size === 0) return result;
+
+  const ownerIds = Array.from(new Set(
+    Array.from(dueByVehicle.values()).flatMap((group) => group.map((g) => g.reminder.ownerId))
+  ));
+  const ownerSnaps = await adminDb.getAll(...ownerIds.map((id) => adminDb.collection('users').doc(id)));
+  const optedOut = new Set(
+    ownerSnaps
+      .filter((s) => s.exists && s.data()?.notificationPreferences?.maintenance_reminder === false)
+      .map((s) => s.id)
+  );
+
+  // 4. Notify + stamp, one vehicle at a time
+  for (const [vehicleId, group] of Array.from(dueByVehicle)) {
+    const ownerId = group[0].reminder.ownerId;
+    if (optedOut.has(ownerId)) {
+      result.skippedOptedOut += group.length;
+      continue;
+    }
+
+    const reminders = group.map((g) => g.reminder);
+    result.reminders.push(...reminders);
+    if (dryRun) continue;
+
+    try {
+      await notifyUser(ownerId, {
+        type:  'maintenance_reminder',
+        title: 'Maintenance Due',
+        body:  reminderBody(vehicles.get(vehicleId)!, reminders),
+        link:  `/vehicles/${vehicleId}`,
+      });
+      result.notificationsSent++;
+
+      const batch = adminDb.batch();
+      group.forEach((g) => batch.update(g.ref, { reminderSentAt: FieldValue.serverTimestamp() }));
+      await batch.commit();
+      result.schedulesStamped += group.length;
+    } catch (err) {
+      // Unstamped schedules are retried on the next sweep
+      console.error(`[reminders] vehicle ${vehicleId} reminder error:`, err);
+    }
+  }
+
+  return result;
+}
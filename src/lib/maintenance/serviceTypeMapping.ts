@@ -0,0 +1,69 @@
+/**
+ * Service → maintenance schedule mapping.
+ *
+ * Decides which MaintenanceServiceType(s) a completed service satisfies, so
+ * completing e.g. "Tire Rotation & Balance" restarts the vehicle's
+ * tire_rotation countdown.
+ *
+ * Resolution order:
+ *   1. Service.maintenanceTypes — explicit list set on the catalog entry
+ *      (copied onto booking.serviceSnapshot at booking creation)
+ *   2. Keyword rules on the service name / free-text serviceTitle
+ *
+ * 'custom' schedules match when their customLabel appears in the title.
+ *
+ * Pure module — no Firebase imports. Used by lib/bookings/completion.ts.
+ */
+
+import type { MaintenanceServiceType } from '@/types';
+
+/** Keyword rules, checked against the lower-cased title. */
+const KEYWORD_RULES: { type: Exclude<MaintenanceServiceType, 'custom'>; patterns: RegExp[] }[] = [
+  { type: 'oil_change',           patterns: [/\boil\b.*\b(change|service|filter)\b/, /\blube\b/] },
+  { type: 'tire_rotation',        patterns: [/\btire rotation\b/, /\brotat\w*\b.*\btires?\b/, /\btires?\b.*\brotat\w*\b/] },
+  { type: 'brake_inspection',     patterns: [/\bbrakes?\b/] },
+  { type: 'cabin_filter',         patterns: [/\bcabin (air )?filter\b/] },
+  { type: 'air_filter',           patterns: [/(?<!cabin )\bair filter\b/, /\bengine filter\b/] },
+  { type: 'coolant_flush',        patterns: [/\bcoolant\b/, /\bradiator flush\b/, /\bantifreeze\b/] },
+  { type: 'transmission_service', patterns: [/\btransmission\b/, /\batf\b/] },
+  { type: 'spark_plugs',          patterns: [/\bspark plugs?\b/, /\btune[- ]?up\b/] },
+  { type: 'wiper_blades',         patterns: [/\bwiper/] },
+];
+
+/**
+ * Maps a free-text service title to the maintenance types it covers.
+ * "Cabin Air Filter" maps to cabin_filter only — not also air_filter.
+ */
+export function matchServiceTitle(title: string): MaintenanceServiceType[] {
+  const text = title.toLowerCase();
+  return KEYWORD_RULES
+    .filter((rule) => rule.patterns.some((p) => p.test(text)))
+    .map((rule) => rule.type);
+}
+
+/**
+ * Resolves the maintenance types satisfied by a service.
+ * An explicit catalog list always wins over keyword matching.
+ */
+export function resolveMaintenanceTypes(service: {
+  name: string;
+  maintenanceTypes?: MaintenanceServiceType[] | null;
+}): MaintenanceServiceType[] {
+  if (service.maintenanceTypes && service.maintenanceTypes.length > 0) {
+    return service.maintenanceTypes.filter((t, i, all) => all.indexOf(t) === i);
+  }
+  return matchServiceTitle(service.name);
+}
+
+/** True if completing a service with this title/types should re-anchor the schedule. */
+export function scheduleMatchesService(
+  schedule: { serviceType: MaintenanceServiceType; customLabel?: string | null },
+  types: MaintenanceServiceType[],
+  serviceTitle: string
+): boolean {
+  if (schedule.serviceType === 'custom') {
+    const label = schedule.customLabel?.trim().toLowerCase();
+    return !!label && serviceTitle.toLowerCase().includes(label);
+  }
+  return types.includes(schedule.serviceType);
+}
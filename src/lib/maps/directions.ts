@@ -0,0 +1,70 @@
+/**
+ * Server-side driving directions.
+ *
+ * Uses the Google Directions REST API directly — no Maps JS SDK required.
+ * Safe to import from any Next.js Route Handler (runtime = 'nodejs').
+ * Never import this file in client components or hooks.
+ *
+ * Usage:
+ *   const route = await fetchDrivingRoute(techLocation, serviceAddress);
+ *   if (!route) { // no provider configured or request failed — estimate instead }
+ */
+
+import type { GeoPoint } from '@/types';
+
+export interface DrivingRoute {
+  polyline: string;          // encoded overview polyline
+  distanceMeters: number;
+  durationSeconds: number;   // traffic-aware when Google returns it
+}
+
+/**
+ * Fetches the current driving route between two points.
+ *
+ * - Reads NEXT_PUBLIC_GOOGLE_MAPS_API_KEY from process.env.
+ * - Asks for departure_time=now so the duration reflects live traffic.
+ * - Returns null if no key is configured or the request fails — never throws.
+ */
+export async function fetchDrivingRoute(
+  origin: GeoPoint,
+  destination: GeoPoint,
+): Promise<DrivingRoute | null> {
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+  if (!apiKey) return null;
+
+  const url =
+    `https://maps.googleapis.com/maps/api/directions/json` +
+    `?origin=${origin.lat},${origin.lng}` +
+    `&destination=${destination.lat},${destination.lng}` +
+    `&mode=driving&departure_time=now&key=${apiKey}`;
+
+  type DirectionsResponse = {
+    status: string;
+    routes: Array<{
+      overview_polyline: { points: string };
+      legs: Array<{
+        distance:             { value: number };
+        duration:             { value: number };
+        duration_in_traffic?: { value: number };
+      }>;
+    }>;
+  };
+
+  try {
+    const res  = await fetch(url);
+    const json = (await res.json()) as DirectionsResponse;
+    if (json.status !== 'OK' || json.routes.length === 0) {
+      console.warn(`[directions] status "${json.status}"`);
+      return null;
+    }
+    const route = json.routes[0];
+    return {
+      polyline:        route.overview_polyline.points,
+      distanceMeters:  route.legs.reduce((sum, leg) => sum + leg.distance.value, 0),
+      durationSeconds: route.legs.reduce((sum, leg) => sum + (leg.duration_in_traffic ?? leg.duration).value, 0),
+    };
+  } catch (err) {
+    console.error('[directions] fetch error:', err);
+    return null;
+  }
+}
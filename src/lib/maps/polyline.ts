@@ -0,0 +1,147 @@
+/**
+ * Polyline helpers for stored job routes.
+ *
+ * Routes are stored in Google's encoded polyline format (precision 5) so the
+ * server can write the Directions overview polyline as-is and clients can draw
+ * it without the Maps geometry library. Distances use an equirectangular
+ * projection around each segment — accurate to well under a metre at the
+ * scale of a drive across town.
+ *
+ * Pure module — no Firebase imports. Safe on both server and client.
+ */
+
+import type { GeoPoint } from '@/types';
+
+const EARTH_RADIUS_M = 6_371_000;
+
+/** Decodes an encoded polyline into points. */
+export function decodePolyline(encoded: string): GeoPoint[] {
+  const points: GeoPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  function next(): number {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  }
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+  return points;
+}
+
+/** Encodes points as a polyline. */
+export function encodePolyline(points: GeoPoint[]): string {
+  let out = '';
+  let prevLat = 0;
+  let prevLng = 0;
+
+  function push(delta: number) {
+    let value = delta < 0 ? ~(delta << 1) : delta << 1;
+    while (value >= 0x20) {
+      out += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+      value >>= 5;
+    }
+    out += String.fromCharCode(value + 63);
+  }
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    push(lat - prevLat);
+    push(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+  return out;
+}
+
+/** Projects `p` to metres east/north of `origin`. */
+function toLocal(origin: GeoPoint, p: GeoPoint): { x: number; y: number } {
+  const rad = Math.PI / 180;
+  return {
+    x: (p.lng - origin.lng) * rad * EARTH_RADIUS_M * Math.cos(origin.lat * rad),
+    y: (p.lat - origin.lat) * rad * EARTH_RADIUS_M,
+  };
+}
+
+/** Distance from `p` to segment a→b, and how far along the segment (0–1) its closest point lies. */
+function projectOntoSegment(p: GeoPoint, a: GeoPoint, b: GeoPoint): { distance: number; t: number; length: number } {
+  const pb = toLocal(a, b);
+  const pp = toLocal(a, p);
+  const lengthSq = pb.x * pb.x + pb.y * pb.y;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (pp.x * pb.x + pp.y * pb.y) / lengthSq));
+  const dx = pp.x - t * pb.x;
+  const dy = pp.y - t * pb.y;
+  return { distance: Math.sqrt(dx * dx + dy * dy), t, length: Math.sqrt(lengthSq) };
+}
+
+/** Total length of a path in metres. */
+export function pathLengthMeters(path: GeoPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += projectOntoSegment(path[i], path[i - 1], path[i]).length;
+  return total;
+}
+
+/**
+ * Snaps `p` onto the path. Returns how far `p` is from the path and how much
+ * of the path remains after the snapped point — both in metres.
+ */
+export function locateOnPath(p: GeoPoint, path: GeoPoint[]): { offPathMeters: number; remainingMeters: number } {
+  if (path.length < 2) {
+    return { offPathMeters: path.length ? projectOntoSegment(p, path[0], path[0]).distance : Infinity, remainingMeters: 0 };
+  }
+
+  const segmentLengths: number[] = [];
+  let best = { distance: Infinity, index: 0, t: 0 };
+  for (let i = 1; i < path.length; i++) {
+    const hit = projectOntoSegment(p, path[i - 1], path[i]);
+    segmentLengths.push(hit.length);
+    if (hit.distance < best.distance) best = { distance: hit.distance, index: i - 1, t: hit.t };
+  }
+
+  let remaining = segmentLengths[best.index] * (1 - best.t);
+  for (let i = best.index + 1; i < segmentLengths.length; i++) remaining += segmentLengths[i];
+  return { offPathMeters: best.distance, remainingMeters: remaining };
+}
+
+/**
+ * Douglas–Peucker simplification: drops points that sit within
+ * `toleranceMeters` of the line through their neighbours.
+ */
+export function simplifyPath(path: GeoPoint[], toleranceMeters: number): GeoPoint[] {
+  if (path.length <= 2) return path;
+
+  const keep = new Array<boolean>(path.length).fill(false);
+  keep[0] = keep[path.length - 1] = true;
+  const stack: [number, number][] = [[0, path.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = first + 1; i < last; i++) {
+      const { distance } = projectOntoSegment(path[i], path[first], path[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([first, maxIndex], [maxIndex, last]);
+    }
+  }
+  return path.filter((_, i) => keep[i]);
+}
@@ -0,0 +1,56 @@
+/**
+ * notifyUser — server-side only notification dispatch.
+ *
+ * Writes a notifications/{notifId} document (the in-app source of truth) and
+ * then pushes the same title/body to the user's devices via FCM. The push is
+ * best-effort: a failed FCM send never fails the caller.
+ *
+ * Route Handlers that need a push in addition to the in-app notification use
+ * this instead of writing to the notifications collection directly.
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { sendFCMToUser } from '@/lib/firebase/fcmAdmin';
+import type { NotificationType } from '@/types';
+
+export interface NotifyUserPayload {
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** URL to open when the push notification is tapped. */
+  link?: string;
+  relatedBookingId?: string | null;
+  relatedJobId?: string | null;
+}
+
+/**
+ * Creates an in-app notification and sends an FCM push for it.
+ *
+ * @returns The new notification document ID.
+ */
+export async function notifyUser(uid: string, payload: NotifyUserPayload): Promise<string> {
+  const { type, title, body, link, relatedBookingId, relatedJobId } = payload;
+
+  const ref = await adminDb.collection('notifications').add({
+    userId:           uid,
+    type,
+    title,
+    body,
+    read:             false,
+    relatedBookingId: relatedBookingId ?? null,
+    relatedJobId:     relatedJobId     ?? null,
+    createdAt:        FieldValue.serverTimestamp(),
+  });
+
+  try {
+    await sendFCMToUser(uid, { title, body, link, data: { type } });
+  } catch (err) {
+    console.error('[notify] FCM dispatch error:', err);
+  }
+
+  return ref.id;
+}
@@ -0,0 +1,233 @@
+/**
+ * Technician earnings ledger — server-side only.
+ *
+ * Every amount a technician earns is an EarningEntry in technicianEarnings,
+ * filed into a weekly PayoutPeriod (payoutPeriods/{technicianId}_{YYYY-MM-DD},
+ * Monday 00:00 UTC to the next Monday) whose totals move with it:
+ *   - 'service'    — TECHNICIAN_REVENUE_SHARE (default 0.7) of the job's
+ *                    labor value (base price + approved add-ons, before the
+ *                    subscription discount, tax and service fee), written in
+ *                    the completion transaction
+ *   - 'tip'        — 100% of a post-completion tip (lib/payouts/tips.ts)
+ *   - 'adjustment' — an admin credit or debit
+ *
+ * Service and tip entries are keyed `${bookingId}_${type}`, so a retried
+ * capture or tip never pays twice.
+ *
+ * An admin marks a period paid once it has ended (markPayoutPeriodPaid) with
+ * an optional transfer reference. Entries always land in the period
+ * containing now, so a paid period never changes afterwards.
+ *
+ * Called by:
+ *  - lib/bookings/completion.ts       (service share)
+ *  - lib/payouts/tips.ts              (tips)
+ *  - POST /api/admin/payout-adjustment
+ *  - POST /api/admin/mark-payout-paid
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { toDateRequired } from '@/lib/converters';
+import type { EarningType, PayoutStatus, PriceBreakdown } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Share of a job's labor value paid to the technician. */
+export const TECHNICIAN_REVENUE_SHARE = Number(process.env.TECHNICIAN_REVENUE_SHARE ?? 0.7);
+
+export class PayoutError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+export interface EarningInput {
+  technicianId: string;
+  bookingId: string | null;
+  type: EarningType;
+  amountCents: number;
+  description: string;
+  /** Admin who made an adjustment. */
+  createdBy?: string | null;
+}
+
+export interface PayoutPeriodWindow {
+  periodId: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/** The weekly period containing `at` — Monday 00:00 UTC to the next Monday. */
+export function payoutPeriodFor(technicianId: string, at: Date): PayoutPeriodWindow {
+  const periodStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  periodStart.setUTCDate(periodStart.getUTCDate() - ((periodStart.getUTCDay() + 6) % 7));
+  return {
+    periodId:   `${technicianId}_${periodStart.toISOString().slice(0, 10)}`,
+    periodStart,
+    periodEnd:  new Date(periodStart.getTime() + 7 * DAY_MS),
+  };
+}
+
+/** The technician's share of a job, from its price breakdown (or total for legacy bookings). */
+export function serviceShareCents(
+  priceBreakdown: Pick<PriceBreakdown, 'baseCents' | 'addOnsCents'> | null | undefined,
+  totalPrice: number
+): number {
+  const laborCents = priceBreakdown
+    ? priceBreakdown.baseCents + priceBreakdown.addOnsCents
+    : totalPrice;
+  return Math.max(0, Math.round(laborCents * TECHNICIAN_REVENUE_SHARE));
+}
+
+/**
+ * Reads what an entry needs inside the caller's transaction and returns the
+ * function that writes it — call it once all of the transaction's reads are
+ * done. The writer is a no-op when a keyed entry already exists.
+ */
+export async function prepareEarning(tx: Transaction, input: EarningInput): Promise<() => void> {
+  const now = new Date();
+  const { periodId, periodStart, periodEnd } = payoutPeriodFor(input.technicianId, now);
+  const entryRef = input.bookingId && input.type !== 'adjustment'
+    ? adminDb.collection('technicianEarnings').doc(`${input.bookingId}_${input.type}`)
+    : adminDb.collection('technicianEarnings').doc();
+  const periodRef = adminDb.collection('payoutPeriods').doc(periodId);
+
+  const [entrySnap, periodSnap] = await Promise.all([tx.get(entryRef), tx.get(periodRef)]);
+  if (entrySnap.exists) return () => {};
+
+  const totalsField = `${input.type}Cents` as 'serviceCents' | 'tipCents' | 'adjustmentCents';
+
+  return () => {
+    tx.set(entryRef, {
+      technicianId: input.technicianId,
+      bookingId:    input.bookingId,
+      type:         input.type,
+      amountCents:  input.amountCents,
+      description:  input.description,
+      periodId,
+      createdBy:    input.createdBy ?? null,
+      createdAt:    FieldValue.serverTimestamp(),
+    });
+
+    if (periodSnap.exists) {
+      tx.update(periodRef, {
+        totalCents:    FieldValue.increment(input.amountCents),
+        [totalsField]: FieldValue.increment(input.amountCents),
+        entryCount:    FieldValue.increment(1),
+      });
+    } else {
+      tx.set(periodRef, {
+        technicianId:    input.technicianId,
+        periodStart,
+        periodEnd,
+        totalCents:      input.amountCents,
+        serviceCents:    0,
+        tipCents:        0,
+        adjustmentCents: 0,
+        [totalsField]:   input.amountCents,
+        entryCount:      1,
+        status:          'open' as PayoutStatus,
+        paidAt:          null,
+        paidBy:          null,
+        payoutReference: null,
+      });
+    }
+  };
+}
+
+/**
+ * Records an admin credit (positive) or debit (negative) in the technician's
+ * current period.
+ *
+ * @throws PayoutError 404 when the user is not a technician.
+ */
+export async function recordAdjustment({
+  technicianId,
+  amountCents,
+  description,
+  bookingId = null,
+  adminId,
+}: {
+  technicianId: string;
+  amountCents: number;
+  description: string;
+  bookingId?: string | null;
+  adminId: string;
+}): Promise<{ periodId: string }> {
+  const techSnap = await adminDb.collection('users').doc(technicianId).get();
+  if (!techSnap.exists || techSnap.data()?.role !== 'technician') {
+    throw new PayoutError('Technician not found', 404);
+  }
+
+  await adminDb.runTransaction(async (tx) => {
+    const writeEarning = await prepareEarning(tx, {
+      technicianId,
+      bookingId,
+      type:      'adjustment',
+      amountCents,
+      description,
+      createdBy: adminId,
+    });
+    writeEarning();
+  });
+
+  console.log(`[payouts] adjustment of ${amountCents} for ${technicianId} by ${adminId}`);
+  return { periodId: payoutPeriodFor(technicianId, new Date()).periodId };
+}
+
+/**
+ * Marks an ended payout period as paid. Repeating the call is a no-op.
+ *
+ * @throws PayoutError 404 when the period is missing, 409 while it is still running.
+ */
+export async function markPayoutPeriodPaid({
+  periodId,
+  adminId,
+  payoutReference = null,
+}: {
+  periodId: string;
+  adminId: string;
+  payoutReference?: string | null;
+}): Promise<{ periodId: string; totalCents: number; alreadyPaid: boolean }> {
+  const periodRef = adminDb.collection('payoutPeriods').doc(periodId);
+
+  const period = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(periodRef);
+    if (!snap.exists) throw new PayoutError('Payout period not found', 404);
+    const data = snap.data()!;
+    if (data.status === 'paid') return { data, alreadyPaid: true };
+
+    const periodEnd = toDateRequired(data.periodEnd);
+    if (periodEnd.getTime() > Date.now()) {
+      throw new PayoutError('Payout period has not ended yet', 409);
+    }
+
+    tx.update(periodRef, {
+      status:          'paid' as PayoutStatus,
+      paidAt:          FieldValue.serverTimestamp(),
+      paidBy:          adminId,
+      payoutReference,
+    });
+    return { data, alreadyPaid: false };
+  });
+
+  const totalCents = (period.data.totalCents as number | undefined) ?? 0;
+  if (!period.alreadyPaid) {
+    console.log(`[payouts] period ${periodId} paid (${totalCents}) by ${adminId}`);
+    notifyUser(period.data.technicianId as string, {
+      type:             'system',
+      title:            'Payout Sent',
+      body:             `Your earnings of $${(totalCents / 100).toFixed(2)} have been paid out.`,
+      link:             '/job-history',
+      relatedBookingId: null,
+      relatedJobId:     null,
+    }).catch((err) => console.error('[payouts] notification error:', err));
+  }
+
+  return { periodId, totalCents, alreadyPaid: period.alreadyPaid };
+}
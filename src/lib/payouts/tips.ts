@@ -0,0 +1,115 @@
+/**
+ * Post-completion tips — server-side only.
+ *
+ * addTip() lets the customer tip once a booking is complete:
+ *   1. booking.tip is claimed as 'processing' in a transaction, so two taps
+ *      cannot tip twice
+ *   2. the tip is charged to the saved default card on its own
+ *      (lib/stripe/bookingPayments.ts chargeTip) — a decline clears the claim
+ *      so the customer can try again
+ *   3. booking.tip becomes 'succeeded' and the full amount is written to the
+ *      technician's earnings ledger (lib/payouts/ledger.ts) together
+ *
+ * Called by:
+ *  - POST /api/bookings/tip
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { chargeTip, BookingPaymentError } from '@/lib/stripe/bookingPayments';
+import { prepareEarning } from './ledger';
+import type { BookingTip } from '@/types';
+
+export class TipError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TipError';
+  }
+}
+
+export interface AddTipParams {
+  bookingId: string;
+  customerId: string;
+  amountCents: number;
+}
+
+/**
+ * Charges a tip and credits it to the booking's technician. Retrying a tip
+ * that is still processing with the same amount resumes it.
+ *
+ * @throws TipError 404 / 403 / 409 when the booking cannot be tipped; 402
+ *         when the card declines.
+ */
+export async function addTip({ bookingId, customerId, amountCents }: AddTipParams): Promise<BookingTip> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+
+  // 1. Claim
+  const booking = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(bookingRef);
+    if (!snap.exists) throw new TipError('Booking not found', 404);
+    const data = snap.data()!;
+    if (data.customerId !== customerId) throw new TipError('Forbidden — not your booking', 403);
+    if (data.status !== 'complete' || !data.technicianId) {
+      throw new TipError('Only completed bookings can be tipped', 409);
+    }
+    const existing = data.tip as BookingTip | null | undefined;
+    if (existing && (existing.status === 'succeeded' || existing.amountCents !== amountCents)) {
+      throw new TipError('This booking has already been tipped', 409);
+    }
+
+    if (!existing) {
+      tx.update(bookingRef, {
+        tip: {
+          amountCents,
+          status:          'processing',
+          paymentIntentId: null,
+          createdAt:       new Date(),
+        } satisfies BookingTip,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    return data;
+  });
+
+  // 2. Charge
+  let paymentIntentId: string;
+  try {
+    paymentIntentId = (await chargeTip(bookingId, customerId, amountCents)).id;
+  } catch (err: unknown) {
+    await bookingRef.update({ tip: null, updatedAt: FieldValue.serverTimestamp() });
+    if (err instanceof BookingPaymentError) throw new TipError(err.message, err.status);
+    throw err;
+  }
+
+  // 3. Record the tip and the technician's earning together
+  const technicianId = booking.technicianId as string;
+  const tip: BookingTip = { amountCents, status: 'succeeded', paymentIntentId, createdAt: new Date() };
+  await adminDb.runTransaction(async (tx) => {
+    const writeEarning = await prepareEarning(tx, {
+      technicianId,
+      bookingId,
+      type:        'tip',
+      amountCents,
+      description: `Tip — ${booking.serviceSnapshot?.name ?? 'service'}`,
+    });
+    tx.update(bookingRef, { tip, updatedAt: FieldValue.serverTimestamp() });
+    writeEarning();
+  });
+
+  console.log(`[tips] booking ${bookingId} tipped ${amountCents} (${paymentIntentId})`);
+
+  notifyUser(technicianId, {
+    type:             'tip_received',
+    title:            'You Got a Tip',
+    body:             `A customer tipped you $${(amountCents / 100).toFixed(2)} for the ${booking.serviceSnapshot?.name ?? 'service'}.`,
+    link:             '/job-history',
+    relatedBookingId: bookingId,
+    relatedJobId:     (booking.jobId as string | null) ?? null,
+  }).catch((err) => console.error('[tips] notification error:', err));
+
+  return tip;
+}
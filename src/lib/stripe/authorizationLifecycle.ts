@@ -0,0 +1,140 @@
+/**
+ * Payment authorization lifecycle — server-side only.
+ *
+ * Card holds expire about 7 days after they are placed, but bookings can be
+ * scheduled weeks ahead. sweepPaymentAuthorizations() runs hourly over every
+ * open booking whose paymentAuthStatus is set and:
+ *   - authorizes 'deferred' bookings once scheduledAt is within
+ *     PAYMENT_AUTH_LEAD_HOURS (default 48)
+ *   - re-authorizes 'authorized' bookings whose hold is older than
+ *     PAYMENT_AUTH_MAX_AGE_HOURS (default 144 = 6 days): a fresh hold is placed
+ *     and the old intent canceled
+ *   - retries 'failed' bookings, so updating the saved card fixes them
+ *
+ * All authorizations here are off-session (the customer is not present). A
+ * decline or a bank demanding 3-D Secure marks the booking 'failed' and sends
+ * one payment_failed notification — not repeated until a hold succeeds again.
+ * The booking itself is left alone; an admin or the customer decides whether
+ * to cancel.
+ *
+ * 'requires_action' bookings are waiting on the customer and are skipped.
+ *
+ * Called by:
+ *  - GET /api/cron/payment-authorizations
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type DocumentData } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { authorizationOpensAt, authorizeBooking, BookingPaymentError } from './bookingPayments';
+import { toDate } from '@/lib/converters';
+import type { PaymentAuthStatus } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Age after which a hold is replaced — comfortably inside Stripe's 7 days. */
+const AUTH_MAX_AGE_HOURS = Number(process.env.PAYMENT_AUTH_MAX_AGE_HOURS ?? 144);
+
+export interface AuthorizationSweepResult {
+  scanned: number;
+  authorized: number;
+  reauthorized: number;
+  failed: number;
+  /** Failures that sent a payment_failed notification (first failure only). */
+  customersNotified: number;
+}
+
+/**
+ * Marks a booking's hold as failed and tells the customer once.
+ *
+ * @returns true if a notification was sent.
+ */
+export async function reportAuthorizationFailure(
+  bookingId: string,
+  booking: DocumentData,
+  reason: string
+): Promise<boolean> {
+  const alreadyNotified = !!booking.paymentAuthFailedAt;
+  await adminDb.collection('bookings').doc(bookingId).update({
+    paymentAuthStatus:   'failed' as PaymentAuthStatus,
+    paymentAuthFailedAt: alreadyNotified ? booking.paymentAuthFailedAt : FieldValue.serverTimestamp(),
+  });
+  if (alreadyNotified) return false;
+
+  const serviceName = (booking.serviceSnapshot?.name as string | undefined) ?? 'service';
+  const scheduledAt = toDate(booking.scheduledAt);
+  const when = scheduledAt
+    ? ` on ${scheduledAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+    : '';
+  await notifyUser(booking.customerId as string, {
+    type:             'payment_failed',
+    title:            'Payment Authorization Failed',
+    body:             `We couldn't place a hold on your card for your ${serviceName}${when} (${reason}). Update your payment method to keep your booking.`,
+    link:             '/payment-methods',
+    relatedBookingId: bookingId,
+  });
+  return true;
+}
+
+/** Places deferred holds, replaces ageing ones and retries failed ones. */
+export async function sweepPaymentAuthorizations(now: Date = new Date()): Promise<AuthorizationSweepResult> {
+  const result: AuthorizationSweepResult = {
+    scanned: 0, authorized: 0, reauthorized: 0, failed: 0, customersNotified: 0,
+  };
+  const maxAgeCutoff = new Date(now.getTime() - AUTH_MAX_AGE_HOURS * HOUR_MS);
+
+  const snap = await adminDb
+    .collection('bookings')
+    .where('paymentAuthStatus', 'in', ['deferred', 'authorized', 'failed'] as PaymentAuthStatus[])
+    .get();
+
+  for (const bookingDoc of snap.docs) {
+    const booking = bookingDoc.data();
+    if (booking.status === 'cancelled' || booking.status === 'complete') continue;
+    result.scanned++;
+
+    const scheduledAt = toDate(booking.scheduledAt) ?? now;
+    const authorizedAt = toDate(booking.paymentAuthorizedAt);
+    const status = booking.paymentAuthStatus as PaymentAuthStatus;
+
+    const replaceHeld = status === 'authorized' && !!authorizedAt && authorizedAt <= maxAgeCutoff;
+    const due = status === 'authorized'
+      ? replaceHeld
+      : authorizationOpensAt(scheduledAt) <= now;
+    if (!due) continue;
+
+    try {
+      const auth = await authorizeBooking({
+        bookingId:  bookingDoc.id,
+        customerId: booking.customerId as string,
+        offSession: true,
+        replaceHeld,
+        now,
+      });
+      if (auth.status !== 'requires_capture') {
+        throw new BookingPaymentError(`authorization ${auth.status}`, 402);
+      }
+      if (replaceHeld) result.reauthorized++;
+      else result.authorized++;
+    } catch (err) {
+      // Not the customer's problem — leave it for the next sweep
+      if (!(err instanceof BookingPaymentError) || err.status >= 500) {
+        console.error(`[authorizationLifecycle] error for ${bookingDoc.id}:`, err);
+        continue;
+      }
+      result.failed++;
+      try {
+        if (await reportAuthorizationFailure(bookingDoc.id, booking, err.message)) {
+          result.customersNotified++;
+        }
+      } catch (notifyErr) {
+        console.error(`[authorizationLifecycle] failure report error for ${bookingDoc.id}:`, notifyErr);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,568 @@
+/**
+ * Booking payment authorization — server-side only.
+ *
+ * authorizeBooking() places (or re-uses) the manual-capture PaymentIntent
+ * that holds a booking's total on the customer's saved default card:
+ *   1. the booking is re-priced from its stored fields (lib/bookings/pricing.ts)
+ *      and the new priceBreakdown / totalPrice written back
+ *   2. a caller-supplied amount must equal that total — a mismatch is a 409,
+ *      never an authorization for a different amount
+ *   3. a booking more than PAYMENT_AUTH_LEAD_HOURS (default 48) before its
+ *      scheduledAt is not authorized yet — card holds lapse after ~7 days —
+ *      and is marked paymentAuthStatus 'deferred' for the lifecycle sweep
+ *   4. an existing stripePaymentIntentId is re-used: held or settled intents
+ *      are returned as-is, unconfirmed ones are re-amounted and confirmed, and
+ *      only a canceled intent (or a held one the sweep is replacing) is
+ *      replaced by a new one
+ *
+ * chargeBookingOffSession() is the capture fallback: when the hold has lapsed
+ * or capture fails, the total is charged to the saved card directly.
+ * collectCancellationFee() takes a late-cancellation fee the same two ways.
+ *
+ * chargeTip() charges a post-completion tip on its own, outside the booking's
+ * holds, so it is never captured, voided or refunded with them.
+ *
+ * extendAuthorization() covers an approved change order: the main hold is
+ * incremented when the card allows it, otherwise a supplemental hold is
+ * placed beside it (Booking.supplementalPayments).
+ *
+ * Called by:
+ *  - POST /api/stripe/create-payment-intent
+ *  - lib/stripe/authorizationLifecycle.ts  (deferred + expiring holds)
+ *  - lib/bookings/completion.ts            (capture fallback)
+ *  - lib/bookings/transitionBooking.ts     (late-cancellation fee)
+ *  - lib/bookings/changeOrders.ts          (approved change orders)
+ *  - lib/payouts/tips.ts                   (tips)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { repriceBooking } from '@/lib/bookings/pricing';
+import { getOrCreateStripeCustomer } from '@/lib/stripe/customers';
+import { getDefaultPaymentMethodId } from '@/lib/stripe/paymentMethods';
+import { toDate } from '@/lib/converters';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type { PaymentAuthStatus, PriceBreakdown, SupplementalPayment } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Stripe's minimum charge in USD cents. */
+export const MIN_CHARGE_CENTS = 50;
+
+/** Hours before scheduledAt that a booking's card hold is placed. */
+export const AUTH_LEAD_HOURS = Number(process.env.PAYMENT_AUTH_LEAD_HOURS ?? 48);
+
+export class BookingPaymentError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BookingPaymentError';
+  }
+}
+
+export interface BookingAuthorization {
+  clientSecret: string | null;
+  /** null while the authorization is deferred. */
+  paymentIntentId: string | null;
+  status: Stripe.PaymentIntent.Status | 'deferred';
+  amountCents: number;
+  priceBreakdown: PriceBreakdown;
+  /** When a deferred booking will be authorized; null otherwise. */
+  authorizeAfter: Date | null;
+}
+
+export interface AuthorizeBookingParams {
+  bookingId: string;
+  customerId: string;
+  /** Amount the client displayed; rejected if it differs from the server total. */
+  expectedAmountCents?: number;
+  /** Customer is not present (lifecycle sweep) — no 3-D Secure challenge possible. */
+  offSession?: boolean;
+  /** Replace a live hold with a fresh one and cancel the old intent. */
+  replaceHeld?: boolean;
+  now?: Date;
+}
+
+/** Statuses in which an intent can still be re-amounted and confirmed. */
+const UNCONFIRMED_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+/** When the authorization window for a booking scheduled at `scheduledAt` opens. */
+export function authorizationOpensAt(scheduledAt: Date): Date {
+  return new Date(scheduledAt.getTime() - AUTH_LEAD_HOURS * HOUR_MS);
+}
+
+function authStatusFor(intent: Stripe.PaymentIntent): PaymentAuthStatus | null {
+  switch (intent.status) {
+    case 'requires_capture':
+    case 'succeeded':
+      return 'authorized';
+    case 'requires_action':
+      return 'requires_action';
+    case 'requires_payment_method':
+    case 'canceled':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/** Throws a 402 for card declines (incl. off-session authentication_required). */
+function rethrowStripeError(err: unknown): never {
+  if (err instanceof BookingPaymentError) throw err;
+  if ((err as { type?: string }).type === 'StripeCardError') {
+    throw new BookingPaymentError((err as Error).message, 402);
+  }
+  throw err;
+}
+
+/** Loads the customer's Stripe Customer and saved default card. */
+async function requireDefaultCard(customerId: string) {
+  const stripeCustomerId = await getOrCreateStripeCustomer(customerId);
+  if (!stripeCustomerId) throw new BookingPaymentError('User not found', 404);
+  const paymentMethodId = await getDefaultPaymentMethodId(stripeCustomerId);
+  if (!paymentMethodId) throw new BookingPaymentError('No saved payment method', 409);
+  return { stripeCustomerId, paymentMethodId };
+}
+
+/**
+ * Authorizes the booking's server-computed total on the customer's default
+ * card, or defers it until the authorization window opens.
+ */
+export async function authorizeBooking({
+  bookingId,
+  customerId,
+  expectedAmountCents,
+  offSession = false,
+  replaceHeld = false,
+  now = new Date(),
+}: AuthorizeBookingParams): Promise<BookingAuthorization> {
+  // 1. Load + re-price the booking
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const bookingSnap = await bookingRef.get();
+  if (!bookingSnap.exists) throw new BookingPaymentError('Booking not found', 404);
+  const booking = bookingSnap.data()!;
+  if (booking.customerId !== customerId) throw new BookingPaymentError('Forbidden', 403);
+  if (booking.status === 'cancelled' || booking.status === 'complete') {
+    throw new BookingPaymentError(`Booking is ${booking.status}`, 409);
+  }
+
+  const priceBreakdown = repriceBooking({
+    serviceSnapshot:           booking.serviceSnapshot,
+    subscriptionDiscountCents: booking.subscriptionDiscountCents,
+    addOns:                    booking.addOns,
+    priceBreakdown:            booking.priceBreakdown,
+  });
+  const amountCents = priceBreakdown.totalCents;
+
+  // 2. Reject a client amount that disagrees with the server
+  if (expectedAmountCents !== undefined && expectedAmountCents !== amountCents) {
+    throw new BookingPaymentError(`Amount mismatch — booking total is ${amountCents}`, 409);
+  }
+  if (amountCents < MIN_CHARGE_CENTS) {
+    throw new BookingPaymentError('Nothing to authorize for this booking', 400);
+  }
+
+  await bookingRef.update({
+    priceBreakdown,
+    totalPrice: amountCents,
+    updatedAt:  FieldValue.serverTimestamp(),
+  });
+
+  // 3. Customer + saved default card — checked even when deferring, so a
+  // booking is never accepted without a card to authorize later
+  const { stripeCustomerId, paymentMethodId } = await requireDefaultCard(customerId);
+
+  const existingId = (booking.stripePaymentIntentId as string | null) ?? null;
+  const scheduledAt = toDate(booking.scheduledAt);
+  const opensAt = scheduledAt ? authorizationOpensAt(scheduledAt) : now;
+
+  // 4. Too early — a hold placed now would lapse before the appointment
+  if (!existingId && opensAt > now) {
+    await bookingRef.update({ paymentAuthStatus: 'deferred' as PaymentAuthStatus });
+    return {
+      clientSecret:    null,
+      paymentIntentId: null,
+      status:          'deferred',
+      amountCents,
+      priceBreakdown,
+      authorizeAfter:  opensAt,
+    };
+  }
+
+  const stripe = await getStripe();
+
+  try {
+    // 5. Re-use the booking's intent when it is still live
+    if (existingId) {
+      let intent = await stripe.paymentIntents.retrieve(existingId);
+
+      if (UNCONFIRMED_STATUSES.includes(intent.status)) {
+        if (intent.amount !== amountCents) {
+          intent = await stripe.paymentIntents.update(existingId, { amount: amountCents });
+        }
+        intent = await stripe.paymentIntents.confirm(existingId, {
+          payment_method: paymentMethodId,
+          ...(offSession ? { off_session: true } : {}),
+        });
+        await recordIntent(bookingId, intent, now);
+        return toAuthorization(intent, priceBreakdown);
+      }
+
+      const replacing = replaceHeld && intent.status === 'requires_capture';
+      if (intent.status !== 'canceled' && !replacing) {
+        if (intent.amount !== amountCents && intent.status === 'requires_capture') {
+          throw new BookingPaymentError('Booking is already authorized for a different amount', 409);
+        }
+        // e.g. a failed replacement while the old hold is still live
+        const current = authStatusFor(intent);
+        if (current && booking.paymentAuthStatus !== current) {
+          await bookingRef.update({ paymentAuthStatus: current });
+        }
+        return toAuthorization(intent, priceBreakdown);
+      }
+    }
+
+    // 6. Create and confirm a new intent (pre-authorize, do not capture yet).
+    // The key is scoped to the intent it replaces so a retry never duplicates
+    // it, and to the card so a retry after updating a declined card is a new
+    // attempt rather than a replay of the decline.
+    const intent = await stripe.paymentIntents.create(
+      {
+        amount:         amountCents,
+        currency:       'usd',
+        customer:       stripeCustomerId,
+        payment_method: paymentMethodId,
+        confirm:        true,
+        capture_method: 'manual',
+        metadata:       { bookingId, firebaseUid: customerId, offSession: String(offSession) },
+        // Lets approved change orders raise this hold instead of adding a second one
+        payment_method_options: { card: { request_incremental_authorization: 'if_available' } },
+        ...(offSession
+          ? { off_session: true, payment_method_types: ['card'] }
+          // Saved cards never redirect; 3-D Secure surfaces as requires_action
+          : { automatic_payment_methods: { enabled: true, allow_redirects: 'never' as const } }),
+      },
+      { idempotencyKey: `booking-auth-${bookingId}-${existingId ?? 'first'}-${amountCents}-${paymentMethodId}` }
+    );
+
+    // The booking points at the new intent before the old one is canceled, so
+    // the webhook's payment_intent.canceled for the old one is ignored
+    await recordIntent(bookingId, intent, now);
+    if (existingId && existingId !== intent.id) {
+      await stripe.paymentIntents.cancel(existingId).catch((err) =>
+        console.error(`[bookingPayments] could not cancel replaced ${existingId}:`, err)
+      );
+    }
+    return toAuthorization(intent, priceBreakdown);
+  } catch (err) {
+    rethrowStripeError(err);
+  }
+}
+
+/**
+ * Charges the saved default card without a prior hold (automatic capture,
+ * off-session). Used at completion for whatever the booking's holds did not
+ * cover — the whole total when the main hold lapsed or capture failed.
+ *
+ * With replacePrimary the charge becomes the booking's stripePaymentIntentId;
+ * otherwise it is recorded as a supplemental payment.
+ *
+ * @returns The amount received, in cents.
+ * @throws BookingPaymentError 402 on decline, 409 when there is no saved card.
+ */
+export async function chargeBookingOffSession(
+  bookingId: string,
+  amountCents: number,
+  { replacePrimary }: { replacePrimary: boolean }
+): Promise<number> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const bookingSnap = await bookingRef.get();
+  if (!bookingSnap.exists) throw new BookingPaymentError('Booking not found', 404);
+  const booking = bookingSnap.data()!;
+  const previousId = (booking.stripePaymentIntentId as string | null) ?? null;
+  const card = await requireDefaultCard(booking.customerId as string);
+
+  const intent = await chargeOffSession({
+    bookingId,
+    customerId:     booking.customerId as string,
+    amountCents,
+    card,
+    idempotencyKey: `booking-charge-${bookingId}-${previousId ?? 'none'}-${amountCents}-${card.paymentMethodId}`,
+  });
+
+  await bookingRef.update({
+    ...(replacePrimary
+      ? { stripePaymentIntentId: intent.id, paymentAuthStatus: 'authorized' as PaymentAuthStatus }
+      : {
+          supplementalPayments: FieldValue.arrayUnion({
+            paymentIntentId: intent.id,
+            amountCents:     intent.amount,
+            changeOrderId:   null,
+          } satisfies SupplementalPayment),
+        }),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return intent.amount_received;
+}
+
+/**
+ * Charges a tip to the customer's saved default card. Keyed by booking,
+ * amount and card, so a retried request is one charge and a retry with an
+ * updated card after a decline is a new attempt.
+ *
+ * @throws BookingPaymentError 402 on decline, 409 when there is no saved card.
+ */
+export async function chargeTip(bookingId: string, customerId: string, amountCents: number): Promise<Stripe.PaymentIntent> {
+  const card = await requireDefaultCard(customerId);
+  return chargeOffSession({
+    bookingId,
+    customerId,
+    amountCents,
+    card,
+    idempotencyKey: `tip-${bookingId}-${amountCents}-${card.paymentMethodId}`,
+    purpose:        'tip',
+  });
+}
+
+export interface AuthorizationExtension {
+  /** How the extra amount is held — 'none' leaves it to completion. */
+  method: 'incremented' | 'supplemental' | 'none';
+  amountCents: number;
+  paymentIntentId: string | null;
+}
+
+/**
+ * Raises the booking's authorization to `totalCents` after a change order is
+ * approved. The main hold is incremented when the card supports it;
+ * otherwise a supplemental manual-capture intent is placed for the
+ * difference. Nothing is held when the booking has no live hold yet — the
+ * deferred authorization or the completion charge picks up the new total.
+ *
+ * @throws BookingPaymentError 402 when the card declines the extra amount.
+ */
+export async function extendAuthorization({
+  bookingId,
+  changeOrderId,
+  totalCents,
+}: {
+  bookingId: string;
+  changeOrderId: string;
+  totalCents: number;
+}): Promise<AuthorizationExtension> {
+  const none: AuthorizationExtension = { method: 'none', amountCents: 0, paymentIntentId: null };
+
+  const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
+  if (!bookingSnap.exists) throw new BookingPaymentError('Booking not found', 404);
+  const booking = bookingSnap.data()!;
+  const primaryId = (booking.stripePaymentIntentId as string | null) ?? null;
+  if (!primaryId) return none;
+
+  const stripe = await getStripe();
+  const primary = await stripe.paymentIntents.retrieve(primaryId, { expand: ['latest_charge'] });
+  if (primary.status !== 'requires_capture') return none;
+
+  const supplemental = (booking.supplementalPayments as SupplementalPayment[] | undefined) ?? [];
+  // A retried approval finds its own supplemental hold already in place
+  if (supplemental.some((p) => p.changeOrderId === changeOrderId)) return none;
+
+  const held = primary.amount + supplemental.reduce((sum, p) => sum + p.amountCents, 0);
+  const delta = totalCents - held;
+  if (delta <= 0) return none;
+
+  try {
+    // 1. Increment the main hold when the card network allows it
+    const charge = primary.latest_charge as Stripe.Charge | null;
+    if (charge?.payment_method_details?.card?.incremental_authorization?.status === 'available') {
+      try {
+        const incremented = await stripe.paymentIntents.incrementAuthorization(
+          primaryId,
+          { amount: primary.amount + delta },
+          { idempotencyKey: `increment-${bookingId}-${changeOrderId}` }
+        );
+        return { method: 'incremented', amountCents: delta, paymentIntentId: incremented.id };
+      } catch (err) {
+        // Declined increments leave the original hold intact — fall back below
+        if ((err as { type?: string }).type !== 'StripeCardError') throw err;
+        console.warn(`[bookingPayments] increment declined for ${bookingId} — placing a supplemental hold`);
+      }
+    }
+
+    // 2. Supplemental hold for the difference
+    if (delta < MIN_CHARGE_CENTS) return none;
+    const { stripeCustomerId, paymentMethodId } = await requireDefaultCard(booking.customerId as string);
+    const intent = await stripe.paymentIntents.create(
+      {
+        amount:               delta,
+        currency:             'usd',
+        customer:             stripeCustomerId,
+        payment_method:       paymentMethodId,
+        payment_method_types: ['card'],
+        confirm:              true,
+        off_session:          true,
+        capture_method:       'manual',
+        metadata:             {
+          bookingId,
+          changeOrderId,
+          firebaseUid: booking.customerId as string,
+          offSession:  'true',
+        },
+      },
+      { idempotencyKey: `supplemental-${bookingId}-${changeOrderId}` }
+    );
+    if (intent.status !== 'requires_capture') {
+      throw new BookingPaymentError(`Authorization did not complete (status: ${intent.status})`, 402);
+    }
+
+    await adminDb.collection('bookings').doc(bookingId).update({
+      supplementalPayments: FieldValue.arrayUnion({
+        paymentIntentId: intent.id,
+        amountCents:     intent.amount,
+        changeOrderId,
+      } satisfies SupplementalPayment),
+      updatedAt:            FieldValue.serverTimestamp(),
+    });
+    return { method: 'supplemental', amountCents: delta, paymentIntentId: intent.id };
+  } catch (err) {
+    rethrowStripeError(err);
+  }
+}
+
+/**
+ * Collects a late-cancellation fee for a booking that has just been
+ * cancelled. A live hold is captured for the fee only (Stripe releases the
+ * rest); otherwise any unconfirmed intent is canceled and the fee is charged
+ * to the saved card off-session. The outcome is written to
+ * booking.cancellationFee.
+ *
+ * Called post-commit by lib/bookings/transitionBooking.ts in place of voiding
+ * the authorization.
+ */
+export async function collectCancellationFee(bookingId: string, feeCents: number): Promise<void> {
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const bookingSnap = await bookingRef.get();
+  if (!bookingSnap.exists) return;
+  const booking = bookingSnap.data()!;
+  const existingId = (booking.stripePaymentIntentId as string | null) ?? null;
+  const stripe = await getStripe();
+
+  try {
+    let chargedId: string | null = null;
+
+    if (existingId) {
+      const intent = await stripe.paymentIntents.retrieve(existingId);
+      if (intent.status === 'requires_capture') {
+        const captured = await stripe.paymentIntents.capture(
+          existingId,
+          { amount_to_capture: Math.min(feeCents, intent.amount) },
+          { idempotencyKey: `cancel-fee-${bookingId}` }
+        );
+        chargedId = captured.id;
+      } else if (intent.status !== 'canceled' && intent.status !== 'succeeded') {
+        await stripe.paymentIntents.cancel(existingId);
+      }
+    }
+
+    // Change-order holds are released — the fee comes from the main hold only
+    for (const p of (booking.supplementalPayments as SupplementalPayment[] | undefined) ?? []) {
+      const intent = await stripe.paymentIntents.retrieve(p.paymentIntentId);
+      if (intent.status === 'requires_capture') await stripe.paymentIntents.cancel(p.paymentIntentId);
+    }
+
+    if (!chargedId) {
+      const card = await requireDefaultCard(booking.customerId as string);
+      const intent = await chargeOffSession({
+        bookingId,
+        customerId:     booking.customerId as string,
+        amountCents:    feeCents,
+        card,
+        idempotencyKey: `cancel-fee-${bookingId}-${existingId ?? 'none'}-${card.paymentMethodId}`,
+      });
+      chargedId = intent.id;
+    }
+
+    await bookingRef.update({
+      stripePaymentIntentId:       chargedId,
+      'cancellationFee.status':    'charged',
+      'cancellationFee.chargedAt': FieldValue.serverTimestamp(),
+      updatedAt:                   FieldValue.serverTimestamp(),
+    });
+    console.log(`[bookingPayments] cancellation fee ${feeCents} charged for ${bookingId}`);
+  } catch (err) {
+    await bookingRef.update({ 'cancellationFee.status': 'failed' });
+    throw err;
+  }
+}
+
+/**
+ * Creates and confirms an automatic-capture, off-session charge on the default
+ * card (requireDefaultCard). Callers include card.paymentMethodId in the
+ * idempotency key so a retry with an updated card is not a replayed decline.
+ */
+async function chargeOffSession({
+  bookingId,
+  customerId,
+  amountCents,
+  card,
+  idempotencyKey,
+  purpose,
+}: {
+  bookingId: string;
+  customerId: string;
+  amountCents: number;
+  card: { stripeCustomerId: string; paymentMethodId: string };
+  idempotencyKey: string;
+  purpose?: 'tip';
+}): Promise<Stripe.PaymentIntent> {
+  const { stripeCustomerId, paymentMethodId } = card;
+  const stripe = await getStripe();
+
+  try {
+    const intent = await stripe.paymentIntents.create(
+      {
+        amount:               amountCents,
+        currency:             'usd',
+        customer:             stripeCustomerId,
+        payment_method:       paymentMethodId,
+        payment_method_types: ['card'],
+        confirm:              true,
+        off_session:          true,
+        metadata:             { bookingId, firebaseUid: customerId, offSession: 'true', ...(purpose ? { purpose } : {}) },
+      },
+      { idempotencyKey }
+    );
+    if (intent.status !== 'succeeded') {
+      throw new BookingPaymentError(`Charge did not complete (status: ${intent.status})`, 402);
+    }
+    return intent;
+  } catch (err) {
+    rethrowStripeError(err);
+  }
+}
+
+async function recordIntent(bookingId: string, intent: Stripe.PaymentIntent, now: Date): Promise<void> {
+  const paymentAuthStatus = authStatusFor(intent);
+  await adminDb.collection('bookings').doc(bookingId).update({
+    stripePaymentIntentId: intent.id,
+    ...(paymentAuthStatus ? { paymentAuthStatus } : {}),
+    ...(paymentAuthStatus === 'authorized' ? { paymentAuthorizedAt: now, paymentAuthFailedAt: null } : {}),
+    updatedAt:             FieldValue.serverTimestamp(),
+  });
+}
+
+function toAuthorization(intent: Stripe.PaymentIntent, priceBreakdown: PriceBreakdown): BookingAuthorization {
+  return {
+    clientSecret:    intent.client_secret,
+    paymentIntentId: intent.id,
+    status:          intent.status,
+    amountCents:     intent.amount,
+    priceBreakdown,
+    authorizeAfter:  null,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Stripe customer lookup — server-side only.
+ *
+ * Every RevvDoc user who pays gets exactly one Stripe Customer, stored on
+ * users/{uid}.stripeCustomerId the first time it is needed.
+ *
+ * Called by:
+ *  - POST /api/stripe/create-payment-intent
+ *  - lib/stripe/subscriptions.ts  (subscription enrollment)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { getStripe } from '@/lib/stripe/getStripe';
+
+/**
+ * Returns the user's Stripe Customer ID, creating the customer on first use.
+ *
+ * @returns null when users/{uid} does not exist.
+ */
+export async function getOrCreateStripeCustomer(uid: string): Promise<string | null> {
+  const userRef = adminDb.collection('users').doc(uid);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) return null;
+  const userData = userSnap.data()!;
+
+  if (userData.stripeCustomerId) return userData.stripeCustomerId as string;
+
+  const stripe = await getStripe();
+
+  // Idempotency key — two concurrent first payments must not create two customers
+  const customer = await stripe.customers.create(
+    {
+      email:    userData.email,
+      name:     userData.name,
+      metadata: { firebaseUid: uid },
+    },
+    { idempotencyKey: `customer-${uid}` }
+  );
+  await userRef.update({ stripeCustomerId: customer.id });
+  return customer.id;
+}
@@ -0,0 +1,23 @@
+/**
+ * Lazy Stripe Server SDK accessor — server-side only.
+ *
+ * lib/stripe/stripe.ts throws at load time when STRIPE_SECRET_KEY is unset,
+ * so server modules import the SDK through getStripe() on first use instead
+ * of at the top of the file — a missing key then only breaks the payment
+ * call, not every route that imports the module.
+ *
+ * Called by:
+ *  - lib/stripe/*            (customers, payment methods, booking payments,
+ *                             refunds, subscriptions)
+ *  - lib/bookings/*          (voiding holds, capture on completion)
+ *  - lib/invoices/invoices.ts
+ *
+ * NEVER import this file in components or client-side code.
+ */
+
+import type Stripe from 'stripe';
+
+export async function getStripe(): Promise<Stripe> {
+  const { default: stripe } = await import('@/lib/stripe/stripe');
+  return stripe;
+}
@@ -0,0 +1,139 @@
+/**
+ * Saved payment methods — server-side only.
+ *
+ * Cards live on the user's Stripe Customer (users/{uid}.stripeCustomerId),
+ * never in Firestore. A card is added with a SetupIntent confirmed by Stripe
+ * Elements on the client; the default card is the customer's
+ * invoice_settings.default_payment_method, which booking authorizations and
+ * subscription invoices charge.
+ *
+ * Every function that takes a paymentMethodId checks it belongs to the
+ * caller's Stripe Customer first.
+ *
+ * Called by:
+ *  - GET  /api/stripe/payment-methods
+ *  - POST /api/stripe/create-setup-intent
+ *  - POST /api/stripe/detach-payment-method
+ *  - POST /api/stripe/set-default-payment-method
+ *  - lib/stripe/bookingPayments.ts  (default card)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import type Stripe from 'stripe';
+import { getOrCreateStripeCustomer } from '@/lib/stripe/customers';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type { SavedPaymentMethod } from '@/types';
+
+export class PaymentMethodError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PaymentMethodError';
+  }
+}
+
+async function requireCustomer(uid: string): Promise<string> {
+  const stripeCustomerId = await getOrCreateStripeCustomer(uid);
+  if (!stripeCustomerId) throw new PaymentMethodError('User not found', 404);
+  return stripeCustomerId;
+}
+
+function idOf(ref: string | { id: string } | null | undefined): string | null {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+/** The customer's default card, or null if none is set. */
+export async function getDefaultPaymentMethodId(stripeCustomerId: string): Promise<string | null> {
+  const stripe = await getStripe();
+  const customer = await stripe.customers.retrieve(stripeCustomerId);
+  if (customer.deleted) return null;
+  return idOf(customer.invoice_settings?.default_payment_method);
+}
+
+/** Lists the user's saved cards, default first. */
+export async function listPaymentMethods(uid: string): Promise<SavedPaymentMethod[]> {
+  const stripeCustomerId = await requireCustomer(uid);
+  const stripe = await getStripe();
+
+  const [methods, defaultId] = await Promise.all([
+    stripe.paymentMethods.list({ customer: stripeCustomerId, type: 'card', limit: 100 }),
+    getDefaultPaymentMethodId(stripeCustomerId),
+  ]);
+
+  return methods.data
+    .filter((pm) => pm.card)
+    .map((pm) => ({
+      paymentMethodId: pm.id,
+      brand:           pm.card!.brand,
+      last4:           pm.card!.last4,
+      expMonth:        pm.card!.exp_month,
+      expYear:         pm.card!.exp_year,
+      isDefault:       pm.id === defaultId,
+    }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/** Starts the add-card flow. The client confirms the SetupIntent with Elements. */
+export async function createSetupIntent(uid: string): Promise<{ clientSecret: string }> {
+  const stripeCustomerId = await requireCustomer(uid);
+  const stripe = await getStripe();
+
+  const setupIntent = await stripe.setupIntents.create({
+    customer:             stripeCustomerId,
+    usage:                'off_session',
+    payment_method_types: ['card'],
+    metadata:             { firebaseUid: uid },
+  });
+  if (!setupIntent.client_secret) {
+    throw new PaymentMethodError('Stripe returned no client secret', 502);
+  }
+  return { clientSecret: setupIntent.client_secret };
+}
+
+/** Loads a payment method and checks it is attached to the user's customer. */
+async function requireOwnedPaymentMethod(uid: string, paymentMethodId: string) {
+  const stripeCustomerId = await requireCustomer(uid);
+  const stripe = await getStripe();
+
+  let pm: Stripe.PaymentMethod;
+  try {
+    pm = await stripe.paymentMethods.retrieve(paymentMethodId);
+  } catch {
+    throw new PaymentMethodError('Payment method not found', 404);
+  }
+  if (idOf(pm.customer) !== stripeCustomerId) {
+    throw new PaymentMethodError('Payment method not found', 404);
+  }
+  return { stripe, stripeCustomerId, pm };
+}
+
+/**
+ * Makes a saved card the default. The payment-methods page calls this for the
+ * first card a customer saves, and when they pick a different one.
+ */
+export async function setDefaultPaymentMethod(uid: string, paymentMethodId: string): Promise<void> {
+  const { stripe, stripeCustomerId } = await requireOwnedPaymentMethod(uid, paymentMethodId);
+  await stripe.customers.update(stripeCustomerId, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  });
+}
+
+/**
+ * Removes a saved card. Detaching the default promotes the most recently
+ * added remaining card so bookings always have one to authorize against.
+ */
+export async function detachPaymentMethod(uid: string, paymentMethodId: string): Promise<void> {
+  const { stripe, stripeCustomerId } = await requireOwnedPaymentMethod(uid, paymentMethodId);
+  const defaultId = await getDefaultPaymentMethodId(stripeCustomerId);
+
+  await stripe.paymentMethods.detach(paymentMethodId);
+
+  if (defaultId === paymentMethodId) {
+    const remaining = await stripe.paymentMethods.list({ customer: stripeCustomerId, type: 'card', limit: 1 });
+    await stripe.customers.update(stripeCustomerId, {
+      invoice_settings: { default_payment_method: remaining.data[0]?.id ?? '' },
+    });
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Booking refunds and disputes — server-side only.
+ *
+ * refundBooking() refunds all or part of a booking's captured payments (the
+ * service charge and any change-order charges, or a late-cancellation fee).
+ * Refunds are never trusted from our own bookkeeping: after every refund —
+ * ours or one made in the Stripe Dashboard (charge.refunded) —
+ * syncRefundsForCharge() re-lists the charge's refunds from Stripe and merges
+ * them into booking.refunds / amountRefundedCents and
+ * serviceHistory/{bookingId}.refundedCents in one transaction. The customer
+ * is notified once per refund, by whichever sync sees it first.
+ *
+ * recordDispute() mirrors charge.dispute.* events onto booking.dispute.
+ *
+ * Called by:
+ *  - POST /api/admin/refund-booking
+ *  - POST /api/stripe/webhook  (charge.refunded, charge.refund.updated,
+ *                               charge.dispute.created, charge.dispute.closed)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type { BookingDispute, BookingRefund, RefundStatus, SupplementalPayment } from '@/types';
+
+export class RefundError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export interface RefundBookingParams {
+  bookingId: string;
+  /** Omit to refund everything not yet refunded. */
+  amountCents?: number;
+  reason: string;
+  /** users/{uid} of the admin issuing the refund. */
+  adminId: string;
+}
+
+export interface RefundBookingResult {
+  /** One per charge the amount was taken from — usually one. */
+  refunds: BookingRefund[];
+  amountRefundedCents: number;
+  /** What can still be refunded after this one. */
+  refundableCents: number;
+}
+
+/** Refund statuses that count towards the refunded total. */
+const ACTIVE_REFUND_STATUSES: RefundStatus[] = ['pending', 'requires_action', 'succeeded'];
+
+function idOf(ref: string | { id: string } | null | undefined): string | null {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+function toBookingRefund(refund: Stripe.Refund): BookingRefund {
+  return {
+    refundId:    refund.id,
+    amountCents: refund.amount,
+    reason:      refund.metadata?.reason ?? null,
+    status:      (refund.status ?? 'pending') as RefundStatus,
+    refundedBy:  refund.metadata?.refundedBy ?? null,
+    createdAt:   new Date(refund.created * 1000),
+  };
+}
+
+/** A PaymentIntent's metadata (bookingId, purpose), or null. */
+async function intentMetadata(paymentIntentId: string | null): Promise<Stripe.Metadata | null> {
+  if (!paymentIntentId) return null;
+  const stripe = await getStripe();
+  const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  return intent.metadata ?? null;
+}
+
+/** Finds the booking a PaymentIntent belongs to via its metadata. */
+async function bookingIdForIntent(paymentIntentId: string | null): Promise<string | null> {
+  return (await intentMetadata(paymentIntentId))?.bookingId ?? null;
+}
+
+/**
+ * Refunds a booking's captured payments, main charge first.
+ *
+ * @throws RefundError 404 when the booking is missing, 409 when there is no
+ *         captured payment or nothing left to refund, 400 when the amount
+ *         exceeds what is refundable.
+ */
+export async function refundBooking({
+  bookingId,
+  amountCents,
+  reason,
+  adminId,
+}: RefundBookingParams): Promise<RefundBookingResult> {
+  // 1. Load every captured charge — the main intent, then change-order and
+  // shortfall intents (Booking.supplementalPayments)
+  const bookingSnap = await adminDb.collection('bookings').doc(bookingId).get();
+  if (!bookingSnap.exists) throw new RefundError('Booking not found', 404);
+  const booking = bookingSnap.data()!;
+  const intentIds = [
+    ...(booking.stripePaymentIntentId ? [booking.stripePaymentIntentId as string] : []),
+    ...((booking.supplementalPayments as SupplementalPayment[] | undefined) ?? []).map((p) => p.paymentIntentId),
+  ];
+
+  const stripe = await getStripe();
+  const charges: Stripe.Charge[] = [];
+  for (const intentId of intentIds) {
+    const intent = await stripe.paymentIntents.retrieve(intentId, { expand: ['latest_charge'] });
+    const charge = intent.latest_charge as Stripe.Charge | null;
+    if (intent.status === 'succeeded' && charge) charges.push(charge);
+  }
+  if (charges.length === 0) throw new RefundError('Booking has no captured payment to refund', 409);
+
+  // 2. Validate the amount against what Stripe says is left
+  const refundableOf = (c: Stripe.Charge) => c.amount_captured - c.amount_refunded;
+  const refundableCents = charges.reduce((sum, c) => sum + refundableOf(c), 0);
+  if (refundableCents <= 0) throw new RefundError('Payment is already fully refunded', 409);
+  const amount = amountCents ?? refundableCents;
+  if (amount > refundableCents) {
+    throw new RefundError(`Refund exceeds the refundable amount (${refundableCents})`, 400);
+  }
+
+  // 3. Refund charge by charge. Each key is scoped to what that charge has
+  // already refunded, so a double-submit is one refund but a deliberate
+  // second refund is not blocked.
+  const created: Stripe.Refund[] = [];
+  let remaining = amount;
+  try {
+    for (const charge of charges) {
+      const part = Math.min(remaining, refundableOf(charge));
+      if (part <= 0) continue;
+      created.push(await stripe.refunds.create(
+        {
+          charge:   charge.id,
+          amount:   part,
+          metadata: { bookingId, reason, refundedBy: adminId },
+        },
+        { idempotencyKey: `refund-${charge.id}-${charge.amount_refunded}-${part}` }
+      ));
+      remaining -= part;
+      if (remaining === 0) break;
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Stripe refund failed';
+    throw new RefundError(created.length > 0 ? `Refund partly issued: ${message}` : message, 502);
+  }
+
+  // 4. Mirror onto the booking + service history
+  let amountRefundedCents = 0;
+  for (const chargeId of Array.from(new Set(created.map((r) => idOf(r.charge)!)))) {
+    amountRefundedCents = (await syncRefundsForCharge(chargeId)) ?? amountRefundedCents;
+  }
+
+  console.log(`[refunds] ${amount} refunded on booking ${bookingId} by ${adminId} (${created.map((r) => r.id).join(', ')})`);
+  return {
+    refunds:         created.map(toBookingRefund),
+    amountRefundedCents,
+    refundableCents: refundableCents - amount,
+  };
+}
+
+/**
+ * Re-reads every refund on a charge from Stripe and merges them into the
+ * booking's refunds (which may span several charges) and its service history
+ * record. Idempotent. Tip charges (metadata.purpose 'tip') are skipped —
+ * they are not part of what was paid for the service.
+ *
+ * @returns The booking's refunded total, or null if the charge is not a
+ *          booking's service charge.
+ */
+export async function syncRefundsForCharge(chargeId: string): Promise<number | null> {
+  const stripe = await getStripe();
+  const charge = await stripe.charges.retrieve(chargeId);
+  const metadata = charge.metadata?.bookingId
+    ? charge.metadata
+    : await intentMetadata(idOf(charge.payment_intent));
+  const bookingId = metadata?.bookingId ?? null;
+  if (!bookingId || metadata?.purpose === 'tip') return null;
+
+  const list = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+  const chargeRefunds = list.data.map(toBookingRefund);
+
+  const bookingRef = adminDb.collection('bookings').doc(bookingId);
+  const historyRef = adminDb.collection('serviceHistory').doc(bookingId);
+
+  const { booking, newRefunds, amountRefundedCents } = await adminDb.runTransaction(async (tx) => {
+    const [bookingSnap, historySnap] = await Promise.all([tx.get(bookingRef), tx.get(historyRef)]);
+    if (!bookingSnap.exists) return { booking: null, newRefunds: [] as BookingRefund[], amountRefundedCents: 0 };
+    const data = bookingSnap.data()!;
+
+    const existing = (data.refunds as BookingRefund[] | undefined) ?? [];
+    const known = new Set(existing.map((r) => r.refundId));
+    const updated = new Map(chargeRefunds.map((r) => [r.refundId, r]));
+    const refunds = [
+      ...existing.map((r) => updated.get(r.refundId) ?? r),
+      ...chargeRefunds.filter((r) => !known.has(r.refundId)),
+    ];
+    const amountRefundedCents = refunds
+      .filter((r) => ACTIVE_REFUND_STATUSES.includes(r.status))
+      .reduce((sum, r) => sum + r.amountCents, 0);
+
+    tx.update(bookingRef, {
+      refunds,
+      amountRefundedCents,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    if (historySnap.exists) {
+      tx.update(historyRef, { refundedCents: amountRefundedCents });
+    }
+    return {
+      booking:    data,
+      newRefunds: chargeRefunds.filter((r) => !known.has(r.refundId)),
+      amountRefundedCents,
+    };
+  });
+
+  if (!booking) return null;
+
+  for (const refund of newRefunds.filter((r) => ACTIVE_REFUND_STATUSES.includes(r.status))) {
+    await notifyUser(booking.customerId as string, {
+      type:             'refund_issued',
+      title:            'Refund Issued',
+      body:             `$${(refund.amountCents / 100).toFixed(2)} has been refunded for your ${booking.serviceSnapshot?.name ?? 'service'}. It can take 5–10 business days to appear on your statement.`,
+      link:             `/bookings/${bookingId}`,
+      relatedBookingId: bookingId,
+      relatedJobId:     (booking.jobId as string | null) ?? null,
+    }).catch((err) => console.error('[refunds] notification error:', err));
+  }
+
+  return amountRefundedCents;
+}
+
+/**
+ * Writes a dispute (chargeback) onto its booking.
+ *
+ * @returns false if the disputed charge is not a booking's.
+ */
+export async function recordDispute(dispute: Stripe.Dispute): Promise<boolean> {
+  const bookingId = await bookingIdForIntent(idOf(dispute.payment_intent));
+  if (!bookingId) return false;
+
+  const record: BookingDispute = {
+    disputeId:   dispute.id,
+    amountCents: dispute.amount,
+    reason:      dispute.reason,
+    status:      dispute.status,
+    createdAt:   new Date(dispute.created * 1000),
+  };
+  await adminDb.collection('bookings').doc(bookingId).update({
+    dispute:   record,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return true;
+}
@@ -3,8 +3,11 @@
  * NEVER import this file in components or client-side code.
  * Only use in: src/app/api/** Route Handlers.
  *
- * For client-side Stripe (Elements, confirmPayment), use:
- *   import { loadStripe } from '@stripe/stripe-js'
+ * For client-side Stripe (Elements, confirmSetup), use:
+ *   import { getStripeClient } from '@/lib/stripe/stripeClient'
+ *
+ * Optional env var STRIPE_API_BASE points the SDK at a local Stripe stand-in
+ * (e.g. stripe-mock: STRIPE_API_BASE=http://localhost:12111) for testing.
  */
 
 import Stripe from 'stripe';
@@ -13,9 +16,18 @@ if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY environment variable is not set');
 }
 
+const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null;
+
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2026-01-28.clover',
   typescript: true,
+  ...(apiBase
+    ? {
+        host:     apiBase.hostname,
+        port:     apiBase.port || (apiBase.protocol === 'http:' ? 80 : 443),
+        protocol: apiBase.protocol === 'http:' ? 'http' : 'https',
+      }
+    : {}),
 });
 
 export default stripe;
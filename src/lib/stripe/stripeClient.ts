@@ -0,0 +1,19 @@
+/**
+ * Stripe.js loader — browser-safe.
+ * Import this file in components and pages only; for server-side Stripe use
+ * lib/stripe/stripe.ts.
+ *
+ * loadStripe() is called once and the promise shared, as Stripe recommends —
+ * pass getStripeClient() straight to <Elements stripe={…}>.
+ */
+
+import { loadStripe, type Stripe } from '@stripe/stripe-js';
+
+let stripePromise: Promise<Stripe | null> | null = null;
+
+export function getStripeClient(): Promise<Stripe | null> {
+  if (!stripePromise) {
+    stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!);
+  }
+  return stripePromise;
+}
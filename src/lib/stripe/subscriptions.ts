@@ -0,0 +1,225 @@
+/**
+ * Stripe Billing for subscription plans — server-side only.
+ *
+ * Each SubscriptionPlan is backed by one Stripe Product + recurring Price,
+ * created on first enrollment and stored on the plan (stripeProductId /
+ * stripePriceId). Each CustomerSubscription is backed by one Stripe
+ * Subscription on the customer's Stripe Customer.
+ *
+ * Lifecycle:
+ *   enroll   → Firestore record created as 'pending_payment', Stripe
+ *              Subscription created with payment_behavior 'default_incomplete'
+ *   invoice paid / subscription updated (webhook)
+ *            → syncSubscriptionFromStripe() maps the Stripe status onto
+ *              SubscriptionStatus and copies the billing period
+ *   cancel   → stripe.subscriptions.cancel(), then Firestore 'cancelled'
+ *
+ * Stripe status → SubscriptionStatus:
+ *   active, trialing                      → active
+ *   incomplete, past_due, unpaid          → pending_payment
+ *   paused                                → paused
+ *   canceled, incomplete_expired          → cancelled
+ *
+ * Works against a local Stripe stand-in via STRIPE_API_BASE (lib/stripe/stripe.ts).
+ *
+ * Called by:
+ *  - POST /api/subscriptions/enroll
+ *  - POST /api/subscriptions/cancel
+ *  - POST /api/stripe/webhook
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { getOrCreateStripeCustomer } from '@/lib/stripe/customers';
+import { applyBillingPeriod } from '@/lib/subscriptions/periods';
+import { getStripe } from '@/lib/stripe/getStripe';
+import type { SubscriptionPeriod, SubscriptionPlan, SubscriptionStatus } from '@/types';
+
+export class SubscriptionBillingError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'SubscriptionBillingError';
+  }
+}
+
+/** Stripe recurring interval and months billed for each plan period. */
+const PERIOD_RECURRENCE: Record<SubscriptionPeriod, { interval: 'month' | 'year'; intervalCount: number; months: number }> = {
+  monthly:   { interval: 'month', intervalCount: 1, months: 1 },
+  quarterly: { interval: 'month', intervalCount: 3, months: 3 },
+  annual:    { interval: 'year',  intervalCount: 1, months: 12 },
+};
+
+export interface StartedSubscription {
+  stripeSubscriptionId: string;
+  /** Client secret of the first invoice's payment — null if nothing is due. */
+  clientSecret: string | null;
+  /** Stripe-hosted page where the customer can pay the first invoice. */
+  hostedInvoiceUrl: string | null;
+}
+
+/** Maps a Stripe Subscription status onto SubscriptionStatus. */
+export function mapStripeStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return 'active';
+    case 'paused':
+      return 'paused';
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'cancelled';
+    case 'incomplete':
+    case 'past_due':
+    case 'unpaid':
+    default:
+      return 'pending_payment';
+  }
+}
+
+/**
+ * Returns the plan's Stripe Price ID, creating the Product and recurring
+ * Price on first use. The price is priceMonthly × the months in the period.
+ */
+export async function ensurePlanPrice(planId: string): Promise<string> {
+  const planRef = adminDb.collection('subscriptionPlans').doc(planId);
+  const planSnap = await planRef.get();
+  if (!planSnap.exists) throw new SubscriptionBillingError('Plan not found', 404);
+  const plan = planSnap.data() as SubscriptionPlan;
+
+  if (plan.stripePriceId) return plan.stripePriceId;
+
+  const stripe = await getStripe();
+  const recurrence = PERIOD_RECURRENCE[plan.period] ?? PERIOD_RECURRENCE.monthly;
+
+  // Idempotency keys — concurrent first enrollments must not create duplicates
+  const productId = plan.stripeProductId ?? (
+    await stripe.products.create(
+      { name: plan.name, metadata: { planId } },
+      { idempotencyKey: `plan-product-${planId}` }
+    )
+  ).id;
+
+  const price = await stripe.prices.create(
+    {
+      product:     productId,
+      currency:    'usd',
+      unit_amount: plan.priceMonthly * recurrence.months,
+      recurring:   { interval: recurrence.interval, interval_count: recurrence.intervalCount },
+      metadata:    { planId },
+    },
+    { idempotencyKey: `plan-price-${planId}-${plan.period}-${plan.priceMonthly}` }
+  );
+
+  await planRef.update({ stripeProductId: productId, stripePriceId: price.id });
+  return price.id;
+}
+
+/**
+ * Creates the Stripe Subscription backing a pending CustomerSubscription.
+ * The subscription stays 'incomplete' until its first invoice is paid.
+ */
+export async function startStripeSubscription({
+  subscriptionId,
+  customerId,
+  planId,
+}: {
+  subscriptionId: string;
+  customerId: string;
+  planId: string;
+}): Promise<StartedSubscription> {
+  const stripeCustomerId = await getOrCreateStripeCustomer(customerId);
+  if (!stripeCustomerId) throw new SubscriptionBillingError('User not found', 404);
+
+  const priceId = await ensurePlanPrice(planId);
+  const stripe = await getStripe();
+
+  const stripeSub = await stripe.subscriptions.create(
+    {
+      customer:         stripeCustomerId,
+      items:            [{ price: priceId }],
+      payment_behavior: 'default_incomplete',
+      payment_settings: { save_default_payment_method: 'on_subscription' },
+      expand:           ['latest_invoice.confirmation_secret'],
+      metadata:         { subscriptionId, firebaseUid: customerId, planId },
+    },
+    { idempotencyKey: `enroll-${subscriptionId}` }
+  );
+
+  const invoice = typeof stripeSub.latest_invoice === 'object' ? stripeSub.latest_invoice : null;
+  return {
+    stripeSubscriptionId: stripeSub.id,
+    clientSecret:         invoice?.confirmation_secret?.client_secret ?? null,
+    hostedInvoiceUrl:     invoice?.hosted_invoice_url ?? null,
+  };
+}
+
+/** Cancels the Stripe Subscription immediately. Already-cancelled is not an error. */
+export async function cancelStripeSubscription(stripeSubscriptionId: string): Promise<void> {
+  const stripe = await getStripe();
+  try {
+    await stripe.subscriptions.cancel(stripeSubscriptionId);
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === 'resource_missing') return;
+    const current = await stripe.subscriptions.retrieve(stripeSubscriptionId).catch(() => null);
+    if (current?.status === 'canceled') return;
+    throw err;
+  }
+}
+
+/** Re-reads a Stripe Subscription (e.g. from an invoice event) and syncs it. */
+export async function syncStripeSubscriptionById(stripeSubscriptionId: string): Promise<boolean> {
+  const stripe = await getStripe();
+  const stripeSub = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+  return syncSubscriptionFromStripe(stripeSub);
+}
+
+/**
+ * Copies status and billing period from a Stripe Subscription onto its
+ * CustomerSubscription. Idempotent — webhook retries re-apply the same state.
+ *
+ * @returns false when no CustomerSubscription is linked to it.
+ */
+export async function syncSubscriptionFromStripe(stripeSub: Stripe.Subscription): Promise<boolean> {
+  let subscriptionId: string | null = stripeSub.metadata?.subscriptionId ?? null;
+  if (!subscriptionId) {
+    const snap = await adminDb
+      .collection('subscriptions')
+      .where('stripeSubscriptionId', '==', stripeSub.id)
+      .limit(1)
+      .get();
+    subscriptionId = snap.empty ? null : snap.docs[0].id;
+  }
+  if (!subscriptionId) return false;
+
+  const subRef = adminDb.collection('subscriptions').doc(subscriptionId);
+  const subSnap = await subRef.get();
+  if (!subSnap.exists) return false;
+  const current = subSnap.data()!;
+
+  // A locally cancelled subscription never comes back
+  if (current.status === 'cancelled') return true;
+
+  const status = mapStripeStatus(stripeSub.status);
+
+  // Basil+ API versions report the period on the subscription item
+  const item = stripeSub.items?.data?.[0];
+  if (status === 'active' && item?.current_period_start && item?.current_period_end) {
+    await applyBillingPeriod(
+      subscriptionId,
+      new Date(item.current_period_start * 1000),
+      new Date(item.current_period_end * 1000)
+    );
+  }
+
+  await subRef.update({
+    status,
+    stripeSubscriptionId: stripeSub.id,
+    ...(status === 'cancelled' ? { cancelledAt: FieldValue.serverTimestamp() } : {}),
+  });
+  return true;
+}
@@ -0,0 +1,71 @@
+/**
+ * Subscription entitlement matching.
+ *
+ * Decides whether a plan covers a service and how many uses remain in the
+ * current period. An entitlement with a serviceId covers only that service;
+ * one with serviceId = null covers every service in its serviceCategory.
+ * Service-specific entitlements are preferred over category-wide ones so a
+ * category allowance is not spent on a service that has its own.
+ *
+ * Each usage record names the entitlement it redeemed (entitlementServiceId,
+ * null for category-wide) so a use is never counted against two allowances.
+ * Records written before that field existed are matched by serviceId only.
+ *
+ * Pure module — no Firebase imports, safe on both client and server.
+ * Used by lib/subscriptions/redemption.ts (authoritative, at booking
+ * creation), lib/maintenance/costForecast.ts and services/subscriptionService.ts.
+ */
+
+import type {
+  ServiceCategory,
+  SubscriptionEntitlement,
+  SubscriptionUsageRecord,
+} from '@/types';
+
+export interface EntitlementService {
+  serviceId: string;
+  category: ServiceCategory;
+}
+
+/** True if the entitlement applies to the service at all (ignoring remaining uses). */
+export function entitlementCovers(entitlement: SubscriptionEntitlement, service: EntitlementService): boolean {
+  return entitlement.serviceId
+    ? entitlement.serviceId === service.serviceId
+    : entitlement.serviceCategory === service.category;
+}
+
+/** Uses of this entitlement recorded in the current period. */
+export function usesThisPeriod(entitlement: SubscriptionEntitlement, usage: SubscriptionUsageRecord[]): number {
+  return usage.filter((u) =>
+    entitlement.serviceId
+      ? u.serviceId === entitlement.serviceId && u.entitlementServiceId !== null
+      : u.entitlementServiceId === null && u.serviceCategory === entitlement.serviceCategory
+  ).length;
+}
+
+/**
+ * Returns the entitlement a booking for `service` should redeem, or null when
+ * the plan does not cover it or its allowance is used up this period.
+ */
+export function findAvailableEntitlement(
+  entitlements: SubscriptionEntitlement[],
+  usage: SubscriptionUsageRecord[],
+  service: EntitlementService
+): SubscriptionEntitlement | null {
+  const candidates = entitlements
+    .filter((e) => entitlementCovers(e, service))
+    .sort((a, b) => Number(b.serviceId !== null) - Number(a.serviceId !== null));
+
+  return candidates.find((e) => usesThisPeriod(e, usage) < e.usagesPerPeriod) ?? null;
+}
+
+/** Remaining uses for `service` across every entitlement that covers it. */
+export function remainingUses(
+  entitlements: SubscriptionEntitlement[],
+  usage: SubscriptionUsageRecord[],
+  service: EntitlementService
+): number {
+  return entitlements
+    .filter((e) => entitlementCovers(e, service))
+    .reduce((sum, e) => sum + Math.max(0, e.usagesPerPeriod - usesThisPeriod(e, usage)), 0);
+}
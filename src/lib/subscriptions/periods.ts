@@ -0,0 +1,238 @@
+/**
+ * Subscription billing-period engine — server-side only.
+ *
+ * sweepSubscriptionPeriods() runs on a schedule and, for every active
+ * CustomerSubscription:
+ *   - rolls it forward once currentPeriodEnd has passed: the closed period's
+ *     usage is archived to subscriptions/{id}/periods/{YYYY-MM-DD}, the period
+ *     advances by the plan's SubscriptionPeriod (repeatedly, if several were
+ *     missed) and usageThisPeriod / renewalReminderSentAt are reset
+ *   - sends one subscription_renewal notification when the period end is
+ *     within SUBSCRIPTION_RENEWAL_REMINDER_DAYS (default 3), unless the owner
+ *     has turned that preference off
+ *
+ * Paused subscriptions are frozen — their period does not advance and no
+ * reminder is sent. One resumed with a lapsed period is rolled straight to the
+ * period containing now on the next sweep. Cancelled and pending_payment
+ * subscriptions are never touched.
+ *
+ * Subscriptions billed through Stripe (stripeSubscriptionId set) are not
+ * rolled by the sweep — Stripe owns their period, and applyBillingPeriod()
+ * archives and resets usage when a webhook reports a new one. They still get
+ * renewal reminders.
+ *
+ * Called by:
+ *  - GET /api/cron/subscription-periods
+ *  - lib/stripe/subscriptions.ts  (applyBillingPeriod)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications/notify';
+import { toDate, toDateRequired } from '@/lib/converters';
+import type { SubscriptionPeriod, SubscriptionUsageRecord } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days before currentPeriodEnd that the renewal reminder goes out. */
+const RENEWAL_REMINDER_DAYS = Number(process.env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS ?? 3);
+
+export interface PeriodSweepResult {
+  rolledOver: number;
+  remindersSent: number;
+  /** Due reminders skipped because the owner opted out. */
+  remindersSkipped: number;
+}
+
+const PERIOD_MONTHS: Record<SubscriptionPeriod, number> = {
+  monthly:   1,
+  quarterly: 3,
+  annual:    12,
+};
+
+/**
+ * Returns the end of the `count`-th period after `anchor` (the billing
+ * anchor — the enrollment date). Computed in UTC from the anchor, never by
+ * chaining, with the day clamped to the end of shorter months:
+ *   monthly from Jan 31 → Feb 28 (Feb 29 in leap years) → Mar 31 → Apr 30
+ *   annual from Feb 29, 2028 → Feb 28, 2029 → … → Feb 29, 2032
+ */
+export function addPeriod(anchor: Date, period: SubscriptionPeriod, count = 1): Date {
+  const months = anchor.getUTCMonth() + (PERIOD_MONTHS[period] ?? 1) * count;
+  const year = anchor.getUTCFullYear() + Math.floor(months / 12);
+  const month = months % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchor.getUTCDate(), lastDay),
+    anchor.getUTCHours(),
+    anchor.getUTCMinutes(),
+    anchor.getUTCSeconds(),
+    anchor.getUTCMilliseconds(),
+  ));
+}
+
+/** Archive document ID — the closed period's start date. */
+function periodKey(start: Date): string {
+  return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Rolls one subscription into the period containing `now`. Re-checks status
+ * and period end inside the transaction so overlapping sweeps roll it once.
+ *
+ * @returns true if the subscription was rolled over.
+ */
+async function rollOver(subscriptionId: string, now: Date): Promise<boolean> {
+  const subRef = adminDb.collection('subscriptions').doc(subscriptionId);
+
+  return adminDb.runTransaction(async (tx) => {
+    const subSnap = await tx.get(subRef);
+    if (!subSnap.exists) return false;
+    const sub = subSnap.data()!;
+    if (sub.status !== 'active') return false;
+
+    const periodStart = toDateRequired(sub.currentPeriodStart);
+    const periodEnd = toDateRequired(sub.currentPeriodEnd);
+    if (periodEnd > now) return false;
+
+    const planSnap = await tx.get(adminDb.collection('subscriptionPlans').doc(sub.planId as string));
+    const period = (planSnap.data()?.period as SubscriptionPeriod | undefined) ?? 'monthly';
+
+    // Period ends are counted from the billing anchor so month-end dates do
+    // not drift. Periods missed while paused or while the sweep was down are
+    // skipped, not archived.
+    const anchor = toDate(sub.billingAnchor) ?? periodStart;
+    let count = 1;
+    while (addPeriod(anchor, period, count) <= periodEnd) count++;
+    let nextStart = periodEnd;
+    let nextEnd = addPeriod(anchor, period, count);
+    while (nextEnd <= now) {
+      nextStart = nextEnd;
+      nextEnd = addPeriod(anchor, period, ++count);
+    }
+
+    tx.set(subRef.collection('periods').doc(periodKey(periodStart)), {
+      planId:      sub.planId,
+      periodStart,
+      periodEnd,
+      usage:       (sub.usageThisPeriod ?? []) as SubscriptionUsageRecord[],
+      archivedAt:  FieldValue.serverTimestamp(),
+    });
+    tx.update(subRef, {
+      currentPeriodStart:    nextStart,
+      currentPeriodEnd:      nextEnd,
+      usageThisPeriod:       [],
+      renewalReminderSentAt: null,
+    });
+    return true;
+  });
+}
+
+/**
+ * Moves a Stripe-billed subscription onto the billing period Stripe reports.
+ * When the period start advances, the closed period's usage is archived and
+ * usage / renewal reminder are reset — exactly as rollOver() does. The
+ * placeholder period written at enrollment is replaced without archiving.
+ *
+ * @returns true if a new period was started.
+ */
+export async function applyBillingPeriod(subscriptionId: string, start: Date, end: Date): Promise<boolean> {
+  const subRef = adminDb.collection('subscriptions').doc(subscriptionId);
+
+  return adminDb.runTransaction(async (tx) => {
+    const subSnap = await tx.get(subRef);
+    if (!subSnap.exists) return false;
+    const sub = subSnap.data()!;
+
+    const periodStart = toDateRequired(sub.currentPeriodStart);
+    const periodEnd = toDateRequired(sub.currentPeriodEnd);
+
+    const usage = (sub.usageThisPeriod ?? []) as SubscriptionUsageRecord[];
+
+    if (start.getTime() <= periodStart.getTime()) {
+      // Never move backwards — except over the placeholder period written at enrollment
+      const isPlaceholder = sub.status === 'pending_payment' && usage.length === 0;
+      if (isPlaceholder || (start.getTime() === periodStart.getTime() && end.getTime() !== periodEnd.getTime())) {
+        tx.update(subRef, { currentPeriodStart: start, currentPeriodEnd: end });
+      }
+      return false;
+    }
+
+    if (sub.status === 'active' || usage.length > 0) {
+      tx.set(subRef.collection('periods').doc(periodKey(periodStart)), {
+        planId:      sub.planId,
+        periodStart,
+        periodEnd,
+        usage,
+        archivedAt:  FieldValue.serverTimestamp(),
+      });
+    }
+    tx.update(subRef, {
+      currentPeriodStart:    start,
+      currentPeriodEnd:      end,
+      usageThisPeriod:       [],
+      renewalReminderSentAt: null,
+    });
+    return true;
+  });
+}
+
+/** Rolls over lapsed periods and sends due renewal reminders. */
+export async function sweepSubscriptionPeriods(now: Date = new Date()): Promise<PeriodSweepResult> {
+  const result: PeriodSweepResult = { rolledOver: 0, remindersSent: 0, remindersSkipped: 0 };
+  const reminderHorizon = new Date(now.getTime() + RENEWAL_REMINDER_DAYS * DAY_MS);
+
+  const snap = await adminDb
+    .collection('subscriptions')
+    .where('status', '==', 'active')
+    .where('currentPeriodEnd', '<=', reminderHorizon)
+    .get();
+
+  for (const subDoc of snap.docs) {
+    const sub = subDoc.data();
+
+    // 1. Rollover — Stripe-billed periods advance from the webhook instead
+    if (toDateRequired(sub.currentPeriodEnd) <= now) {
+      if (sub.stripeSubscriptionId) continue;
+      try {
+        if (await rollOver(subDoc.id, now)) result.rolledOver++;
+      } catch (err) {
+        console.error(`[subscriptionPeriods] rollover error for ${subDoc.id}:`, err);
+      }
+      continue;
+    }
+
+    // 2. Renewal reminder — once per period
+    if (sub.renewalReminderSentAt) continue;
+    try {
+      const [userSnap, planSnap] = await Promise.all([
+        adminDb.collection('users').doc(sub.customerId as string).get(),
+        adminDb.collection('subscriptionPlans').doc(sub.planId as string).get(),
+      ]);
+      if (userSnap.data()?.notificationPreferences?.subscription_renewal === false) {
+        result.remindersSkipped++;
+        continue;
+      }
+
+      const planName = (planSnap.data()?.name as string | undefined) ?? 'subscription';
+      const renewsOn = toDateRequired(sub.currentPeriodEnd).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      await notifyUser(sub.customerId as string, {
+        type:  'subscription_renewal',
+        title: 'Plan Renewing Soon',
+        body:  `Your ${planName} plan renews on ${renewsOn}. Unused services don't carry over.`,
+        link:  '/subscriptions',
+      });
+      await subDoc.ref.update({ renewalReminderSentAt: FieldValue.serverTimestamp() });
+      result.remindersSent++;
+    } catch (err) {
+      console.error(`[subscriptionPeriods] reminder error for ${subDoc.id}:`, err);
+    }
+  }
+
+  return result;
+}
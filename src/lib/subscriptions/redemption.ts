@@ -0,0 +1,111 @@
+/**
+ * Subscription entitlement redemption — server-side only.
+ *
+ * The authoritative coverage check. When a customer books a service their
+ * vehicle's active CustomerSubscription covers, reserveEntitlement() appends
+ * a SubscriptionUsageRecord to usageThisPeriod inside the booking-creation
+ * transaction, so two concurrent bookings cannot both spend the last use.
+ * A covered booking's totalPrice is discounted by the full service price.
+ *
+ * releaseEntitlement() removes the booking's usage record again when the
+ * booking is cancelled (the 'release_entitlement' transition effect).
+ *
+ * Matching rules live in ./entitlements.ts.
+ *
+ * Called by:
+ *  - POST /api/bookings/create
+ *  - lib/bookings/transitionBooking.ts  (cancellation)
+ *
+ * IMPORTANT: This file uses the Firebase Admin SDK and must NEVER be imported
+ * in components, hooks, or client-side service files.
+ */
+
+import { FieldValue, type DocumentSnapshot, type Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/firebaseAdmin';
+import { findAvailableEntitlement, type EntitlementService } from './entitlements';
+import { toDate } from '@/lib/converters';
+import type { SubscriptionEntitlement, SubscriptionUsageRecord } from '@/types';
+
+export interface ReserveEntitlementParams {
+  bookingId: string;
+  customerId: string;
+  vehicleId: string;
+  service: EntitlementService & { basePrice: number };
+  now?: Date;
+}
+
+export interface EntitlementReservation {
+  subscriptionId: string;
+  entitlement: SubscriptionEntitlement;
+  /** Cents taken off the service's basePrice. */
+  discountCents: number;
+}
+
+/**
+ * Reserves one entitlement use for a booking, if the vehicle's active
+ * subscription covers the service and has uses left this period.
+ *
+ * Performs all of its reads before its single write — call it before the
+ * transaction queues any other write.
+ *
+ * @returns The reservation, or null when the booking is not covered.
+ */
+export async function reserveEntitlement(
+  tx: Transaction,
+  { bookingId, customerId, vehicleId, service, now = new Date() }: ReserveEntitlementParams
+): Promise<EntitlementReservation | null> {
+  const subsSnap = await tx.get(
+    adminDb.collection('subscriptions')
+      .where('vehicleId', '==', vehicleId)
+      .where('status', '==', 'active')
+  );
+
+  // Only subscriptions owned by the booking customer, inside their current period
+  const subs = subsSnap.docs.filter((d) => {
+    const sub = d.data();
+    const periodEnd = toDate(sub.currentPeriodEnd);
+    return sub.customerId === customerId && (!periodEnd || periodEnd > now);
+  });
+  if (subs.length === 0) return null;
+
+  const planIds = Array.from(new Set(subs.map((d) => d.data().planId as string)));
+  const planSnaps = await tx.getAll(...planIds.map((id) => adminDb.collection('subscriptionPlans').doc(id)));
+  const plans = new Map(planSnaps.filter((s) => s.exists).map((s) => [s.id, s.data()!]));
+
+  for (const subDoc of subs) {
+    const sub = subDoc.data();
+    const entitlements = (plans.get(sub.planId as string)?.entitlements ?? []) as SubscriptionEntitlement[];
+    const usage = (sub.usageThisPeriod ?? []) as SubscriptionUsageRecord[];
+
+    const entitlement = findAvailableEntitlement(entitlements, usage, service);
+    if (!entitlement) continue;
+
+    const record: SubscriptionUsageRecord = {
+      bookingId,
+      serviceId:            service.serviceId,
+      serviceCategory:      service.category,
+      entitlementServiceId: entitlement.serviceId,
+      usedAt:               now,  // Date — serverTimestamp() is not allowed inside arrays
+    };
+    tx.update(subDoc.ref, { usageThisPeriod: FieldValue.arrayUnion(record) });
+
+    return { subscriptionId: subDoc.id, entitlement, discountCents: service.basePrice };
+  }
+
+  return null;
+}
+
+/**
+ * Removes a booking's usage record from a subscription read earlier in the
+ * same transaction. A no-op when the record is gone — e.g. the period has
+ * since rolled over.
+ */
+export function releaseEntitlement(tx: Transaction, subscriptionSnap: DocumentSnapshot, bookingId: string): boolean {
+  if (!subscriptionSnap.exists) return false;
+  const usage = (subscriptionSnap.data()?.usageThisPeriod ?? []) as SubscriptionUsageRecord[];
+  const remaining = usage.filter((u) => u.bookingId !== bookingId);
+  if (remaining.length === usage.length) return false;
+
+  tx.update(subscriptionSnap.ref, { usageThisPeriod: remaining });
+  return true;
+}
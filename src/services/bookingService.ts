@@ -6,8 +6,6 @@
 import {
   collection,
   doc,
-  addDoc,
-  updateDoc,
   getDoc,
   getDocs,
   query,
@@ -15,24 +13,26 @@ import {
   orderBy,
   limit,
   onSnapshot,
-  runTransaction,
-  serverTimestamp,
   type Unsubscribe,
 } from 'firebase/firestore';
+import { getAuth } from 'firebase/auth';
 import { db } from '@/lib/firebase/firebase';
-import type { Booking, BookingStatus } from '@/types';
+import { toDate } from '@/lib/converters';
+import type {
+  Booking,
+  BookingAddOn,
+  BookingDispute,
+  BookingRefund,
+  BookingStatus,
+  BookingTip,
+  CancellationFee,
+  BookingStatusChange,
+  DispatchOffer,
+  PriceBreakdown,
+} from '@/types';
 
 const BOOKINGS = 'bookings';
 
-/** Safely converts a Firestore Timestamp (or plain Date) to a JS Date. */
-function toDate(value: unknown): Date {
-  if (!value) return new Date(0);
-  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
-    return (value as { toDate(): Date }).toDate();
-  }
-  return value instanceof Date ? value : new Date(0);
-}
-
 function mapBooking(id: string, data: Record<string, unknown>): Booking {
   return {
     bookingId: id,
@@ -43,28 +43,118 @@ function mapBooking(id: string, data: Record<string, unknown>): Booking {
     serviceId: data.serviceId as string,
     serviceSnapshot: data.serviceSnapshot as Booking['serviceSnapshot'],
     vehicleSnapshot: data.vehicleSnapshot as Booking['vehicleSnapshot'],
-    scheduledAt: toDate(data.scheduledAt),
-    flexDateEnd: data.flexDateEnd ? toDate(data.flexDateEnd) : null,
+    scheduledAt: toDate(data.scheduledAt) ?? new Date(0),
+    flexDateEnd: toDate(data.flexDateEnd),
     status: data.status as BookingStatus,
     address: data.address as Booking['address'],
     totalPrice: (data.totalPrice as number) ?? 0,
+    priceBreakdown: mapPriceBreakdown(data.priceBreakdown),
+    addOns: ((data.addOns as Record<string, unknown>[] | undefined) ?? []).map(
+      (a): BookingAddOn => ({
+        label: a.label as string,
+        amountCents: (a.amountCents as number) ?? 0,
+        approvedAt: toDate(a.approvedAt) ?? new Date(0),
+        changeOrderId: (a.changeOrderId as string | null) ?? null,
+      })
+    ),
     stripePaymentIntentId: (data.stripePaymentIntentId as string | null) ?? null,
-    createdAt: toDate(data.createdAt),
+    refunds: ((data.refunds as Record<string, unknown>[] | undefined) ?? []).map(
+      (r): BookingRefund => ({
+        refundId: r.refundId as string,
+        amountCents: (r.amountCents as number) ?? 0,
+        reason: (r.reason as string | null) ?? null,
+        status: r.status as BookingRefund['status'],
+        refundedBy: (r.refundedBy as string | null) ?? null,
+        createdAt: toDate(r.createdAt) ?? new Date(0),
+      })
+    ),
+    amountRefundedCents: (data.amountRefundedCents as number) ?? 0,
+    cancellationFee: mapCancellationFee(data.cancellationFee),
+    dispute: mapDispute(data.dispute),
+    tip: mapTip(data.tip),
+    invoiceNumber: (data.invoiceNumber as string | null) ?? null,
+    subscriptionId: (data.subscriptionId as string | null) ?? null,
+    subscriptionDiscountCents: (data.subscriptionDiscountCents as number | null) ?? null,
+    scheduledTimeWindow: (data.scheduledTimeWindow as Booking['scheduledTimeWindow']) ?? null,
+    source: (data.source as Booking['source']) ?? null,
+    sourceInspection: (data.sourceInspection as Booking['sourceInspection']) ?? null,
+    dispatchOffer: mapDispatchOffer(data.dispatchOffer),
+    statusHistory: ((data.statusHistory as Record<string, unknown>[] | undefined) ?? []).map(
+      (h): BookingStatusChange => ({
+        from: (h.from as BookingStatus | null) ?? null,
+        to: h.to as BookingStatus,
+        actor: h.actor as BookingStatusChange['actor'],
+        actorId: (h.actorId as string | null) ?? null,
+        note: (h.note as string | null) ?? null,
+        at: toDate(h.at) ?? new Date(0),
+      })
+    ),
+    createdAt: toDate(data.createdAt) ?? new Date(0),
   };
 }
 
-// ── CUSTOMER ─────────────────────────────────────────────────────────────────
+function mapPriceBreakdown(value: unknown): PriceBreakdown | null {
+  if (!value || typeof value !== 'object') return null;
+  const p = value as Record<string, unknown>;
+  return {
+    baseCents: (p.baseCents as number) ?? 0,
+    discountCents: (p.discountCents as number) ?? 0,
+    addOnsCents: (p.addOnsCents as number) ?? 0,
+    taxRate: (p.taxRate as number) ?? 0,
+    taxCents: (p.taxCents as number) ?? 0,
+    feeCents: (p.feeCents as number) ?? 0,
+    totalCents: (p.totalCents as number) ?? 0,
+    computedAt: toDate(p.computedAt) ?? new Date(0),
+  };
+}
 
-export async function createBooking(
-  data: Omit<Booking, 'bookingId' | 'createdAt'>
-): Promise<string> {
-  const ref = await addDoc(collection(db, BOOKINGS), {
-    ...data,
-    createdAt: serverTimestamp(),
-  });
-  return ref.id;
+function mapCancellationFee(value: unknown): CancellationFee | null {
+  if (!value || typeof value !== 'object') return null;
+  const f = value as Record<string, unknown>;
+  return {
+    amountCents: (f.amountCents as number) ?? 0,
+    hoursBeforeService: (f.hoursBeforeService as number) ?? 0,
+    status: f.status as CancellationFee['status'],
+    chargedAt: toDate(f.chargedAt),
+  };
+}
+
+function mapDispute(value: unknown): BookingDispute | null {
+  if (!value || typeof value !== 'object') return null;
+  const d = value as Record<string, unknown>;
+  return {
+    disputeId: d.disputeId as string,
+    amountCents: (d.amountCents as number) ?? 0,
+    reason: d.reason as string,
+    status: d.status as string,
+    createdAt: toDate(d.createdAt) ?? new Date(0),
+  };
 }
 
+function mapTip(value: unknown): BookingTip | null {
+  if (!value || typeof value !== 'object') return null;
+  const t = value as Record<string, unknown>;
+  return {
+    amountCents: (t.amountCents as number) ?? 0,
+    status: t.status as BookingTip['status'],
+    paymentIntentId: (t.paymentIntentId as string | null) ?? null,
+    createdAt: toDate(t.createdAt) ?? new Date(0),
+  };
+}
+
+function mapDispatchOffer(value: unknown): DispatchOffer | null {
+  if (!value || typeof value !== 'object') return null;
+  const offer = value as Record<string, unknown>;
+  return {
+    technicianId: offer.technicianId as string,
+    offeredAt: toDate(offer.offeredAt) ?? new Date(0),
+    expiresAt: toDate(offer.expiresAt) ?? new Date(0),
+    score: (offer.score as number) ?? 0,
+  };
+}
+
+// ── CUSTOMER ─────────────────────────────────────────────────────────────────
+
 export async function getBookingsByCustomer(
   customerId: string
 ): Promise<Booking[]> {
@@ -99,8 +189,71 @@ export function listenToBooking(
   );
 }
 
-export async function cancelBooking(bookingId: string): Promise<void> {
-  await updateDoc(doc(db, BOOKINGS, bookingId), { status: 'cancelled' });
+/**
+ * Cancels a booking. Status changes are server-side only (see
+ * lib/bookings/stateMachine.ts), so this goes through PATCH /api/bookings/status.
+ *
+ * @returns The late-cancellation fee charged, in cents (0 when free).
+ */
+export async function cancelBooking(bookingId: string, customerId: string): Promise<number> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/bookings/status', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ bookingId, userId: customerId, status: 'cancelled' }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error ?? 'Failed to cancel booking');
+  }
+  const data = await res.json().catch(() => ({}));
+  return (data.cancellationFeeCents as number | undefined) ?? 0;
+}
+
+/**
+ * Tips the technician on a completed booking — a separate charge to the saved
+ * default card, via POST /api/bookings/tip.
+ */
+export async function tipBooking(bookingId: string, amountCents: number): Promise<BookingTip> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/bookings/tip', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ bookingId, amountCents }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Failed to add tip');
+  return data.tip as BookingTip;
+}
+
+/**
+ * Downloads the booking's receipt PDF (GET /api/bookings/receipt) and hands it
+ * to the browser as a file download.
+ */
+export async function downloadReceipt(bookingId: string): Promise<void> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch(`/api/bookings/receipt?bookingId=${encodeURIComponent(bookingId)}`, {
+    headers: idToken ? { Authorization: `Bearer ${idToken}` } : {},
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error ?? 'Failed to download receipt');
+  }
+
+  const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1]
+    ?? `RevvDoc-receipt-${bookingId}.pdf`;
+  const url = URL.createObjectURL(await res.blob());
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 export async function getBookingById(bookingId: string): Promise<Booking | null> {
@@ -142,32 +295,6 @@ export async function getPendingBookings(): Promise<Booking[]> {
     .filter((b) => b.technicianId === null);
 }
 
-export async function acceptBooking(
-  bookingId: string,
-  technicianId: string
-): Promise<void> {
-  const bookingRef = doc(db, BOOKINGS, bookingId);
-  await runTransaction(db, async (tx) => {
-    const snap = await tx.get(bookingRef);
-    if (!snap.exists()) throw new Error('Booking not found');
-    const data = snap.data();
-    if (data.technicianId !== null && data.technicianId !== undefined) {
-      throw new Error('Booking already accepted by another technician');
-    }
-    if (data.status !== 'pending') {
-      throw new Error('Booking is no longer pending');
-    }
-    tx.update(bookingRef, { technicianId, status: 'accepted' });
-  });
-}
-
-export async function updateBookingStatus(
-  bookingId: string,
-  status: BookingStatus
-): Promise<void> {
-  await updateDoc(doc(db, BOOKINGS, bookingId), { status });
-}
-
 export async function getTechnicianBookings(
   technicianId: string,
   status?: BookingStatus
@@ -0,0 +1,90 @@
+/**
+ * Change Order Service — on-site extra work proposed by the technician.
+ * Client-side only. Reads bookings/{bookingId}/changeOrders directly; proposing
+ * and answering go through Route Handlers (lib/bookings/changeOrders.ts)
+ * because approval re-prices the booking and authorizes the card.
+ */
+
+import {
+  collection,
+  query,
+  orderBy,
+  onSnapshot,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { getAuth } from 'firebase/auth';
+import { db } from '@/lib/firebase/firebase';
+import { toDate } from '@/lib/converters';
+import type { ChangeOrder, ChangeOrderItem, ChangeOrderStatus } from '@/types';
+
+/** A line as the technician enters it; catalog lines are priced server-side. */
+export interface ChangeOrderItemDraft {
+  kind: ChangeOrderItem['kind'];
+  serviceId?: string;
+  label?: string;
+  quantity: number;
+  unitPriceCents?: number;
+}
+
+function mapChangeOrder(id: string, data: Record<string, unknown>): ChangeOrder {
+  return {
+    ...(data as Omit<ChangeOrder, 'changeOrderId' | 'proposedAt' | 'respondedAt'>),
+    changeOrderId: id,
+    note: (data.note as string | null | undefined) ?? null,
+    proposedAt: toDate(data.proposedAt) ?? new Date(0),
+    respondedAt: toDate(data.respondedAt),
+  };
+}
+
+async function callChangeOrderRoute<T>(path: string, body: unknown): Promise<T> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Change order request failed');
+  return data as T;
+}
+
+/** Subscribes to a booking's change orders, newest first. */
+export function listenToChangeOrders(
+  bookingId: string,
+  onUpdate: (changeOrders: ChangeOrder[]) => void
+): Unsubscribe {
+  const q = query(collection(db, 'bookings', bookingId, 'changeOrders'), orderBy('proposedAt', 'desc'));
+  return onSnapshot(
+    q,
+    (snap) => {
+      onUpdate(snap.docs.map((d) => mapChangeOrder(d.id, d.data() as Record<string, unknown>)));
+    },
+    (err) => {
+      console.error('[listenToChangeOrders]', err);
+      onUpdate([]);
+    }
+  );
+}
+
+export async function proposeChangeOrder(
+  bookingId: string,
+  items: ChangeOrderItemDraft[],
+  note?: string
+): Promise<{ changeOrderId: string; subtotalCents: number }> {
+  return callChangeOrderRoute('/api/bookings/propose-change-order', { bookingId, items, note });
+}
+
+/**
+ * Approves or declines a change order. Approval fails with the card's decline
+ * message if the extra amount cannot be authorized.
+ */
+export async function respondToChangeOrder(
+  bookingId: string,
+  changeOrderId: string,
+  decision: 'approve' | 'decline'
+): Promise<{ changeOrderId: string; status: ChangeOrderStatus; totalPrice: number }> {
+  return callChangeOrderRoute('/api/bookings/respond-change-order', { bookingId, changeOrderId, decision });
+}
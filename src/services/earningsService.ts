@@ -0,0 +1,57 @@
+/**
+ * Earnings Service — a technician's earnings ledger and payout periods.
+ * Client-side only. Both collections are written server-side
+ * (lib/payouts/ledger.ts); technicians can only read their own.
+ */
+
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/firebase';
+import { toDate } from '@/lib/converters';
+import type { EarningEntry, PayoutPeriod } from '@/types';
+
+/** Ledger entries, newest first. */
+export async function getEarnings(technicianId: string, limitCount = 200): Promise<EarningEntry[]> {
+  const q = query(
+    collection(db, 'technicianEarnings'),
+    where('technicianId', '==', technicianId),
+    orderBy('createdAt', 'desc'),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map((d) => {
+    const data = d.data();
+    return {
+      ...(data as Omit<EarningEntry, 'entryId' | 'createdAt'>),
+      entryId: d.id,
+      createdAt: toDate(data.createdAt) ?? new Date(0),
+    };
+  });
+}
+
+/** Weekly payout periods, newest first. */
+export async function getPayoutPeriods(technicianId: string, limitCount = 12): Promise<PayoutPeriod[]> {
+  const q = query(
+    collection(db, 'payoutPeriods'),
+    where('technicianId', '==', technicianId),
+    orderBy('periodStart', 'desc'),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map((d) => {
+    const data = d.data();
+    return {
+      ...(data as Omit<PayoutPeriod, 'periodId' | 'periodStart' | 'periodEnd' | 'paidAt'>),
+      periodId: d.id,
+      periodStart: toDate(data.periodStart) ?? new Date(0),
+      periodEnd: toDate(data.periodEnd) ?? new Date(0),
+      paidAt: toDate(data.paidAt),
+    };
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * Inspection Service — vehicle inspections (inspections/{jobId}).
+ * Client-side only. Reads the report directly — the customer can read it once
+ * it is shared (firestore.rules). Saving and sharing go through
+ * POST /api/jobs/inspection; booking a recommended service goes through
+ * POST /api/bookings/create with source 'inspection'.
+ */
+
+import { doc, onSnapshot, type Unsubscribe } from 'firebase/firestore';
+import { getAuth } from 'firebase/auth';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { db, storage } from '@/lib/firebase/firebase';
+import { toDate } from '@/lib/converters';
+import type {
+  Booking,
+  InspectionItem,
+  InspectionRating,
+  VehicleInspection,
+} from '@/types';
+
+const INSPECTIONS = 'inspections';
+
+/** One item's changes as the technician makes them — omitted fields are left unchanged. */
+export interface InspectionItemUpdate {
+  itemId: string;
+  rating?: InspectionRating | null;
+  note?: string | null;
+  photo?: { storagePath: string; url: string } | null;
+  recommendedServiceId?: string | null;
+}
+
+function mapInspection(id: string, data: Record<string, unknown>): VehicleInspection {
+  return {
+    ...(data as Omit<VehicleInspection, 'inspectionId' | 'sharedAt' | 'createdAt' | 'updatedAt'>),
+    inspectionId: id,
+    items: (data.items as InspectionItem[] | undefined) ?? [],
+    sharedAt: toDate(data.sharedAt),
+    createdAt: toDate(data.createdAt) ?? new Date(0),
+    updatedAt: toDate(data.updatedAt) ?? new Date(0),
+  };
+}
+
+/**
+ * Real-time listener for a job's inspection. Calls back with null while there
+ * is none — or, for the customer, while it is still a draft.
+ */
+export function listenToInspection(
+  jobId: string,
+  onUpdate: (inspection: VehicleInspection | null) => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, INSPECTIONS, jobId),
+    (snap) => {
+      onUpdate(snap.exists() ? mapInspection(snap.id, snap.data() as Record<string, unknown>) : null);
+    },
+    // The customer's read is denied until the report is shared
+    () => onUpdate(null)
+  );
+}
+
+/** Saves items of the caller's inspection; share shows it to the customer. */
+export async function saveInspection(
+  jobId: string,
+  items: InspectionItemUpdate[],
+  share = false
+): Promise<VehicleInspection> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/jobs/inspection', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ jobId, items, share }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Failed to save inspection');
+  const inspection = data.inspection as Record<string, unknown>;
+  return mapInspection(inspection.inspectionId as string, inspection);
+}
+
+/**
+ * Uploads an inspection item's photo to Firebase Storage at
+ * jobs/{jobId}/inspection/{itemId}-{timestamp}.{ext}. Attach the result to
+ * the item with saveInspection().
+ */
+export async function uploadInspectionPhoto(
+  jobId: string,
+  itemId: string,
+  file: File
+): Promise<{ storagePath: string; url: string }> {
+  const ext = (file.name.split('.').pop() ?? '').toLowerCase().replace(/[^a-z0-9]/g, '') || 'jpg';
+  const storagePath = `jobs/${jobId}/inspection/${itemId}-${Date.now()}.${ext}`;
+  const fileRef = ref(storage, storagePath);
+  await uploadBytes(fileRef, file, { contentType: file.type || 'image/jpeg' });
+  return { storagePath, url: await getDownloadURL(fileRef) };
+}
+
+/** YYYY-MM-DD for tomorrow, local time. */
+function tomorrow(): string {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * One-tap booking of a yellow / red item's recommended service, for the same
+ * vehicle and address as the inspected booking, tomorrow in the same time
+ * window. The customer's card still has to be authorized for the total —
+ * see authorizeBookingPayment().
+ */
+export async function bookInspectionFollowUp(
+  inspection: VehicleInspection,
+  item: InspectionItem,
+  booking: Booking
+): Promise<{ bookingId: string; totalPrice: number }> {
+  if (!item.recommendedService) throw new Error('No service recommended for this item');
+  if (!booking.address) throw new Error('The booking has no service address');
+
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/bookings/create', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({
+      userId:              inspection.customerId,
+      vehicleId:           inspection.vehicleId,
+      serviceId:           item.recommendedService.serviceId,
+      scheduledDate:       tomorrow(),
+      scheduledTimeWindow: booking.scheduledTimeWindow ?? 'morning',
+      address:             booking.address,
+      notes:               item.note ? `Inspection: ${item.label} — ${item.note}`.slice(0, 500) : undefined,
+      source:              'inspection',
+      inspectionId:        inspection.inspectionId,
+      inspectionItemId:    item.itemId,
+    }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.message ?? data.error ?? 'Booking failed');
+  return { bookingId: data.bookingId as string, totalPrice: data.totalPrice as number };
+}
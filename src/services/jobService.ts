@@ -1,27 +1,84 @@
 /**
  * Job Service — Firestore data access for jobs collection.
- * Real-time operations (onSnapshot, GPS writes) live here.
+ * Real-time operations (onSnapshot, GPS updates) live here.
+ * Stage changes go through POST /api/jobs/stage; GPS updates go through
+ * POST /api/jobs/location so the server can recompute the ETA. The on-site
+ * quality check goes through POST /api/jobs/quality-check and /api/jobs/photos;
+ * photo files are uploaded to Firebase Storage first.
  */
 
 import {
   doc,
   getDoc,
-  updateDoc,
   getDocs,
   query,
   collection,
   where,
   limit,
   onSnapshot,
-  arrayUnion,
-  serverTimestamp,
   type Unsubscribe,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase/firebase';
-import type { Job, JobStage, JobStageRecord } from '@/types';
+import { getAuth } from 'firebase/auth';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { db, storage } from '@/lib/firebase/firebase';
+import { toDate } from '@/lib/converters';
+import type {
+  ChecklistItem,
+  Job,
+  JobPhoto,
+  JobPhotoTag,
+  JobRoute,
+  JobStage,
+  JobStageRecord,
+  PartRecord,
+} from '@/types';
 
 const JOBS = 'jobs';
 
+function mapRoute(value: unknown): JobRoute | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  return {
+    polyline: (r.polyline as string) ?? '',
+    source: r.source as JobRoute['source'],
+    origin: r.origin as JobRoute['origin'],
+    destination: r.destination as JobRoute['destination'],
+    distanceMeters: (r.distanceMeters as number) ?? 0,
+    durationSeconds: (r.durationSeconds as number) ?? 0,
+    computedAt: (r.computedAt as { toDate(): Date }).toDate(),
+  };
+}
+
+function mapChecklist(value: unknown): ChecklistItem[] | null {
+  if (!Array.isArray(value)) return null;
+  return (value as Record<string, unknown>[]).map((item) => ({
+    itemId: item.itemId as string,
+    label: item.label as string,
+    required: Boolean(item.required),
+    checked: Boolean(item.checked),
+    checkedAt: toDate(item.checkedAt),
+  }));
+}
+
+function mapPhoto(p: Record<string, unknown>): JobPhoto {
+  return {
+    photoId: p.photoId as string,
+    url: p.url as string,
+    storagePath: p.storagePath as string,
+    tag: p.tag as JobPhotoTag,
+    uploadedAt: toDate(p.uploadedAt) ?? new Date(),
+  };
+}
+
+function mapPart(p: Record<string, unknown>): PartRecord {
+  return {
+    name: p.name as string,
+    partNumber: (p.partNumber as string | null) ?? null,
+    brand: (p.brand as string | null) ?? null,
+    warrantyExpires: toDate(p.warrantyExpires),
+  };
+}
+
 function mapJob(id: string, data: Record<string, unknown>): Job {
   const stages = ((data.stages as Record<string, unknown>[]) ?? []).map(
     (s): JobStageRecord => ({
@@ -49,6 +106,17 @@ function mapJob(id: string, data: Record<string, unknown>): Job {
           ).toDate(),
         }
       : null,
+    route: mapRoute(data.route),
+    etaMinutes: (data.etaMinutes as number | null) ?? null,
+    etaUpdatedAt: data.etaUpdatedAt
+      ? (data.etaUpdatedAt as { toDate(): Date }).toDate()
+      : null,
+    promisedArrivalAt: data.promisedArrivalAt
+      ? (data.promisedArrivalAt as { toDate(): Date }).toDate()
+      : null,
+    checklist: mapChecklist(data.checklist),
+    photos: ((data.photos as Record<string, unknown>[]) ?? []).map(mapPhoto),
+    partsUsed: ((data.partsUsed as Record<string, unknown>[]) ?? []).map(mapPart),
     notes: (data.notes as string | null) ?? null,
     startedAt: data.startedAt
       ? (data.startedAt as { toDate(): Date }).toDate()
@@ -96,34 +164,115 @@ export async function getJobById(jobId: string): Promise<Job | null> {
   return mapJob(snap.id, snap.data() as Record<string, unknown>);
 }
 
+/**
+ * Sends the technician's position (POST /api/jobs/location). The server
+ * stores it, recomputes the job's ETA and route, and moves an en-route job
+ * to 'arrived' once the technician is at the service address.
+ *
+ * @returns The new ETA (null when not travelling) and the job's stage.
+ */
 export async function updateTechLocation(
   jobId: string,
-  location: { lat: number; lng: number }
-): Promise<void> {
-  await updateDoc(doc(db, JOBS, jobId), {
-    techLocation: {
-      lat: location.lat,
-      lng: location.lng,
-      updatedAt: serverTimestamp(),
+  location: { lat: number; lng: number; accuracy?: number }
+): Promise<{ etaMinutes: number | null; currentStage: JobStage }> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/jobs/location', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
     },
+    body: JSON.stringify({ jobId, ...location }),
   });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Failed to update location');
+  return {
+    etaMinutes: (data.etaMinutes as number | null) ?? null,
+    currentStage: data.currentStage as JobStage,
+  };
 }
 
+/**
+ * Advances a job to its next stage. Server-side only (POST /api/jobs/stage)
+ * so the booking status, chat thread, and notifications move with it.
+ */
 export async function advanceJobStage(
   jobId: string,
   newStage: JobStage,
   note?: string
 ): Promise<void> {
-  const stageRecord: Omit<JobStageRecord, 'enteredAt'> & { enteredAt: unknown } = {
-    stage: newStage,
-    enteredAt: serverTimestamp(),
-    note: note ?? null,
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/jobs/stage', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ jobId, stage: newStage, note }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error ?? 'Failed to advance job stage');
+  }
+}
+
+/**
+ * Saves the on-site quality check (POST /api/jobs/quality-check).
+ * checkedItemIds is the complete set of ticked items; partsUsed replaces
+ * the job's parts list. Either may be omitted to leave it unchanged.
+ */
+export async function saveQualityCheck(
+  jobId: string,
+  update: {
+    checkedItemIds?: string[];
+    partsUsed?: PartRecord[];
+  }
+): Promise<{ checklist: ChecklistItem[]; partsUsed: PartRecord[] }> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/jobs/quality-check', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ jobId, ...update }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Failed to save quality check');
+  return {
+    checklist: mapChecklist(data.checklist) ?? [],
+    partsUsed: ((data.partsUsed as Record<string, unknown>[]) ?? []).map(mapPart),
   };
-  await updateDoc(doc(db, JOBS, jobId), {
-    currentStage: newStage,
-    stages: arrayUnion(stageRecord),
-    ...(newStage === 'in_progress' ? { startedAt: serverTimestamp() } : {}),
+}
+
+/**
+ * Uploads a before/after photo to Firebase Storage at
+ * jobs/{jobId}/photos/{photoId}.{ext}, then records it on the job
+ * (POST /api/jobs/photos).
+ */
+export async function uploadJobPhoto(
+  jobId: string,
+  file: File,
+  tag: JobPhotoTag
+): Promise<JobPhoto> {
+  const ext = (file.name.split('.').pop() ?? '').toLowerCase().replace(/[^a-z0-9]/g, '') || 'jpg';
+  const storagePath = `jobs/${jobId}/photos/${tag}-${Date.now()}.${ext}`;
+  const fileRef = ref(storage, storagePath);
+  await uploadBytes(fileRef, file, { contentType: file.type || 'image/jpeg' });
+  const url = await getDownloadURL(fileRef);
+
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch('/api/jobs/photos', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ jobId, tag, storagePath, url }),
   });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Failed to attach photo');
+  return mapPhoto(data.photo as Record<string, unknown>);
 }
 
 export async function getTechnicianActiveJob(
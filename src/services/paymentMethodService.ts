@@ -0,0 +1,75 @@
+/**
+ * Payment Method Service — saved cards and booking authorization.
+ * Client-side only. Cards live on the user's Stripe Customer, so every call
+ * goes through the /api/stripe/* Route Handlers (lib/stripe/paymentMethods.ts).
+ */
+
+import { getAuth } from 'firebase/auth';
+import type { PriceBreakdown, SavedPaymentMethod } from '@/types';
+
+export interface BookingAuthorization {
+  clientSecret: string | null;
+  paymentIntentId: string | null;
+  /**
+   * 'requires_capture' when held; 'requires_action' when 3-D Secure is needed;
+   * 'deferred' when the hold will be placed closer to the appointment.
+   */
+  status: string;
+  amountCents: number;
+  priceBreakdown: PriceBreakdown;
+  authorizeAfter: string | null;      // ISO date — JSON-serialized
+}
+
+async function callStripeRoute<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const idToken = await getAuth().currentUser?.getIdToken();
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? 'Payment request failed');
+  return data as T;
+}
+
+/** Returns the signed-in user's saved cards, default first. */
+export async function getPaymentMethods(): Promise<SavedPaymentMethod[]> {
+  const data = await callStripeRoute<{ paymentMethods: SavedPaymentMethod[] }>('/api/stripe/payment-methods');
+  return data.paymentMethods;
+}
+
+/** Creates a SetupIntent; confirm the returned clientSecret with Stripe Elements. */
+export async function createSetupIntent(): Promise<string> {
+  const data = await callStripeRoute<{ clientSecret: string }>('/api/stripe/create-setup-intent', {
+    method: 'POST',
+  });
+  return data.clientSecret;
+}
+
+export async function setDefaultPaymentMethod(paymentMethodId: string): Promise<void> {
+  await callStripeRoute('/api/stripe/set-default-payment-method', {
+    method: 'POST',
+    body: JSON.stringify({ paymentMethodId }),
+  });
+}
+
+export async function detachPaymentMethod(paymentMethodId: string): Promise<void> {
+  await callStripeRoute('/api/stripe/detach-payment-method', {
+    method: 'POST',
+    body: JSON.stringify({ paymentMethodId }),
+  });
+}
+
+/**
+ * Places the booking's authorization hold on the saved default card. The
+ * server prices the booking; amountCents is the total the customer was shown
+ * and the request fails if it no longer matches.
+ */
+export async function authorizeBookingPayment(bookingId: string, amountCents?: number): Promise<BookingAuthorization> {
+  return callStripeRoute<BookingAuthorization>('/api/stripe/create-payment-intent', {
+    method: 'POST',
+    body: JSON.stringify({ bookingId, amountCents }),
+  });
+}
@@ -2,12 +2,13 @@
  * Subscription Service — Firestore data access for subscriptionPlans
  * and subscriptions collections.
  *
- * IMPORTANT: CustomerSubscription writes (enroll, cancel, use entitlement)
- * go through Admin SDK Route Handlers (/api/subscriptions/*), NOT this service.
+ * IMPORTANT: CustomerSubscription writes (enroll, cancel) go through Admin SDK
+ * Route Handlers (/api/subscriptions/*), NOT this service. Entitlement uses are
+ * redeemed by POST /api/bookings/create (lib/subscriptions/redemption.ts).
  * This service provides read access only for customer-facing pages.
  *
- * The Stripe integration is not wired yet. stripeSubscriptionId is null in MVP.
- * The EnrollCTA component must render as disabled until Stripe is connected.
+ * Billing runs through Stripe (lib/stripe/subscriptions.ts); a subscription is
+ * 'pending_payment' until its first invoice is paid.
  *
  * TODO Phase 3 (Wave 4): implement all function bodies.
  */
@@ -22,10 +23,11 @@ import {
   orderBy,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase/firebase';
+import { remainingUses } from '@/lib/subscriptions/entitlements';
 import type {
   SubscriptionPlan,
   CustomerSubscription,
-  SubscriptionEntitlement,
+  ServiceCategory,
 } from '@/types';
 
 const PLANS = 'subscriptionPlans';
@@ -104,29 +106,22 @@ export async function getSubscriptionByVehicle(
 // ── Entitlement helpers (client-side computation) ────────────────────────────
 
 /**
- * Returns the remaining entitlement uses for a specific service category
- * within the current billing period.
+ * Returns the remaining entitlement uses for a service within the current
+ * billing period, across every entitlement that covers it.
  *
  * This is a client-side check for UI display only.
- * The authoritative check happens server-side in /api/subscriptions/use.
+ * The authoritative check happens server-side in POST /api/bookings/create.
  */
 export function getRemainingUses(
   subscription: CustomerSubscription,
   plan: SubscriptionPlan,
-  serviceId: string
+  serviceId: string,
+  serviceCategory: ServiceCategory
 ): number {
-  // TODO Phase 3: implement
-  const entitlement = plan.entitlements.find(
-    (e: SubscriptionEntitlement) =>
-      e.serviceId === serviceId || e.serviceId === null
-  );
-  if (!entitlement) return 0;
-
-  const used = subscription.usageThisPeriod.filter(
-    (u) => u.serviceId === serviceId
-  ).length;
-
-  return Math.max(0, entitlement.usagesPerPeriod - used);
+  return remainingUses(plan.entitlements, subscription.usageThisPeriod ?? [], {
+    serviceId,
+    category: serviceCategory,
+  });
 }
 
 /**
@@ -137,15 +132,7 @@ export function isCovered(
   subscription: CustomerSubscription,
   plan: SubscriptionPlan,
   serviceId: string,
-  serviceCategory: string
+  serviceCategory: ServiceCategory
 ): boolean {
-  // TODO Phase 3: implement
-  return getRemainingUses(subscription, plan, serviceId) > 0 ||
-    plan.entitlements.some(
-      (e: SubscriptionEntitlement) =>
-        e.serviceId === null &&
-        e.serviceCategory === serviceCategory &&
-        subscription.usageThisPeriod.filter((u) => u.serviceId === serviceId).length <
-          e.usagesPerPeriod
-    );
+  return getRemainingUses(subscription, plan, serviceId, serviceCategory) > 0;
 }
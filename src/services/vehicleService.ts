@@ -50,7 +50,11 @@ export async function updateVehicle(
   vehicleId: string,
   partial: Partial<Pick<Vehicle, 'nickname' | 'mileage' | 'status' | 'lastServiceDate' | 'photoUrl'>>
 ): Promise<void> {
-  await updateDoc(doc(db, VEHICLES, vehicleId), partial);
+  await updateDoc(doc(db, VEHICLES, vehicleId), {
+    ...partial,
+    // Dated reading for the mileage projection model (lib/maintenance/mileage.ts)
+    ...(partial.mileage !== undefined ? { mileageUpdatedAt: serverTimestamp() } : {}),
+  });
 }
 
 export async function deleteVehicle(vehicleId: string): Promise<void> {
@@ -20,11 +20,27 @@ export type BookingStatus =
   | 'complete'     // service done, payment captured
   | 'cancelled';   // cancelled by customer or admin
 
+/** Where a booking's card hold stands. */
+export type PaymentAuthStatus =
+  | 'deferred'         // too far before scheduledAt — authorized later by the sweep
+  | 'authorized'       // manual-capture hold in place
+  | 'requires_action'  // bank wants 3-D Secure from the customer
+  | 'failed';          // hold could not be placed; customer notified
+
+/** Mirrors Stripe's Refund.status. */
+export type RefundStatus = 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+
+/** Lifecycle of a technician-proposed change order. */
+export type ChangeOrderStatus = 'proposed' | 'approved' | 'declined';
+
 /** Time-of-day preference selected during booking flow. */
 export type BookingTimeWindow = 'morning' | 'afternoon' | 'evening';
 
 /** How the customer initiated the booking. */
-export type BookingSource = 'assistant' | 'schedule' | 'history' | 'manual';
+export type BookingSource = 'assistant' | 'schedule' | 'history' | 'manual' | 'inspection';
+
+/** Who triggered a booking status change — 'system' is webhooks and scheduled jobs. */
+export type BookingActor = 'customer' | 'technician' | 'admin' | 'system';
 
 export type JobStage =
   | 'dispatched'
@@ -49,7 +65,13 @@ export type NotificationType =
   | 'recall_detected'        // NHTSA found an active recall for this VIN
   | 'chat_message'           // new message from the other booking participant
   | 'new_job_offer'          // technician-facing: new pending booking available
-  | 'subscription_renewal';  // subscription period ending soon
+  | 'subscription_renewal'   // subscription period ending soon
+  | 'payment_failed'         // card hold or charge failed — customer must act
+  | 'refund_issued'          // admin or Stripe Dashboard refunded a booking payment
+  | 'change_order'           // technician proposed extra work / customer responded
+  | 'tip_received'           // technician-facing: customer tipped after completion
+  | 'running_late'           // technician's live ETA slipped past the promised arrival
+  | 'inspection_ready';      // technician shared a vehicle inspection report
 
 // ── SHARED EMBEDDED TYPES ──────────────────────────────────────────────────────
 
@@ -86,6 +108,19 @@ export interface User {
   createdAt: Date;
 }
 
+/**
+ * A card saved on the user's Stripe Customer.
+ * Not stored in Firestore — read from Stripe via GET /api/stripe/payment-methods.
+ */
+export interface SavedPaymentMethod {
+  paymentMethodId: string;             // Stripe pm_…
+  brand: string;                       // e.g. "visa"
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;                  // customer.invoice_settings.default_payment_method
+}
+
 export interface TechnicianUser extends User {
   role: 'technician';
   isAvailable: boolean;
@@ -93,6 +128,8 @@ export interface TechnicianUser extends User {
   currentJobId: string | null;         // null when idle
   rating: number | null;               // avg rating, updated on job complete
   totalJobsCompleted: number;
+  lastKnownLocation?: GeoPoint | null; // coarse (~1 km) end of last job — written by purgeJobTrack
+  lastKnownLocationAt?: Date | null;
 }
 
 // ── VEHICLE ────────────────────────────────────────────────────────────────────
@@ -120,6 +157,11 @@ export interface Vehicle {
   factoryScheduleLastFetchedAt?: Date | null;                 // TTL: re-generate after 30 days
   // ── Phase 2C: last completed service (denormalized for quick access) ──
   lastServiceSnapshot?: { serviceTitle: string; date: Date } | null;
+  // ── Mileage projection (see lib/maintenance/mileage.ts) ──
+  mileageUpdatedAt?: Date | null;                              // when `mileage` was last observed
+  mileageEstimate?: MileageEstimate | null;                    // written by recomputeVehicleHealth()
+  // ── Vehicle inspections (see lib/inspections/inspections.ts) ──
+  faultInspectionId?: string | null;                           // inspection whose red items set status FAULT
 }
 
 // ── SERVICE ────────────────────────────────────────────────────────────────────
@@ -132,6 +174,7 @@ export interface Service {
   durationMins: number;
   description: string;
   isActive: boolean;
+  maintenanceTypes?: MaintenanceServiceType[] | null;  // schedules this service satisfies; keyword-matched from name when unset
   createdAt: Date;
 }
 
@@ -143,6 +186,7 @@ export interface ServiceSnapshot {
   category: ServiceCategory;
   basePrice: number;                   // USD cents
   durationMins: number;
+  maintenanceTypes?: MaintenanceServiceType[] | null;  // copied from Service at booking creation
 }
 
 export interface VehicleSnapshot {
@@ -170,16 +214,156 @@ export interface Booking {
   flexDateEnd: Date | null;           // if customer provides a date range
   status: BookingStatus;
   address?: ServiceAddress | null;    // provided once technician is assigned (optional at creation)
-  totalPrice: number;                 // USD cents
+  totalPrice: number;                 // USD cents — always priceBreakdown.totalCents when present
+  priceBreakdown?: PriceBreakdown | null;  // server-computed by lib/bookings/pricing.ts
+  addOns?: BookingAddOn[];            // approved extra work, included in totalPrice
   stripePaymentIntentId: string | null;
+  supplementalPayments?: SupplementalPayment[];  // holds beside the main intent, captured at completion
+  // Authorization lifecycle — lib/stripe/bookingPayments.ts, lib/stripe/authorizationLifecycle.ts
+  paymentAuthStatus?: PaymentAuthStatus | null;  // null = not managed (legacy booking)
+  paymentAuthorizedAt?: Date | null;  // when the current hold was placed
+  paymentAuthFailedAt?: Date | null;  // set when the customer was told the hold failed
+  // Refunds, fees and disputes — lib/stripe/refunds.ts, lib/bookings/cancellationPolicy.ts
+  refunds?: BookingRefund[];          // every refund against the captured payment
+  amountRefundedCents?: number;       // pending + succeeded refunds
+  cancellationFee?: CancellationFee | null;  // set when a late cancellation was charged
+  dispute?: BookingDispute | null;    // latest chargeback on the payment
+  tip?: BookingTip | null;            // post-completion tip, charged separately
+  invoiceNumber?: string | null;      // set once invoices/{bookingId} is issued
   subscriptionId?: string | null;     // Wave 1: set if subscription discount applied
+  subscriptionDiscountCents?: number | null;  // amount the entitlement took off basePrice
   // Phase 2B — booking flow additions
   scheduledTimeWindow?: BookingTimeWindow | null;  // morning / afternoon / evening preference
   notes?: string | null;              // customer notes for the technician
   source?: BookingSource | null;      // how the booking was initiated
+  sourceInspection?: { inspectionId: string; itemId: string } | null;  // source 'inspection' — the finding it fixes
+  // Auto-dispatch — written server-side by lib/dispatch/autoDispatch.ts
+  dispatchOffer?: DispatchOffer | null;        // current time-boxed offer, null when none
+  dispatchExcludedTechIds?: string[];          // technicians who declined or let an offer lapse
+  // Audit trail — appended by lib/bookings/transitionBooking.ts on every status change
+  statusHistory?: BookingStatusChange[];
+  createdAt: Date;
+}
+
+/**
+ * How a booking's totalPrice was reached. All amounts USD cents.
+ * totalCents = baseCents − discountCents + addOnsCents + taxCents + feeCents.
+ */
+export interface PriceBreakdown {
+  baseCents: number;                  // serviceSnapshot.basePrice
+  discountCents: number;              // subscription entitlement discount
+  addOnsCents: number;                // sum of approved Booking.addOns
+  taxRate: number;                    // e.g. 0.06 — fixed at booking creation
+  taxCents: number;                   // on base − discount + add-ons
+  feeCents: number;                   // service fee, not taxed or discounted
+  totalCents: number;
+  computedAt: Date;
+}
+
+/** Extra work the customer approved after the booking was created. */
+export interface BookingAddOn {
+  label: string;                      // e.g. "Front brake pads"
+  amountCents: number;
+  approvedAt: Date;
+  changeOrderId?: string | null;      // bookings/{bookingId}/changeOrders/{id} it came from
+}
+
+/**
+ * A PaymentIntent authorized in addition to Booking.stripePaymentIntentId —
+ * a change order whose amount could not be added to the main hold, or a
+ * completion-time charge for a shortfall.
+ */
+export interface SupplementalPayment {
+  paymentIntentId: string;
+  amountCents: number;
+  changeOrderId: string | null;       // null for a completion shortfall charge
+}
+
+/** One line of a change order. amountCents = quantity × unitPriceCents. */
+export interface ChangeOrderItem {
+  kind: 'service' | 'part' | 'labor';
+  serviceId: string | null;           // services/{id} for kind 'service'
+  label: string;
+  quantity: number;
+  unitPriceCents: number;
+  amountCents: number;
+}
+
+/**
+ * Extra work a technician found on-site, awaiting the customer's decision.
+ * Stored in bookings/{bookingId}/changeOrders/{changeOrderId}; written only
+ * by lib/bookings/changeOrders.ts. Approved items become Booking.addOns.
+ */
+export interface ChangeOrder {
+  changeOrderId: string;
+  bookingId: string;
+  customerId: string;                 // denormalized for security rules
+  technicianId: string;               // denormalized for security rules
+  items: ChangeOrderItem[];
+  subtotalCents: number;              // sum of items, before tax
+  note: string | null;                // technician's explanation
+  status: ChangeOrderStatus;
+  proposedAt: Date;
+  respondedAt: Date | null;
+}
+
+/** One refund of a booking's captured payment, synced from Stripe. */
+export interface BookingRefund {
+  refundId: string;                   // Stripe re_…
+  amountCents: number;
+  reason: string | null;              // admin-entered reason; null for Dashboard refunds
+  status: RefundStatus;
+  refundedBy: string | null;          // admin users/{uid}; null for Dashboard refunds
   createdAt: Date;
 }
 
+/** Late-cancellation fee — see lib/bookings/cancellationPolicy.ts. */
+export interface CancellationFee {
+  amountCents: number;
+  hoursBeforeService: number;         // rounded down, at the moment of cancellation
+  status: 'pending' | 'charged' | 'failed';
+  chargedAt: Date | null;
+}
+
+/** A chargeback opened by the customer's bank (charge.dispute.* webhooks). */
+export interface BookingDispute {
+  disputeId: string;                  // Stripe dp_…
+  amountCents: number;
+  reason: string;                     // Stripe dispute reason, e.g. 'fraudulent'
+  status: string;                     // Stripe dispute status, e.g. 'needs_response'
+  createdAt: Date;
+}
+
+/** One entry in Booking.statusHistory. from is null for the creation entry. */
+export interface BookingStatusChange {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  actor: BookingActor;
+  actorId: string | null;             // users/{uid}; null for system actors
+  note: string | null;                // e.g. cancellation reason
+  at: Date;
+}
+
+/** A tip the customer added after completion — a separate off-session charge. */
+export interface BookingTip {
+  amountCents: number;
+  status: 'processing' | 'succeeded';
+  paymentIntentId: string | null;     // null while processing
+  createdAt: Date;
+}
+
+/**
+ * A pending booking offered exclusively to one technician until expiresAt.
+ * Other technicians cannot accept it while the offer is live; once it lapses
+ * the auto-dispatch sweep offers it to the next-best candidate.
+ */
+export interface DispatchOffer {
+  technicianId: string;
+  offeredAt: Date;
+  expiresAt: Date;
+  score: number;                      // 0–1 candidate score at offer time
+}
+
 // ── JOB ───────────────────────────────────────────────────────────────────────
 
 export interface JobStageRecord {
@@ -188,6 +372,60 @@ export interface JobStageRecord {
   note: string | null;
 }
 
+/**
+ * One quality-check item on a job. Definitions live in
+ * lib/jobs/qualityChecklist.ts; required items gate completion.
+ */
+export interface ChecklistItem {
+  itemId: string;
+  label: string;
+  required: boolean;
+  checked: boolean;
+  checkedAt: Date | null;
+}
+
+export type JobPhotoTag = 'before' | 'after';
+
+/** Photo taken on-site, stored in Firebase Storage at jobs/{jobId}/photos/. */
+export interface JobPhoto {
+  photoId: string;
+  url: string;                        // Storage download URL
+  storagePath: string;
+  tag: JobPhotoTag;
+  uploadedAt: Date;
+}
+
+/**
+ * One breadcrumb of the technician's drive, stored in
+ * jobs/{jobId}/track/{pointId} by lib/jobs/location.ts (server-throttled).
+ * Deleted when the booking completes or is cancelled.
+ */
+export interface JobTrackPoint {
+  pointId: string;
+  lat: number;
+  lng: number;
+  accuracyMeters: number | null;
+  stage: JobStage;
+  recordedAt: Date;
+}
+
+/** 'google' = Directions API; 'estimate' = straight line at an average speed. */
+export type JobRouteSource = 'google' | 'estimate';
+
+/**
+ * Technician → service address route stored on the job by
+ * lib/jobs/eta.ts. Viewers draw `polyline`; they never call a routing API.
+ */
+export interface JobRoute {
+  polyline: string;                   // encoded polyline, simplified
+  source: JobRouteSource;
+  origin: GeoPoint;                   // technician position it was computed from
+  destination: GeoPoint;              // booking.address lat/lng
+  distanceMeters: number;
+  durationSeconds: number;
+  computedAt: Date;
+}
+
 export interface Job {
   jobId: string;
   bookingId: string;
@@ -196,11 +434,66 @@ export interface Job {
   stages: JobStageRecord[];
   currentStage: JobStage;
   techLocation: TechLocation | null;  // null until technician departs
+  route: JobRoute | null;             // written server-side on each location update
+  etaMinutes: number | null;          // minutes to the service address; null off the road
+  etaUpdatedAt: Date | null;
+  promisedArrivalAt: Date | null;     // set by the first ETA; "running late" is measured against it
+  checklist: ChecklistItem[] | null;  // null until the technician first ticks an item
+  photos: JobPhoto[];
+  partsUsed: PartRecord[];
   notes: string | null;
   startedAt: Date | null;
   completedAt: Date | null;
 }
 
+// ── VEHICLE INSPECTION ────────────────────────────────────────────────────────
+
+/** Traffic-light rating of one inspected component. */
+export type InspectionRating = 'green' | 'yellow' | 'red';
+
+/** 'draft' while the technician fills it in; 'shared' once the customer can see it. */
+export type InspectionStatus = 'draft' | 'shared';
+
+/** Catalog service the technician recommends for a yellow or red item. */
+export interface InspectionRecommendation {
+  serviceId: string;
+  name: string;
+  basePrice: number;                   // cents, at the time of the inspection
+}
+
+export interface InspectionItem {
+  itemId: string;                      // stable ID from lib/inspections/template.ts
+  section: string;                     // e.g. "Brakes & Tires"
+  label: string;
+  rating: InspectionRating | null;     // null = not inspected
+  note: string | null;
+  photoUrl: string | null;             // Storage download URL
+  photoStoragePath: string | null;     // jobs/{jobId}/inspection/{file}
+  recommendedService: InspectionRecommendation | null;  // yellow / red only
+  followUpBookingId: string | null;    // set when the customer books the recommendation
+}
+
+/**
+ * Digital vehicle inspection filled in by the technician during a job.
+ * Stored in inspections/{jobId} — one per job, so inspectionId === jobId.
+ * Written server-side only (lib/inspections/inspections.ts).
+ */
+export interface VehicleInspection {
+  inspectionId: string;
+  jobId: string;
+  bookingId: string;
+  vehicleId: string;
+  customerId: string;
+  technicianId: string;
+  status: InspectionStatus;
+  items: InspectionItem[];
+  redCount: number;
+  yellowCount: number;
+  sharedAt: Date | null;               // first shared with the customer
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // ── SERVICE HISTORY ───────────────────────────────────────────────────────────
 
 /** Single part used during a service job — stored inside ServiceHistoryRecord. */
@@ -242,6 +535,96 @@ export interface ServiceHistoryRecord {
   serviceTitle?: string | null;        // human-readable name, e.g. "Oil Change"
   source?: 'booking' | 'manual' | null; // origin of the record
   completedAt?: Date | null;           // actual completion timestamp
+  refundedCents?: number | null;       // refunded after completion — net cost is cost − refundedCents
+  addOns?: BookingAddOn[];             // approved change-order work, included in cost
+  photos?: { url: string; tag: JobPhotoTag }[];        // tagged versions of photoUrls
+  checklist?: { label: string; checked: boolean }[];   // quality check as completed on-site
+}
+
+// ── INVOICES ──────────────────────────────────────────────────────────────────
+
+export type InvoiceLineKind = 'service' | 'part' | 'labor' | 'add_on' | 'discount' | 'tax' | 'fee';
+
+export interface InvoiceLine {
+  kind: InvoiceLineKind;
+  description: string;
+  quantity: number;
+  unitCents: number;
+  amountCents: number;                // negative for discounts
+}
+
+/**
+ * Itemized receipt for a completed booking. Stored in invoices/{bookingId} —
+ * one per booking, re-issued (same number) when a tip or refund changes what
+ * was paid. Written only by lib/invoices/invoices.ts.
+ */
+export interface Invoice {
+  invoiceNumber: string;              // e.g. "RD-20250114-AB12CD"
+  bookingId: string;
+  customerId: string;
+  issuedAt: Date;                     // first issue; unchanged on re-issue
+  serviceDate: Date;
+  billTo: { name: string; email: string };
+  serviceAddress: string | null;
+  vehicle: { year: number; make: string; model: string; vin: string; mileageAtService: number | null };
+  technicianName: string | null;
+  lines: InvoiceLine[];
+  parts: PartRecord[];                // from serviceHistory partsUsed; priced within the lines
+  subtotalCents: number;              // service + add-ons − discount
+  taxCents: number;
+  feeCents: number;
+  totalCents: number;                 // booking total
+  tipCents: number;
+  amountPaidCents: number;            // captured for the service, plus the tip
+  refundedCents: number;
+  paymentMethod: string | null;       // e.g. "Visa •••• 4242"
+  updatedAt: Date;
+}
+
+// ── TECHNICIAN EARNINGS ───────────────────────────────────────────────────────
+
+/** 'service' = revenue share at capture; 'adjustment' = admin credit or debit. */
+export type EarningType = 'service' | 'tip' | 'adjustment';
+
+export type PayoutStatus = 'open' | 'paid';
+
+/**
+ * One line of a technician's earnings ledger. Stored in
+ * technicianEarnings/{entryId}; service and tip entries are keyed
+ * `${bookingId}_${type}` so a retried capture never pays twice.
+ * Written only by lib/payouts/ledger.ts.
+ */
+export interface EarningEntry {
+  entryId: string;
+  technicianId: string;
+  bookingId: string | null;           // null for adjustments not tied to a job
+  type: EarningType;
+  amountCents: number;                // negative for debit adjustments
+  description: string;
+  periodId: string;                   // payoutPeriods/{periodId}
+  createdBy: string | null;           // admin users/{uid} for adjustments; null otherwise
+  createdAt: Date;
+}
+
+/**
+ * A technician's weekly payout period (Monday 00:00 UTC to the next Monday).
+ * Stored in payoutPeriods/{technicianId}_{YYYY-MM-DD}; totals are kept in
+ * step with the ledger entries written into it.
+ */
+export interface PayoutPeriod {
+  periodId: string;
+  technicianId: string;
+  periodStart: Date;
+  periodEnd: Date;                    // exclusive
+  totalCents: number;
+  serviceCents: number;
+  tipCents: number;
+  adjustmentCents: number;
+  entryCount: number;
+  status: PayoutStatus;
+  paidAt: Date | null;
+  paidBy: string | null;              // admin users/{uid}
+  payoutReference: string | null;     // e.g. bank transfer ID; a Stripe Connect transfer later
 }
 
 // ── NOTIFICATION ──────────────────────────────────────────────────────────────
@@ -314,6 +697,13 @@ export const VEHICLE_STATUS_STYLES: Record<VehicleStatus, { bg: string; text: st
   FAULT:       { bg: 'bg-status-fault/20',       text: 'text-status-fault',       label: 'FAULT' },
 };
 
+/** Maps InspectionRating to Tailwind color classes — technician labels read as urgency */
+export const INSPECTION_RATING_STYLES: Record<InspectionRating, { label: string; active: string; text: string; dot: string }> = {
+  green:  { label: 'Good', active: 'bg-status-optimal text-surface-base',    text: 'text-status-optimal',    dot: 'bg-status-optimal' },
+  yellow: { label: 'Soon', active: 'bg-status-serviceDue text-surface-base', text: 'text-status-serviceDue', dot: 'bg-status-serviceDue' },
+  red:    { label: 'Now',  active: 'bg-status-fault text-white',             text: 'text-status-fault',      dot: 'bg-status-fault' },
+};
+
 /** Ordered stages for job progress display */
 export const JOB_STAGE_ORDER: JobStage[] = [
   'dispatched',
@@ -438,7 +828,7 @@ export interface SubscriptionEntitlement {
 /**
  * Admin-managed subscription plan catalog.
  * Stored in subscriptionPlans/{planId}.
- * Stripe fields are null in MVP — reserved for future payment wiring.
+ * Stripe Product/Price are created on first enrollment (lib/stripe/subscriptions.ts).
  */
 export interface SubscriptionPlan {
   planId: string;
@@ -448,8 +838,8 @@ export interface SubscriptionPlan {
   period: SubscriptionPeriod;
   entitlements: SubscriptionEntitlement[];
   isActive: boolean;
-  stripeProductId: string | null;      // reserved — not yet wired
-  stripePriceId: string | null;        // reserved — not yet wired
+  stripeProductId: string | null;      // null until first enrollment
+  stripePriceId: string | null;        // null until first enrollment
   createdAt: Date;
 }
 
@@ -457,6 +847,8 @@ export interface SubscriptionPlan {
 export interface SubscriptionUsageRecord {
   bookingId: string;
   serviceId: string;
+  serviceCategory?: ServiceCategory | null;   // of the booked service
+  entitlementServiceId?: string | null;       // entitlement redeemed — null = category-wide
   usedAt: Date;
 }
 
@@ -471,14 +863,28 @@ export interface CustomerSubscription {
   planId: string;
   vehicleId: string;                   // plan is scoped to a specific vehicle
   status: SubscriptionStatus;
+  billingAnchor?: Date | null;         // enrollment date — period ends are counted from it (null on legacy docs)
   currentPeriodStart: Date;
   currentPeriodEnd: Date;
   usageThisPeriod: SubscriptionUsageRecord[];
-  stripeSubscriptionId: string | null; // reserved — not yet wired
+  stripeSubscriptionId: string | null; // null only while enrollment is in flight
+  renewalReminderSentAt?: Date | null; // null = not sent this period; reset on rollover
   createdAt: Date;
   cancelledAt: Date | null;
 }
 
+/**
+ * A closed billing period, archived on rollover.
+ * Stored in subscriptions/{subscriptionId}/periods/{YYYY-MM-DD of periodStart}.
+ */
+export interface SubscriptionPeriodRecord {
+  planId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  usage: SubscriptionUsageRecord[];
+  archivedAt: Date;
+}
+
 // ── SERVICE CHAT ──────────────────────────────────────────────────────────────
 
 /** Why a chat thread is locked (used to show appropriate UI messaging). */
@@ -506,7 +912,8 @@ export interface ChatMessage {
   senderId: string;
   senderRole: 'customer' | 'technician';
   body: string;
-  type: 'text' | 'system';            // 'system' = automated status-change messages
+  type: 'text' | 'system' | 'change_order';  // 'system' = automated status-change messages
+  changeOrderId?: string | null;       // set on 'change_order' messages
   readBy: string[];                    // uids that have seen this message
 
   // Denormalized from parent booking for rule-level efficiency
@@ -561,6 +968,21 @@ export type HealthAlertLevel = 'none' | 'soon' | 'overdue';
 
 export type ServiceUrgency = 'routine' | 'soon' | 'overdue';
 
+export type MileageConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Learned driving rate for a vehicle. Embedded on vehicles/{vehicleId}.mileageEstimate.
+ * Project with lib/maintenance/mileage.ts → projectMileage(estimate, date).
+ */
+export interface MileageEstimate {
+  baseMileage: number;                 // highest observed odometer reading
+  baseDate: Date;                      // when baseMileage was observed
+  dailyMiles: number;                  // learned average, or the national default
+  confidence: MileageConfidence;       // low = default rate, too little history
+  sampleCount: number;                 // observations used for the fit
+  computedAt: Date;
+}
+
 /**
  * Forward-looking forecast for a single upcoming maintenance item.
  * Negative daysUntilDue or milesUntilDue means the service is already overdue.
@@ -573,6 +995,8 @@ export interface UpcomingServiceForecast {
   nextDueMileage: number | null;
   daysUntilDue: number | null;         // negative = overdue
   milesUntilDue: number | null;        // negative = overdue
+  projectedDueDate: Date | null;       // earlier of nextDueDate and the date nextDueMileage is projected to be hit
+  confidence: MileageConfidence | null; // of projectedDueDate — 'high' when it comes from nextDueDate
   estimatedCostCents: number | null;
   urgency: ServiceUrgency;
 }
@@ -594,9 +1018,20 @@ export interface VehicleHealthSnapshot {
   upcomingServices: UpcomingServiceForecast[];
   costForecastCentsMonthly: number | null;       // rough monthly spend forecast
   estimatedResaleValueBoostCents: number | null; // informational placeholder
+  inspectionFindings?: InspectionFinding[];      // red items from the latest shared inspection
   updatedAt: Date;
 }
 
+/** A red item from a vehicle inspection, carried on VehicleHealthSnapshot. */
+export interface InspectionFinding {
+  inspectionId: string;
+  itemId: string;
+  label: string;
+  note: string | null;
+  recommendedService: InspectionRecommendation | null;
+  inspectedAt: Date;
+}
+
 // ── VEHICLE INTELLIGENCE / METADATA ──────────────────────────────────────────
 
 /** One item from the OEM factory maintenance schedule. */